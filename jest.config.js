@@ -63,7 +63,9 @@ const customJestConfig = {
     '^@/(.*)$': '<rootDir>/heartvoice-monitor/src/$1',
     '^@/components/(.*)$': '<rootDir>/heartvoice-monitor/src/components/$1',
     '^@/services/(.*)$': '<rootDir>/heartvoice-monitor/src/services/$1',
-    '^@/types/(.*)$': '<rootDir>/heartvoice-monitor/src/types/$1'
+    '^@/types/(.*)$': '<rootDir>/heartvoice-monitor/src/types/$1',
+    // mpg123-decoder ships ES modules only; its UMD build loads under Jest's CommonJS runtime
+    '^mpg123-decoder$': '<rootDir>/node_modules/mpg123-decoder/dist/mpg123-decoder.min.js'
   },
   
   // Transform configuration
@@ -0,0 +1,93 @@
+// HeartVoice Monitor - Backtesting Command
+// Replays historical assessments through a scoring policy or model and reports the change against production
+//
+// Usage:
+//   npx tsx scripts/backtest.ts <dataset.json> --policy <version or policy.json> [--from <date>] [--to <date>] [--csv out.csv]
+//   npx tsx scripts/backtest.ts <dataset.json> --model <model.json> --threshold 0.2 [--from <date>] [--to <date>] [--csv out.csv]
+//
+// The dataset is { "assessments": VoiceAssessment[], "patients"?: Patient[], "outcomes"?: ClinicalOutcome[] }.
+// With outcomes, sensitivity and PPV are reported for production and the candidate.
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { ClinicalOutcome, Patient, VoiceAssessment } from '../src/types/clinical';
+import { BacktestCandidate, backtestToCsv, runBacktest } from '../src/services/backtest-service';
+import { loadRiskModel } from '../src/services/risk-model';
+import { ScoringPolicyError, scoringPolicyRegistry } from '../src/services/scoring-policy';
+
+function argument(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function percent(value: number | null | undefined): string {
+  return value === null || value === undefined ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function main(args: string[]): void {
+  const datasetPath = args[0];
+  if (!datasetPath || datasetPath.startsWith('--')) {
+    fail('Usage: backtest <dataset.json> (--policy <version|file> | --model <file> --threshold <p>) [--from date] [--to date] [--csv file]');
+  }
+
+  const dataset = JSON.parse(readFileSync(datasetPath, 'utf8')) as {
+    assessments: VoiceAssessment[];
+    patients?: Patient[];
+    outcomes?: ClinicalOutcome[];
+  };
+
+  // Policies are looked up by version among the built-in and SCORING_POLICY_DIR policies, or read from a file
+  let candidate: BacktestCandidate;
+  const policyArgument = argument(args, '--policy');
+  const modelArgument = argument(args, '--model');
+  if (policyArgument) {
+    const policy = existsSync(policyArgument)
+      ? JSON.parse(readFileSync(policyArgument, 'utf8'))
+      : scoringPolicyRegistry.get(policyArgument);
+    if (!policy) fail(`Unknown scoring policy ${policyArgument}`);
+    candidate = { kind: 'policy', policy };
+  } else if (modelArgument) {
+    const threshold = Number(argument(args, '--threshold'));
+    if (!(threshold > 0 && threshold < 1)) fail('--threshold must be a probability between 0 and 1');
+    candidate = { kind: 'model', model: loadRiskModel(modelArgument), threshold };
+  } else {
+    fail('Either --policy or --model is required');
+  }
+
+  let result;
+  try {
+    result = runBacktest(dataset.assessments, candidate, {
+      from: argument(args, '--from'),
+      to: argument(args, '--to'),
+      patients: dataset.patients,
+      outcomes: dataset.outcomes
+    });
+  } catch (error) {
+    if (error instanceof ScoringPolicyError) fail(`${error.message}:\n  ${error.errors.join('\n  ')}`);
+    throw error;
+  }
+
+  console.log(`Backtest of ${result.candidate.kind} ${result.candidate.version} over ${result.assessments} assessments`);
+  console.log(`Alerts: ${result.productionAlerts} in production, ${result.candidateAlerts} with the candidate (${result.alertCountChange >= 0 ? '+' : ''}${result.alertCountChange})`);
+  for (const change of result.levelChanges) {
+    console.log(`  ${change.patientId}: ${change.assessments} assessment(s) at a different level, latest ${change.productionLevel} -> ${change.candidateLevel}`);
+  }
+  if (result.performance) {
+    const { events, production, candidate: challenger } = result.performance;
+    console.log(`Outcomes: ${events} assessment(s) followed by an event`);
+    console.log(`  Production sensitivity ${percent(production.sensitivity)}, PPV ${percent(production.ppv)}`);
+    console.log(`  Candidate  sensitivity ${percent(challenger.sensitivity)}, PPV ${percent(challenger.ppv)}`);
+  }
+
+  const csvPath = argument(args, '--csv');
+  if (csvPath) {
+    writeFileSync(csvPath, backtestToCsv(result));
+    console.log(`Rows written to ${csvPath}`);
+  }
+}
+
+main(process.argv.slice(2));
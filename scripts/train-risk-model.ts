@@ -0,0 +1,58 @@
+// HeartVoice Monitor - Risk Model Training
+// Fits the 14-day outcome model from labeled assessments and prints its metrics report
+//
+// Usage:
+//   npx tsx scripts/train-risk-model.ts <dataset.json> [--out risk-model.json] [--report report.json]
+//     [--calibration platt|isotonic] [--version <version>] [--horizon-days 14]
+//
+// The dataset is { "assessments": VoiceAssessment[], "outcomes": ClinicalOutcome[] } exported from the
+// clinical record. Training is deterministic: the same dataset and options always write the same model.
+// Point RISK_MODEL_PATH at the written model to score new assessments with it, or POST it to
+// /api/scoring-models to run it in shadow first.
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { ClinicalOutcome, VoiceAssessment } from '../src/types/clinical';
+import { RiskModelTrainer, formatMetricsReport, labelAssessments } from '../src/services/risk-model';
+
+function argument(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function main(args: string[]): void {
+  const datasetPath = args[0];
+  if (!datasetPath || datasetPath.startsWith('--')) {
+    console.error('Usage: train-risk-model <dataset.json> [--out file] [--report file] [--calibration platt|isotonic] [--version v] [--horizon-days n]');
+    process.exit(1);
+  }
+
+  const calibration = argument(args, '--calibration') ?? 'platt';
+  if (calibration !== 'platt' && calibration !== 'isotonic') {
+    console.error(`Unknown calibration method ${calibration}`);
+    process.exit(1);
+  }
+
+  const raw = readFileSync(datasetPath, 'utf8');
+  const dataset = JSON.parse(raw) as { assessments: VoiceAssessment[]; outcomes: ClinicalOutcome[] };
+  const horizonDays = Number(argument(args, '--horizon-days') ?? 14);
+
+  // Without an explicit version the model is named after its training data
+  const version = argument(args, '--version') ?? `data-${createHash('sha256').update(raw).digest('hex').slice(0, 12)}`;
+
+  const examples = labelAssessments(dataset.assessments, dataset.outcomes, horizonDays);
+  const { model, report } = new RiskModelTrainer({ calibration, horizonDays }).train(examples, version);
+
+  const out = argument(args, '--out') ?? 'risk-model.json';
+  writeFileSync(out, `${JSON.stringify(model, null, 2)}\n`);
+
+  const reportPath = argument(args, '--report');
+  if (reportPath) {
+    writeFileSync(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  console.log(formatMetricsReport(model, report));
+  console.log(`\nModel written to ${out}`);
+}
+
+main(process.argv.slice(2));
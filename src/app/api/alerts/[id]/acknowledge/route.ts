@@ -0,0 +1,53 @@
+// HeartVoice Monitor - Clinical Alert Acknowledge API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { AlertTransitionError, AlertUpdate } from '@/services/alert-service';
+import { alertService } from '@/services/shared-services';
+
+// Moves an active alert to acknowledged, recording who reviewed it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    let body: AlertUpdate;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+    const { by, action, notes } = body ?? {};
+
+    if (typeof by !== 'string' || !by.trim()) {
+      return NextResponse.json(
+        { error: 'by is required' },
+        { status: 400 }
+      );
+    }
+
+    const alert = await alertService.acknowledge(id, { by, action, notes });
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ alert }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AlertTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('Error acknowledging alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to acknowledge alert' },
+      { status: 500 }
+    );
+  }
+}
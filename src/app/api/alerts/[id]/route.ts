@@ -0,0 +1,28 @@
+// HeartVoice Monitor - Clinical Alert Detail API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { alertService } from '@/services/shared-services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const alert = await alertService.getAlertById(id);
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ alert }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert' },
+      { status: 500 }
+    );
+  }
+}
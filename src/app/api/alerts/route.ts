@@ -0,0 +1,34 @@
+// HeartVoice Monitor - Clinical Alerts API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { alertService } from '@/services/shared-services';
+import { ClinicalAlert } from '@/types/clinical';
+
+const STATUSES: ClinicalAlert['status'][] = ['active', 'acknowledged', 'resolved'];
+
+// Newest first; optional status and patientId query parameters
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const patientId = searchParams.get('patientId');
+
+    if (status && !STATUSES.includes(status as ClinicalAlert['status'])) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const alerts = await alertService.getAlerts({
+      status: (status as ClinicalAlert['status']) || undefined,
+      patientId: patientId || undefined
+    });
+    return NextResponse.json({ alerts }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alerts' },
+      { status: 500 }
+    );
+  }
+}
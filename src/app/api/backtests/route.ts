@@ -0,0 +1,82 @@
+// HeartVoice Monitor - Backtesting API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { BacktestCandidate, backtestToCsv, runBacktest } from '@/services/backtest-service';
+import { patientService, scoringModelRegistry } from '@/services/shared-services';
+import { ScoringPolicyError } from '@/services/scoring-policy';
+
+// Re-scores stored assessments with a registered policy or model and compares the result with
+// production. Query: kind (policy or model), version, from, to, threshold (models), format=csv.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind') || 'policy';
+    const version = searchParams.get('version');
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+
+    if (!version || (kind !== 'policy' && kind !== 'model')) {
+      return NextResponse.json(
+        { error: 'kind must be policy or model, and version is required' },
+        { status: 400 }
+      );
+    }
+    if ((from && isNaN(new Date(from).getTime())) || (to && isNaN(new Date(to).getTime()))) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates' },
+        { status: 400 }
+      );
+    }
+
+    let candidate: BacktestCandidate;
+    if (kind === 'policy') {
+      const policy = scoringModelRegistry.getPolicy(version);
+      if (!policy) {
+        return NextResponse.json({ error: 'Scoring policy not found' }, { status: 404 });
+      }
+      candidate = { kind, policy };
+    } else {
+      const model = scoringModelRegistry.getModel(version);
+      const threshold = Number(searchParams.get('threshold'));
+      if (!model) {
+        return NextResponse.json({ error: 'Risk model not found' }, { status: 404 });
+      }
+      if (!searchParams.get('threshold') || !(threshold > 0 && threshold < 1)) {
+        return NextResponse.json(
+          { error: 'A model backtest needs an alert threshold between 0 and 1' },
+          { status: 400 }
+        );
+      }
+      candidate = { kind, model, threshold };
+    }
+
+    const result = runBacktest(await patientService.getAllAssessments({ to }), candidate, {
+      from,
+      to,
+      patients: await patientService.getAllPatients(),
+      outcomes: await patientService.getOutcomes()
+    });
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(backtestToCsv(result), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="backtest-${kind}-${version}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({ backtest: result }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ScoringPolicyError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error running backtest:', error);
+    return NextResponse.json(
+      { error: 'Failed to run backtest' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,9 @@
 // HeartVoice Monitor - Dashboard API Route
 import { NextRequest, NextResponse } from 'next/server';
-import { PatientService } from '@/services/patient-service';
-import { PatientDashboard, ClinicalAlert } from '@/types/clinical';
+import { alertService, patientService } from '@/services/shared-services';
+import { PatientDashboard } from '@/types/clinical';
 
-const patientService = new PatientService();
+const RECENT_ASSESSMENT_LIMIT = 10;
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,93 +14,16 @@ export async function GET(request: NextRequest) {
     // Get dashboard metrics
     const metrics = await patientService.getDashboardMetrics();
     
-    // Mock recent assessments and alerts for development
-    const mockRecentAssessments = [
-      {
-        id: 'assessment-001',
-        patientId: 'patient-001',
-        sessionId: 'session-001',
-        timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-        callDuration: 185,
-        callStatus: 'completed' as const,
-        biomarkers: {
-          jitter: 2.1,
-          shimmer: 6.2,
-          hnr: 9.5,
-          f0: 145.2,
-          spectralSlope: -8.7,
-          voiceIntensity: 48.3
-        },
-        qualityMetrics: {
-          audioQuality: 87,
-          backgroundNoise: 12,
-          completeness: 95
-        },
-        riskScore: 87,
-        alertGenerated: true
-      },
-      {
-        id: 'assessment-002',
-        patientId: 'patient-002',
-        sessionId: 'session-002',
-        timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(), // 4 hours ago
-        callDuration: 203,
-        callStatus: 'completed' as const,
-        biomarkers: {
-          jitter: 1.8,
-          shimmer: 5.9,
-          hnr: 11.2,
-          f0: 152.1,
-          spectralSlope: -9.2,
-          voiceIntensity: 52.1
-        },
-        qualityMetrics: {
-          audioQuality: 92,
-          backgroundNoise: 8,
-          completeness: 98
-        },
-        riskScore: 82,
-        alertGenerated: true
-      }
-    ];
+    // The latest stored calls across all patients
+    const recentAssessments = await patientService.getRecentAssessments(RECENT_ASSESSMENT_LIMIT);
 
-    const mockCriticalAlerts: ClinicalAlert[] = [
-      {
-        id: 'alert-001',
-        patientId: 'patient-001',
-        assessmentId: 'assessment-001',
-        type: 'critical',
-        priority: 'immediate',
-        message: 'Critical risk score increase detected',
-        detailedDescription: 'Patient John Martinez shows significant deterioration in voice biomarkers with risk score of 87. Immediate clinical attention recommended.',
-        createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-        status: 'active',
-        escalationLevel: 2,
-        requiredActions: [
-          'Contact patient immediately',
-          'Schedule urgent clinical assessment',
-          'Review medication compliance',
-          'Consider hospitalization if symptoms worsen'
-        ]
-      },
-      {
-        id: 'alert-002',
-        patientId: 'patient-002',
-        assessmentId: 'assessment-002',
-        type: 'critical',
-        priority: 'urgent',
-        message: 'Sustained high risk score',
-        detailedDescription: 'Patient Katherine Thompson maintains critical risk level. Clinical review needed within 2 hours.',
-        createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
-        status: 'active',
-        escalationLevel: 1,
-        requiredActions: [
-          'Clinical assessment within 2 hours',
-          'Verify emergency contact information',
-          'Review current medications'
-        ]
-      }
-    ];
+    // Open alerts: active ones still need acknowledging, acknowledged ones resolving
+    const openAlerts = await alertService.getOpenAlerts();
+
+    // Alerts raised since local midnight, whatever their status now
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const alertsToday = await alertService.getAlerts({ since: startOfDay.toISOString() });
 
     // Build dashboard response
     const dashboard: PatientDashboard = {
@@ -111,10 +34,10 @@ export async function GET(request: NextRequest) {
         callsScheduled: 180,
         successRate: 87,
         avgRiskScore: metrics.avgRiskScore,
-        alertsGenerated: 8
+        alertsGenerated: alertsToday.length
       },
-      criticalAlerts: mockCriticalAlerts,
-      recentAssessments: mockRecentAssessments
+      criticalAlerts: openAlerts,
+      recentAssessments
     };
 
     return NextResponse.json({
@@ -0,0 +1,33 @@
+// HeartVoice Monitor - Model Performance Monitoring API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { modelMonitors, patientService } from '@/services/shared-services';
+
+// Rolling accuracy of the rule-based score (source=policy), or accuracy and calibration of the outcome
+// model (source=model), with the drift alerts raised by the scheduled checks
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const source = searchParams.get('source') || 'policy';
+    if (source !== 'policy' && source !== 'model') {
+      return NextResponse.json(
+        { error: 'source must be policy or model' },
+        { status: 400 }
+      );
+    }
+
+    const monitor = modelMonitors[source];
+    const report = monitor.evaluate(
+      await patientService.getAllAssessments(),
+      await patientService.getOutcomes(),
+      await patientService.getAllPatients()
+    );
+
+    return NextResponse.json({ report, systemAlerts: monitor.getSystemAlerts() }, { status: 200 });
+  } catch (error) {
+    console.error('Error computing model monitoring:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute model monitoring' },
+      { status: 500 }
+    );
+  }
+}
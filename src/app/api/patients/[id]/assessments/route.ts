@@ -0,0 +1,82 @@
+// HeartVoice Monitor - Patient Assessment History API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { patientService } from '@/services/shared-services';
+import { RiskLevel, VoiceAssessment } from '@/types/clinical';
+
+const CALL_STATUSES: VoiceAssessment['callStatus'][] = ['completed', 'partial', 'failed', 'no-answer'];
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function isValidDate(value: string | null): boolean {
+  return value === null || !isNaN(new Date(value).getTime());
+}
+
+// Newest first; query parameters from, to, callStatus, riskLevel, limit and offset
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const callStatus = searchParams.get('callStatus');
+    const riskLevel = searchParams.get('riskLevel');
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+    const offset = Number(searchParams.get('offset') ?? 0);
+
+    if (!isValidDate(from) || !isValidDate(to)) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates' },
+        { status: 400 }
+      );
+    }
+    if (callStatus && !CALL_STATUSES.includes(callStatus as VoiceAssessment['callStatus'])) {
+      return NextResponse.json(
+        { error: `callStatus must be one of ${CALL_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (riskLevel && !RISK_LEVELS.includes(riskLevel as RiskLevel)) {
+      return NextResponse.json(
+        { error: `riskLevel must be one of ${RISK_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_LIMIT} and offset a non-negative integer` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await patientService.getPatientById(id))) {
+      return NextResponse.json(
+        { error: 'Patient not found' },
+        { status: 404 }
+      );
+    }
+
+    const page = await patientService.getAssessmentPage(
+      id,
+      {
+        from: from || undefined,
+        to: to || undefined,
+        callStatus: (callStatus as VoiceAssessment['callStatus']) || undefined,
+        riskLevel: (riskLevel as RiskLevel) || undefined
+      },
+      limit,
+      offset
+    );
+
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching assessments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch assessments' },
+      { status: 500 }
+    );
+  }
+}
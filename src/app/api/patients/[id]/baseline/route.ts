@@ -0,0 +1,66 @@
+// HeartVoice Monitor - Patient Baseline API Routes
+import { NextRequest, NextResponse } from 'next/server';
+import { patientService } from '@/services/shared-services';
+import { PatientVersionConflictError } from '@/services/patient-service';
+import { conflictResponse, etagFor, readIfMatch } from '../preconditions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const patient = await patientService.getPatientById(id);
+
+    if (!patient) {
+      return NextResponse.json(
+        { error: 'Patient not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ baseline: patient.baseline ?? null }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching baseline:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch baseline' },
+      { status: 500 }
+    );
+  }
+}
+
+// Discards the current baseline; the next good-quality assessments build a new one.
+// Like other writes to the patient, it needs If-Match with the ETag from GET /api/patients/[id].
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const precondition = readIfMatch(request);
+    if (precondition instanceof NextResponse) return precondition;
+
+    const patient = await patientService.resetBaseline(id, precondition.version);
+
+    if (!patient) {
+      return NextResponse.json(
+        { error: 'Patient not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { baseline: patient.baseline, patient },
+      { status: 200, headers: { ETag: etagFor(patient) } }
+    );
+  } catch (error) {
+    if (error instanceof PatientVersionConflictError) {
+      return conflictResponse(error.current);
+    }
+    console.error('Error resetting baseline:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset baseline' },
+      { status: 500 }
+    );
+  }
+}
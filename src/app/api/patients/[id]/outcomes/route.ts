@@ -0,0 +1,77 @@
+// HeartVoice Monitor - Patient Outcome API Routes
+import { NextRequest, NextResponse } from 'next/server';
+import { patientService } from '@/services/shared-services';
+import { ClinicalOutcome } from '@/types/clinical';
+
+const OUTCOME_TYPES: ClinicalOutcome['type'][] = ['hf-hospitalization', 'ed-visit'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!(await patientService.getPatientById(id))) {
+      return NextResponse.json(
+        { error: 'Patient not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ outcomes: await patientService.getOutcomes(id) }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching outcomes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch outcomes' },
+      { status: 500 }
+    );
+  }
+}
+
+// Records an HF hospitalization or ED visit for outcome labeling and alert performance
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    let body: Partial<ClinicalOutcome>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'An outcome must be an object with type and date' },
+        { status: 400 }
+      );
+    }
+
+    if (!OUTCOME_TYPES.includes(body.type!) || !body.date || isNaN(new Date(body.date).getTime())) {
+      return NextResponse.json(
+        { error: `type must be one of ${OUTCOME_TYPES.join(', ')} and date a valid date` },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await patientService.recordOutcome({ patientId: id, type: body.type!, date: body.date });
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'Patient not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ outcome }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording outcome:', error);
+    return NextResponse.json(
+      { error: 'Failed to record outcome' },
+      { status: 500 }
+    );
+  }
+}
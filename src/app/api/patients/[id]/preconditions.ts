@@ -0,0 +1,38 @@
+// HeartVoice Monitor - Patient Write Preconditions
+// ETags and If-Match handling shared by the routes that change a patient record
+import { NextRequest, NextResponse } from 'next/server';
+import { Patient } from '@/types/clinical';
+
+// Strong ETag from the version the service bumps on every save
+export function etagFor(patient: Patient): string {
+  return `"${patient.version ?? 0}"`;
+}
+
+// Writes name the version they were based on: the ETag from GET, or * to overwrite whatever is there
+export function readIfMatch(request: NextRequest): { version?: number } | NextResponse {
+  const header = request.headers.get('if-match')?.trim();
+  if (!header) {
+    return NextResponse.json(
+      { error: 'If-Match is required: send the ETag from GET /api/patients/[id]' },
+      { status: 428 }
+    );
+  }
+  if (header === '*') return {};
+
+  const match = /^"(\d+)"$/.exec(header);
+  if (!match) {
+    return NextResponse.json(
+      { error: 'If-Match must be a single ETag from GET /api/patients/[id]' },
+      { status: 400 }
+    );
+  }
+  return { version: Number(match[1]) };
+}
+
+// The client's copy is stale: return the current one so it can reconcile and retry
+export function conflictResponse(current: Patient) {
+  return NextResponse.json(
+    { error: 'Patient has been changed by someone else since it was loaded', patient: current },
+    { status: 412, headers: { ETag: etagFor(current) } }
+  );
+}
@@ -1,9 +1,39 @@
 // HeartVoice Monitor - Individual Patient API Routes
 import { NextRequest, NextResponse } from 'next/server';
-import { PatientService } from '@/services/patient-service';
-import { UpdatePatientRequest } from '@/types/clinical';
+import { patientService } from '@/services/shared-services';
+import { JsonPatchOperation, PatientPatch, PatientPatchError } from '@/services/patient-patch';
+import { PatientVersionConflictError } from '@/services/patient-service';
+import { conflictResponse, etagFor, readIfMatch } from './preconditions';
 
-const patientService = new PatientService();
+// A body that does not parse is the client's mistake, not a server failure
+async function readJson(request: NextRequest): Promise<{ body: unknown } | NextResponse> {
+  try {
+    return { body: await request.json() };
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+}
+
+async function applyPatch(request: NextRequest, id: string, patch: PatientPatch) {
+  const precondition = readIfMatch(request);
+  if (precondition instanceof NextResponse) return precondition;
+
+  const result = await patientService.patchPatient(id, patch, precondition.version);
+  if (!result) {
+    return NextResponse.json(
+      { error: 'Patient not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(
+    { patient: result.patient, diff: result.diff },
+    { status: 200, headers: { ETag: etagFor(result.patient) } }
+  );
+}
 
 export async function GET(
   request: NextRequest,
@@ -12,7 +42,7 @@ export async function GET(
   try {
     const { id } = await params;
     const patient = await patientService.getPatientById(id);
-    
+
     if (!patient) {
       return NextResponse.json(
         { error: 'Patient not found' },
@@ -20,7 +50,7 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ patient }, { status: 200 });
+    return NextResponse.json({ patient }, { status: 200, headers: { ETag: etagFor(patient) } });
   } catch (error) {
     console.error('Error fetching patient:', error);
     return NextResponse.json(
@@ -30,30 +60,35 @@ export async function GET(
   }
 }
 
+// Partial update: objects merge into the stored record, so sending one clinicalInfo field keeps the rest
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const updates = await request.json();
-    
-    const updateRequest: UpdatePatientRequest = {
-      patientId: id,
-      updates
-    };
-
-    const patient = await patientService.updatePatient(updateRequest);
-    
-    if (!patient) {
+    const parsed = await readJson(request);
+    if (parsed instanceof NextResponse) return parsed;
+    const updates = parsed.body;
+
+    if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
       return NextResponse.json(
-        { error: 'Patient not found' },
-        { status: 404 }
+        { error: 'Updates must be an object of patient fields' },
+        { status: 400 }
       );
     }
 
-    return NextResponse.json({ patient }, { status: 200 });
+    return await applyPatch(request, id, { format: 'merge-patch', document: updates as Record<string, unknown> });
   } catch (error) {
+    if (error instanceof PatientVersionConflictError) {
+      return conflictResponse(error.current);
+    }
+    if (error instanceof PatientPatchError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 422 }
+      );
+    }
     console.error('Error updating patient:', error);
     return NextResponse.json(
       { error: 'Failed to update patient' },
@@ -62,6 +97,51 @@ export async function PUT(
   }
 }
 
+// application/json-patch+json bodies are RFC 6902 operations; anything else is an RFC 7386 merge patch.
+// Responds with the updated patient and the applied change as JSON Patch operations.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const parsed = await readJson(request);
+    if (parsed instanceof NextResponse) return parsed;
+    const body = parsed.body;
+    const isJsonPatch = (request.headers.get('content-type') || '').includes('application/json-patch+json');
+
+    if (isJsonPatch ? !Array.isArray(body) : !body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: isJsonPatch ? 'A JSON Patch must be an array of operations' : 'A merge patch must be an object' },
+        { status: 400 }
+      );
+    }
+
+    return await applyPatch(
+      request,
+      id,
+      isJsonPatch
+        ? { format: 'json-patch', operations: body as JsonPatchOperation[] }
+        : { format: 'merge-patch', document: body as Record<string, unknown> }
+    );
+  } catch (error) {
+    if (error instanceof PatientVersionConflictError) {
+      return conflictResponse(error.current);
+    }
+    if (error instanceof PatientPatchError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 422 }
+      );
+    }
+    console.error('Error patching patient:', error);
+    return NextResponse.json(
+      { error: 'Failed to update patient' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -70,9 +150,12 @@ export async function DELETE(
     const { id } = await params;
     const { searchParams } = new URL(request.url);
     const reason = searchParams.get('reason') || 'No reason provided';
-    
-    const success = await patientService.deactivatePatient(id, reason);
-    
+
+    const precondition = readIfMatch(request);
+    if (precondition instanceof NextResponse) return precondition;
+
+    const success = await patientService.deactivatePatient(id, reason, precondition.version);
+
     if (!success) {
       return NextResponse.json(
         { error: 'Patient not found' },
@@ -85,10 +168,13 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof PatientVersionConflictError) {
+      return conflictResponse(error.current);
+    }
     console.error('Error deactivating patient:', error);
     return NextResponse.json(
       { error: 'Failed to deactivate patient' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
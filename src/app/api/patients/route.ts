@@ -1,10 +1,10 @@
 // HeartVoice Monitor - Patients API Routes
 import { NextRequest, NextResponse } from 'next/server';
-import { PatientService } from '@/services/patient-service';
+import { patientService } from '@/services/shared-services';
+import { COMORBIDITIES } from '@/services/comorbidities';
+import { PatientPatchError } from '@/services/patient-patch';
 import { CreatePatientRequest } from '@/types/clinical';
 
-const patientService = new PatientService();
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -36,7 +36,15 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const body: CreatePatientRequest = await request.json();
+    let body: CreatePatientRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
     
     // Validate required fields
     if (!body.demographics?.firstName || !body.demographics?.lastName) {
@@ -53,10 +61,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const patient = await patientService.createPatient(body);
+    // The patients table indexes MRN and cannot store a patient without one
+    if (!body.demographics?.mrn?.trim()) {
+      return NextResponse.json(
+        { error: 'MRN is required' },
+        { status: 400 }
+      );
+    }
+
+    // Older clients do not send sex at birth; population-wide reference ranges apply
+    const sexAtBirth = body.demographics.sexAtBirth ?? 'unknown';
+    if (!['female', 'male', 'unknown'].includes(sexAtBirth)) {
+      return NextResponse.json(
+        { error: 'Sex at birth must be female, male or unknown' },
+        { status: 400 }
+      );
+    }
+
+    const comorbidities = body.clinicalInfo?.comorbidities ?? [];
+    if (!Array.isArray(comorbidities) || !comorbidities.every(comorbidity => COMORBIDITIES.includes(comorbidity))) {
+      return NextResponse.json(
+        { error: `Comorbidities must be any of ${COMORBIDITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const patient = await patientService.createPatient({
+      ...body,
+      demographics: { ...body.demographics, sexAtBirth },
+      clinicalInfo: { ...body.clinicalInfo, comorbidities }
+    });
     
     return NextResponse.json({ patient }, { status: 201 });
   } catch (error) {
+    if (error instanceof PatientPatchError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
     console.error('Error creating patient:', error);
     return NextResponse.json(
       { error: 'Failed to create patient' },
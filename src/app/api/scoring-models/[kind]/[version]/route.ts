@@ -0,0 +1,81 @@
+// HeartVoice Monitor - Scoring Model Detail API Routes
+import { NextRequest, NextResponse } from 'next/server';
+import { ModelRegistryError, ScoringModelKind, ScoringModelStatus } from '@/services/model-registry';
+import { ScoringPolicyError } from '@/services/scoring-policy';
+import { scoringModelRegistry } from '@/services/shared-services';
+
+const KINDS: ScoringModelKind[] = ['policy', 'model'];
+const STATUSES: ScoringModelStatus[] = ['draft', 'shadow', 'active', 'retired'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ kind: string; version: string }> }
+) {
+  try {
+    const { kind, version } = await params;
+    const status = KINDS.includes(kind as ScoringModelKind)
+      ? scoringModelRegistry.getStatus(kind as ScoringModelKind, version)
+      : null;
+
+    if (!status) {
+      return NextResponse.json(
+        { error: 'Scoring model not found' },
+        { status: 404 }
+      );
+    }
+
+    const definition = kind === 'policy' ? scoringModelRegistry.getPolicy(version) : scoringModelRegistry.getModel(version);
+    return NextResponse.json({ kind, version, status, definition }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching scoring model:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring model' },
+      { status: 500 }
+    );
+  }
+}
+
+// Moves a policy or model through draft, shadow, active and retired
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ kind: string; version: string }> }
+) {
+  try {
+    const { kind, version } = await params;
+    const { status } = await request.json();
+
+    if (!KINDS.includes(kind as ScoringModelKind) || !scoringModelRegistry.getStatus(kind as ScoringModelKind, version)) {
+      return NextResponse.json(
+        { error: 'Scoring model not found' },
+        { status: 404 }
+      );
+    }
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const entry = scoringModelRegistry.setStatus(kind as ScoringModelKind, version, status);
+    return NextResponse.json({ model: entry }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    if (error instanceof ScoringPolicyError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating scoring model status:', error);
+    return NextResponse.json(
+      { error: 'Failed to update scoring model status' },
+      { status: 500 }
+    );
+  }
+}
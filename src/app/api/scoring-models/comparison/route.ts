@@ -0,0 +1,24 @@
+// HeartVoice Monitor - Champion/Challenger Comparison API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { compareShadowScores } from '@/services/model-registry';
+import { patientService } from '@/services/shared-services';
+
+// How each shadow policy or model differs from production over stored assessments;
+// optional from and to query parameters limit the period
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const assessments = await patientService.getAllAssessments({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined
+    });
+
+    return NextResponse.json({ comparisons: compareShadowScores(assessments) }, { status: 200 });
+  } catch (error) {
+    console.error('Error comparing shadow scores:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare shadow scores' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// HeartVoice Monitor - Scoring Model Registry API Routes
+import { NextRequest, NextResponse } from 'next/server';
+import { ModelRegistryError } from '@/services/model-registry';
+import { scoringModelRegistry } from '@/services/shared-services';
+import { RiskModel } from '@/services/risk-model';
+
+// Policies and outcome models with their lifecycle status
+export async function GET() {
+  try {
+    return NextResponse.json({ models: scoringModelRegistry.list() }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching scoring models:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring models' },
+      { status: 500 }
+    );
+  }
+}
+
+// Registers a trained outcome model as a draft; policies are registered through /api/scoring-policies
+export async function POST(request: NextRequest) {
+  try {
+    const body: RiskModel = await request.json();
+    if (!body?.version || !Array.isArray(body.features) || body.coefficients?.length !== body.features.length || !body.calibration) {
+      return NextResponse.json(
+        { error: 'Malformed risk model' },
+        { status: 400 }
+      );
+    }
+
+    const model = scoringModelRegistry.registerModel(body);
+    return NextResponse.json({ model }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('Error registering risk model:', error);
+    return NextResponse.json(
+      { error: 'Failed to register risk model' },
+      { status: 500 }
+    );
+  }
+}
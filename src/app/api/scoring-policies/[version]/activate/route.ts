@@ -0,0 +1,45 @@
+// HeartVoice Monitor - Risk Scoring Policy Activation API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { ScoringPolicyError } from '@/services/scoring-policy';
+import { ModelRegistryError } from '@/services/model-registry';
+import { scoringModelRegistry } from '@/services/shared-services';
+
+// Assessments processed after activation are scored with this version; the previous one is retired
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ version: string }> }
+) {
+  try {
+    const { version } = await params;
+    if (!scoringModelRegistry.getPolicy(version)) {
+      return NextResponse.json(
+        { error: 'Scoring policy not found' },
+        { status: 404 }
+      );
+    }
+
+    scoringModelRegistry.setStatus('policy', version, 'active');
+    const policy = scoringModelRegistry.getActivePolicy();
+    console.log(`Scoring policy ${version} activated`);
+
+    return NextResponse.json({ policy }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    if (error instanceof ScoringPolicyError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error activating scoring policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to activate scoring policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// HeartVoice Monitor - Risk Scoring Policy Detail API Route
+import { NextRequest, NextResponse } from 'next/server';
+import { scoringModelRegistry } from '@/services/shared-services';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ version: string }> }
+) {
+  try {
+    const { version } = await params;
+    const policy = scoringModelRegistry.getPolicy(version);
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Scoring policy not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ policy }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching scoring policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// HeartVoice Monitor - Risk Scoring Policy API Routes
+import { NextRequest, NextResponse } from 'next/server';
+import { RiskScoringPolicy, ScoringPolicyError } from '@/services/scoring-policy';
+import { scoringModelRegistry } from '@/services/shared-services';
+
+export async function GET() {
+  try {
+    return NextResponse.json(
+      { policies: scoringModelRegistry.listPolicies(), active: scoringModelRegistry.getActivePolicy() },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching scoring policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring policies' },
+      { status: 500 }
+    );
+  }
+}
+
+// Registers a new policy version; it only affects scoring once activated
+export async function POST(request: NextRequest) {
+  try {
+    let body: RiskScoringPolicy;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'A scoring policy must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const policy = scoringModelRegistry.registerPolicy(body);
+
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScoringPolicyError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error registering scoring policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to register scoring policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { patientService } from '@/services/shared-services';
+import { analyzeRecording, isAssessmentTask, voiceCallService } from '../voice-analysis/recordings';
+
+// Recording status callback: Twilio posts here once a recording is available, outside the call,
+// so downloading and analyzing it never delays the next question. One-question recordings come
+// from /api/voice-twiml; the dual-channel whole-call recording from /api/voice-calls has no question.
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const patientId = searchParams.get('patientId');
+    const question = searchParams.get('question');
+    const task = isAssessmentTask(question) ? question : undefined;
+
+    // Get form data from Twilio
+    const formData = await req.formData();
+    const recordingStatus = formData.get('RecordingStatus') as string;
+    const recordingUrl = formData.get('RecordingUrl') as string;
+    const recordingSid = formData.get('RecordingSid') as string;
+    const callSid = formData.get('CallSid') as string;
+    const duration = formData.get('RecordingDuration') as string;
+
+    // Failed or absent recordings have nothing to analyze
+    if (recordingStatus !== 'completed') {
+      console.warn(`Recording ${recordingSid} for patient ${patientId} ended as ${recordingStatus}`);
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    console.log(`Received voice recording for patient ${patientId}, question: ${question}`);
+    console.log(`Recording SID: ${recordingSid}, Duration: ${duration}s`);
+
+    // A retried callback, or a transcript that arrived first, has already stored this answer
+    const assessmentId = voiceCallService.assessmentIdFor(callSid, task);
+    const history = patientId ? await patientService.getAssessmentHistory(patientId) : [];
+    if (history.some(item => item.id === assessmentId)) {
+      return NextResponse.json({ assessmentId }, { status: 200 });
+    }
+
+    const assessment = await analyzeRecording({
+      callSid,
+      recordingUrl,
+      duration: parseInt(duration || '0'),
+      patientId,
+      task
+    });
+    if (!assessment) {
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    return NextResponse.json({ assessmentId: assessment.id }, { status: 200 });
+  } catch (error) {
+    console.error('Error in voice analysis:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze recording' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// HeartVoice Monitor - Recorded Answer Analysis
+// Scores one recorded answer and stores it; shared by the recording status and transcription callbacks
+
+import { VoiceCallService } from '@/services/voice-processing-service';
+import { alertService, patientService, scoringModelRegistry } from '@/services/shared-services';
+import { referenceProfileFor } from '@/services/reference-ranges';
+import { ASSESSMENT_TASK_ORDER } from '@/services/speech-segmentation';
+import { AssessmentTask, VoiceAssessment } from '@/types/clinical';
+
+export const voiceCallService = new VoiceCallService(scoringModelRegistry);
+
+export function isAssessmentTask(question: string | null): question is AssessmentTask {
+  return ASSESSMENT_TASK_ORDER.includes(question as AssessmentTask);
+}
+
+// Null when the callback names no known patient: the answer is dropped without scoring, alerting or storage
+export async function analyzeRecording(recording: {
+  callSid: string;
+  recordingUrl: string;
+  duration: number;
+  patientId: string | null;
+  task?: AssessmentTask;
+  transcript?: string;
+}): Promise<VoiceAssessment | null> {
+  const { callSid, recordingUrl, duration, patientId, task, transcript = '' } = recording;
+
+  const patient = patientId ? await patientService.getPatientById(patientId) : null;
+  if (!patient) {
+    console.warn(`Dropped recording for call ${callSid}, question ${task ?? 'none'}: ${patientId ? `patient ${patientId} not found` : 'no patient given'}`);
+    return null;
+  }
+
+  // Download the recording, decode it and extract biomarkers
+  const history = await patientService.getAssessmentHistory(patient.id);
+  const { audioData, contentType } = await voiceCallService.fetchRecording(recordingUrl);
+  const assessment = await voiceCallService.processVoiceAssessment(
+    callSid,
+    patient.id,
+    audioData,
+    transcript,
+    duration,
+    {
+      contentType,
+      task,
+      baseline: patient.baseline,
+      profile: referenceProfileFor(patient),
+      clinical: patient.clinicalInfo,
+      history
+    }
+  );
+
+  // Opens a clinical alert, or merges the finding into the patient's open one
+  const alert = await alertService.recordFinding(assessment, patient);
+  assessment.alertId = alert?.id;
+
+  // Stores the assessment and updates the patient's current risk, trend and personal baseline
+  const updatedPatient = await patientService.recordAssessment(assessment);
+
+  console.log('Voice analysis completed:', {
+    task,
+    callSid,
+    callStatus: assessment.callStatus,
+    biomarkers: assessment.biomarkers,
+    riskScore: assessment.riskScore,
+    alertLevel: assessment.alertLevel,
+    alertId: assessment.alertId,
+    riskComponents: assessment.riskComponents,
+    trend: updatedPatient?.currentRisk.trend,
+    baselineDeviations: assessment.baselineDeviations
+  });
+
+  return assessment;
+}
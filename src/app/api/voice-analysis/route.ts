@@ -1,53 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ASSESSMENT_TASK_ORDER } from '@/services/speech-segmentation';
+import { AssessmentTask } from '@/types/clinical';
 
+// Record action: answers Twilio immediately with the next question so the patient is not
+// left waiting; the recording is analyzed once Twilio reports it to /api/voice-analysis-status
 export async function POST(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
-    const patientId = searchParams.get('patientId');
+    const patientId = searchParams.get('patientId') ?? '';
     const question = searchParams.get('question');
 
-    // Get form data from Twilio
-    const formData = await req.formData();
-    const recordingUrl = formData.get('RecordingUrl') as string;
-    const recordingSid = formData.get('RecordingSid') as string;
-    const callSid = formData.get('CallSid') as string;
-    const duration = formData.get('RecordingDuration') as string;
+    const next = ASSESSMENT_TASK_ORDER[ASSESSMENT_TASK_ORDER.indexOf(question as AssessmentTask) + 1];
 
-    console.log(`Received voice recording for patient ${patientId}, question: ${question}`);
-    console.log(`Recording SID: ${recordingSid}, Duration: ${duration}s`);
-
-    // TODO: Implement actual voice analysis here
-    // This would involve:
-    // 1. Download the audio file from recordingUrl
-    // 2. Analyze voice biomarkers (jitter, shimmer, HNR, F0)
-    // 3. Store results in database
-    // 4. Generate clinical alerts if needed
-    
-    // For now, simulate analysis
-    const mockAnalysis = {
-      patientId,
-      question,
-      recordingSid,
-      callSid,
-      duration: parseInt(duration || '0'),
-      biomarkers: {
-        jitter: Math.random() * 3,
-        shimmer: Math.random() * 8,
-        hnr: 8 + Math.random() * 6,
-        f0: 120 + Math.random() * 80,
-        spectralSlope: -12 + Math.random() * 8,
-        voiceIntensity: 40 + Math.random() * 30
-      },
-      riskScore: Math.floor(Math.random() * 100),
-      timestamp: new Date().toISOString()
-    };
-
-    console.log('Voice analysis completed:', mockAnalysis);
-
-    // Continue with next question in TwiML flow
-    const continueTwiml = `<?xml version="1.0" encoding="UTF-8"?>
+    // An unrecognized question restarts at the first one; after the last question the call ends
+    const continueTwiml = next
+      ? `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Redirect method="POST">/api/voice-twiml?patientId=${encodeURIComponent(patientId)}&amp;question=${next}</Redirect>
+</Response>`
+      : `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Redirect>/api/voice-twiml?patientId=${patientId}</Redirect>
+  <Say voice="alice" language="en-US">
+    Thank you for completing your voice assessment today. 
+    Your healthcare team will review the results. 
+    If you have any urgent concerns, please contact your doctor immediately. 
+    Have a wonderful day!
+  </Say>
+  
+  <Hangup/>
 </Response>`;
 
     return new NextResponse(continueTwiml, {
@@ -71,4 +51,4 @@ export async function POST(req: NextRequest) {
       },
     });
   }
-}
\ No newline at end of file
+}
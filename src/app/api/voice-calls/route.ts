@@ -90,7 +90,12 @@ export async function POST(req: NextRequest) {
       from: process.env.TWILIO_FROM_NUMBER!,
       twiml: twimlResponse,
       timeout: 30, // Ring for 30 seconds
-      record: true // Enable recording for voice analysis
+      record: true, // Enable recording for voice analysis
+      recordingChannels: 'dual', // Agent and patient on separate channels for segmentation
+      // The whole-call recording has no question; its analysis splits it into per-question answers
+      recordingStatusCallback: new URL(`/api/voice-analysis-status?patientId=${encodeURIComponent(patientId)}`, req.url).toString(),
+      recordingStatusCallbackMethod: 'POST',
+      recordingStatusCallbackEvent: ['completed']
     });
 
     console.log(`Initiated call to ${patientName} (${phoneNumber}): ${call.sid}`);
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { alertService, patientService } from '@/services/shared-services';
+import { analyzeRecording, isAssessmentTask, voiceCallService } from '../voice-analysis/recordings';
+
+// Transcription callback: Twilio posts an answer's transcript minutes after the call. The answer
+// was already scored on its acoustics from /api/voice-analysis-status; the transcript indicators
+// are fused into that score. Only the deidentified transcript is sent for analysis.
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const patientId = searchParams.get('patientId');
+    const question = searchParams.get('question');
+    const task = isAssessmentTask(question) ? question : undefined;
+
+    // Get form data from Twilio
+    const formData = await req.formData();
+    const transcriptionStatus = formData.get('TranscriptionStatus') as string;
+    const transcript = (formData.get('TranscriptionText') as string) || '';
+    const recordingUrl = formData.get('RecordingUrl') as string;
+    const callSid = formData.get('CallSid') as string;
+
+    // The acoustic score stands on its own when Twilio could not transcribe the answer
+    if (transcriptionStatus !== 'completed' || !transcript.trim()) {
+      console.warn(`Transcription for call ${callSid}, question ${question} ended as ${transcriptionStatus}`);
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    const patient = patientId ? await patientService.getPatientById(patientId) : null;
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+    }
+
+    const assessmentId = voiceCallService.assessmentIdFor(callSid, task);
+    const history = await patientService.getAssessmentHistory(patient.id);
+    const stored = history.find(item => item.id === assessmentId);
+
+    // The recording status callback has not stored the answer yet: analyze it with its transcript now
+    if (!stored) {
+      const assessment = await analyzeRecording({ callSid, recordingUrl, duration: 0, patientId: patient.id, task, transcript });
+      return NextResponse.json({ assessmentId: assessment?.id }, { status: 200 });
+    }
+
+    // A retried callback finds the transcript already fused and changes nothing
+    const revised = await voiceCallService.applyTranscript(stored, transcript, history);
+    if (!revised) {
+      return NextResponse.json({ assessmentId }, { status: 200 });
+    }
+
+    // The transcript can raise the score into an alert, or escalate the open one
+    const alert = await alertService.recordFinding(revised, patient);
+    revised.alertId = alert?.id ?? stored.alertId;
+    await patientService.reviseAssessment(revised);
+
+    console.log('Transcript fused into assessment:', {
+      assessmentId,
+      acousticRiskScore: stored.riskScore,
+      riskScore: revised.riskScore,
+      riskComponents: revised.riskComponents,
+      alertLevel: revised.alertLevel,
+      alertId: revised.alertId
+    });
+
+    return NextResponse.json({ assessmentId, riskScore: revised.riskScore }, { status: 200 });
+  } catch (error) {
+    console.error('Error fusing transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to process transcription' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,74 +1,78 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ASSESSMENT_TASK_ORDER } from '@/services/speech-segmentation';
+import { AssessmentTask } from '@/types/clinical';
+
+// Each question is its own TwiML document: the Record action (/api/voice-analysis) redirects
+// here for the next one, the recording is analyzed from /api/voice-analysis-status and its
+// transcript, which arrives later, is fused in from /api/voice-transcription
+const QUESTIONS: Record<AssessmentTask, { prompt: string; maxLength: number }> = {
+  energy: {
+    prompt: `First, on a scale of 1 to 10, how would you rate your energy level today? 
+    Please speak your answer after the beep.`,
+    maxLength: 10
+  },
+  breathing: {
+    prompt: `Thank you. Now, please tell me about any shortness of breath you may have experienced today. 
+    Speak for up to 30 seconds after the beep.`,
+    maxLength: 30
+  },
+  counting: {
+    prompt: `Finally, please count from 1 to 10 at a normal pace. This helps us analyze your voice patterns.`,
+    maxLength: 20
+  }
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
 
 export async function POST(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
-    const patientId = searchParams.get('patientId');
+    const patientId = searchParams.get('patientId') ?? '';
     const patientName = searchParams.get('patientName');
+    const requested = searchParams.get('question');
+    const question = ASSESSMENT_TASK_ORDER.includes(requested as AssessmentTask)
+      ? (requested as AssessmentTask)
+      : ASSESSMENT_TASK_ORDER[0];
 
-    // Create TwiML response for voice interaction
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
+    const query = escapeXml(`patientId=${encodeURIComponent(patientId)}&question=${question}`);
+    const { prompt, maxLength } = QUESTIONS[question];
+
+    // The greeting opens the call; later questions arrive by redirect without it
+    const greeting = requested ? '' : `
   <Say voice="alice" language="en-US">
-    Hello ${patientName || 'there'}. This is your HeartVoice Monitor calling for your daily health check-in. 
+    Hello ${escapeXml(patientName || 'there')}. This is your HeartVoice Monitor calling for your daily health check-in. 
     I'm going to ask you a few questions about how you're feeling today. 
     Please answer in a clear, natural voice.
   </Say>
   
   <Pause length="1"/>
-  
-  <Say voice="alice" language="en-US">
-    First, on a scale of 1 to 10, how would you rate your energy level today? 
-    Please speak your answer after the beep.
-  </Say>
-  
-  <Record 
-    action="/api/voice-analysis?patientId=${patientId}&question=energy"
-    method="POST"
-    maxLength="10"
-    timeout="5"
-    trim="trim-silence"
-    recordingStatusCallback="/api/voice-analysis-status"
-    recordingStatusCallbackMethod="POST"
-  />
-  
-  <Say voice="alice" language="en-US">
-    Thank you. Now, please tell me about any shortness of breath you may have experienced today. 
-    Speak for up to 30 seconds after the beep.
-  </Say>
-  
-  <Record 
-    action="/api/voice-analysis?patientId=${patientId}&question=breathing"
-    method="POST"
-    maxLength="30"
-    timeout="5"
-    trim="trim-silence"
-    recordingStatusCallback="/api/voice-analysis-status"
-    recordingStatusCallbackMethod="POST"
-  />
-  
+  `;
+
+    // Create TwiML response for voice interaction
+    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>${greeting}
   <Say voice="alice" language="en-US">
-    Finally, please count from 1 to 10 at a normal pace. This helps us analyze your voice patterns.
+    ${prompt}
   </Say>
   
   <Record 
-    action="/api/voice-analysis?patientId=${patientId}&question=counting"
+    action="/api/voice-analysis?${query}"
     method="POST"
-    maxLength="20"
+    maxLength="${maxLength}"
     timeout="5"
     trim="trim-silence"
-    recordingStatusCallback="/api/voice-analysis-status"
+    recordingStatusCallback="/api/voice-analysis-status?${query}"
     recordingStatusCallbackMethod="POST"
+    transcribe="true"
+    transcribeCallback="/api/voice-transcription?${query}"
   />
-  
-  <Say voice="alice" language="en-US">
-    Thank you for completing your voice assessment today. 
-    Your healthcare team will review the results. 
-    If you have any urgent concerns, please contact your doctor immediately. 
-    Have a wonderful day!
-  </Say>
-  
-  <Hangup/>
 </Response>`;
 
     return new NextResponse(twiml, {
@@ -96,4 +100,4 @@ export async function POST(req: NextRequest) {
       },
     });
   }
-}
\ No newline at end of file
+}
@@ -8,6 +8,7 @@ import { PatientTable } from '@/components/clinical/patient-table';
 import { AddPatientDialog } from '@/components/clinical/add-patient-dialog';
 import { PatientDetailDialog } from '@/components/clinical/patient-detail-dialog';
 import { CallRecordingsPanel } from '@/components/clinical/call-recordings-panel';
+import { ModelMonitoringPanel } from '@/components/clinical/model-monitoring-panel';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -116,10 +117,33 @@ export default function DashboardPage() {
     }
   };
 
-  const handleAcknowledgeAlert = (alertId: string) => {
-    // Simulate acknowledging alert
-    alert(`Alert ${alertId} has been acknowledged and marked as reviewed.`);
-    console.log('Acknowledging alert:', alertId);
+  // Records the status change against the stored alert, then reloads so every view agrees
+  const updateAlertStatus = async (alertId: string, step: 'acknowledge' | 'resolve', body: Record<string, string>) => {
+    try {
+      const response = await fetch(`/api/alerts/${alertId}/${step}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ by: currentClinician.name, ...body })
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        alert(`❌ Failed to ${step} alert: ${result.error}`);
+      }
+    } catch (error) {
+      console.error(`Failed to ${step} alert:`, error);
+    } finally {
+      await loadDashboardData();
+    }
+  };
+
+  const handleAcknowledgeAlert = (alertId: string) => updateAlertStatus(alertId, 'acknowledge', {});
+
+  const handleResolveAlert = (alertId: string, action: string, notes: string) =>
+    updateAlertStatus(alertId, 'resolve', notes ? { action, notes } : { action });
+
+  const handlePatientUpdated = (patient: Patient) => {
+    setSelectedPatient(patient);
+    loadPatients();
   };
 
   const handlePatientAdded = () => {
@@ -153,7 +177,7 @@ export default function DashboardPage() {
       <ClinicalHeader 
         clinicianName={currentClinician.name}
         clinicianTitle={currentClinician.title}
-        alertCount={dashboard?.criticalAlerts?.length || 0}
+        alertCount={dashboard?.criticalAlerts?.filter(alert => alert.status === 'active').length || 0}
       />
 
       <main className="container mx-auto px-6 py-8">
@@ -203,6 +227,7 @@ export default function DashboardPage() {
                 <CriticalAlertsPanel
                   alerts={dashboard.criticalAlerts}
                   onAcknowledgeAlert={handleAcknowledgeAlert}
+                  onResolveAlert={handleResolveAlert}
                   onContactPatient={handleContactPatient}
                 />
               )}
@@ -253,22 +278,7 @@ export default function DashboardPage() {
 
             {/* Analytics Tab */}
             <TabsContent value="analytics" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Clinical Analytics</CardTitle>
-                  <CardDescription>
-                    Population health insights and biomarker trends
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-center py-12 text-muted-foreground">
-                    <p className="text-lg">Advanced analytics coming soon</p>
-                    <p className="text-sm">
-                      Population health metrics, biomarker trending, and outcome analysis
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
+              <ModelMonitoringPanel />
             </TabsContent>
           </Tabs>
 
@@ -278,6 +288,7 @@ export default function DashboardPage() {
             open={patientDetailOpen}
             onOpenChange={setPatientDetailOpen}
             onCallPatient={handleCallPatient}
+            onPatientUpdated={handlePatientUpdated}
           />
         </div>
       </main>
@@ -14,6 +14,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -22,7 +23,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Plus, Loader2 } from 'lucide-react';
-import { CreatePatientRequest } from '@/types/clinical';
+import { Comorbidity, CreatePatientRequest, SexAtBirth } from '@/types/clinical';
+import { COMORBIDITIES, COMORBIDITY_LABELS } from '@/services/comorbidities';
 
 interface AddPatientDialogProps {
   onPatientAdded?: () => void;
@@ -35,12 +37,14 @@ export function AddPatientDialog({ onPatientAdded }: AddPatientDialogProps) {
     firstName: '',
     lastName: '',
     dateOfBirth: '',
+    sexAtBirth: 'unknown' as SexAtBirth,
     mrn: '',
     phoneNumber: '',
     email: '',
     diagnosisDate: '',
     ejectionFraction: '',
     nyhaClass: '1' as '1' | '2' | '3' | '4',
+    comorbidities: [] as Comorbidity[],
     medications: '',
     allergies: '',
     emergencyContactName: '',
@@ -61,6 +65,7 @@ export function AddPatientDialog({ onPatientAdded }: AddPatientDialogProps) {
           firstName: formData.firstName,
           lastName: formData.lastName,
           dateOfBirth: formData.dateOfBirth,
+          sexAtBirth: formData.sexAtBirth,
           mrn: formData.mrn,
           phoneNumber: formData.phoneNumber,
           email: formData.email || undefined,
@@ -69,6 +74,7 @@ export function AddPatientDialog({ onPatientAdded }: AddPatientDialogProps) {
           diagnosisDate: formData.diagnosisDate,
           ejectionFraction: formData.ejectionFraction ? parseInt(formData.ejectionFraction) : undefined,
           nyhaClass: parseInt(formData.nyhaClass) as 1 | 2 | 3 | 4,
+          comorbidities: formData.comorbidities,
           medications: formData.medications.split(',').map(m => m.trim()).filter(Boolean),
           allergies: formData.allergies.split(',').map(a => a.trim()).filter(Boolean),
           emergencyContact: {
@@ -98,12 +104,14 @@ export function AddPatientDialog({ onPatientAdded }: AddPatientDialogProps) {
           firstName: '',
           lastName: '',
           dateOfBirth: '',
+          sexAtBirth: 'unknown',
           mrn: '',
           phoneNumber: '',
           email: '',
           diagnosisDate: '',
           ejectionFraction: '',
           nyhaClass: '1',
+          comorbidities: [],
           medications: '',
           allergies: '',
           emergencyContactName: '',
@@ -130,6 +138,15 @@ export function AddPatientDialog({ onPatientAdded }: AddPatientDialogProps) {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleComorbidityChange = (comorbidity: Comorbidity, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      comorbidities: checked
+        ? [...prev.comorbidities, comorbidity]
+        : prev.comorbidities.filter(existing => existing !== comorbidity)
+    }));
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -197,6 +214,27 @@ export function AddPatientDialog({ onPatientAdded }: AddPatientDialogProps) {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="sexAtBirth">Sex at Birth *</Label>
+              <Select
+                name="sexAtBirth"
+                value={formData.sexAtBirth}
+                onValueChange={(value) => handleInputChange('sexAtBirth', value)}
+              >
+                <SelectTrigger id="sexAtBirth">
+                  <SelectValue placeholder="Select sex at birth" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="female">Female</SelectItem>
+                  <SelectItem value="male">Male</SelectItem>
+                  <SelectItem value="unknown">Unknown</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Selects the voice reference ranges used to interpret pitch and voice quality
+              </p>
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="phoneNumber">Phone Number *</Label>
@@ -269,6 +307,23 @@ export function AddPatientDialog({ onPatientAdded }: AddPatientDialogProps) {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label>Comorbidities</Label>
+              <p className="text-sm text-muted-foreground">Used to interpret voice and breathing findings</p>
+              <div className="grid grid-cols-2 gap-2">
+                {COMORBIDITIES.map((comorbidity) => (
+                  <div key={comorbidity} className="flex items-center justify-between rounded border px-3 py-2">
+                    <Label htmlFor={`comorbidity-${comorbidity}`} className="font-normal">{COMORBIDITY_LABELS[comorbidity]}</Label>
+                    <Switch
+                      id={`comorbidity-${comorbidity}`}
+                      checked={formData.comorbidities.includes(comorbidity)}
+                      onCheckedChange={(checked) => handleComorbidityChange(comorbidity, checked)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="medications">Medications (comma-separated)</Label>
               <Textarea
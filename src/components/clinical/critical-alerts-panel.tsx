@@ -5,26 +5,48 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ClinicalAlert } from '@/types/clinical';
-import { AlertTriangle, Phone, CheckCircle, Clock } from 'lucide-react';
+import { AlertTriangle, Phone, CheckCircle, Clock, CheckCheck } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface CriticalAlertsPanelProps {
   alerts: ClinicalAlert[];
-  onAcknowledgeAlert?: (alertId: string) => void;
+  onAcknowledgeAlert?: (alertId: string) => Promise<void> | void;
+  onResolveAlert?: (alertId: string, action: string, notes: string) => Promise<void> | void;
   onContactPatient?: (patientId: string) => void;
 }
 
 export function CriticalAlertsPanel({ 
   alerts, 
   onAcknowledgeAlert, 
+  onResolveAlert,
   onContactPatient 
 }: CriticalAlertsPanelProps) {
-  const [acknowledged, setAcknowledged] = useState<Set<string>>(new Set());
+  // Alert status is stored by the API; only the open resolution form and pending request live here
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolution, setResolution] = useState({ action: '', notes: '' });
+  const [pendingId, setPendingId] = useState<string | null>(null);
 
-  const handleAcknowledge = (alertId: string) => {
-    setAcknowledged(prev => new Set([...prev, alertId]));
-    onAcknowledgeAlert?.(alertId);
+  const handleAcknowledge = async (alertId: string) => {
+    setPendingId(alertId);
+    try {
+      await onAcknowledgeAlert?.(alertId);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleResolve = async (alertId: string) => {
+    setPendingId(alertId);
+    try {
+      await onResolveAlert?.(alertId, resolution.action.trim(), resolution.notes.trim());
+      setResolvingId(null);
+      setResolution({ action: '', notes: '' });
+    } finally {
+      setPendingId(null);
+    }
   };
 
   const getPriorityColor = (priority: ClinicalAlert['priority']) => {
@@ -53,11 +75,13 @@ export function CriticalAlertsPanel({
     }
   };
 
-  const activeAlerts = alerts.filter(alert => 
-    alert.status === 'active' && !acknowledged.has(alert.id)
-  );
+  // Active alerts first, then acknowledged ones awaiting resolution
+  const openAlerts = alerts
+    .filter(alert => alert.status !== 'resolved')
+    .sort((a, b) => (a.status === 'active' ? 0 : 1) - (b.status === 'active' ? 0 : 1));
+  const activeCount = openAlerts.filter(alert => alert.status === 'active').length;
 
-  if (activeAlerts.length === 0) {
+  if (openAlerts.length === 0) {
     return (
       <Card>
         <CardHeader>
@@ -82,17 +106,19 @@ export function CriticalAlertsPanel({
       <CardHeader>
         <CardTitle className="flex items-center gap-2 text-red-800">
           <AlertTriangle className="h-5 w-5" />
-          Critical Alerts ({activeAlerts.length})
+          Critical Alerts ({openAlerts.length})
         </CardTitle>
         <CardDescription>
-          Immediate attention required for high-risk patients
+          {activeCount > 0
+            ? `${activeCount} awaiting acknowledgement - immediate attention required for high-risk patients`
+            : 'All alerts acknowledged - resolve them once the patient has been followed up'}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        {activeAlerts.map((alert) => (
+        {openAlerts.map((alert) => (
           <Alert 
             key={alert.id}
-            className={`${getPriorityColor(alert.priority)} border-2`}
+            className={`${getPriorityColor(alert.priority)} border-2 ${alert.status === 'acknowledged' ? 'opacity-80' : ''}`}
           >
             <div className="flex items-start justify-between">
               <div className="flex items-start gap-3 flex-1">
@@ -105,6 +131,9 @@ export function CriticalAlertsPanel({
                     <Badge variant="outline" className="text-xs">
                       {alert.priority.toUpperCase()}
                     </Badge>
+                    {alert.status === 'acknowledged' && (
+                      <Badge variant="secondary" className="text-xs">ACKNOWLEDGED</Badge>
+                    )}
                   </div>
                   
                   <AlertDescription className="text-sm">
@@ -119,6 +148,13 @@ export function CriticalAlertsPanel({
                     <span>Escalation Level: {alert.escalationLevel}</span>
                   </div>
 
+                  {alert.status === 'acknowledged' && alert.acknowledgedAt && (
+                    <div className="text-xs text-muted-foreground">
+                      Acknowledged by {alert.acknowledgedBy}{' '}
+                      {formatDistanceToNow(new Date(alert.acknowledgedAt), { addSuffix: true })}
+                    </div>
+                  )}
+
                   {/* Required Actions */}
                   {alert.requiredActions.length > 0 && (
                     <div className="mt-3">
@@ -147,17 +183,57 @@ export function CriticalAlertsPanel({
                   <Phone className="h-4 w-4 mr-1" />
                   Contact
                 </Button>
-                <Button
-                  size="sm"
-                  variant="secondary"
-                  onClick={() => handleAcknowledge(alert.id)}
-                  className="whitespace-nowrap"
-                >
-                  <CheckCircle className="h-4 w-4 mr-1" />
-                  Acknowledge
-                </Button>
+                {alert.status === 'active' ? (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleAcknowledge(alert.id)}
+                    disabled={pendingId === alert.id}
+                    className="whitespace-nowrap"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setResolvingId(resolvingId === alert.id ? null : alert.id)}
+                    className="whitespace-nowrap"
+                  >
+                    <CheckCheck className="h-4 w-4 mr-1" />
+                    Resolve
+                  </Button>
+                )}
               </div>
             </div>
+
+            {resolvingId === alert.id && (
+              <div className="mt-4 space-y-2">
+                <Input
+                  placeholder="Action taken, e.g. called patient and adjusted diuretic"
+                  value={resolution.action}
+                  onChange={(event) => setResolution({ ...resolution, action: event.target.value })}
+                />
+                <Textarea
+                  placeholder="Notes (optional)"
+                  value={resolution.notes}
+                  onChange={(event) => setResolution({ ...resolution, notes: event.target.value })}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setResolvingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleResolve(alert.id)}
+                    disabled={!resolution.action.trim() || pendingId === alert.id}
+                  >
+                    Resolve alert
+                  </Button>
+                </div>
+              </div>
+            )}
           </Alert>
         ))}
       </CardContent>
@@ -0,0 +1,365 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Patient } from '@/types/clinical';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+interface EditableField {
+  key: string;
+  label: string;
+  read: (patient: Patient) => string;
+  write: (value: string) => Record<string, unknown>; // merge patch for this field
+  options?: { value: string; label: string }[];
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Joins per-field merge patches into one; nulls are kept so the server removes those fields
+function combinePatches(target: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    const existing = result[key];
+    result[key] = isObject(existing) && isObject(value) ? combinePatches(existing, value) : value;
+  }
+  return result;
+}
+
+const EDITABLE_FIELDS: EditableField[] = [
+  {
+    key: 'phoneNumber',
+    label: 'Phone Number',
+    read: patient => patient.demographics.phoneNumber,
+    write: value => ({ demographics: { phoneNumber: value } })
+  },
+  {
+    key: 'email',
+    label: 'Email',
+    read: patient => patient.demographics.email ?? '',
+    write: value => ({ demographics: { email: value || null } })
+  },
+  {
+    key: 'nyhaClass',
+    label: 'NYHA Class',
+    read: patient => String(patient.clinicalInfo.nyhaClass),
+    write: value => ({ clinicalInfo: { nyhaClass: Number(value) } }),
+    options: ['1', '2', '3', '4'].map(value => ({ value, label: `Class ${value}` }))
+  },
+  {
+    key: 'ejectionFraction',
+    label: 'Ejection Fraction (%)',
+    read: patient => patient.clinicalInfo.ejectionFraction?.toString() ?? '',
+    write: value => ({ clinicalInfo: { ejectionFraction: value ? Number(value) : null } })
+  },
+  {
+    key: 'medications',
+    label: 'Medications (comma-separated)',
+    read: patient => patient.clinicalInfo.medications.join(', '),
+    write: value => ({ clinicalInfo: { medications: splitList(value) } })
+  },
+  {
+    key: 'allergies',
+    label: 'Allergies (comma-separated)',
+    read: patient => patient.clinicalInfo.allergies.join(', '),
+    write: value => ({ clinicalInfo: { allergies: splitList(value) } })
+  },
+  {
+    key: 'emergencyContactName',
+    label: 'Emergency Contact Name',
+    read: patient => patient.clinicalInfo.emergencyContact.name,
+    write: value => ({ clinicalInfo: { emergencyContact: { name: value } } })
+  },
+  {
+    key: 'emergencyContactRelationship',
+    label: 'Emergency Contact Relationship',
+    read: patient => patient.clinicalInfo.emergencyContact.relationship,
+    write: value => ({ clinicalInfo: { emergencyContact: { relationship: value } } })
+  },
+  {
+    key: 'emergencyContactPhone',
+    label: 'Emergency Contact Phone',
+    read: patient => patient.clinicalInfo.emergencyContact.phoneNumber,
+    write: value => ({ clinicalInfo: { emergencyContact: { phoneNumber: value } } })
+  },
+  {
+    key: 'assessmentFrequency',
+    label: 'Assessment Frequency',
+    read: patient => patient.monitoring.assessmentFrequency,
+    write: value => ({ monitoring: { assessmentFrequency: value } }),
+    options: [
+      { value: 'daily', label: 'Daily' },
+      { value: 'weekly', label: 'Weekly' },
+      { value: 'bi-weekly', label: 'Bi-weekly' }
+    ]
+  },
+  {
+    key: 'preferredCallTimes',
+    label: 'Preferred Call Times (comma-separated)',
+    read: patient => patient.monitoring.preferredCallTimes.join(', '),
+    write: value => ({ monitoring: { preferredCallTimes: splitList(value) } })
+  },
+  {
+    key: 'timezone',
+    label: 'Timezone',
+    read: patient => patient.monitoring.timezone,
+    write: value => ({ monitoring: { timezone: value } })
+  }
+];
+
+function formValues(patient: Patient): Record<string, string> {
+  return Object.fromEntries(EDITABLE_FIELDS.map(field => [field.key, field.read(patient)]));
+}
+
+// Someone else saved the patient after this form was loaded
+interface Conflict {
+  current: Patient;
+  etag: string;
+  conflicting: EditableField[]; // changed on both sides to different values
+  theirs: EditableField[]; // changed only by the other user; taken as-is
+}
+
+interface EditPatientDialogProps {
+  patientId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPatientUpdated?: (patient: Patient) => void;
+}
+
+export function EditPatientDialog({ patientId, open, onOpenChange, onPatientUpdated }: EditPatientDialogProps) {
+  const [base, setBase] = useState<Patient | null>(null);
+  const [etag, setEtag] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadPatient = async () => {
+      setConflict(null);
+      setError(null);
+      try {
+        const response = await fetch(`/api/patients/${patientId}`);
+        const data = await response.json();
+        if (response.ok) {
+          setBase(data.patient);
+          setEtag(response.headers.get('ETag') || '');
+          setValues(formValues(data.patient));
+        } else {
+          setError(data.error || 'Failed to load patient');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    };
+    loadPatient();
+  }, [patientId, open]);
+
+  // Sends only the fields that differ from the copy the edits were based on
+  const save = async (edited: Record<string, string>, basedOn: Patient, basedOnEtag: string) => {
+    const changed = EDITABLE_FIELDS.filter(field => edited[field.key] !== field.read(basedOn));
+    if (changed.length === 0) {
+      onOpenChange(false);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const patch = changed.reduce<Record<string, unknown>>((merged, field) => combinePatches(merged, field.write(edited[field.key])), {});
+      const response = await fetch(`/api/patients/${patientId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/merge-patch+json', 'If-Match': basedOnEtag },
+        body: JSON.stringify(patch)
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        onPatientUpdated?.(data.patient);
+        onOpenChange(false);
+      } else if (response.status === 412) {
+        const current: Patient = data.patient;
+        const theirsChanged = (field: EditableField) => field.read(current) !== field.read(basedOn);
+        const mineChanged = (field: EditableField) => edited[field.key] !== field.read(basedOn);
+        const conflicting = EDITABLE_FIELDS.filter(field =>
+          mineChanged(field) && theirsChanged(field) && edited[field.key] !== field.read(current)
+        );
+
+        setConflict({
+          current,
+          etag: response.headers.get('ETag') || '',
+          conflicting,
+          theirs: EDITABLE_FIELDS.filter(field => theirsChanged(field) && !mineChanged(field))
+        });
+        setChoices(Object.fromEntries(conflicting.map(field => [field.key, 'mine' as const])));
+      } else {
+        setError(data.errors ? data.errors.join('; ') : data.error || 'Failed to save patient');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Rebases the edits onto the current copy: their changes are kept unless a conflict was settled as mine
+  const handleResolveConflict = async () => {
+    if (!conflict || !base) return;
+
+    const resolved = Object.fromEntries(EDITABLE_FIELDS.map(field => {
+      const mine = values[field.key];
+      const mineChanged = mine !== field.read(base);
+      const keepMine = mineChanged && (!conflict.conflicting.includes(field) || choices[field.key] === 'mine');
+      return [field.key, keepMine ? mine : field.read(conflict.current)];
+    }));
+
+    setBase(conflict.current);
+    setEtag(conflict.etag);
+    setValues(resolved);
+    setConflict(null);
+    await save(resolved, conflict.current, conflict.etag);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (base) await save(values, base, etag);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {conflict ? 'Resolve Conflicting Changes' : 'Edit Patient'}
+          </DialogTitle>
+          <DialogDescription>
+            {conflict
+              ? 'Someone else saved this patient while you were editing. Choose which value to keep where you both changed a field.'
+              : base && `${base.demographics.firstName} ${base.demographics.lastName} - MRN ${base.demographics.mrn}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">Error: {error}</p>}
+
+        {conflict ? (
+          <div className="space-y-4">
+            {conflict.conflicting.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                None of your changes clash with theirs; saving applies both.
+              </p>
+            )}
+            {conflict.conflicting.map(field => (
+              <div key={field.key} className="p-3 border border-amber-200 bg-amber-50 rounded-lg space-y-2">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  {field.label}
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['mine', 'theirs'] as const).map(side => (
+                    <Button
+                      key={side}
+                      type="button"
+                      variant={choices[field.key] === side ? 'default' : 'outline'}
+                      className="h-auto justify-start whitespace-normal text-left"
+                      onClick={() => setChoices({ ...choices, [field.key]: side })}
+                    >
+                      <span>
+                        <span className="block text-xs opacity-75">{side === 'mine' ? 'Your value' : 'Saved value'}</span>
+                        {(side === 'mine' ? values[field.key] : field.read(conflict.current)) || '(empty)'}
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {conflict.theirs.length > 0 && (
+              <div className="text-sm">
+                <p className="font-medium mb-1">Also changed by the other user (kept):</p>
+                <ul className="text-muted-foreground space-y-1">
+                  {conflict.theirs.map(field => (
+                    <li key={field.key}>
+                      {field.label}: {field.read(conflict.current) || '(empty)'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Discard my changes
+              </Button>
+              <Button type="button" onClick={handleResolveConflict} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save merged changes
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          base && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {EDITABLE_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    {field.options ? (
+                      <Select
+                        value={values[field.key]}
+                        onValueChange={(value) => setValues({ ...values, [field.key]: value })}
+                      >
+                        <SelectTrigger id={field.key}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {field.options.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id={field.key}
+                        value={values[field.key] ?? ''}
+                        onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Changes
+                </Button>
+              </DialogFooter>
+            </form>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { SystemAlert } from '@/types/clinical';
+// Type-only: the monitoring service reads model files from disk and must stay out of the client bundle
+import type { MonitoringReport, PerformanceSummary } from '@/services/model-monitoring';
+import { Activity, AlertTriangle, RefreshCw } from 'lucide-react';
+
+type ScoreSource = MonitoringReport['source'];
+
+function formatMetric(value: number | null, asPercent = false): string {
+  if (value === null) return '—';
+  return asPercent ? `${Math.round(value * 100)}%` : value.toFixed(3);
+}
+
+function MetricCells({ summary }: { summary: PerformanceSummary }) {
+  return (
+    <>
+      <TableCell>{summary.examples}</TableCell>
+      <TableCell>{summary.events}</TableCell>
+      <TableCell>{formatMetric(summary.auroc)}</TableCell>
+      <TableCell>{formatMetric(summary.brier)}</TableCell>
+      <TableCell>{formatMetric(summary.calibrationInTheLarge)}</TableCell>
+      <TableCell>
+        {formatMetric(summary.alertPpv, true)}
+        <span className="text-xs text-muted-foreground"> of {summary.alerts}</span>
+      </TableCell>
+    </>
+  );
+}
+
+function MetricHeads({ first }: { first: string }) {
+  return (
+    <TableRow className="bg-slate-50">
+      <TableHead className="font-semibold">{first}</TableHead>
+      <TableHead className="font-semibold">Assessments</TableHead>
+      <TableHead className="font-semibold">Events</TableHead>
+      <TableHead className="font-semibold">AUROC</TableHead>
+      <TableHead className="font-semibold">Brier</TableHead>
+      <TableHead className="font-semibold" title="Observed event rate minus mean predicted probability">
+        Calibration
+      </TableHead>
+      <TableHead className="font-semibold">Alert PPV</TableHead>
+    </TableRow>
+  );
+}
+
+export function ModelMonitoringPanel() {
+  const [source, setSource] = useState<ScoreSource>('policy');
+  const [report, setReport] = useState<MonitoringReport | null>(null);
+  const [systemAlerts, setSystemAlerts] = useState<SystemAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMonitoring = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/monitoring?source=${source}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setReport(data.report);
+        setSystemAlerts(data.systemAlerts || []);
+      } else {
+        setError(data.error || 'Failed to load model monitoring');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMonitoring();
+  }, [source]);
+
+  const activeAlerts = systemAlerts.filter(alert => alert.status === 'active');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="h-5 w-5" />
+              Model Performance
+            </CardTitle>
+            <CardDescription>
+              Risk scores against recorded HF hospitalizations and ED visits
+              {report && ` within ${report.horizonDays} days, over rolling ${report.windowMonths}-month windows`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={source === 'policy' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSource('policy')}
+            >
+              Risk score
+            </Button>
+            <Button
+              variant={source === 'model' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSource('model')}
+            >
+              Outcome model
+            </Button>
+            <Button onClick={loadMonitoring} variant="outline" size="sm">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-red-600">Error: {error}</p>}
+
+        {activeAlerts.length > 0 && (
+          <div className="space-y-2">
+            {activeAlerts.map(alert => (
+              <div key={alert.id} className="flex items-start gap-2 p-3 border border-amber-200 bg-amber-50 rounded-lg">
+                <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600" />
+                <div className="text-sm">
+                  <p className="font-medium text-amber-900">{alert.message}</p>
+                  <p className="text-xs text-amber-700">Since {new Date(alert.createdAt).toLocaleDateString()}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {report && report.byMonth.length === 0 && !loading && (
+          <div className="text-center py-12 text-muted-foreground">
+            <p className="text-lg">No labeled assessments yet</p>
+            <p className="text-sm">
+              Performance appears once scored assessments are {report.horizonDays} days old and outcomes are recorded
+            </p>
+          </div>
+        )}
+
+        {report && report.byMonth.length > 0 && (
+          <>
+            <div>
+              <h3 className="font-medium mb-2">By month</h3>
+              <Table>
+                <TableHeader>
+                  <MetricHeads first="Window ending" />
+                </TableHeader>
+                <TableBody>
+                  {report.byMonth.map(summary => (
+                    <TableRow key={summary.month}>
+                      <TableCell className="font-medium">{summary.month}</TableCell>
+                      <MetricCells summary={summary} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-2">By site, latest window</h3>
+              <Table>
+                <TableHeader>
+                  <MetricHeads first="Site" />
+                </TableHeader>
+                <TableBody>
+                  {report.bySite.map(summary => (
+                    <TableRow key={summary.site}>
+                      <TableCell className="font-medium">
+                        {summary.site}
+                        {report.breaches.some(breach => breach.scope === summary.site) && (
+                          <Badge variant="destructive" className="ml-2 text-xs">Drift</Badge>
+                        )}
+                      </TableCell>
+                      <MetricCells summary={summary} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
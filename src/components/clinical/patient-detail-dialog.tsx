@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -13,7 +13,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RiskBadge } from './risk-badge';
-import { Patient, VoiceAssessment } from '@/types/clinical';
+import { EditPatientDialog } from './edit-patient-dialog';
+import { BaselineFeature, Patient, PatientBaseline, RangeClassification, VoiceAssessment } from '@/types/clinical';
+import { ReferenceRangeService, referenceProfileFor } from '@/services/reference-ranges';
+import { DEFAULT_TREND_OPTIONS } from '@/services/trend-analysis';
+import { COMORBIDITY_LABELS } from '@/services/comorbidities';
 import { 
   User, 
   Phone, 
@@ -24,80 +28,158 @@ import {
   AlertTriangle, 
   Clock,
   FileText,
-  Pill
+  Pill,
+  RotateCcw,
+  HelpCircle,
+  Pencil
 } from 'lucide-react';
 
+const BASELINE_FEATURE_LABELS: Record<BaselineFeature, { label: string; unit: string }> = {
+  jitter: { label: 'Jitter', unit: '%' },
+  shimmer: { label: 'Shimmer', unit: '%' },
+  hnr: { label: 'HNR', unit: 'dB' },
+  f0: { label: 'F0', unit: 'Hz' },
+  spectralSlope: { label: 'Spectral Slope', unit: 'dB/kHz' },
+  voiceIntensity: { label: 'Intensity', unit: 'dB' }
+};
+
+// Breathing metrics and transcript indicators that can appear in a score explanation
+const CONTRIBUTION_FEATURE_LABELS: Record<string, string> = {
+  inhalationPauseCount: 'Breaths while counting',
+  meanBreathGroupDuration: 'Breath group length',
+  phonationTimeRatio: 'Phonation time ratio',
+  speechRate: 'Speech rate',
+  ...COMORBIDITY_LABELS,
+  nyhaClass: 'NYHA class',
+  breathlessness: 'Breathlessness (words)',
+  fatigue: 'Fatigue (words)',
+  confusion: 'Confusion (words)',
+  anxiety: 'Anxiety (words)'
+};
+
+const RANGE_CLASSIFICATION_STYLES: Record<RangeClassification, string> = {
+  normal: 'text-green-700',
+  borderline: 'text-amber-700',
+  abnormal: 'text-red-700'
+};
+
+const referenceRanges = new ReferenceRangeService();
+const ASSESSMENT_PAGE_SIZE = 10;
+
 interface PatientDetailDialogProps {
   patient: Patient | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onCallPatient?: (patient: Patient) => void;
+  onPatientUpdated?: (patient: Patient) => void;
 }
 
 export function PatientDetailDialog({ 
   patient, 
   open, 
   onOpenChange, 
-  onCallPatient 
+  onCallPatient,
+  onPatientUpdated
 }: PatientDetailDialogProps) {
   const [recentAssessments, setRecentAssessments] = useState<VoiceAssessment[]>([]);
+  const [baseline, setBaseline] = useState<PatientBaseline | undefined>(undefined);
+  const [resettingBaseline, setResettingBaseline] = useState(false);
+  const [explainedAssessmentId, setExplainedAssessmentId] = useState<string | null>(null);
+  const [assessmentTotal, setAssessmentTotal] = useState(0);
+  const [loadingAssessments, setLoadingAssessments] = useState(false);
+  const [assessmentError, setAssessmentError] = useState<string | null>(null);
+  const [editOpen, setEditOpen] = useState(false);
+  // Numbers each history request; responses to any but the latest, e.g. for the previously shown patient, are dropped
+  const latestAssessmentRequest = useRef(0);
+
+  // Pages through the stored history, newest first; offset 0 starts over
+  const loadAssessments = async (patientId: string, offset: number) => {
+    const request = ++latestAssessmentRequest.current;
+    setLoadingAssessments(true);
+    setAssessmentError(null);
+    try {
+      const response = await fetch(`/api/patients/${patientId}/assessments?limit=${ASSESSMENT_PAGE_SIZE}&offset=${offset}`);
+      const data = await response.json();
+      if (request !== latestAssessmentRequest.current) return;
+
+      if (response.ok) {
+        setRecentAssessments(previous => offset === 0 ? data.assessments : [...previous, ...data.assessments]);
+        setAssessmentTotal(data.total);
+      } else {
+        setAssessmentError(data.error || 'Failed to load assessments');
+      }
+    } catch (error) {
+      if (request !== latestAssessmentRequest.current) return;
+      setAssessmentError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      if (request === latestAssessmentRequest.current) {
+        setLoadingAssessments(false);
+      }
+    }
+  };
+
+  // Another patient's history is not shown while this one's loads
+  useEffect(() => {
+    setRecentAssessments([]);
+    setAssessmentTotal(0);
+  }, [patient?.id]);
 
   useEffect(() => {
     if (patient && open) {
-      // Mock recent assessments - in real app would fetch from API
-      setRecentAssessments([
-        {
-          id: `assessment-${patient.id}-1`,
-          patientId: patient.id,
-          sessionId: `session-${patient.id}-1`,
-          timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-          callDuration: 185,
-          callStatus: 'completed',
-          biomarkers: {
-            jitter: 2.1,
-            shimmer: 6.2,
-            hnr: 9.5,
-            f0: 145.2,
-            spectralSlope: -8.7,
-            voiceIntensity: 48.3
-          },
-          qualityMetrics: {
-            audioQuality: 87,
-            backgroundNoise: 12,
-            completeness: 95
-          },
-          riskScore: patient.currentRisk.score,
-          alertGenerated: patient.currentRisk.level === 'critical' || patient.currentRisk.level === 'high'
-        },
-        {
-          id: `assessment-${patient.id}-2`,
-          patientId: patient.id,
-          sessionId: `session-${patient.id}-2`,
-          timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-          callDuration: 203,
-          callStatus: 'completed',
-          biomarkers: {
-            jitter: 1.8,
-            shimmer: 5.9,
-            hnr: 11.2,
-            f0: 152.1,
-            spectralSlope: -9.2,
-            voiceIntensity: 52.1
-          },
-          qualityMetrics: {
-            audioQuality: 92,
-            backgroundNoise: 8,
-            completeness: 98
-          },
-          riskScore: Math.max(0, patient.currentRisk.score - 10),
-          alertGenerated: false
-        }
-      ]);
+      setBaseline(patient.baseline);
+      loadAssessments(patient.id, 0);
     }
   }, [patient, open]);
 
   if (!patient) return null;
 
+  const referenceProfile = referenceProfileFor(patient);
+  const trendEvidence = patient.currentRisk.trendEvidence;
+
+  const contributionLabel = (feature: string) =>
+    BASELINE_FEATURE_LABELS[feature as BaselineFeature]?.label ?? CONTRIBUTION_FEATURE_LABELS[feature] ?? feature;
+
+  const renderBiomarker = (feature: BaselineFeature, value: number) => {
+    // Interpreted against the sex- and age-specific norms the risk engine uses
+    const flag = referenceRanges.classify(feature, value, referenceProfile);
+    return (
+      <div key={feature}>
+        <span className="font-medium">{BASELINE_FEATURE_LABELS[feature].label}:</span>{' '}
+        {value}{BASELINE_FEATURE_LABELS[feature].unit === '%' ? '%' : ` ${BASELINE_FEATURE_LABELS[feature].unit}`}
+        {flag && (
+          <span className={`ml-1 text-xs ${RANGE_CLASSIFICATION_STYLES[flag.classification]}`}>
+            ({flag.classification})
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const handleResetBaseline = async () => {
+    if (!confirm('Reset this patient\'s voice baseline? The next assessments will build a new one.')) return;
+
+    setResettingBaseline(true);
+    try {
+      const response = await fetch(`/api/patients/${patient.id}/baseline`, {
+        method: 'DELETE',
+        headers: { 'If-Match': `"${patient.version ?? 0}"` }
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setBaseline(data.baseline);
+        onPatientUpdated?.(data.patient);
+      } else if (response.status === 412) {
+        // Someone else changed the patient since it was loaded: show their copy before resetting
+        onPatientUpdated?.(data.patient);
+        alert('This patient was changed by someone else. Review the latest details and reset again if still needed.');
+      }
+    } catch (error) {
+      console.error('Error resetting baseline:', error);
+    } finally {
+      setResettingBaseline(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -141,12 +223,13 @@ export function PatientDetailDialog({
                   {patient.demographics.firstName} {patient.demographics.lastName}
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  MRN: {patient.demographics.mrn} | DOB: {formatDate(patient.demographics.dateOfBirth)}
+                  MRN: {patient.demographics.mrn} | DOB: {formatDate(patient.demographics.dateOfBirth)} | Sex at birth: {patient.demographics.sexAtBirth}
                 </p>
                 <div className="flex items-center gap-2 mt-1">
                   <RiskBadge 
                     level={patient.currentRisk.level}
                     score={patient.currentRisk.score}
+                    interval={patient.currentRisk.interval}
                     size="sm"
                   />
                   <Badge variant="outline" className="text-xs">
@@ -156,6 +239,14 @@ export function PatientDetailDialog({
               </div>
             </div>
             <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditOpen(true)}
+              >
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -223,6 +314,7 @@ export function PatientDetailDialog({
                       <RiskBadge 
                         level={patient.currentRisk.level}
                         score={patient.currentRisk.score}
+                        interval={patient.currentRisk.interval}
                         size="sm"
                       />
                     </div>
@@ -232,6 +324,15 @@ export function PatientDetailDialog({
                         {patient.currentRisk.trend}
                       </Badge>
                     </div>
+                    {trendEvidence && (
+                      <p className="text-xs text-muted-foreground">
+                        {trendEvidence.assessmentIds.length < DEFAULT_TREND_OPTIONS.minAssessments
+                          ? `Not enough recent assessments for a trend (${trendEvidence.assessmentIds.length})`
+                          : `${trendEvidence.slopePerWeek > 0 ? '+' : ''}${trendEvidence.slopePerWeek} points/week ` +
+                            `(${Math.round(trendEvidence.confidenceLevel * 100)}% CI ${trendEvidence.confidenceInterval[0]} to ${trendEvidence.confidenceInterval[1]}) ` +
+                            `over ${trendEvidence.assessmentIds.length} assessments since ${formatDate(trendEvidence.windowStart)}`}
+                      </p>
+                    )}
                     <div className="flex items-center justify-between">
                       <span className="text-sm">Last Updated:</span>
                       <span className="text-xs text-muted-foreground">
@@ -269,6 +370,18 @@ export function PatientDetailDialog({
                       <span className="text-sm">NYHA Class:</span>
                       <Badge variant="outline">Class {patient.clinicalInfo.nyhaClass}</Badge>
                     </div>
+                    <div className="flex justify-between gap-2">
+                      <span className="text-sm">Comorbidities:</span>
+                      <div className="flex flex-wrap justify-end gap-1">
+                        {patient.clinicalInfo.comorbidities.length > 0 ? (
+                          patient.clinicalInfo.comorbidities.map((comorbidity) => (
+                            <Badge key={comorbidity} variant="outline">{COMORBIDITY_LABELS[comorbidity]}</Badge>
+                          ))
+                        ) : (
+                          <span className="text-sm text-muted-foreground">None recorded</span>
+                        )}
+                      </div>
+                    </div>
                   </CardContent>
                 </Card>
 
@@ -313,37 +426,89 @@ export function PatientDetailDialog({
 
             {/* Voice Assessments Tab */}
             <TabsContent value="assessments" className="space-y-4">
+              {/* Personal Baseline */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="flex items-center gap-2 text-sm">
+                        <Activity className="h-4 w-4" />
+                        Personal Baseline
+                      </CardTitle>
+                      <CardDescription>
+                        {baseline
+                          ? baseline.status === 'established'
+                            ? `Established from ${baseline.assessmentCount} assessments, updated ${formatTime(baseline.lastUpdated)}`
+                            : `Building: ${baseline.assessmentCount} of ${baseline.requiredAssessments} good-quality assessments`
+                          : 'No baseline yet - population ranges are used for scoring'}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleResetBaseline}
+                      disabled={resettingBaseline}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Reset Baseline
+                    </Button>
+                  </div>
+                </CardHeader>
+                {baseline && Object.keys(baseline.statistics).length > 0 && (
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                      {(Object.keys(BASELINE_FEATURE_LABELS) as BaselineFeature[]).map((feature) => {
+                        const statistics = baseline.statistics[feature];
+                        if (!statistics) return null;
+                        return (
+                          <div key={feature}>
+                            <span className="font-medium">{BASELINE_FEATURE_LABELS[feature].label}:</span>{' '}
+                            {statistics.mean.toFixed(2)} ± {statistics.standardDeviation.toFixed(2)} {BASELINE_FEATURE_LABELS[feature].unit}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
+
               <div className="space-y-3">
+                {assessmentError && <p className="text-sm text-red-600">Error: {assessmentError}</p>}
+                {!loadingAssessments && !assessmentError && recentAssessments.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-6">No voice assessments recorded yet</p>
+                )}
                 {recentAssessments.map((assessment) => (
                   <Card key={assessment.id}>
                     <CardHeader className="pb-3">
                       <div className="flex items-center justify-between">
                         <CardTitle className="text-sm">
-                          Voice Assessment - {formatTime(assessment.timestamp)}
+                          Voice Assessment{assessment.task && ` (${assessment.task})`} - {formatTime(assessment.timestamp)}
                         </CardTitle>
                         <div className="flex items-center gap-2">
                           <Badge variant={assessment.callStatus === 'completed' ? 'default' : 'secondary'}>
                             {assessment.callStatus}
                           </Badge>
-                          <RiskBadge level={assessment.riskScore >= 80 ? 'critical' : assessment.riskScore >= 60 ? 'high' : assessment.riskScore >= 35 ? 'medium' : 'low'} score={assessment.riskScore} size="sm" />
+                          {assessment.qualityMetrics.usable === false ? (
+                            <Badge variant="outline" className="text-xs">Not scored</Badge>
+                          ) : (
+                            <RiskBadge
+                              level={assessment.riskLevel ?? (assessment.riskScore >= 80 ? 'critical' : assessment.riskScore >= 60 ? 'high' : assessment.riskScore >= 35 ? 'medium' : 'low')}
+                              score={assessment.riskScore}
+                              interval={assessment.riskInterval}
+                              size="sm"
+                            />
+                          )}
                         </div>
                       </div>
                     </CardHeader>
                     <CardContent>
                       {assessment.biomarkers && (
                         <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
-                          <div>
-                            <span className="font-medium">Jitter:</span> {assessment.biomarkers.jitter}%
-                          </div>
-                          <div>
-                            <span className="font-medium">Shimmer:</span> {assessment.biomarkers.shimmer}%
-                          </div>
-                          <div>
-                            <span className="font-medium">HNR:</span> {assessment.biomarkers.hnr} dB
-                          </div>
-                          <div>
-                            <span className="font-medium">F0:</span> {assessment.biomarkers.f0} Hz
-                          </div>
+                          {renderBiomarker('jitter', assessment.biomarkers.jitter)}
+                          {renderBiomarker('shimmer', assessment.biomarkers.shimmer)}
+                          {renderBiomarker('hnr', assessment.biomarkers.hnr)}
+                          {renderBiomarker('f0', assessment.biomarkers.f0)}
+                          {renderBiomarker('voiceIntensity', assessment.biomarkers.voiceIntensity)}
                           <div>
                             <span className="font-medium">Duration:</span> {Math.floor(assessment.callDuration / 60)}m {assessment.callDuration % 60}s
                           </div>
@@ -352,9 +517,125 @@ export function PatientDetailDialog({
                           </div>
                         </div>
                       )}
+                      {assessment.biomarkers && (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          Reference ranges v{assessment.referenceRangeVersion ?? referenceRanges.version}
+                          {referenceProfile.sexAtBirth === 'unknown' && ' (sex unknown - population-wide ranges)'}
+                        </p>
+                      )}
+                      {assessment.riskInterval && (
+                        <p className="text-xs text-muted-foreground">
+                          Score range {assessment.riskInterval.lower}-{assessment.riskInterval.upper} at{' '}
+                          {Math.round(assessment.riskInterval.confidenceLevel * 100)}% confidence, from recording quality and measurement spread
+                        </p>
+                      )}
+                      {assessment.modelPrediction && (
+                        <p className="text-xs text-muted-foreground">
+                          Outcome model v{assessment.modelPrediction.modelVersion}:{' '}
+                          {Math.round(assessment.modelPrediction.probability * 100)}% probability of HF hospitalization or ED visit
+                          within {assessment.modelPrediction.horizonDays} days
+                        </p>
+                      )}
+                      {assessment.riskComponents && assessment.riskComponents.length > 1 && (
+                        <div className="mt-3 grid grid-cols-2 gap-2 text-sm">
+                          {assessment.riskComponents.map((component) => (
+                            <div key={component.component} className="p-2 bg-slate-50 rounded">
+                              <span className="font-medium">
+                                {component.component === 'acoustic' ? 'Voice' : 'Words'}:
+                              </span>{' '}
+                              {component.contribution} pts
+                              <span className="text-xs text-muted-foreground">
+                                {' '}(score {component.score} × {Math.round(component.weight * 100)}%)
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {assessment.clinicalAnalysis && (
+                        <p className="mt-2 text-sm text-muted-foreground">
+                          {assessment.clinicalAnalysis.clinicalSummary}
+                        </p>
+                      )}
+                      {assessment.baselineDeviations && assessment.baselineDeviations.length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-1">
+                          {assessment.baselineDeviations.map((deviation) => (
+                            <Badge
+                              key={deviation.feature}
+                              variant={Math.abs(deviation.zScore) >= 2 ? 'destructive' : 'outline'}
+                              className="text-xs"
+                            >
+                              {BASELINE_FEATURE_LABELS[deviation.feature].label} {deviation.zScore > 0 ? '+' : ''}{deviation.zScore.toFixed(1)} SD
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {assessment.riskExplanation && (
+                        <div className="mt-3">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => setExplainedAssessmentId(explainedAssessmentId === assessment.id ? null : assessment.id)}
+                          >
+                            <HelpCircle className="h-3 w-3 mr-1" />
+                            Why this score?
+                          </Button>
+                          {explainedAssessmentId === assessment.id && (
+                            <div className="mt-2 p-3 bg-slate-50 rounded text-sm space-y-2">
+                              {assessment.riskExplanation.length === 0 ? (
+                                <p className="text-muted-foreground">No feature added points to this score.</p>
+                              ) : (
+                                [...assessment.riskExplanation]
+                                  .sort((a, b) => b.weightedPoints - a.weightedPoints)
+                                  .map((entry) => (
+                                    <div key={`${entry.component}-${entry.feature}`} className="flex items-start justify-between gap-3">
+                                      <div>
+                                        <div>
+                                          <span className="font-medium">{contributionLabel(entry.feature)}</span>{' '}
+                                          {entry.value}
+                                          <span className="text-xs text-muted-foreground"> - {entry.band}</span>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">
+                                          {entry.reason}
+                                          {entry.adjustments && ` (${entry.adjustments.join(', ')})`}
+                                        </p>
+                                      </div>
+                                      <span className="font-medium whitespace-nowrap">+{entry.weightedPoints} pts</span>
+                                    </div>
+                                  ))
+                              )}
+                              <p className="pt-2 border-t text-xs text-muted-foreground">
+                                Points are weighted by each component&apos;s share of the composite; the voice score is capped at 100.
+                                {assessment.scoringPolicyVersion && ` Scoring policy v${assessment.scoringPolicyVersion}.`}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {assessment.qualityMetrics.issues && assessment.qualityMetrics.issues.length > 0 && (
+                        <div className="mt-3 text-sm text-amber-700">
+                          <span className="font-medium">Repeat assessment needed:</span>{' '}
+                          {assessment.qualityMetrics.issues.join('; ')}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
+                {recentAssessments.length < assessmentTotal && (
+                  <div className="flex items-center justify-center gap-3">
+                    <span className="text-xs text-muted-foreground">
+                      Showing {recentAssessments.length} of {assessmentTotal}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => loadAssessments(patient.id, recentAssessments.length)}
+                      disabled={loadingAssessments}
+                    >
+                      Load older assessments
+                    </Button>
+                  </div>
+                )}
               </div>
             </TabsContent>
 
@@ -423,6 +704,13 @@ export function PatientDetailDialog({
           </Tabs>
         </div>
       </DialogContent>
+
+      <EditPatientDialog
+        patientId={patient.id}
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        onPatientUpdated={onPatientUpdated}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
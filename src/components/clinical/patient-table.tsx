@@ -151,6 +151,7 @@ export function PatientTable({ patients, onPatientSelect, onCallPatient }: Patie
                   <RiskBadge 
                     level={patient.currentRisk.level}
                     score={patient.currentRisk.score}
+                    interval={patient.currentRisk.interval}
                     size="sm"
                   />
                 </TableCell>
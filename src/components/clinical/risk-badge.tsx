@@ -2,11 +2,12 @@
 
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import { RiskLevel } from '@/types/clinical';
+import { RiskInterval, RiskLevel } from '@/types/clinical';
 
 interface RiskBadgeProps {
   level: RiskLevel;
   score: number;
+  interval?: RiskInterval; // uncertainty band, shown next to the score
   size?: 'sm' | 'md' | 'lg';
   showScore?: boolean;
 }
@@ -46,7 +47,7 @@ const getRiskConfig = (level: RiskLevel) => {
   }
 };
 
-export function RiskBadge({ level, score, size = 'md', showScore = true }: RiskBadgeProps) {
+export function RiskBadge({ level, score, interval, size = 'md', showScore = true }: RiskBadgeProps) {
   const config = getRiskConfig(level);
   
   const sizeClasses = {
@@ -55,8 +56,12 @@ export function RiskBadge({ level, score, size = 'md', showScore = true }: RiskB
     lg: 'text-base px-4 py-2'
   };
 
+  // A band of a point or less carries no information worth the space
+  const showInterval = showScore && interval && interval.upper - interval.lower > 1;
+
   return (
     <Badge
+      title={interval ? `${Math.round(interval.confidenceLevel * 100)}% range: ${interval.lower}-${interval.upper}` : undefined}
       className={cn(
         config.className,
         sizeClasses[size],
@@ -66,7 +71,9 @@ export function RiskBadge({ level, score, size = 'md', showScore = true }: RiskB
       <span className="text-xs">{config.icon}</span>
       {showScore ? (
         <span>
-          {score} - {config.label}
+          {score}
+          {showInterval && <span className="opacity-75"> ({interval.lower}-{interval.upper})</span>}
+          {' '}- {config.label}
         </span>
       ) : (
         config.label
@@ -0,0 +1,22 @@
+// HeartVoice Monitor - Server Instrumentation
+// Starts the scheduled model monitoring checks once per server process
+
+export async function register() {
+  // The services need Node's file system and SQLite, not the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { modelMonitors, patientService } = await import('@/services/shared-services');
+  const { scheduleDriftChecks } = await import('@/services/model-monitoring');
+
+  // MODEL_MONITORING_INTERVAL_HOURS sets how often drift is checked, daily by default
+  const intervalHours = Number(process.env.MODEL_MONITORING_INTERVAL_HOURS) || 24;
+  scheduleDriftChecks(
+    Object.values(modelMonitors),
+    async () => ({
+      assessments: await patientService.getAllAssessments(),
+      outcomes: await patientService.getOutcomes(),
+      patients: await patientService.getAllPatients()
+    }),
+    intervalHours * 60 * 60 * 1000
+  );
+}
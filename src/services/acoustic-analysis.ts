@@ -0,0 +1,423 @@
+// HeartVoice Monitor - Acoustic Analysis Service
+// Pitch tracking and glottal cycle detection used by voice biomarker extraction
+
+export interface PitchTrackerOptions {
+  minPitch: number; // Hz - lowest expected F0
+  maxPitch: number; // Hz - highest expected F0
+  timeStep: number; // seconds between analysis frames
+  voicingThreshold: number; // minimum normalized autocorrelation for a voiced frame (0-1)
+  silenceThreshold: number; // frame peak relative to recording peak below which a frame is silent (0-1)
+}
+
+export interface PitchFrame {
+  time: number; // seconds, frame centre
+  f0: number; // Hz, 0 when unvoiced
+  correlation: number; // normalized autocorrelation at the detected period (0-1)
+  voiced: boolean;
+}
+
+export interface PitchMark {
+  time: number; // seconds, position of the cycle's peak
+  amplitude: number; // absolute peak amplitude of the cycle
+  runIndex: number; // index of the contiguous voiced run the mark belongs to
+}
+
+export interface PitchAnalysis {
+  sampleRate: number;
+  frames: PitchFrame[];
+  marks: PitchMark[];
+  periods: number[][]; // seconds, grouped by run of uninterrupted glottal cycles
+  amplitudes: number[][]; // cycle peak amplitudes, same grouping as periods (one more entry per group)
+}
+
+export interface JitterMeasures {
+  local: number; // %
+  rap: number; // % - relative average perturbation (3-period)
+  ppq5: number; // % - five-point period perturbation quotient
+  periodCount: number;
+}
+
+export interface ShimmerMeasures {
+  local: number; // %
+  apq3: number; // % - three-point amplitude perturbation quotient
+  apq5: number; // % - five-point amplitude perturbation quotient
+  apq11: number; // % - eleven-point amplitude perturbation quotient
+  cycleCount: number;
+}
+
+export const DEFAULT_PITCH_OPTIONS: PitchTrackerOptions = {
+  minPitch: 75,
+  maxPitch: 500,
+  timeStep: 0.01,
+  voicingThreshold: 0.45,
+  silenceThreshold: 0.03
+};
+
+// Consecutive periods differing by more than this factor are treated as a break
+// in phonation rather than perturbation (same rule Praat applies).
+const MAX_PERIOD_FACTOR = 1.3;
+
+// Caps per-frame HNR at 40 dB so a near-perfect correlation does not dominate the mean
+const MAX_HNR_CORRELATION = 0.9999;
+
+export class PitchTracker {
+  private options: PitchTrackerOptions;
+
+  constructor(options: Partial<PitchTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_PITCH_OPTIONS, ...options };
+  }
+
+  analyze(samples: Float32Array, sampleRate: number): PitchAnalysis {
+    const frames = this.trackPitch(samples, sampleRate);
+    const marks = this.findPitchMarks(samples, sampleRate, frames);
+    const { periods, amplitudes } = this.groupCycles(marks);
+
+    return { sampleRate, frames, marks, periods, amplitudes };
+  }
+
+  trackPitch(samples: Float32Array, sampleRate: number): PitchFrame[] {
+    const { minPitch, maxPitch, timeStep, voicingThreshold, silenceThreshold } = this.options;
+
+    // Three periods of the lowest pitch fit in every analysis window
+    const windowLength = Math.round((3 / minPitch) * sampleRate);
+    const hopLength = Math.max(1, Math.round(timeStep * sampleRate));
+    const minLag = Math.max(2, Math.floor(sampleRate / maxPitch));
+    const maxLag = Math.min(Math.ceil(sampleRate / minPitch), windowLength - 1);
+
+    const globalPeak = peakAbsolute(samples, 0, samples.length);
+    const frames: PitchFrame[] = [];
+
+    if (samples.length < windowLength || globalPeak === 0) {
+      return frames;
+    }
+
+    const frame = new Float64Array(windowLength);
+
+    for (let start = 0; start + windowLength <= samples.length; start += hopLength) {
+      const time = (start + windowLength / 2) / sampleRate;
+
+      if (peakAbsolute(samples, start, start + windowLength) < silenceThreshold * globalPeak) {
+        frames.push({ time, f0: 0, correlation: 0, voiced: false });
+        continue;
+      }
+
+      let mean = 0;
+      for (let i = 0; i < windowLength; i++) mean += samples[start + i];
+      mean /= windowLength;
+      for (let i = 0; i < windowLength; i++) frame[i] = samples[start + i] - mean;
+
+      const correlations = new Float64Array(maxLag + 2);
+      for (let lag = minLag - 1; lag <= maxLag + 1 && lag < windowLength; lag++) {
+        correlations[lag] = normalizedCorrelation(frame, lag);
+      }
+
+      const best = pickPeriodLag(correlations, minLag, maxLag);
+      if (!best || best.correlation < voicingThreshold) {
+        frames.push({ time, f0: 0, correlation: Math.max(0, best?.correlation ?? 0), voiced: false });
+        continue;
+      }
+
+      frames.push({
+        time,
+        f0: sampleRate / best.lag,
+        correlation: Math.min(1, best.correlation),
+        voiced: true
+      });
+    }
+
+    return frames;
+  }
+
+  findPitchMarks(samples: Float32Array, sampleRate: number, frames: PitchFrame[]): PitchMark[] {
+    const marks: PitchMark[] = [];
+    const halfStep = this.options.timeStep / 2;
+    let runIndex = 0;
+    let i = 0;
+
+    while (i < frames.length) {
+      if (!frames[i].voiced) {
+        i++;
+        continue;
+      }
+
+      const runFrames: PitchFrame[] = [];
+      while (i < frames.length && frames[i].voiced) {
+        runFrames.push(frames[i]);
+        i++;
+      }
+
+      const runStart = Math.max(0, Math.floor((runFrames[0].time - halfStep) * sampleRate));
+      const runEnd = Math.min(samples.length, Math.ceil((runFrames[runFrames.length - 1].time + halfStep) * sampleRate));
+      const polarity = dominantPolarity(samples, runStart, runEnd);
+      const minimumPeak = this.options.silenceThreshold * peakAbsolute(samples, runStart, runEnd);
+
+      // Anchor on the strongest peak within the first period of sound, then step cycle by cycle
+      let onset = runStart;
+      while (onset < runEnd && samples[onset] * polarity < minimumPeak) onset++;
+      if (onset >= runEnd) {
+        runIndex++;
+        continue;
+      }
+
+      const firstPeriod = sampleRate / runFrames[0].f0;
+      let position = argMaxSigned(samples, onset, Math.min(runEnd, onset + Math.ceil(firstPeriod)), polarity);
+
+      while (position < runEnd) {
+        const refined = refinePeak(samples, position, polarity);
+        marks.push({ time: refined.position / sampleRate, amplitude: Math.abs(refined.value), runIndex });
+
+        const period = sampleRate / f0AtTime(runFrames, position / sampleRate, this.options.timeStep);
+        const searchStart = Math.round(position + 0.8 * period);
+        const searchEnd = Math.min(runEnd, Math.round(position + 1.2 * period) + 1);
+        if (searchStart >= searchEnd) break;
+
+        position = argMaxSigned(samples, searchStart, searchEnd, polarity);
+
+        // Phonation ended inside the final frame; a flat search window is not a cycle
+        if (samples[position] * polarity < minimumPeak) break;
+      }
+
+      runIndex++;
+    }
+
+    return marks;
+  }
+
+  private groupCycles(marks: PitchMark[]): { periods: number[][]; amplitudes: number[][] } {
+    const minPeriod = 1 / this.options.maxPitch;
+    const maxPeriod = 1 / this.options.minPitch;
+    const periods: number[][] = [];
+    const amplitudes: number[][] = [];
+    let currentPeriods: number[] = [];
+    let currentAmplitudes: number[] = [];
+
+    for (let i = 1; i < marks.length; i++) {
+      const period = marks[i].time - marks[i - 1].time;
+      const sameRun = marks[i].runIndex === marks[i - 1].runIndex;
+      const inRange = period >= minPeriod && period <= maxPeriod;
+      const previous = currentPeriods[currentPeriods.length - 1];
+      const consistent = previous === undefined ||
+        (period / previous <= MAX_PERIOD_FACTOR && previous / period <= MAX_PERIOD_FACTOR);
+
+      if (sameRun && inRange && consistent) {
+        if (currentPeriods.length === 0) currentAmplitudes = [marks[i - 1].amplitude];
+        currentPeriods.push(period);
+        currentAmplitudes.push(marks[i].amplitude);
+        continue;
+      }
+
+      if (currentPeriods.length > 0) {
+        periods.push(currentPeriods);
+        amplitudes.push(currentAmplitudes);
+      }
+      currentPeriods = sameRun && inRange ? [period] : [];
+      currentAmplitudes = sameRun && inRange ? [marks[i - 1].amplitude, marks[i].amplitude] : [];
+    }
+
+    if (currentPeriods.length > 0) {
+      periods.push(currentPeriods);
+      amplitudes.push(currentAmplitudes);
+    }
+    return { periods, amplitudes };
+  }
+}
+
+export function calculateJitterMeasures(periods: number[][]): JitterMeasures {
+  // Differences are only taken inside uninterrupted runs of periods, then pooled
+  let periodSum = 0;
+  let periodCount = 0;
+  let localSum = 0;
+  let localCount = 0;
+
+  for (const run of periods) {
+    for (let i = 0; i < run.length; i++) {
+      periodSum += run[i];
+      periodCount++;
+      if (i >= 1) {
+        localSum += Math.abs(run[i] - run[i - 1]);
+        localCount++;
+      }
+    }
+  }
+
+  if (periodCount === 0 || localCount === 0) {
+    return { local: 0, rap: 0, ppq5: 0, periodCount };
+  }
+
+  const meanPeriod = periodSum / periodCount;
+
+  return {
+    local: (localSum / localCount / meanPeriod) * 100,
+    rap: (perturbationQuotient(periods, 3) / meanPeriod) * 100,
+    ppq5: (perturbationQuotient(periods, 5) / meanPeriod) * 100,
+    periodCount
+  };
+}
+
+export function calculateShimmerMeasures(amplitudes: number[][]): ShimmerMeasures {
+  // Peak amplitudes of consecutive glottal cycles, pooled across uninterrupted runs
+  let amplitudeSum = 0;
+  let cycleCount = 0;
+  let localSum = 0;
+  let localCount = 0;
+
+  for (const run of amplitudes) {
+    for (let i = 0; i < run.length; i++) {
+      amplitudeSum += run[i];
+      cycleCount++;
+      if (i >= 1) {
+        localSum += Math.abs(run[i] - run[i - 1]);
+        localCount++;
+      }
+    }
+  }
+
+  if (cycleCount === 0 || localCount === 0 || amplitudeSum === 0) {
+    return { local: 0, apq3: 0, apq5: 0, apq11: 0, cycleCount };
+  }
+
+  const meanAmplitude = amplitudeSum / cycleCount;
+
+  return {
+    local: (localSum / localCount / meanAmplitude) * 100,
+    apq3: (perturbationQuotient(amplitudes, 3) / meanAmplitude) * 100,
+    apq5: (perturbationQuotient(amplitudes, 5) / meanAmplitude) * 100,
+    apq11: (perturbationQuotient(amplitudes, 11) / meanAmplitude) * 100,
+    cycleCount
+  };
+}
+
+export function calculateHarmonicsToNoise(frames: PitchFrame[]): number {
+  // Per-frame HNR from the normalized autocorrelation peak: r / (1 - r) is the
+  // ratio of periodic to aperiodic energy. Averaged over voiced frames only.
+  const voiced = frames.filter(frame => frame.voiced);
+  if (voiced.length === 0) return 0;
+
+  const total = voiced.reduce((sum, frame) => {
+    const r = Math.min(MAX_HNR_CORRELATION, Math.max(frame.correlation, 1e-6));
+    return sum + 10 * Math.log10(r / (1 - r));
+  }, 0);
+
+  return total / voiced.length;
+}
+
+function perturbationQuotient(runs: number[][], points: number): number {
+  // Mean absolute deviation of each value from its centred moving average
+  const half = Math.floor(points / 2);
+  let sum = 0;
+  let count = 0;
+
+  for (const run of runs) {
+    for (let i = half; i < run.length - half; i++) {
+      let neighbourhood = 0;
+      for (let j = i - half; j <= i + half; j++) neighbourhood += run[j];
+      sum += Math.abs(run[i] - neighbourhood / points);
+      count++;
+    }
+  }
+
+  return count > 0 ? sum / count : 0;
+}
+
+function peakAbsolute(samples: Float32Array, start: number, end: number): number {
+  let peak = 0;
+  for (let i = start; i < end; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+  }
+  return peak;
+}
+
+function normalizedCorrelation(frame: Float64Array, lag: number): number {
+  let cross = 0;
+  let energyHead = 0;
+  let energyTail = 0;
+
+  for (let i = 0; i + lag < frame.length; i++) {
+    cross += frame[i] * frame[i + lag];
+    energyHead += frame[i] * frame[i];
+    energyTail += frame[i + lag] * frame[i + lag];
+  }
+
+  const denominator = Math.sqrt(energyHead * energyTail);
+  return denominator > 0 ? cross / denominator : 0;
+}
+
+function pickPeriodLag(
+  correlations: Float64Array,
+  minLag: number,
+  maxLag: number
+): { lag: number; correlation: number } | null {
+  // Local maxima only; the shortest lag within 10% of the strongest peak wins,
+  // which avoids locking onto subharmonics (octave-down errors)
+  const peaks: { lag: number; correlation: number }[] = [];
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const value = correlations[lag];
+    if (value > 0 && value >= correlations[lag - 1] && value > correlations[lag + 1]) {
+      const left = correlations[lag - 1];
+      const right = correlations[lag + 1];
+      const curvature = left - 2 * value + right;
+      const offset = curvature !== 0 ? (0.5 * (left - right)) / curvature : 0;
+      const interpolated = value - 0.25 * (left - right) * offset;
+      peaks.push({ lag: lag + offset, correlation: interpolated });
+    }
+  }
+
+  if (peaks.length === 0) return null;
+
+  const strongest = Math.max(...peaks.map(peak => peak.correlation));
+  return peaks.find(peak => peak.correlation >= 0.9 * strongest) || null;
+}
+
+function dominantPolarity(samples: Float32Array, start: number, end: number): 1 | -1 {
+  let max = 0;
+  let min = 0;
+  for (let i = start; i < end; i++) {
+    if (samples[i] > max) max = samples[i];
+    if (samples[i] < min) min = samples[i];
+  }
+  return max >= -min ? 1 : -1;
+}
+
+function argMaxSigned(samples: Float32Array, start: number, end: number, polarity: 1 | -1): number {
+  let best = start;
+  let bestValue = -Infinity;
+  for (let i = start; i < end; i++) {
+    const value = samples[i] * polarity;
+    if (value > bestValue) {
+      bestValue = value;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function refinePeak(samples: Float32Array, index: number, polarity: 1 | -1): { position: number; value: number } {
+  // Parabolic interpolation gives sub-sample cycle positions; at 8 kHz a single
+  // sample of quantization error would otherwise dominate the jitter estimate
+  if (index <= 0 || index >= samples.length - 1) {
+    return { position: index, value: samples[index] };
+  }
+
+  const left = samples[index - 1] * polarity;
+  const centre = samples[index] * polarity;
+  const right = samples[index + 1] * polarity;
+  const curvature = left - 2 * centre + right;
+
+  if (curvature >= 0) {
+    return { position: index, value: samples[index] };
+  }
+
+  const offset = (0.5 * (left - right)) / curvature;
+  return {
+    position: index + offset,
+    value: (centre - 0.25 * (left - right) * offset) * polarity
+  };
+}
+
+function f0AtTime(frames: PitchFrame[], time: number, timeStep: number): number {
+  // Frames within a run are evenly spaced, so the nearest one can be indexed directly
+  const index = Math.round((time - frames[0].time) / timeStep);
+  return frames[Math.min(frames.length - 1, Math.max(0, index))].f0;
+}
@@ -0,0 +1,28 @@
+// HeartVoice Monitor - Alert Repository
+// Storage interface for clinical alerts, with an in-memory implementation for tests and development
+
+import { ClinicalAlert } from '@/types/clinical';
+
+// Synchronous and copy-returning, like PatientRepository
+export interface AlertRepository {
+  get(alertId: string): ClinicalAlert | null;
+  list(): ClinicalAlert[]; // in order of creation
+  save(alert: ClinicalAlert): void; // inserts or replaces
+}
+
+export class InMemoryAlertRepository implements AlertRepository {
+  private alerts: Map<string, ClinicalAlert> = new Map();
+
+  get(alertId: string): ClinicalAlert | null {
+    const alert = this.alerts.get(alertId);
+    return alert ? structuredClone(alert) : null;
+  }
+
+  list(): ClinicalAlert[] {
+    return Array.from(this.alerts.values()).map(alert => structuredClone(alert));
+  }
+
+  save(alert: ClinicalAlert): void {
+    this.alerts.set(alert.id, structuredClone(alert));
+  }
+}
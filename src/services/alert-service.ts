@@ -0,0 +1,234 @@
+// HeartVoice Monitor - Clinical Alert Service
+// Turns alerting assessments into clinical alerts, merging repeat findings and honouring a per-patient cooldown,
+// and moves alerts through acknowledgement and resolution
+
+import { AlertStatusChange, ClinicalAlert, Patient, RiskLevel, VoiceAssessment } from '@/types/clinical';
+import { AlertRepository, InMemoryAlertRepository } from './alert-repository';
+
+type AlertStatus = ClinicalAlert['status'];
+
+export interface AlertOptions {
+  cooldownHours: number; // after an alert, no new one for the patient at the same or a lower level
+}
+
+export const DEFAULT_ALERT_OPTIONS: AlertOptions = {
+  cooldownHours: 12
+};
+
+const ALERT_PRESENTATION: Record<RiskLevel, Pick<ClinicalAlert, 'priority' | 'escalationLevel' | 'requiredActions'>> = {
+  critical: {
+    priority: 'immediate',
+    escalationLevel: 2,
+    requiredActions: ['Contact patient immediately', 'Review recent voice assessments', 'Consider clinical intervention']
+  },
+  high: {
+    priority: 'urgent',
+    escalationLevel: 1,
+    requiredActions: ['Contact patient within 24 hours', 'Review medication adherence']
+  },
+  medium: {
+    priority: 'routine',
+    escalationLevel: 0,
+    requiredActions: ['Review at next scheduled check-in']
+  },
+  low: {
+    priority: 'routine',
+    escalationLevel: 0,
+    requiredActions: ['Review at next scheduled check-in']
+  }
+};
+
+const LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+// Clinicians acknowledge an alert before resolving it; a resolved alert can be reopened
+const TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  active: ['acknowledged'],
+  acknowledged: ['resolved'],
+  resolved: ['active']
+};
+
+export class AlertTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertTransitionError';
+  }
+}
+
+// Who is acting on the alert, and what they did
+export type AlertUpdate = Pick<AlertStatusChange, 'by' | 'action' | 'notes'>;
+
+export interface AlertFilter {
+  status?: AlertStatus;
+  patientId?: string;
+  since?: string; // raised at or after this time
+}
+
+export class ClinicalAlertService {
+  private repository: AlertRepository;
+  private options: AlertOptions;
+
+  constructor(options: Partial<AlertOptions> = {}, repository: AlertRepository = new InMemoryAlertRepository()) {
+    this.options = { ...DEFAULT_ALERT_OPTIONS, ...options };
+    this.repository = repository;
+  }
+
+  // An assessment still at an alert level is merged into the patient's open alert; a new
+  // alert is only opened when the risk engine decided to alert and the cooldown allows it.
+  // Returns the alert the assessment was attached to, if any.
+  async recordFinding(assessment: VoiceAssessment, patient?: Patient | null): Promise<ClinicalAlert | null> {
+    if (!assessment.alertGenerated && !assessment.alertLevel) return null;
+
+    const level: RiskLevel = assessment.alertLevel ?? assessment.riskLevel ?? 'medium';
+    const open = this.getOpenAlert(assessment.patientId);
+    if (open) {
+      return this.merge(open, assessment, level, patient);
+    }
+    if (!assessment.alertGenerated) return null;
+
+    const last = this.getPatientAlerts(assessment.patientId)[0];
+    if (last && this.withinCooldown(last, assessment) && LEVEL_RANK[level] <= LEVEL_RANK[last.type]) {
+      console.log(`Alert for ${assessment.patientId} suppressed: within cooldown of ${last.id}`);
+      return null;
+    }
+
+    const alert: ClinicalAlert = {
+      id: `alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      patientId: assessment.patientId,
+      assessmentId: assessment.id,
+      type: level,
+      ...ALERT_PRESENTATION[level],
+      message: this.message(level, assessment),
+      detailedDescription: this.description(assessment, patient),
+      createdAt: assessment.timestamp,
+      status: 'active',
+      relatedAssessmentIds: [],
+      lastOccurrenceAt: assessment.timestamp,
+      statusHistory: []
+    };
+    this.repository.save(alert);
+    return alert;
+  }
+
+  async getAlertById(id: string): Promise<ClinicalAlert | null> {
+    return this.repository.get(id);
+  }
+
+  // Newest first
+  async getAlerts(filter: AlertFilter = {}): Promise<ClinicalAlert[]> {
+    const since = filter.since ? new Date(filter.since).getTime() : -Infinity;
+    return this.repository.list()
+      .filter(alert => (!filter.status || alert.status === filter.status) &&
+        (!filter.patientId || alert.patientId === filter.patientId) &&
+        new Date(alert.createdAt).getTime() >= since)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  // Active and acknowledged alerts
+  async getOpenAlerts(): Promise<ClinicalAlert[]> {
+    return (await this.getAlerts()).filter(alert => alert.status !== 'resolved');
+  }
+
+  // Newest first
+  getPatientAlerts(patientId: string): ClinicalAlert[] {
+    return this.repository.list()
+      .filter(alert => alert.patientId === patientId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  // Each returns null for an unknown alert and throws AlertTransitionError for a move TRANSITIONS does not allow
+  async acknowledge(id: string, update: AlertUpdate, at: string = new Date().toISOString()): Promise<ClinicalAlert | null> {
+    return this.transition(id, 'acknowledged', update, at);
+  }
+
+  async resolve(id: string, update: AlertUpdate, at: string = new Date().toISOString()): Promise<ClinicalAlert | null> {
+    return this.transition(id, 'resolved', update, at);
+  }
+
+  async reopen(id: string, update: AlertUpdate, at: string = new Date().toISOString()): Promise<ClinicalAlert | null> {
+    return this.transition(id, 'active', update, at);
+  }
+
+  private transition(id: string, to: AlertStatus, update: AlertUpdate, at: string): ClinicalAlert | null {
+    const alert = this.repository.get(id);
+    if (!alert) return null;
+
+    if (!TRANSITIONS[alert.status].includes(to)) {
+      throw new AlertTransitionError(`Alert ${id} is ${alert.status} and cannot become ${to}`);
+    }
+
+    this.recordStatusChange(alert, to, update, at);
+    if (to === 'acknowledged') {
+      alert.acknowledgedAt = at;
+      alert.acknowledgedBy = update.by;
+    } else if (to === 'resolved') {
+      alert.resolvedAt = at;
+      alert.resolvedBy = update.by;
+    }
+
+    this.repository.save(alert);
+    return alert;
+  }
+
+  // A reactivated alert needs a fresh acknowledgement; earlier ones stay in the history
+  private recordStatusChange(alert: ClinicalAlert, to: AlertStatus, update: AlertUpdate, at: string) {
+    alert.statusHistory = [...(alert.statusHistory ?? []), { from: alert.status, to, at, ...update }];
+    alert.status = to;
+    if (to === 'active') {
+      delete alert.acknowledgedAt;
+      delete alert.acknowledgedBy;
+      delete alert.resolvedAt;
+      delete alert.resolvedBy;
+    }
+  }
+
+  private getOpenAlert(patientId: string): ClinicalAlert | undefined {
+    return this.getPatientAlerts(patientId).find(alert => alert.status !== 'resolved');
+  }
+
+  private merge(alert: ClinicalAlert, assessment: VoiceAssessment, level: RiskLevel, patient?: Patient | null): ClinicalAlert {
+    // A revised assessment (its transcript arrived) is merged again without being listed twice
+    if (alert.assessmentId !== assessment.id && !alert.relatedAssessmentIds?.includes(assessment.id)) {
+      alert.relatedAssessmentIds = [...(alert.relatedAssessmentIds ?? []), assessment.id];
+    }
+    alert.lastOccurrenceAt = assessment.timestamp;
+
+    // A worse finding escalates the open alert and puts it back in front of the care team
+    if (LEVEL_RANK[level] > LEVEL_RANK[alert.type]) {
+      Object.assign(alert, {
+        type: level,
+        ...ALERT_PRESENTATION[level],
+        message: this.message(level, assessment),
+        detailedDescription: this.description(assessment, patient)
+      });
+      if (alert.status !== 'active') {
+        this.recordStatusChange(alert, 'active', { by: 'system', notes: `Escalated to ${level} by assessment ${assessment.id}` }, assessment.timestamp);
+      }
+    }
+
+    this.repository.save(alert);
+    return alert;
+  }
+
+  private withinCooldown(alert: ClinicalAlert, assessment: VoiceAssessment): boolean {
+    const elapsed = new Date(assessment.timestamp).getTime() - new Date(alert.createdAt).getTime();
+    return elapsed < this.options.cooldownHours * 60 * 60 * 1000;
+  }
+
+  private message(level: RiskLevel, assessment: VoiceAssessment): string {
+    return level === 'critical' || level === 'high'
+      ? `${level === 'critical' ? 'Critical' : 'High'} risk score of ${assessment.riskScore} detected`
+      : `Significant risk score increase to ${assessment.riskScore}`;
+  }
+
+  private description(assessment: VoiceAssessment, patient?: Patient | null): string {
+    const name = patient ? `${patient.demographics.firstName} ${patient.demographics.lastName}` : `Patient ${assessment.patientId}`;
+    const reasons = (assessment.riskExplanation ?? [])
+      .slice()
+      .sort((a, b) => b.weightedPoints - a.weightedPoints)
+      .slice(0, 3)
+      .map(entry => entry.reason);
+    return reasons.length > 0
+      ? `${name} has a risk score of ${assessment.riskScore}: ${reasons.join('; ')}.`
+      : `${name} has a risk score of ${assessment.riskScore}.`;
+  }
+}
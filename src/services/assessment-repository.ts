@@ -0,0 +1,55 @@
+// HeartVoice Monitor - Assessment Repository
+// Storage interface for voice assessment history, with an in-memory implementation for tests and development
+
+import { RiskLevel, VoiceAssessment } from '@/types/clinical';
+
+export interface AssessmentFilter {
+  patientId?: string;
+  from?: string; // ISO timestamps, inclusive
+  to?: string;
+  callStatus?: VoiceAssessment['callStatus'];
+  riskLevel?: RiskLevel;
+}
+
+export interface AssessmentPage {
+  assessments: VoiceAssessment[]; // newest first
+  total: number; // matching assessments across all pages
+  limit: number;
+  offset: number;
+}
+
+// Synchronous and copy-returning, like PatientRepository
+export interface AssessmentRepository {
+  save(assessment: VoiceAssessment): void; // inserts or replaces by id
+  find(filter?: AssessmentFilter): VoiceAssessment[]; // oldest first
+  findPage(filter: AssessmentFilter, limit: number, offset: number): AssessmentPage;
+}
+
+export class InMemoryAssessmentRepository implements AssessmentRepository {
+  private assessments: Map<string, VoiceAssessment> = new Map();
+
+  save(assessment: VoiceAssessment): void {
+    this.assessments.set(assessment.id, structuredClone(assessment));
+  }
+
+  find(filter: AssessmentFilter = {}): VoiceAssessment[] {
+    const from = filter.from ? new Date(filter.from).getTime() : -Infinity;
+    const to = filter.to ? new Date(filter.to).getTime() : Infinity;
+
+    return Array.from(this.assessments.values())
+      .filter(assessment => {
+        const time = new Date(assessment.timestamp).getTime();
+        return (!filter.patientId || assessment.patientId === filter.patientId) &&
+          time >= from && time <= to &&
+          (!filter.callStatus || assessment.callStatus === filter.callStatus) &&
+          (!filter.riskLevel || assessment.riskLevel === filter.riskLevel);
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .map(assessment => structuredClone(assessment));
+  }
+
+  findPage(filter: AssessmentFilter, limit: number, offset: number): AssessmentPage {
+    const matching = this.find(filter).reverse();
+    return { assessments: matching.slice(offset, offset + limit), total: matching.length, limit, offset };
+  }
+}
@@ -0,0 +1,337 @@
+// HeartVoice Monitor - Audio Decoding Service
+// Normalizes Twilio recordings and telephony streams to mono float PCM for biomarker analysis
+
+export type AudioSourceFormat = 'wav-pcm' | 'wav-float' | 'wav-mulaw' | 'wav-alaw' | 'mulaw' | 'pcm16' | 'mp3';
+
+export interface DecodedAudio {
+  samples: Float32Array; // mono, -1..1
+  sampleRate: number; // Hz
+  channelData: Float32Array[]; // per-channel samples before downmix (Twilio dual-channel recordings)
+  duration: number; // seconds
+  sourceFormat: AudioSourceFormat;
+}
+
+export type AudioDecodingErrorCode = 'empty' | 'truncated' | 'corrupt' | 'unsupported-format';
+
+export class AudioDecodingError extends Error {
+  readonly code: AudioDecodingErrorCode;
+
+  constructor(code: AudioDecodingErrorCode, message: string) {
+    super(message);
+    this.name = 'AudioDecodingError';
+    this.code = code;
+  }
+}
+
+export interface DecodeOptions {
+  contentType?: string; // e.g. 'audio/wav', 'audio/x-mulaw;rate=8000', 'audio/l16;rate=8000'
+  sampleRate?: number; // for headerless input when the content type carries no rate
+}
+
+// Compressed formats are delegated to a pluggable decoder so the core pipeline stays dependency-free
+export interface CompressedAudioDecoder {
+  decode(buffer: ArrayBuffer): Promise<{ channelData: Float32Array[]; sampleRate: number }>;
+}
+
+const TELEPHONY_SAMPLE_RATE = 8000;
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Streaming writers (including Twilio live recordings) leave the data size unset
+const UNKNOWN_CHUNK_SIZE = 0xffffffff;
+
+export class AudioDecoder {
+  private mp3Decoder?: CompressedAudioDecoder;
+
+  constructor(options: { mp3Decoder?: CompressedAudioDecoder } = {}) {
+    this.mp3Decoder = options.mp3Decoder;
+  }
+
+  async decode(buffer: ArrayBuffer, options: DecodeOptions = {}): Promise<DecodedAudio> {
+    if (buffer.byteLength === 0) {
+      throw new AudioDecodingError('empty', 'Audio buffer is empty');
+    }
+
+    const mimeType = (options.contentType || '').split(';')[0].trim().toLowerCase();
+    const rate = parseRateParameter(options.contentType) || options.sampleRate || TELEPHONY_SAMPLE_RATE;
+
+    if (hasRiffHeader(buffer)) {
+      return this.decodeWav(buffer);
+    }
+    if (isMp3(buffer) || mimeType === 'audio/mpeg' || mimeType === 'audio/mp3') {
+      return this.decodeMp3(buffer);
+    }
+    if (mimeType === 'audio/x-mulaw' || mimeType === 'audio/basic' || mimeType === 'audio/pcmu') {
+      return buildDecodedAudio([decodeMulaw(new Uint8Array(buffer))], rate, 'mulaw');
+    }
+    if (mimeType === 'audio/l16') {
+      // RFC 2586 linear PCM is network byte order
+      return buildDecodedAudio([decodePcm16(buffer, 0, buffer.byteLength, false)], rate, 'pcm16');
+    }
+
+    throw new AudioDecodingError(
+      'unsupported-format',
+      `Unrecognized audio format${mimeType ? ` (${mimeType})` : ''}; expected WAV, MP3 or a raw telephony content type`
+    );
+  }
+
+  decodeWav(buffer: ArrayBuffer): DecodedAudio {
+    const view = new DataView(buffer);
+
+    if (buffer.byteLength < 12 || readTag(view, 8) !== 'WAVE') {
+      throw new AudioDecodingError('corrupt', 'RIFF container is not a WAVE file');
+    }
+
+    let format: { audioFormat: number; channels: number; sampleRate: number; blockAlign: number; bitsPerSample: number } | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.byteLength) {
+      const chunkId = readTag(view, offset);
+      const declaredSize = view.getUint32(offset + 4, true);
+      const bodyStart = offset + 8;
+
+      if (chunkId === 'fmt ') {
+        if (declaredSize < 16 || bodyStart + 16 > buffer.byteLength) {
+          throw new AudioDecodingError('truncated', 'WAV format chunk is incomplete');
+        }
+
+        let audioFormat = view.getUint16(bodyStart, true);
+        if (audioFormat === WAVE_FORMAT_EXTENSIBLE) {
+          if (declaredSize < 40 || bodyStart + 26 > buffer.byteLength) {
+            throw new AudioDecodingError('truncated', 'WAV extensible format chunk is incomplete');
+          }
+          // The sub-format GUID starts with the equivalent plain format tag
+          audioFormat = view.getUint16(bodyStart + 24, true);
+        }
+
+        format = {
+          audioFormat,
+          channels: view.getUint16(bodyStart + 2, true),
+          sampleRate: view.getUint32(bodyStart + 4, true),
+          blockAlign: view.getUint16(bodyStart + 12, true),
+          bitsPerSample: view.getUint16(bodyStart + 14, true)
+        };
+      } else if (chunkId === 'data') {
+        if (!format) {
+          throw new AudioDecodingError('corrupt', 'WAV data chunk precedes the format chunk');
+        }
+
+        const available = buffer.byteLength - bodyStart;
+        const size = declaredSize === UNKNOWN_CHUNK_SIZE || declaredSize === 0 ? available : declaredSize;
+        if (size > available) {
+          throw new AudioDecodingError(
+            'truncated',
+            `WAV data chunk declares ${size} bytes but only ${available} are present`
+          );
+        }
+
+        return decodeWavData(buffer, bodyStart, size, format);
+      }
+
+      // Chunks are word-aligned
+      offset = bodyStart + declaredSize + (declaredSize % 2);
+    }
+
+    throw new AudioDecodingError(format ? 'truncated' : 'corrupt', 'WAV file has no data chunk');
+  }
+
+  private async decodeMp3(buffer: ArrayBuffer): Promise<DecodedAudio> {
+    if (!this.mp3Decoder) {
+      throw new AudioDecodingError(
+        'unsupported-format',
+        'MP3 decoding is not configured; request Twilio recordings as WAV'
+      );
+    }
+
+    let decoded: { channelData: Float32Array[]; sampleRate: number };
+    try {
+      decoded = await this.mp3Decoder.decode(buffer);
+    } catch (error) {
+      throw new AudioDecodingError('corrupt', `MP3 decoding failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (decoded.channelData.length === 0 || decoded.channelData[0].length === 0) {
+      throw new AudioDecodingError('corrupt', 'MP3 stream contains no audio frames');
+    }
+
+    return buildDecodedAudio(decoded.channelData, decoded.sampleRate, 'mp3');
+  }
+}
+
+function decodeWavData(
+  buffer: ArrayBuffer,
+  start: number,
+  size: number,
+  format: { audioFormat: number; channels: number; sampleRate: number; blockAlign: number; bitsPerSample: number }
+): DecodedAudio {
+  const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+
+  if (channels < 1 || sampleRate <= 0) {
+    throw new AudioDecodingError('corrupt', `Invalid WAV header: ${channels} channels at ${sampleRate} Hz`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const blockAlign = channels * bytesPerSample;
+  if (!Number.isInteger(bytesPerSample) || format.blockAlign !== blockAlign) {
+    throw new AudioDecodingError('corrupt', `Inconsistent WAV block alignment for ${bitsPerSample}-bit audio`);
+  }
+  if (size % blockAlign !== 0) {
+    throw new AudioDecodingError('truncated', 'WAV data ends in the middle of a sample frame');
+  }
+  if (size === 0) {
+    throw new AudioDecodingError('empty', 'WAV file contains no samples');
+  }
+
+  const frameCount = size / blockAlign;
+  const view = new DataView(buffer, start, size);
+  const channelData = Array.from({ length: channels }, () => new Float32Array(frameCount));
+  let readSample: (byteOffset: number) => number;
+  let sourceFormat: AudioSourceFormat;
+
+  if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 8) {
+    readSample = byteOffset => (view.getUint8(byteOffset) - 128) / 128;
+    sourceFormat = 'wav-pcm';
+  } else if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 16) {
+    readSample = byteOffset => view.getInt16(byteOffset, true) / 32768;
+    sourceFormat = 'wav-pcm';
+  } else if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 24) {
+    readSample = byteOffset => {
+      const value = view.getUint8(byteOffset) | (view.getUint8(byteOffset + 1) << 8) | (view.getInt8(byteOffset + 2) << 16);
+      return value / 8388608;
+    };
+    sourceFormat = 'wav-pcm';
+  } else if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 32) {
+    readSample = byteOffset => view.getInt32(byteOffset, true) / 2147483648;
+    sourceFormat = 'wav-pcm';
+  } else if (audioFormat === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    readSample = byteOffset => view.getFloat32(byteOffset, true);
+    sourceFormat = 'wav-float';
+  } else if (audioFormat === WAVE_FORMAT_MULAW && bitsPerSample === 8) {
+    readSample = byteOffset => MULAW_TABLE[view.getUint8(byteOffset)];
+    sourceFormat = 'wav-mulaw';
+  } else if (audioFormat === WAVE_FORMAT_ALAW && bitsPerSample === 8) {
+    readSample = byteOffset => ALAW_TABLE[view.getUint8(byteOffset)];
+    sourceFormat = 'wav-alaw';
+  } else {
+    throw new AudioDecodingError(
+      'unsupported-format',
+      `Unsupported WAV encoding: format ${audioFormat}, ${bitsPerSample}-bit`
+    );
+  }
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      channelData[channel][frame] = readSample(frame * blockAlign + channel * bytesPerSample);
+    }
+  }
+
+  return buildDecodedAudio(channelData, sampleRate, sourceFormat);
+}
+
+function buildDecodedAudio(channelData: Float32Array[], sampleRate: number, sourceFormat: AudioSourceFormat): DecodedAudio {
+  const frameCount = channelData[0].length;
+
+  if (frameCount === 0) {
+    throw new AudioDecodingError('empty', 'Audio contains no samples');
+  }
+
+  let samples = channelData[0];
+  if (channelData.length > 1) {
+    samples = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      let sum = 0;
+      for (const channel of channelData) sum += channel[i];
+      samples[i] = sum / channelData.length;
+    }
+  }
+
+  return {
+    samples,
+    sampleRate,
+    channelData,
+    duration: frameCount / sampleRate,
+    sourceFormat
+  };
+}
+
+export function decodeMulaw(bytes: Uint8Array): Float32Array {
+  const samples = new Float32Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    samples[i] = MULAW_TABLE[bytes[i]];
+  }
+  return samples;
+}
+
+export function decodePcm16(buffer: ArrayBuffer, start: number, size: number, littleEndian: boolean = true): Float32Array {
+  if (size % 2 !== 0) {
+    throw new AudioDecodingError('truncated', '16-bit PCM data has an odd number of bytes');
+  }
+
+  const view = new DataView(buffer, start, size);
+  const samples = new Float32Array(size / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, littleEndian) / 32768;
+  }
+  return samples;
+}
+
+// ITU-T G.711 expansion tables, scaled to -1..1
+const MULAW_TABLE = buildTable(byte => {
+  const value = ~byte & 0xff;
+  const sign = value & 0x80;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const magnitude = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+  return (sign ? -magnitude : magnitude) / 32768;
+});
+
+const ALAW_TABLE = buildTable(byte => {
+  const value = byte ^ 0x55;
+  const sign = value & 0x80;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const magnitude = exponent === 0
+    ? (mantissa << 4) + 8
+    : ((mantissa << 4) + 0x108) << (exponent - 1);
+  return (sign ? magnitude : -magnitude) / 32768;
+});
+
+function buildTable(expand: (byte: number) => number): Float32Array {
+  const table = new Float32Array(256);
+  for (let byte = 0; byte < 256; byte++) {
+    table[byte] = expand(byte);
+  }
+  return table;
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function hasRiffHeader(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 4 && readTag(new DataView(buffer), 0) === 'RIFF';
+}
+
+function isMp3(buffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(buffer, 0, Math.min(3, buffer.byteLength));
+  if (bytes.length < 3) return false;
+
+  // ID3v2 tag or an MPEG audio frame sync word
+  const id3 = bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33;
+  const frameSync = bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0;
+  return id3 || frameSync;
+}
+
+function parseRateParameter(contentType?: string): number | null {
+  const match = contentType?.match(/rate=(\d+)/i);
+  return match ? parseInt(match[1], 10) : null;
+}
@@ -0,0 +1,212 @@
+// HeartVoice Monitor - Audio Quality Assessment Service
+// Objective recording quality measurements and usability gating (PRD FV-003)
+
+import { AssessmentTask, AudioQualityMeasurements, TaskBiomarkers, VoiceAssessment, VoiceBiomarkers } from '@/types/clinical';
+import { DecodedAudio } from './audio-decoder';
+import { SpeechSegment } from './speech-segmentation';
+
+export interface QualityThresholds {
+  minSnrDb: number;
+  maxClippingRatio: number; // fraction of samples
+  maxDropoutRatio: number; // dropout time as a fraction of patient speech time
+  minVoicedDuration: number; // seconds across the whole recording
+  maxCrosstalkRatio: number; // fraction of patient speech overlapping the agent
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minSnrDb: 10,
+  maxClippingRatio: 0.01,
+  maxDropoutRatio: 0.1,
+  minVoicedDuration: 2,
+  maxCrosstalkRatio: 0.3
+};
+
+// Voiced speech a cooperative patient produces for each prompt, in seconds
+export const EXPECTED_VOICED_DURATION: Record<AssessmentTask, number> = {
+  energy: 1,
+  breathing: 6,
+  counting: 3
+};
+
+const CLIPPING_LEVEL = 0.97; // of full scale; μ-law peaks at 0.98
+const DROPOUT_MIN_DURATION = 0.02; // seconds of frozen samples inside speech
+const FRAME_LENGTH = 0.02; // seconds
+
+export interface SegmentationSummary {
+  patientChannel: number | null;
+  agentTurns?: SpeechSegment[];
+  patientSegments: SpeechSegment[];
+}
+
+export type QualityMetrics = VoiceAssessment['qualityMetrics'];
+
+export class AudioQualityAssessor {
+  private thresholds: QualityThresholds;
+
+  constructor(thresholds: Partial<QualityThresholds> = {}) {
+    this.thresholds = { ...DEFAULT_QUALITY_THRESHOLDS, ...thresholds };
+  }
+
+  assess(
+    audio: DecodedAudio,
+    segmentation: SegmentationSummary,
+    biomarkers: VoiceBiomarkers,
+    taskBiomarkers: TaskBiomarkers[],
+    expectedTasks: AssessmentTask[]
+  ): QualityMetrics {
+    const channel = segmentation.patientChannel !== null
+      ? audio.channelData[segmentation.patientChannel]
+      : audio.samples;
+    const speech = segmentation.patientSegments;
+    const speechDuration = speech.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+
+    const dropouts = detectDropouts(channel, audio.sampleRate, speech);
+    const taskCompleteness: Partial<Record<AssessmentTask, number>> = {};
+    for (const task of expectedTasks) {
+      const measured = taskBiomarkers.find(entry => entry.task === task);
+      taskCompleteness[task] = round(Math.min(1, (measured ? voicedDuration(measured.biomarkers) : 0) / EXPECTED_VOICED_DURATION[task]));
+    }
+
+    const measurements: AudioQualityMeasurements = {
+      snrDb: round(estimateSnr(channel, audio.sampleRate, speech)),
+      clippingRatio: round(clippingRatio(channel), 4),
+      dropoutCount: dropouts.count,
+      dropoutDuration: round(dropouts.duration),
+      voicedDuration: round(voicedDuration(biomarkers)),
+      taskCompleteness,
+      crosstalkRatio: round(speechDuration > 0 ? overlap(speech, segmentation.agentTurns || []) / speechDuration : 0)
+    };
+
+    const issues = this.findIssues(measurements, speechDuration);
+    const completenessValues = Object.values(taskCompleteness) as number[];
+    const completeness = completenessValues.length > 0
+      ? completenessValues.reduce((sum, value) => sum + value, 0) / completenessValues.length
+      : Math.min(1, measurements.voicedDuration / this.thresholds.minVoicedDuration);
+
+    // SNR maps linearly to 0-100 between 0 and 30 dB; clipping and dropouts take points off
+    const snrScore = Math.min(100, Math.max(0, (measurements.snrDb / 30) * 100));
+    const dropoutRatio = speechDuration > 0 ? measurements.dropoutDuration / speechDuration : 0;
+    const audioQuality = Math.max(0, snrScore - measurements.clippingRatio * 2000 - dropoutRatio * 200);
+
+    return {
+      audioQuality: Math.round(audioQuality),
+      backgroundNoise: Math.round(100 - snrScore),
+      completeness: Math.round(completeness * 100),
+      measurements,
+      usable: issues.length === 0,
+      issues
+    };
+  }
+
+  private findIssues(measurements: AudioQualityMeasurements, speechDuration: number): string[] {
+    const issues: string[] = [];
+    const dropoutRatio = speechDuration > 0 ? measurements.dropoutDuration / speechDuration : 0;
+
+    if (measurements.snrDb < this.thresholds.minSnrDb) {
+      issues.push(`Background noise too high (SNR ${measurements.snrDb} dB)`);
+    }
+    if (measurements.clippingRatio > this.thresholds.maxClippingRatio) {
+      issues.push('Recording is clipped - patient too close to the phone or line gain too high');
+    }
+    if (dropoutRatio > this.thresholds.maxDropoutRatio) {
+      issues.push(`Audio dropouts during speech (${measurements.dropoutCount} gaps)`);
+    }
+    if (measurements.voicedDuration < this.thresholds.minVoicedDuration) {
+      issues.push(`Too little voiced speech (${measurements.voicedDuration} s)`);
+    }
+    if (measurements.crosstalkRatio > this.thresholds.maxCrosstalkRatio) {
+      issues.push('Patient speech overlaps the voice agent');
+    }
+
+    return issues;
+  }
+}
+
+function voicedDuration(biomarkers: VoiceBiomarkers): number {
+  // Each glottal cycle lasts 1/F0 seconds
+  const cycles = biomarkers.perturbation?.periodCount ?? 0;
+  return biomarkers.f0 > 0 ? cycles / biomarkers.f0 : 0;
+}
+
+function estimateSnr(samples: Float32Array, sampleRate: number, speech: SpeechSegment[]): number {
+  const windowLength = Math.max(1, Math.round(FRAME_LENGTH * sampleRate));
+  const speechPowers: number[] = [];
+  const noisePowers: number[] = [];
+
+  for (let start = 0; start + windowLength <= samples.length; start += windowLength) {
+    let sum = 0;
+    for (let i = start; i < start + windowLength; i++) sum += samples[i] * samples[i];
+    const time = (start + windowLength / 2) / sampleRate;
+    const inSpeech = speech.some(segment => time >= segment.start && time <= segment.end);
+    (inSpeech ? speechPowers : noisePowers).push(sum / windowLength);
+  }
+
+  if (speechPowers.length === 0) return 0;
+
+  // Without enough pauses to measure, fall back to the quietest speech frames
+  let noise: number;
+  if (noisePowers.length >= 10) {
+    noise = noisePowers.reduce((sum, power) => sum + power, 0) / noisePowers.length;
+  } else {
+    const sorted = [...speechPowers].sort((a, b) => a - b);
+    noise = sorted[Math.floor(sorted.length * 0.05)];
+  }
+
+  const signal = speechPowers.reduce((sum, power) => sum + power, 0) / speechPowers.length;
+  const noiseFloor = Math.max(noise, 1e-10);
+  return 10 * Math.log10(Math.max(signal - noiseFloor, 1e-10) / noiseFloor);
+}
+
+function clippingRatio(samples: Float32Array): number {
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= CLIPPING_LEVEL) clipped++;
+  }
+  return samples.length > 0 ? clipped / samples.length : 0;
+}
+
+function detectDropouts(
+  samples: Float32Array,
+  sampleRate: number,
+  speech: SpeechSegment[]
+): { count: number; duration: number } {
+  // Lost packets show up as runs of frozen (usually zero) samples in the middle of speech
+  const minRun = Math.round(DROPOUT_MIN_DURATION * sampleRate);
+  let count = 0;
+  let duration = 0;
+
+  for (const segment of speech) {
+    const start = Math.max(1, Math.floor(segment.start * sampleRate));
+    const end = Math.min(samples.length, Math.ceil(segment.end * sampleRate));
+    let run = 0;
+
+    for (let i = start; i <= end; i++) {
+      if (i < end && samples[i] === samples[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= minRun) {
+        count++;
+        duration += run / sampleRate;
+      }
+      run = 0;
+    }
+  }
+
+  return { count, duration };
+}
+
+function overlap(patient: SpeechSegment[], agent: SpeechSegment[]): number {
+  let total = 0;
+  for (const a of patient) {
+    for (const b of agent) {
+      total += Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+    }
+  }
+  return total;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,203 @@
+// HeartVoice Monitor - Backtesting Service
+// Replays stored assessments through a candidate policy or model and compares the outcome with production
+
+import { AlertLevel, ClinicalOutcome, Patient, RiskLevel, VoiceAssessment } from '@/types/clinical';
+import { RiskScoringPolicy } from './scoring-policy';
+import { RiskModel, extractModelFeatures, hadOutcomeWithin, predictRiskProbability } from './risk-model';
+import { ReferenceRangeService, referenceProfileFor } from './reference-ranges';
+import { RiskAssessmentEngine } from './voice-processing-service';
+
+export type BacktestCandidate =
+  | { kind: 'policy'; policy: RiskScoringPolicy }
+  | { kind: 'model'; model: RiskModel; threshold: number }; // a model alerts when its probability reaches the threshold
+
+export interface BacktestOptions {
+  from?: string;
+  to?: string;
+  patients?: Patient[]; // current details, for assessments stored without their scoring context
+  outcomes?: ClinicalOutcome[]; // when given, sensitivity and PPV are reported
+  horizonDays?: number; // outcome window after each assessment
+}
+
+export interface BacktestRow {
+  assessmentId: string;
+  patientId: string;
+  timestamp: string;
+  productionScore: number;
+  productionLevel?: RiskLevel;
+  productionAlert: boolean;
+  candidateScore: number; // a model's probability in percent
+  candidateLevel?: RiskLevel; // policies only
+  candidateAlert: boolean;
+  outcome?: boolean; // HF hospitalization or ED visit within the horizon
+}
+
+export interface AlertPerformance {
+  sensitivity: number | null; // share of assessments followed by an event that alerted
+  ppv: number | null; // share of alerting assessments followed by an event
+}
+
+export interface BacktestResult {
+  candidate: { kind: BacktestCandidate['kind']; version: string };
+  from?: string;
+  to?: string;
+  assessments: number;
+  productionAlerts: number;
+  candidateAlerts: number;
+  alertCountChange: number;
+  levelChanges: { patientId: string; assessments: number; productionLevel?: RiskLevel; candidateLevel?: RiskLevel }[];
+  performance?: { events: number; production: AlertPerformance; candidate: AlertPerformance };
+  rows: BacktestRow[];
+}
+
+// Production is taken as recorded on each assessment; the candidate re-scores the stored biomarkers,
+// breathing metrics and transcript analysis with the baseline and clinical details the assessment was
+// scored with, so replaying the production policy reproduces production. Assessments stored before the
+// scoring context was kept fall back to the patient's current details. Each patient's answers to each
+// prompt are replayed from the start so the candidate's alert hysteresis sees its own earlier decisions.
+export function runBacktest(
+  assessments: VoiceAssessment[],
+  candidate: BacktestCandidate,
+  options: BacktestOptions = {},
+  referenceRanges: ReferenceRangeService = new ReferenceRangeService()
+): BacktestResult {
+  const from = options.from ? new Date(options.from).getTime() : -Infinity;
+  const to = options.to ? new Date(options.to).getTime() : Infinity;
+  const patients = new Map((options.patients ?? []).map(patient => [patient.id, patient]));
+  const engine = candidate.kind === 'policy' ? new RiskAssessmentEngine(referenceRanges, candidate.policy) : null;
+
+  const replay = assessments
+    .filter(assessment => assessment.riskLevel !== undefined && assessment.biomarkers && new Date(assessment.timestamp).getTime() <= to)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const candidateHistory = new Map<string, VoiceAssessment[]>();
+  const rows: BacktestRow[] = [];
+  for (const assessment of replay) {
+    // Production judges an answer against earlier answers to the same prompt
+    const historyKey = `${assessment.patientId}:${assessment.task ?? 'call'}`;
+    const history = candidateHistory.get(historyKey) ?? [];
+    let score: number;
+    let level: RiskLevel | undefined;
+    let alertLevel: AlertLevel | undefined;
+    let alert: boolean;
+
+    if (candidate.kind === 'policy') {
+      const patient = patients.get(assessment.patientId);
+      const context = assessment.scoringContext ?? {
+        baseline: patient?.baseline,
+        profile: patient ? referenceProfileFor(patient, new Date(assessment.timestamp)) : undefined,
+        clinical: patient?.clinicalInfo
+      };
+      const acoustic = engine!.calculateRiskScore(assessment.biomarkers!, assessment.breathingMetrics, {
+        ...context,
+        measurement: {
+          segments: (assessment.taskBiomarkers ?? []).flatMap(entry => entry.segments),
+          quality: assessment.qualityMetrics.measurements
+        }
+      });
+      const composite = engine!.combineRiskScores(acoustic, assessment.clinicalAnalysis);
+      const decision = engine!.evaluateAlert(composite, history);
+      ({ score, level } = composite);
+      alertLevel = decision.level;
+      alert = decision.generate;
+    } else {
+      const probability = predictRiskProbability(candidate.model, extractModelFeatures(assessment));
+      score = Math.round(probability * 1000) / 10;
+      alert = probability >= candidate.threshold;
+    }
+    candidateHistory.set(historyKey, [...history, { ...assessment, riskScore: score, riskLevel: level, alertLevel }]);
+
+    if (new Date(assessment.timestamp).getTime() < from) continue;
+    rows.push({
+      assessmentId: assessment.id,
+      patientId: assessment.patientId,
+      timestamp: assessment.timestamp,
+      productionScore: assessment.riskScore,
+      productionLevel: assessment.riskLevel,
+      productionAlert: assessment.alertGenerated,
+      candidateScore: score,
+      candidateLevel: level,
+      candidateAlert: alert,
+      outcome: options.outcomes?.length
+        ? hadOutcomeWithin(assessment, options.outcomes, options.horizonDays ?? 14)
+        : undefined
+    });
+  }
+
+  const productionAlerts = rows.filter(row => row.productionAlert).length;
+  const candidateAlerts = rows.filter(row => row.candidateAlert).length;
+
+  return {
+    candidate: {
+      kind: candidate.kind,
+      version: candidate.kind === 'policy' ? candidate.policy.version : candidate.model.version
+    },
+    from: options.from,
+    to: options.to,
+    assessments: rows.length,
+    productionAlerts,
+    candidateAlerts,
+    alertCountChange: candidateAlerts - productionAlerts,
+    levelChanges: candidate.kind === 'policy' ? levelChanges(rows) : [],
+    performance: options.outcomes?.length
+      ? {
+          events: rows.filter(row => row.outcome).length,
+          production: alertPerformance(rows, row => row.productionAlert),
+          candidate: alertPerformance(rows, row => row.candidateAlert)
+        }
+      : undefined,
+    rows
+  };
+}
+
+const CSV_COLUMNS: (keyof BacktestRow)[] = [
+  'assessmentId', 'patientId', 'timestamp',
+  'productionScore', 'productionLevel', 'productionAlert',
+  'candidateScore', 'candidateLevel', 'candidateAlert',
+  'outcome'
+];
+
+// One line per re-scored assessment
+export function backtestToCsv(result: BacktestResult): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    CSV_COLUMNS.join(','),
+    ...result.rows.map(row => CSV_COLUMNS.map(column => escape(row[column])).join(','))
+  ].join('\n') + '\n';
+}
+
+// Patients with at least one assessment at a different level, with their latest levels under each
+function levelChanges(rows: BacktestRow[]): BacktestResult['levelChanges'] {
+  const byPatient = new Map<string, BacktestRow[]>();
+  for (const row of rows) {
+    byPatient.set(row.patientId, [...(byPatient.get(row.patientId) ?? []), row]);
+  }
+
+  return Array.from(byPatient.entries())
+    .map(([patientId, patientRows]) => {
+      const latest = patientRows[patientRows.length - 1];
+      return {
+        patientId,
+        assessments: patientRows.filter(row => row.productionLevel !== row.candidateLevel).length,
+        productionLevel: latest.productionLevel,
+        candidateLevel: latest.candidateLevel
+      };
+    })
+    .filter(change => change.assessments > 0)
+    .sort((a, b) => a.patientId.localeCompare(b.patientId));
+}
+
+function alertPerformance(rows: BacktestRow[], alerted: (row: BacktestRow) => boolean): AlertPerformance {
+  const events = rows.filter(row => row.outcome);
+  const alerts = rows.filter(alerted);
+  const ratio = (numerator: number, denominator: number) =>
+    denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+
+  return {
+    sensitivity: ratio(events.filter(alerted).length, events.length),
+    ppv: ratio(alerts.filter(row => row.outcome).length, alerts.length)
+  };
+}
@@ -0,0 +1,152 @@
+// HeartVoice Monitor - Patient Baseline Service
+// Personal biomarker baselines so risk is scored as change from the patient's own voice
+
+import { BaselineDeviation, BaselineFeature, FeatureStatistics, PatientBaseline, VoiceAssessment, VoiceBiomarkers } from '@/types/clinical';
+
+export interface BaselineOptions {
+  requiredAssessments: number; // good-quality assessments needed to establish the baseline
+  updateWeight: number; // EWMA weight of each stable assessment once established
+  stabilityZ: number; // an assessment deviating further than this on any feature is not folded in
+}
+
+export const DEFAULT_BASELINE_OPTIONS: BaselineOptions = {
+  requiredAssessments: 5,
+  updateWeight: 0.1,
+  stabilityZ: 2
+};
+
+export const BASELINE_FEATURES: BaselineFeature[] = ['jitter', 'shimmer', 'hnr', 'f0', 'spectralSlope', 'voiceIntensity'];
+
+// Floor on the standard deviation used for z-scores: a few near-identical calls would
+// otherwise turn measurement noise into large deviations
+export const MINIMUM_STANDARD_DEVIATION: Record<BaselineFeature, number> = {
+  jitter: 0.1,
+  shimmer: 0.5,
+  hnr: 1,
+  f0: 5,
+  spectralSlope: 1,
+  voiceIntensity: 2
+};
+
+export class BaselineService {
+  private options: BaselineOptions;
+
+  constructor(options: Partial<BaselineOptions> = {}) {
+    this.options = { ...DEFAULT_BASELINE_OPTIONS, ...options };
+  }
+
+  createBaseline(): PatientBaseline {
+    const now = new Date().toISOString();
+    return {
+      status: 'building',
+      assessmentCount: 0,
+      requiredAssessments: this.options.requiredAssessments,
+      statistics: {},
+      startedAt: now,
+      lastUpdated: now
+    };
+  }
+
+  isEligible(assessment: VoiceAssessment): boolean {
+    // Only complete, good-quality recordings describe the patient's usual voice
+    return (
+      assessment.callStatus === 'completed' &&
+      assessment.qualityMetrics.usable !== false &&
+      !!assessment.biomarkers &&
+      assessment.biomarkers.f0 > 0
+    );
+  }
+
+  update(baseline: PatientBaseline | undefined, assessment: VoiceAssessment): PatientBaseline {
+    const current = baseline ?? this.createBaseline();
+    if (!this.isEligible(assessment)) return current;
+
+    const biomarkers = assessment.biomarkers!;
+    if (current.status === 'building') {
+      return this.accumulate(current, biomarkers);
+    }
+
+    // Rolling update only while the patient is stable, so a slow decompensation is not
+    // absorbed into what counts as normal for them
+    const deviations = calculateBaselineDeviations(current, biomarkers);
+    const stable = !assessment.alertGenerated &&
+      deviations.every(deviation => Math.abs(deviation.zScore) <= this.options.stabilityZ);
+    if (!stable) return current;
+
+    const alpha = this.options.updateWeight;
+    const statistics: PatientBaseline['statistics'] = {};
+    for (const feature of BASELINE_FEATURES) {
+      const previous = current.statistics[feature];
+      const value = biomarkers[feature];
+      if (!previous) continue;
+
+      // Exponentially weighted mean and variance
+      const difference = value - previous.mean;
+      const variance = (1 - alpha) * (previous.standardDeviation ** 2 + alpha * difference ** 2);
+      statistics[feature] = {
+        mean: round(previous.mean + alpha * difference),
+        standardDeviation: round(Math.sqrt(variance))
+      };
+    }
+
+    return {
+      ...current,
+      assessmentCount: current.assessmentCount + 1,
+      statistics,
+      lastUpdated: new Date().toISOString()
+    };
+  }
+
+  private accumulate(baseline: PatientBaseline, biomarkers: VoiceBiomarkers): PatientBaseline {
+    // Welford's running mean and sample variance over the first N assessments
+    const count = baseline.assessmentCount + 1;
+    const statistics: PatientBaseline['statistics'] = {};
+
+    for (const feature of BASELINE_FEATURES) {
+      const previous: FeatureStatistics = baseline.statistics[feature] ?? { mean: 0, standardDeviation: 0 };
+      const value = biomarkers[feature];
+      const sumOfSquares = previous.standardDeviation ** 2 * Math.max(0, count - 2);
+      const mean = previous.mean + (value - previous.mean) / count;
+      const updatedSumOfSquares = sumOfSquares + (value - previous.mean) * (value - mean);
+      statistics[feature] = {
+        mean: round(mean),
+        standardDeviation: round(count > 1 ? Math.sqrt(updatedSumOfSquares / (count - 1)) : 0)
+      };
+    }
+
+    const now = new Date().toISOString();
+    const established = count >= baseline.requiredAssessments;
+    return {
+      ...baseline,
+      status: established ? 'established' : 'building',
+      assessmentCount: count,
+      statistics,
+      establishedAt: established ? now : undefined,
+      lastUpdated: now
+    };
+  }
+}
+
+export function calculateBaselineDeviations(baseline: PatientBaseline, biomarkers: VoiceBiomarkers): BaselineDeviation[] {
+  const deviations: BaselineDeviation[] = [];
+
+  for (const feature of BASELINE_FEATURES) {
+    const statistics = baseline.statistics[feature];
+    if (!statistics) continue;
+
+    const standardDeviation = Math.max(statistics.standardDeviation, MINIMUM_STANDARD_DEVIATION[feature]);
+    deviations.push({
+      feature,
+      value: biomarkers[feature],
+      mean: statistics.mean,
+      standardDeviation,
+      zScore: round((biomarkers[feature] - statistics.mean) / standardDeviation)
+    });
+  }
+
+  return deviations;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,137 @@
+// HeartVoice Monitor - Breathing Analysis Service
+// Speech rate, inhalation pauses and breath groups from the "count from 1 to 10" task
+
+import { BreathingMetrics } from '@/types/clinical';
+import { DecodedAudio } from './audio-decoder';
+import { PitchTracker } from './acoustic-analysis';
+import { SpeechSegment, VoiceActivityDetector } from './speech-segmentation';
+
+export interface BreathingAnalysisOptions {
+  inhalationPauseThreshold: number; // seconds - silent gaps at least this long are taken as breaths
+  minPeakProminence: number; // dB - an intensity peak must rise this far above the preceding dip
+  peakRangeDb: number; // dB - peaks more than this far below the loudest frame are ignored
+}
+
+export const DEFAULT_BREATHING_OPTIONS: BreathingAnalysisOptions = {
+  inhalationPauseThreshold: 0.25,
+  minPeakProminence: 2,
+  peakRangeDb: 25
+};
+
+// "one two three four five six sev-en eight nine ten": 10 words, 11 syllables
+const COUNTING_WORDS_PER_SYLLABLE = 10 / 11;
+
+const INTENSITY_FRAME = 0.03; // seconds
+const INTENSITY_STEP = 0.01; // seconds
+
+export class BreathingAnalyzer {
+  private options: BreathingAnalysisOptions;
+  private vad: VoiceActivityDetector;
+  private pitchTracker: PitchTracker;
+
+  constructor(options: Partial<BreathingAnalysisOptions> = {}) {
+    this.options = { ...DEFAULT_BREATHING_OPTIONS, ...options };
+    // Finer than call-level VAD: inter-word gaps must survive as separate segments
+    this.vad = new VoiceActivityDetector({ minSilenceDuration: 0.1, minSpeechDuration: 0.08, padding: 0 });
+    this.pitchTracker = new PitchTracker();
+  }
+
+  analyze(audio: DecodedAudio): BreathingMetrics | null {
+    const segments = this.vad.detect(audio.samples, audio.sampleRate);
+    if (segments.length === 0) return null;
+
+    const responseStart = segments[0].start;
+    const responseEnd = segments[segments.length - 1].end;
+    const responseDuration = responseEnd - responseStart;
+    const phonationTime = segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+
+    const pauses: number[] = [];
+    for (let i = 1; i < segments.length; i++) {
+      const gap = segments[i].start - segments[i - 1].end;
+      if (gap >= this.options.inhalationPauseThreshold) pauses.push(gap);
+    }
+
+    const breathGroups = this.breathGroups(segments);
+    const syllables = this.countSyllables(audio, segments);
+    const syllablesPerGroup = breathGroups.map(group =>
+      syllables.filter(time => time >= group.start && time <= group.end).length
+    );
+
+    return {
+      task: 'counting',
+      responseDuration: round(responseDuration),
+      syllableCount: syllables.length,
+      speechRate: round(responseDuration > 0 ? syllables.length / responseDuration : 0),
+      articulationRate: round(phonationTime > 0 ? syllables.length / phonationTime : 0),
+      wordRate: round(responseDuration > 0 ? (syllables.length * COUNTING_WORDS_PER_SYLLABLE * 60) / responseDuration : 0),
+      inhalationPauseCount: pauses.length,
+      meanInhalationPauseDuration: round(mean(pauses)),
+      maxInhalationPauseDuration: round(pauses.length > 0 ? Math.max(...pauses) : 0),
+      breathGroupCount: breathGroups.length,
+      meanBreathGroupDuration: round(mean(breathGroups.map(group => group.end - group.start))),
+      meanSyllablesPerBreathGroup: round(mean(syllablesPerGroup)),
+      phonationTimeRatio: round(responseDuration > 0 ? phonationTime / responseDuration : 0)
+    };
+  }
+
+  private breathGroups(segments: SpeechSegment[]): SpeechSegment[] {
+    // Speech between two inhalation pauses; shorter articulatory gaps stay inside a group
+    const groups: SpeechSegment[] = [];
+    for (const segment of segments) {
+      const last = groups[groups.length - 1];
+      if (last && segment.start - last.end < this.options.inhalationPauseThreshold) {
+        last.end = segment.end;
+      } else {
+        groups.push({ start: segment.start, end: segment.end });
+      }
+    }
+    return groups;
+  }
+
+  private countSyllables(audio: DecodedAudio, segments: SpeechSegment[]): number[] {
+    // Syllable nuclei: voiced intensity peaks that stand out from the preceding dip
+    // (after de Jong & Wempe, 2009). Returns peak times in seconds.
+    const { samples, sampleRate } = audio;
+    const windowLength = Math.round(INTENSITY_FRAME * sampleRate);
+    const hopLength = Math.round(INTENSITY_STEP * sampleRate);
+    const intensity: number[] = [];
+
+    for (let start = 0; start + windowLength <= samples.length; start += hopLength) {
+      let sum = 0;
+      for (let i = start; i < start + windowLength; i++) sum += samples[i] * samples[i];
+      intensity.push(10 * Math.log10(sum / windowLength + 1e-12));
+    }
+    if (intensity.length < 3) return [];
+
+    const pitchFrames = this.pitchTracker.trackPitch(samples, sampleRate);
+    const isVoiced = (time: number) => pitchFrames.some(frame => frame.voiced && Math.abs(frame.time - time) <= INTENSITY_STEP);
+    const inSpeech = (time: number) => segments.some(segment => time >= segment.start && time <= segment.end);
+
+    const floor = Math.max(...intensity) - this.options.peakRangeDb;
+    const frameTime = (index: number) => (index * hopLength + windowLength / 2) / sampleRate;
+    const peaks: number[] = [];
+    let dip = intensity[0];
+
+    for (let i = 1; i < intensity.length - 1; i++) {
+      dip = Math.min(dip, intensity[i]);
+      const isPeak = intensity[i] >= intensity[i - 1] && intensity[i] > intensity[i + 1];
+      if (!isPeak || intensity[i] < floor || intensity[i] - dip < this.options.minPeakProminence) continue;
+
+      const time = frameTime(i);
+      if (inSpeech(time) && isVoiced(time)) {
+        peaks.push(time);
+        dip = intensity[i];
+      }
+    }
+
+    return peaks;
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,14 @@
+// HeartVoice Monitor - Comorbidity Catalogue
+// Conditions on the clinical record that change how voice and breathing findings are read
+
+import { Comorbidity } from '@/types/clinical';
+
+export const COMORBIDITIES: Comorbidity[] = ['copd', 'asthma', 'ckd', 'vocal-cord-pathology', 'prior-stroke'];
+
+export const COMORBIDITY_LABELS: Record<Comorbidity, string> = {
+  copd: 'COPD',
+  asthma: 'Asthma',
+  ckd: 'Chronic kidney disease',
+  'vocal-cord-pathology': 'Vocal cord pathology',
+  'prior-stroke': 'Prior stroke'
+};
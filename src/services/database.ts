@@ -0,0 +1,142 @@
+// HeartVoice Monitor - Database Service
+// Embedded SQLite database and its schema migrations
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+export interface Migration {
+  version: number; // applied in ascending order, once each
+  name: string;
+  up: string; // SQL
+}
+
+// Append new migrations; never edit one that has shipped
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create-patients',
+    up: `
+      CREATE TABLE patients (
+        id TEXT PRIMARY KEY,
+        mrn TEXT NOT NULL,
+        risk_level TEXT NOT NULL,
+        data TEXT NOT NULL, -- the Patient record as JSON
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX patients_mrn ON patients (mrn);
+      CREATE INDEX patients_risk_level ON patients (risk_level);
+    `
+  },
+  {
+    version: 2,
+    name: 'create-assessments',
+    up: `
+      CREATE TABLE assessments (
+        id TEXT PRIMARY KEY,
+        patient_id TEXT NOT NULL REFERENCES patients (id),
+        timestamp TEXT NOT NULL, -- ISO 8601 in UTC, so it sorts as text
+        call_status TEXT NOT NULL,
+        risk_level TEXT, -- null for unscored assessments
+        data TEXT NOT NULL -- the VoiceAssessment as JSON
+      );
+      CREATE INDEX assessments_patient_timestamp ON assessments (patient_id, timestamp);
+    `
+  },
+  {
+    version: 3,
+    name: 'create-alerts',
+    up: `
+      CREATE TABLE alerts (
+        id TEXT PRIMARY KEY,
+        patient_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL -- the ClinicalAlert as JSON
+      );
+      CREATE INDEX alerts_patient ON alerts (patient_id);
+      CREATE INDEX alerts_status ON alerts (status);
+    `
+  },
+  {
+    version: 4,
+    name: 'create-outcomes',
+    up: `
+      CREATE TABLE outcomes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        patient_id TEXT NOT NULL REFERENCES patients (id),
+        date TEXT NOT NULL,
+        data TEXT NOT NULL -- the ClinicalOutcome as JSON
+      );
+      CREATE INDEX outcomes_patient ON outcomes (patient_id);
+    `
+  },
+  {
+    version: 5,
+    name: 'create-scoring-models',
+    up: `
+      CREATE TABLE scoring_models (
+        kind TEXT NOT NULL, -- policy or model
+        version TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL, -- the ScoringModelRecord as JSON
+        PRIMARY KEY (kind, version)
+      );
+    `
+  },
+  {
+    version: 6,
+    name: 'create-system-alerts',
+    up: `
+      CREATE TABLE system_alerts (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL -- the SystemAlert as JSON
+      );
+      CREATE INDEX system_alerts_status ON system_alerts (status);
+    `
+  }
+];
+
+// Applies pending migrations, each in its own transaction, and returns the versions applied
+export function migrate(db: Database.Database, migrations: Migration[] = MIGRATIONS): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  const applied = new Set(
+    (db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map(row => row.version)
+  );
+
+  const pending = migrations
+    .filter(migration => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.name, new Date().toISOString());
+    })();
+    console.log(`Applied database migration ${migration.version} (${migration.name})`);
+  }
+
+  return pending.map(migration => migration.version);
+}
+
+// DATABASE_PATH names the database file; ':memory:' gives a throwaway database
+export function openDatabase(path: string = process.env.DATABASE_PATH || 'data/heartvoice.db'): Database.Database {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,273 @@
+// HeartVoice Monitor - Model Monitoring Service
+// Accuracy and calibration of stored risk scores against recorded outcomes, by month and by site, with drift alerts
+
+import { ClinicalOutcome, Patient, SystemAlert, VoiceAssessment } from '@/types/clinical';
+import { calculateModelMetrics, hadOutcomeWithin } from './risk-model';
+import { InMemorySystemAlertRepository, SystemAlertRepository } from './system-alert-repository';
+
+export interface MonitoringOptions {
+  // The rule-based 0-100 score, judged on ranking and alert PPV only since it is not a probability,
+  // or the outcome model's calibrated probability, also judged on Brier score and calibration
+  source: 'policy' | 'model';
+  horizonDays: number; // outcome window after each assessment; younger assessments are not yet labeled
+  windowMonths: number; // calendar months in each rolling window
+  minExamples: number; // smaller windows are reported but never raise drift alerts
+  // A model probability at or above this counts as an alert; the risk score is judged on the
+  // alerts the policy actually raised
+  modelAlertThreshold: number;
+  bounds: {
+    minAuroc: number;
+    maxBrier: number;
+    maxCalibrationError: number; // largest tolerated |calibration-in-the-large|
+    minAlertPpv: number;
+  };
+}
+
+export const DEFAULT_MONITORING_OPTIONS: MonitoringOptions = {
+  source: 'policy',
+  horizonDays: 14,
+  windowMonths: 3,
+  minExamples: 30,
+  modelAlertThreshold: 0.2,
+  bounds: {
+    minAuroc: 0.65,
+    maxBrier: 0.2,
+    maxCalibrationError: 0.1,
+    minAlertPpv: 0.1
+  }
+};
+
+export interface PerformanceSummary {
+  examples: number; // labeled assessments in the window
+  events: number;
+  alerts: number;
+  auroc: number | null;
+  brier: number | null; // null for the rule-based score
+  calibrationInTheLarge: number | null; // observed event rate minus mean predicted probability; null for the rule-based score
+  alertPpv: number | null; // share of alerting assessments followed by an event
+}
+
+export interface DriftBreach {
+  scope: string; // "overall" or a site
+  metric: 'auroc' | 'brier' | 'calibrationInTheLarge' | 'alertPpv';
+  value: number;
+  bound: number;
+}
+
+export interface MonitoringReport {
+  asOf: string;
+  source: MonitoringOptions['source'];
+  horizonDays: number;
+  windowMonths: number;
+  byMonth: ({ month: string } & PerformanceSummary)[]; // rolling window ending in each month
+  bySite: ({ site: string } & PerformanceSummary)[]; // window ending in the latest month
+  breaches: DriftBreach[];
+}
+
+export interface MonitoringData {
+  assessments: VoiceAssessment[];
+  outcomes: ClinicalOutcome[];
+  patients: Patient[];
+}
+
+interface LabeledScore {
+  month: string; // YYYY-MM
+  site: string;
+  score: number; // the risk score or the model probability
+  alert: boolean;
+  event: boolean;
+}
+
+const UNASSIGNED_SITE = 'Unassigned';
+
+export class ModelMonitor {
+  private options: MonitoringOptions;
+  private repository: SystemAlertRepository;
+
+  constructor(options: Partial<MonitoringOptions> = {}, repository: SystemAlertRepository = new InMemorySystemAlertRepository()) {
+    this.options = { ...DEFAULT_MONITORING_OPTIONS, ...options };
+    this.repository = repository;
+  }
+
+  evaluate(
+    assessments: VoiceAssessment[],
+    outcomes: ClinicalOutcome[],
+    patients: Patient[] = [],
+    asOf: Date = new Date()
+  ): MonitoringReport {
+    const { horizonDays, windowMonths, source, modelAlertThreshold } = this.options;
+    const sites = new Map(patients.map(patient => [patient.id, patient.monitoring.site ?? UNASSIGNED_SITE]));
+    const labeledBefore = asOf.getTime() - horizonDays * 24 * 60 * 60 * 1000;
+
+    const scores: LabeledScore[] = assessments.flatMap(assessment => {
+      if (assessment.riskLevel === undefined || new Date(assessment.timestamp).getTime() > labeledBefore) return [];
+      const score = source === 'model' ? assessment.modelPrediction?.probability : assessment.riskScore;
+      if (score === undefined) return [];
+      return [{
+        month: assessment.timestamp.slice(0, 7),
+        site: sites.get(assessment.patientId) ?? UNASSIGNED_SITE,
+        score,
+        alert: source === 'model' ? score >= modelAlertThreshold : assessment.alertGenerated,
+        event: hadOutcomeWithin(assessment, outcomes, horizonDays)
+      }];
+    });
+
+    const months = Array.from(new Set(scores.map(score => score.month))).sort();
+    const inWindow = (month: string) => {
+      const start = shiftMonth(month, -(windowMonths - 1));
+      return (score: LabeledScore) => score.month >= start && score.month <= month;
+    };
+
+    const calibrated = source === 'model';
+    const byMonth = months.map(month => ({ month, ...summarize(scores.filter(inWindow(month)), calibrated) }));
+    const latest = months.length > 0 ? scores.filter(inWindow(months[months.length - 1])) : [];
+    const bySite = Array.from(new Set(latest.map(score => score.site)))
+      .sort()
+      .map(site => ({ site, ...summarize(latest.filter(score => score.site === site), calibrated) }));
+
+    const breaches = [
+      ...(byMonth.length > 0 ? this.breaches('overall', byMonth[byMonth.length - 1]) : []),
+      ...bySite.flatMap(summary => this.breaches(summary.site, summary))
+    ];
+
+    return { asOf: asOf.toISOString(), source, horizonDays, windowMonths, byMonth, bySite, breaches };
+  }
+
+  // Evaluates and raises one system alert per breached condition. A condition found back within
+  // bounds resolves its alert; one with too few examples to judge keeps it open.
+  check(
+    assessments: VoiceAssessment[],
+    outcomes: ClinicalOutcome[],
+    patients: Patient[] = [],
+    asOf: Date = new Date()
+  ): MonitoringReport {
+    const report = this.evaluate(assessments, outcomes, patients, asOf);
+    const open = this.getSystemAlerts().filter(alert => alert.status === 'active');
+    const breached = new Set<string>();
+
+    for (const breach of report.breaches) {
+      const condition = `${breach.scope}:${breach.metric}`;
+      breached.add(condition);
+      if (open.some(alert => alert.condition === condition)) continue;
+
+      const alert: SystemAlert = {
+        id: `system-alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        source: 'model-monitoring',
+        scoreSource: this.options.source,
+        condition,
+        message: describeBreach(breach, report),
+        createdAt: report.asOf,
+        status: 'active'
+      };
+      this.repository.save(alert);
+      console.warn(`Model monitoring: ${alert.message}`);
+    }
+
+    const judged = new Set([
+      ...(report.byMonth.length > 0 && report.byMonth[report.byMonth.length - 1].examples >= this.options.minExamples ? ['overall'] : []),
+      ...report.bySite.filter(summary => summary.examples >= this.options.minExamples).map(summary => summary.site)
+    ]);
+    for (const alert of open) {
+      const scope = alert.condition.slice(0, alert.condition.lastIndexOf(':'));
+      if (judged.has(scope) && !breached.has(alert.condition)) {
+        this.repository.save({ ...alert, status: 'resolved', resolvedAt: report.asOf });
+      }
+    }
+
+    return report;
+  }
+
+  // Alerts raised for this monitor's score source, newest first
+  getSystemAlerts(): SystemAlert[] {
+    return this.repository.list()
+      .filter(alert => alert.scoreSource === this.options.source)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private breaches(scope: string, summary: PerformanceSummary): DriftBreach[] {
+    const { bounds, minExamples } = this.options;
+    if (summary.examples < minExamples) return [];
+
+    const breaches: DriftBreach[] = [];
+    if (summary.auroc !== null && summary.auroc < bounds.minAuroc) {
+      breaches.push({ scope, metric: 'auroc', value: summary.auroc, bound: bounds.minAuroc });
+    }
+    if (summary.brier !== null && summary.brier > bounds.maxBrier) {
+      breaches.push({ scope, metric: 'brier', value: summary.brier, bound: bounds.maxBrier });
+    }
+    if (summary.calibrationInTheLarge !== null && Math.abs(summary.calibrationInTheLarge) > bounds.maxCalibrationError) {
+      breaches.push({ scope, metric: 'calibrationInTheLarge', value: summary.calibrationInTheLarge, bound: bounds.maxCalibrationError });
+    }
+    if (summary.alertPpv !== null && summary.alertPpv < bounds.minAlertPpv) {
+      breaches.push({ scope, metric: 'alertPpv', value: summary.alertPpv, bound: bounds.minAlertPpv });
+    }
+    return breaches;
+  }
+}
+
+// Runs every monitor's check now and then every intervalMs, so drift alerts are raised without anyone
+// viewing the report; returns a function that stops the schedule
+export function scheduleDriftChecks(
+  monitors: ModelMonitor[],
+  loadData: () => Promise<MonitoringData>,
+  intervalMs: number
+): () => void {
+  const run = async () => {
+    try {
+      const { assessments, outcomes, patients } = await loadData();
+      monitors.forEach(monitor => monitor.check(assessments, outcomes, patients));
+    } catch (error) {
+      console.error('Scheduled model monitoring check failed:', error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+const METRIC_LABELS: Record<DriftBreach['metric'], string> = {
+  auroc: 'AUROC',
+  brier: 'Brier score',
+  calibrationInTheLarge: 'calibration-in-the-large',
+  alertPpv: 'alert PPV'
+};
+
+function describeBreach(breach: DriftBreach, report: MonitoringReport): string {
+  const where = breach.scope === 'overall' ? 'overall' : `at ${breach.scope}`;
+  const comparison = breach.metric === 'auroc' || breach.metric === 'alertPpv' ? 'below' : 'beyond';
+  return `${report.source === 'model' ? 'Outcome model' : 'Risk score'}: ${METRIC_LABELS[breach.metric]} ${where} is ${breach.value}, ` +
+    `${comparison} the bound of ${breach.bound} (${report.windowMonths}-month window)`;
+}
+
+// Brier score and calibration only mean something for probabilities, so they are left out for the risk score
+function summarize(scores: LabeledScore[], calibrated: boolean): PerformanceSummary {
+  if (scores.length === 0) {
+    return { examples: 0, events: 0, alerts: 0, auroc: null, brier: null, calibrationInTheLarge: null, alertPpv: null };
+  }
+
+  const metrics = calculateModelMetrics(scores.map(score => score.score), scores.map(score => (score.event ? 1 : 0)));
+  const alerts = scores.filter(score => score.alert);
+  const meanPredicted = scores.reduce((sum, score) => sum + score.score, 0) / scores.length;
+
+  return {
+    examples: scores.length,
+    events: metrics.events,
+    alerts: alerts.length,
+    auroc: metrics.auroc === null ? null : round(metrics.auroc),
+    brier: calibrated ? round(metrics.brier) : null,
+    calibrationInTheLarge: calibrated ? round(metrics.events / scores.length - meanPredicted) : null,
+    alertPpv: alerts.length > 0 ? round(alerts.filter(score => score.event).length / alerts.length) : null
+  };
+}
+
+function shiftMonth(month: string, offset: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
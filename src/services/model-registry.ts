@@ -0,0 +1,283 @@
+// HeartVoice Monitor - Scoring Model Registry Service
+// Lifecycle of scoring policies and outcome models (draft, shadow, active, retired) and shadow-mode comparison
+
+import { RiskLevel, ShadowScore, VoiceAssessment } from '@/types/clinical';
+import {
+  RiskScoringPolicy,
+  ScoringPolicyError,
+  ScoringPolicyRegistry,
+  scoringPolicyRegistry,
+  validateScoringPolicy
+} from './scoring-policy';
+import { RiskModel } from './risk-model';
+import { InMemoryScoringModelRepository, ScoringModelRecord, ScoringModelRepository } from './scoring-model-repository';
+
+export type ScoringModelStatus = 'draft' | 'shadow' | 'active' | 'retired';
+
+export type ScoringModelKind = ShadowScore['kind'];
+
+export interface ScoringModelEntry {
+  kind: ScoringModelKind;
+  version: string;
+  description: string;
+  status: ScoringModelStatus;
+}
+
+export interface ChallengerComparison {
+  kind: ScoringModelKind;
+  version: string;
+  assessments: number; // scored by both production and the challenger
+  meanScoreDifference: number; // challenger minus production, in score points
+  levelDisagreementRate: number | null; // null for models, which have no risk levels
+  alertDisagreementRate: number | null;
+  patientsAlertingDifferently: { patientId: string; productionAlerts: number; challengerAlerts: number }[];
+}
+
+export class ModelRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelRegistryError';
+  }
+}
+
+// Retired entries can be brought back into shadow for another comparison, but never straight to active
+const TRANSITIONS: Record<ScoringModelStatus, ScoringModelStatus[]> = {
+  draft: ['shadow', 'active', 'retired'],
+  shadow: ['draft', 'active', 'retired'],
+  active: ['retired'],
+  retired: ['shadow']
+};
+
+export class ScoringModelRegistry {
+  private policies: ScoringPolicyRegistry;
+  private repository: ScoringModelRepository;
+
+  // Configured policy definitions live in the policy registry, whose active policy is production
+  // until another is activated here. Policies registered through the API, models and every status
+  // change live in the repository, so they survive restarts. Other policies start as drafts.
+  constructor(
+    policies: ScoringPolicyRegistry = scoringPolicyRegistry,
+    options: { activeModel?: RiskModel; repository?: ScoringModelRepository } = {}
+  ) {
+    this.policies = policies;
+    this.repository = options.repository ?? new InMemoryScoringModelRepository();
+
+    // The configured model goes into production the first time it is seen; afterwards its stored status stands
+    const { activeModel } = options;
+    if (activeModel && !this.repository.get('model', activeModel.version)) {
+      this.retireActiveModel();
+      this.repository.save({ kind: 'model', version: activeModel.version, status: 'active', model: activeModel });
+    }
+  }
+
+  // Registers a new policy version as a draft; it only affects scoring once activated
+  registerPolicy(policy: RiskScoringPolicy): RiskScoringPolicy {
+    const errors = validateScoringPolicy(policy);
+    if (errors.length > 0) {
+      throw new ScoringPolicyError(`Invalid scoring policy ${policy?.version ?? ''}`.trim(), errors);
+    }
+    // Versions are immutable once registered: assessments refer to them by version
+    if (this.getPolicy(policy.version)) {
+      throw new ScoringPolicyError('Scoring policy already registered', [`version ${policy.version} exists`]);
+    }
+
+    this.repository.save({ kind: 'policy', version: policy.version, status: 'draft', policy });
+    return policy;
+  }
+
+  registerModel(model: RiskModel): ScoringModelEntry {
+    if (this.repository.get('model', model.version)) {
+      throw new ModelRegistryError(`Risk model ${model.version} is already registered`);
+    }
+    this.repository.save({ kind: 'model', version: model.version, status: 'draft', model });
+    return this.entry('model', model.version)!;
+  }
+
+  getStatus(kind: ScoringModelKind, version: string): ScoringModelStatus | null {
+    if (kind === 'model') {
+      return this.repository.get('model', version)?.status ?? null;
+    }
+    if (!this.getPolicy(version)) return null;
+    return version === this.activePolicyVersion() ? 'active' : this.repository.get('policy', version)?.status ?? 'draft';
+  }
+
+  // Activating an entry retires the one it replaces. There is always an active policy, so a
+  // policy leaves active only by another being activated; an active model can simply be retired.
+  setStatus(kind: ScoringModelKind, version: string, status: ScoringModelStatus): ScoringModelEntry {
+    const current = this.getStatus(kind, version);
+    if (!current) {
+      throw new ModelRegistryError(`Unknown ${kind} ${version}`);
+    }
+    if (current === status) return this.entry(kind, version)!;
+    if (!TRANSITIONS[current].includes(status)) {
+      throw new ModelRegistryError(`Cannot move ${kind} ${version} from ${current} to ${status}`);
+    }
+
+    if (kind === 'policy') {
+      if (current === 'active') {
+        throw new ModelRegistryError(`Policy ${version} is in production; activate its replacement instead`);
+      }
+      if (status === 'active') {
+        // Re-validated on activation in case the definition or validator changed since registration
+        const errors = validateScoringPolicy(this.getPolicy(version)!);
+        if (errors.length > 0) {
+          throw new ScoringPolicyError(`Scoring policy ${version} failed validation`, errors);
+        }
+        this.saveStatus('policy', this.activePolicyVersion(), 'retired');
+      }
+    } else if (status === 'active') {
+      this.retireActiveModel();
+    }
+    this.saveStatus(kind, version, status);
+
+    console.log(`Scoring ${kind} ${version} moved from ${current} to ${status}`);
+    return this.entry(kind, version)!;
+  }
+
+  getActivePolicy(): RiskScoringPolicy {
+    return this.getPolicy(this.activePolicyVersion())!;
+  }
+
+  getActiveModel(): RiskModel | undefined {
+    return this.storedModels().find(record => record.status === 'active')?.model;
+  }
+
+  getShadowPolicies(): RiskScoringPolicy[] {
+    return this.policyVersions()
+      .filter(version => this.getStatus('policy', version) === 'shadow')
+      .map(version => this.getPolicy(version)!);
+  }
+
+  getShadowModels(): RiskModel[] {
+    return this.storedModels().filter(record => record.status === 'shadow').map(record => record.model);
+  }
+
+  getPolicy(version: string): RiskScoringPolicy | null {
+    const record = this.repository.get('policy', version);
+    return this.policies.get(version) ?? (record?.kind === 'policy' ? record.policy ?? null : null);
+  }
+
+  getModel(version: string): RiskModel | null {
+    const record = this.repository.get('model', version);
+    return record?.kind === 'model' ? record.model : null;
+  }
+
+  listPolicies(): { version: string; description: string; active: boolean }[] {
+    const active = this.activePolicyVersion();
+    return this.policyVersions().map(version => ({
+      version,
+      description: this.getPolicy(version)!.description,
+      active: version === active
+    }));
+  }
+
+  list(): ScoringModelEntry[] {
+    return [
+      ...this.policyVersions().map(version => this.entry('policy', version)!),
+      ...this.storedModels().map(record => this.entry('model', record.version)!)
+    ];
+  }
+
+  private entry(kind: ScoringModelKind, version: string): ScoringModelEntry | null {
+    const status = this.getStatus(kind, version);
+    if (!status) return null;
+    const description = kind === 'policy' ? this.getPolicy(version)!.description : this.getModel(version)!.outcome;
+    return { kind, version, description, status };
+  }
+
+  // A stored activation wins over SCORING_POLICY_VERSION unless its policy is no longer configured
+  private activePolicyVersion(): string {
+    const stored = this.repository.list()
+      .find(record => record.kind === 'policy' && record.status === 'active' && this.getPolicy(record.version));
+    return stored?.version ?? this.policies.getActive().version;
+  }
+
+  // Configured policies first, then those registered through the API in order of registration
+  private policyVersions(): string[] {
+    const configured = this.policies.list().map(policy => policy.version);
+    const registered = this.repository.list()
+      .flatMap(record => record.kind === 'policy' && record.policy && !configured.includes(record.version) ? [record.version] : []);
+    return [...configured, ...registered];
+  }
+
+  private storedModels(): Extract<ScoringModelRecord, { kind: 'model' }>[] {
+    return this.repository.list().flatMap(record => record.kind === 'model' ? [record] : []);
+  }
+
+  private retireActiveModel() {
+    const active = this.getActiveModel();
+    if (active) this.saveStatus('model', active.version, 'retired');
+  }
+
+  private saveStatus(kind: ScoringModelKind, version: string, status: ScoringModelStatus) {
+    const record = this.repository.get(kind, version);
+    this.repository.save(record ? { ...record, status } : { kind: 'policy', version, status });
+  }
+}
+
+// Shadow policies are compared with the production risk score, level and alert decision;
+// shadow models with the production model probability, where one was recorded
+export function compareShadowScores(assessments: VoiceAssessment[]): ChallengerComparison[] {
+  const pairs = new Map<string, { kind: ScoringModelKind; version: string; rows: { assessment: VoiceAssessment; shadow: ShadowScore }[] }>();
+  for (const assessment of assessments) {
+    for (const shadow of assessment.shadowScores ?? []) {
+      const key = `${shadow.kind}:${shadow.version}`;
+      if (!pairs.has(key)) pairs.set(key, { kind: shadow.kind, version: shadow.version, rows: [] });
+      pairs.get(key)!.rows.push({ assessment, shadow });
+    }
+  }
+
+  return Array.from(pairs.values()).map(({ kind, version, rows }) => {
+    const production = (assessment: VoiceAssessment): { score: number; level?: RiskLevel; alert?: boolean } | null =>
+      kind === 'policy'
+        ? { score: assessment.riskScore, level: assessment.riskLevel, alert: assessment.alertGenerated }
+        : assessment.modelPrediction ? { score: assessment.modelPrediction.probability * 100 } : null;
+    const compared = rows.flatMap(({ assessment, shadow }) => {
+      const baseline = production(assessment);
+      return baseline ? [{ assessment, shadow, production: baseline }] : [];
+    });
+
+    const rate = (disagrees: (row: typeof compared[number]) => boolean) =>
+      kind === 'policy' && compared.length > 0 ? round(compared.filter(disagrees).length / compared.length) : null;
+
+    const alertCounts = new Map<string, { productionAlerts: number; challengerAlerts: number }>();
+    if (kind === 'policy') {
+      for (const { assessment, shadow } of compared) {
+        const counts = alertCounts.get(assessment.patientId) ?? { productionAlerts: 0, challengerAlerts: 0 };
+        if (assessment.alertGenerated) counts.productionAlerts++;
+        if (shadow.alertGenerated) counts.challengerAlerts++;
+        alertCounts.set(assessment.patientId, counts);
+      }
+    }
+
+    return {
+      kind,
+      version,
+      assessments: compared.length,
+      meanScoreDifference: compared.length > 0
+        ? round(compared.reduce((sum, row) => sum + row.shadow.riskScore - row.production.score, 0) / compared.length)
+        : 0,
+      levelDisagreementRate: rate(row => row.shadow.riskLevel !== row.production.level),
+      alertDisagreementRate: rate(row => Boolean(row.shadow.alertGenerated) !== row.production.alert),
+      patientsAlertingDifferently: Array.from(alertCounts.entries())
+        .filter(([, counts]) => counts.productionAlerts !== counts.challengerAlerts)
+        .map(([patientId, counts]) => ({ patientId, ...counts }))
+        .sort((a, b) => a.patientId.localeCompare(b.patientId))
+    };
+  });
+}
+
+// A shadow's view of the patient's history: its own earlier scores in place of production's,
+// so hysteresis and rise checks are judged as if it had been in production
+export function shadowHistory(history: VoiceAssessment[], kind: ScoringModelKind, version: string): VoiceAssessment[] {
+  return history.flatMap(assessment => {
+    const shadow = assessment.shadowScores?.find(entry => entry.kind === kind && entry.version === version);
+    return shadow
+      ? [{ ...assessment, riskScore: shadow.riskScore, riskLevel: shadow.riskLevel, alertLevel: shadow.alertLevel }]
+      : [];
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
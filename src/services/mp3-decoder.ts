@@ -0,0 +1,44 @@
+// HeartVoice Monitor - MP3 Decoder
+// Decodes MP3 recordings for AudioDecoder with the mpg123 WebAssembly build
+
+import { MPEGDecoder } from 'mpg123-decoder';
+import { CompressedAudioDecoder } from './audio-decoder';
+
+// mpg123 always returns two channels; the first frame header says whether the stream is mono
+function mp3ChannelCount(bytes: Uint8Array): number {
+  let offset = 0;
+
+  // Skip an ID3v2 tag: "ID3", version, flags, then a 28-bit syncsafe size
+  if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33 && bytes.length >= 10) {
+    offset = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+  }
+
+  for (; offset + 3 < bytes.length; offset++) {
+    if (bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0) {
+      return bytes[offset + 3] >> 6 === 3 ? 1 : 2;
+    }
+  }
+  throw new Error('no MPEG frame found');
+}
+
+export class Mpg123Decoder implements CompressedAudioDecoder {
+  async decode(buffer: ArrayBuffer): Promise<{ channelData: Float32Array[]; sampleRate: number }> {
+    const bytes = new Uint8Array(buffer);
+    const channels = mp3ChannelCount(bytes);
+
+    const decoder = new MPEGDecoder();
+    await decoder.ready;
+    try {
+      const { channelData, samplesDecoded, sampleRate, errors } = decoder.decode(bytes);
+      if (samplesDecoded === 0 && errors.length > 0) {
+        throw new Error(errors[0].message);
+      }
+      return {
+        channelData: channelData.slice(0, channels).map(channel => channel.subarray(0, samplesDecoded)),
+        sampleRate
+      };
+    } finally {
+      decoder.free();
+    }
+  }
+}
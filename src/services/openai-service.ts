@@ -1,6 +1,7 @@
 // HeartVoice Monitor - HIPAA-Compliant OpenAI Integration Service
 // Based on chatgpt-expert design specifications for clinical voice analysis
 
+import { createHash } from 'crypto';
 import { SafeVoiceAnalysisRequest } from '@/types/clinical';
 
 interface ClinicalAnalysisResponse {
@@ -58,9 +59,10 @@ export class ClinicalAnalysisCache {
   private readonly CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
 
   generateCacheKey(request: SafeVoiceAnalysisRequest): string {
-    // Create cache key from deidentified content (no PHI)
-    const content = `${request.clinicalContext}_${request.deidentifiedTranscript.length}_${request.conversationFlow.join('_')}`;
-    return Buffer.from(content).toString('base64').slice(0, 32);
+    // Create cache key from deidentified content (no PHI). Hash the whole transcript: two
+    // calls must only share an analysis when patients said exactly the same thing
+    const content = `${request.clinicalContext}_${request.deidentifiedTranscript}_${request.conversationFlow.join('_')}`;
+    return createHash('sha256').update(content).digest('base64').slice(0, 32);
   }
 
   get(key: string): ClinicalAnalysisResponse | null {
@@ -0,0 +1,24 @@
+// HeartVoice Monitor - Outcome Repository
+// Storage interface for clinical outcomes, with an in-memory implementation for tests and development
+
+import { ClinicalOutcome } from '@/types/clinical';
+
+// Synchronous and copy-returning, like PatientRepository
+export interface OutcomeRepository {
+  add(outcome: ClinicalOutcome): void;
+  list(patientId?: string): ClinicalOutcome[]; // in order of recording
+}
+
+export class InMemoryOutcomeRepository implements OutcomeRepository {
+  private outcomes: ClinicalOutcome[] = [];
+
+  add(outcome: ClinicalOutcome): void {
+    this.outcomes.push(structuredClone(outcome));
+  }
+
+  list(patientId?: string): ClinicalOutcome[] {
+    return this.outcomes
+      .filter(outcome => !patientId || outcome.patientId === patientId)
+      .map(outcome => structuredClone(outcome));
+  }
+}
@@ -0,0 +1,299 @@
+// HeartVoice Monitor - Patient Patch Service
+// Partial patient updates as RFC 6902 JSON Patch or RFC 7386 merge patch, validated and diffed
+
+import { Patient } from '@/types/clinical';
+import { COMORBIDITIES } from './comorbidities';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string; // JSON Pointer, e.g. /clinicalInfo/medications/0
+  from?: string; // move and copy
+  value?: unknown; // add, replace and test
+}
+
+export type PatientPatch =
+  | { format: 'json-patch'; operations: JsonPatchOperation[] }
+  | { format: 'merge-patch'; document: Record<string, unknown> };
+
+export class PatientPatchError extends Error {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(`${message}: ${errors.join('; ')}`);
+    this.name = 'PatientPatchError';
+    this.errors = errors;
+  }
+}
+
+// Fields fixed at creation, or derived from assessments by PatientService: edits to them are
+// rejected however the patch reaches them
+const PROTECTED_FIELDS: { label: string; read: (patient: Patient) => unknown }[] = [
+  { label: 'id', read: patient => patient?.id },
+  { label: 'monitoring.enrollmentDate', read: patient => patient?.monitoring?.enrollmentDate },
+  { label: 'version', read: patient => patient?.version },
+  { label: 'baseline', read: patient => patient?.baseline },
+  { label: 'currentRisk', read: patient => patient?.currentRisk }
+];
+
+type JsonObject = Record<string, unknown>;
+
+// Keys that would reach Object.prototype instead of the patient record
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function hasOwn(object: JsonObject, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`"${pointer}" is not a JSON Pointer`);
+  const tokens = pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const unsafe = tokens.find(token => UNSAFE_KEYS.has(token));
+  if (unsafe !== undefined) throw new Error(`"${unsafe}" is not an allowed key`);
+  return tokens;
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function arrayIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return length;
+  const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : NaN;
+  if (isNaN(index) || index > (allowEnd ? length : length - 1)) throw new Error(`index ${token} is out of range`);
+  return index;
+}
+
+// Resolves the container holding the pointer's last token
+function locate(document: unknown, pointer: string): { parent: unknown; key: string } {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) throw new Error('the whole patient cannot be replaced');
+
+  let parent = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(parent)) {
+      parent = parent[arrayIndex(token, parent.length, false)];
+    } else if (isObject(parent) && hasOwn(parent, token)) {
+      parent = parent[token];
+    } else {
+      throw new Error(`${pointer} does not exist`);
+    }
+  }
+  if (!Array.isArray(parent) && !isObject(parent)) throw new Error(`${pointer} does not exist`);
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+  const { parent, key } = locate(document, pointer);
+  if (Array.isArray(parent)) return parent[arrayIndex(key, parent.length, false)];
+  if (!hasOwn(parent as JsonObject, key)) throw new Error(`${pointer} does not exist`);
+  return (parent as JsonObject)[key];
+}
+
+function addValue(document: unknown, pointer: string, value: unknown) {
+  const { parent, key } = locate(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(key, parent.length, true), 0, value);
+  } else {
+    (parent as JsonObject)[key] = value;
+  }
+}
+
+function removeValue(document: unknown, pointer: string) {
+  const { parent, key } = locate(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(key, parent.length, false), 1);
+  } else {
+    if (!hasOwn(parent as JsonObject, key)) throw new Error(`${pointer} does not exist`);
+    delete (parent as JsonObject)[key];
+  }
+}
+
+// Applies every operation or none, as RFC 6902 requires
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  if (!Array.isArray(operations)) {
+    throw new PatientPatchError('Invalid JSON Patch', ['a JSON Patch must be an array of operations']);
+  }
+
+  const result = structuredClone(document);
+  operations.forEach((operation, index) => {
+    try {
+      switch (operation?.op) {
+        case 'add':
+          addValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case 'remove':
+          removeValue(result, operation.path);
+          break;
+        case 'replace':
+          getValue(result, operation.path);
+          removeValue(result, operation.path);
+          addValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case 'move': {
+          if (operation.path.startsWith(`${operation.from}/`)) throw new Error('a value cannot be moved into itself');
+          const value = getValue(result, operation.from ?? '');
+          removeValue(result, operation.from ?? '');
+          addValue(result, operation.path, value);
+          break;
+        }
+        case 'copy':
+          addValue(result, operation.path, structuredClone(getValue(result, operation.from ?? '')));
+          break;
+        case 'test':
+          if (!deepEqual(getValue(result, operation.path), operation.value)) throw new Error(`${operation.path} does not match`);
+          break;
+        default:
+          throw new Error(`unknown op "${operation?.op}"`);
+      }
+    } catch (error) {
+      if (error instanceof PatientPatchError) throw error;
+      throw new PatientPatchError('JSON Patch failed', [`operation ${index}: ${error instanceof Error ? error.message : error}`]);
+    }
+  });
+  return result;
+}
+
+// Objects merge recursively and null removes a field; arrays and other values replace what was there
+export function applyMergePatch<T>(target: T, patch: unknown): T {
+  if (!isObject(patch)) return structuredClone(patch) as T;
+
+  const result: JsonObject = isObject(target) ? structuredClone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (UNSAFE_KEYS.has(key)) {
+      throw new PatientPatchError('Invalid merge patch', [`"${key}" is not an allowed key`]);
+    }
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result as T;
+}
+
+// The change from before to after as JSON Patch operations; arrays are replaced whole
+export function diffDocuments(before: unknown, after: unknown, path = ''): JsonPatchOperation[] {
+  if (deepEqual(before, after)) return [];
+  if (!isObject(before) || !isObject(after)) return [{ op: 'replace', path, value: after }];
+
+  const operations: JsonPatchOperation[] = [];
+  for (const key of Object.keys(before)) {
+    const childPath = `${path}/${escapeToken(key)}`;
+    if (!hasOwn(after, key)) {
+      operations.push({ op: 'remove', path: childPath });
+    } else {
+      operations.push(...diffDocuments(before[key], after[key], childPath));
+    }
+  }
+  for (const key of Object.keys(after)) {
+    if (!hasOwn(before, key)) operations.push({ op: 'add', path: `${path}/${escapeToken(key)}`, value: after[key] });
+  }
+  return operations;
+}
+
+// Checks a whole patient record against the Patient type; returns the problems found
+export function validatePatient(patient: Patient): string[] {
+  const errors: string[] = [];
+  if (!isObject(patient)) return ['patient must be an object'];
+
+  const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+  const isDate = (value: unknown) => isText(value) && !isNaN(new Date(value).getTime());
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  const isTextList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const oneOf = (value: unknown, allowed: unknown[]) => allowed.includes(value);
+
+  if (!isText(patient.id)) errors.push('id is required');
+
+  const { demographics, clinicalInfo, monitoring, currentRisk } = patient;
+  if (!isObject(demographics)) {
+    errors.push('demographics is required');
+  } else {
+    for (const field of ['firstName', 'lastName', 'mrn', 'phoneNumber'] as const) {
+      if (!isText(demographics[field])) errors.push(`demographics.${field} is required`);
+    }
+    if (!isDate(demographics.dateOfBirth)) errors.push('demographics.dateOfBirth must be a date');
+    if (!oneOf(demographics.sexAtBirth, ['female', 'male', 'unknown'])) errors.push('demographics.sexAtBirth must be female, male or unknown');
+    if (demographics.email !== undefined && typeof demographics.email !== 'string') errors.push('demographics.email must be text');
+  }
+
+  if (!isObject(clinicalInfo)) {
+    errors.push('clinicalInfo is required');
+  } else {
+    if (!isDate(clinicalInfo.diagnosisDate)) errors.push('clinicalInfo.diagnosisDate must be a date');
+    if (clinicalInfo.ejectionFraction !== undefined &&
+      (!isNumber(clinicalInfo.ejectionFraction) || clinicalInfo.ejectionFraction < 0 || clinicalInfo.ejectionFraction > 100)) {
+      errors.push('clinicalInfo.ejectionFraction must be a percentage');
+    }
+    if (!oneOf(clinicalInfo.nyhaClass, [1, 2, 3, 4])) errors.push('clinicalInfo.nyhaClass must be 1, 2, 3 or 4');
+    if (!Array.isArray(clinicalInfo.comorbidities) || !clinicalInfo.comorbidities.every(item => COMORBIDITIES.includes(item))) {
+      errors.push(`clinicalInfo.comorbidities must be any of ${COMORBIDITIES.join(', ')}`);
+    }
+    if (!isTextList(clinicalInfo.medications)) errors.push('clinicalInfo.medications must be a list of text');
+    if (!isTextList(clinicalInfo.allergies)) errors.push('clinicalInfo.allergies must be a list of text');
+    const contact = clinicalInfo.emergencyContact;
+    if (!isObject(contact) || !isText(contact.name) || !isText(contact.relationship) || !isText(contact.phoneNumber)) {
+      errors.push('clinicalInfo.emergencyContact requires name, relationship and phoneNumber');
+    }
+  }
+
+  if (!isObject(monitoring)) {
+    errors.push('monitoring is required');
+  } else {
+    if (!isDate(monitoring.enrollmentDate)) errors.push('monitoring.enrollmentDate must be a date');
+    if (!oneOf(monitoring.consentStatus, ['active', 'withdrawn', 'expired'])) errors.push('monitoring.consentStatus must be active, withdrawn or expired');
+    if (!oneOf(monitoring.assessmentFrequency, ['daily', 'weekly', 'bi-weekly'])) errors.push('monitoring.assessmentFrequency must be daily, weekly or bi-weekly');
+    if (!isTextList(monitoring.preferredCallTimes)) errors.push('monitoring.preferredCallTimes must be a list of text');
+    if (!isText(monitoring.timezone)) errors.push('monitoring.timezone is required');
+    if (monitoring.site !== undefined && typeof monitoring.site !== 'string') errors.push('monitoring.site must be text');
+  }
+
+  if (!isObject(currentRisk)) {
+    errors.push('currentRisk is required');
+  } else {
+    if (!isNumber(currentRisk.score) || currentRisk.score < 0 || currentRisk.score > 100) errors.push('currentRisk.score must be from 0 to 100');
+    if (!oneOf(currentRisk.level, ['low', 'medium', 'high', 'critical'])) errors.push('currentRisk.level must be low, medium, high or critical');
+    if (!oneOf(currentRisk.trend, ['improving', 'stable', 'deteriorating'])) errors.push('currentRisk.trend must be improving, stable or deteriorating');
+    if (!isDate(currentRisk.lastUpdated)) errors.push('currentRisk.lastUpdated must be a date');
+  }
+
+  if (patient.baseline !== undefined && !isObject(patient.baseline)) errors.push('baseline must be an object');
+  if (patient.version !== undefined && (!Number.isInteger(patient.version) || patient.version < 1)) errors.push('version must be a positive integer');
+
+  return errors;
+}
+
+// Applies the patch to a copy of the patient and returns the result with its diff. Throws
+// PatientPatchError when the patch cannot be applied, touches a protected field or leaves
+// an invalid patient.
+export function applyPatientPatch(patient: Patient, patch: PatientPatch): { patient: Patient; diff: JsonPatchOperation[] } {
+  const patched = patch.format === 'json-patch'
+    ? applyJsonPatch(patient, patch.operations)
+    : applyMergePatch(patient, patch.document);
+
+  const protectedErrors = PROTECTED_FIELDS
+    .filter(field => !deepEqual(field.read(patient), field.read(patched)))
+    .map(field => `${field.label} cannot be changed`);
+  if (protectedErrors.length > 0) throw new PatientPatchError('Protected fields', protectedErrors);
+
+  const errors = validatePatient(patched);
+  if (errors.length > 0) throw new PatientPatchError('Invalid patient', errors);
+
+  return { patient: patched, diff: diffDocuments(patient, patched) };
+}
@@ -0,0 +1,29 @@
+// HeartVoice Monitor - Patient Repository
+// Storage interface behind PatientService, with an in-memory implementation for tests and development
+
+import { Patient } from '@/types/clinical';
+
+// Synchronous, like the embedded SQLite driver. Implementations return copies: changes to a
+// patient are only stored by saving it.
+export interface PatientRepository {
+  get(patientId: string): Patient | null;
+  list(): Patient[]; // in order of creation
+  save(patient: Patient): void; // inserts or replaces
+}
+
+export class InMemoryPatientRepository implements PatientRepository {
+  private patients: Map<string, Patient> = new Map();
+
+  get(patientId: string): Patient | null {
+    const patient = this.patients.get(patientId);
+    return patient ? structuredClone(patient) : null;
+  }
+
+  list(): Patient[] {
+    return Array.from(this.patients.values()).map(patient => structuredClone(patient));
+  }
+
+  save(patient: Patient): void {
+    this.patients.set(patient.id, structuredClone(patient));
+  }
+}
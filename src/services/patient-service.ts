@@ -1,14 +1,54 @@
 // HeartVoice Monitor - Patient Management Service
 // Handles patient data, monitoring schedules, and clinical workflows
 
-import { Patient, CreatePatientRequest, UpdatePatientRequest, RiskLevel } from '@/types/clinical';
+import { Patient, CreatePatientRequest, UpdatePatientRequest, RiskLevel, RiskTrend, VoiceAssessment, ClinicalOutcome } from '@/types/clinical';
+import { BaselineService } from './baseline-service';
+import { TrendAnalyzer } from './trend-analysis';
+import { InMemoryPatientRepository, PatientRepository } from './patient-repository';
+import { AssessmentFilter, AssessmentPage, AssessmentRepository, InMemoryAssessmentRepository } from './assessment-repository';
+import { InMemoryOutcomeRepository, OutcomeRepository } from './outcome-repository';
+import { applyPatientPatch, JsonPatchOperation, PatientPatch, PatientPatchError, validatePatient } from './patient-patch';
+
+export interface PatientServiceOptions {
+  seedMockPatients: boolean; // add the development patients to an empty repository
+}
+
+export const DEFAULT_PATIENT_SERVICE_OPTIONS: PatientServiceOptions = {
+  seedMockPatients: true
+};
+
+// A write made against an older version of the patient; carries the current copy for the client to reconcile
+export class PatientVersionConflictError extends Error {
+  readonly current: Patient;
+
+  constructor(current: Patient) {
+    super(`Patient ${current.id} has changed since it was read (now version ${current.version ?? 0})`);
+    this.name = 'PatientVersionConflictError';
+    this.current = current;
+  }
+}
 
 export class PatientService {
-  private patients: Map<string, Patient> = new Map();
+  private repository: PatientRepository;
+  private assessmentRepository: AssessmentRepository;
+  private outcomeRepository: OutcomeRepository;
+  private baselineService: BaselineService = new BaselineService();
+  private trendAnalyzer: TrendAnalyzer = new TrendAnalyzer();
 
-  // Mock patients for development
-  constructor() {
-    this.initializeMockPatients();
+  // Patients live in the repository; the in-memory one is the default for tests and development
+  constructor(
+    repository: PatientRepository = new InMemoryPatientRepository(),
+    options: Partial<PatientServiceOptions> = {},
+    assessmentRepository: AssessmentRepository = new InMemoryAssessmentRepository(),
+    outcomeRepository: OutcomeRepository = new InMemoryOutcomeRepository()
+  ) {
+    this.repository = repository;
+    this.assessmentRepository = assessmentRepository;
+    this.outcomeRepository = outcomeRepository;
+    const { seedMockPatients } = { ...DEFAULT_PATIENT_SERVICE_OPTIONS, ...options };
+    if (seedMockPatients && this.repository.list().length === 0) {
+      this.initializeMockPatients();
+    }
   }
 
   private initializeMockPatients() {
@@ -19,6 +59,7 @@ export class PatientService {
           firstName: 'John',
           lastName: 'Martinez',
           dateOfBirth: '1965-03-15',
+          sexAtBirth: 'male',
           mrn: 'MRN001234',
           phoneNumber: '555-0123',
           email: 'j.martinez@email.com'
@@ -27,6 +68,7 @@ export class PatientService {
           diagnosisDate: '2023-08-15',
           ejectionFraction: 35,
           nyhaClass: 2,
+          comorbidities: ['ckd'],
           medications: ['Lisinopril 10mg', 'Metoprolol 25mg', 'Furosemide 40mg'],
           allergies: ['Penicillin'],
           emergencyContact: {
@@ -40,13 +82,30 @@ export class PatientService {
           consentStatus: 'active',
           assessmentFrequency: 'daily',
           preferredCallTimes: ['09:00', '14:00'],
-          timezone: 'America/New_York'
+          timezone: 'America/New_York',
+          site: 'Main Campus'
         },
         currentRisk: {
           score: 87,
           level: 'critical',
           lastUpdated: '2025-09-07T15:30:00Z',
           trend: 'deteriorating'
+        },
+        baseline: {
+          status: 'established',
+          assessmentCount: 14,
+          requiredAssessments: 5,
+          statistics: {
+            jitter: { mean: 1.2, standardDeviation: 0.2 },
+            shimmer: { mean: 4.1, standardDeviation: 0.6 },
+            hnr: { mean: 16.4, standardDeviation: 1.5 },
+            f0: { mean: 128.5, standardDeviation: 6.2 },
+            spectralSlope: { mean: -8.1, standardDeviation: 0.9 },
+            voiceIntensity: { mean: 62.3, standardDeviation: 2.8 }
+          },
+          startedAt: '2023-09-01T00:00:00Z',
+          establishedAt: '2023-09-06T09:12:00Z',
+          lastUpdated: '2025-09-01T09:05:00Z'
         }
       },
       {
@@ -55,6 +114,7 @@ export class PatientService {
           firstName: 'Katherine',
           lastName: 'Thompson',
           dateOfBirth: '1958-11-22',
+          sexAtBirth: 'female',
           mrn: 'MRN001235',
           phoneNumber: '555-0125',
           email: 'k.thompson@email.com'
@@ -63,6 +123,7 @@ export class PatientService {
           diagnosisDate: '2022-05-10',
           ejectionFraction: 42,
           nyhaClass: 3,
+          comorbidities: ['copd'],
           medications: ['Enalapril 5mg', 'Carvedilol 12.5mg', 'Spironolactone 25mg'],
           allergies: [],
           emergencyContact: {
@@ -76,7 +137,8 @@ export class PatientService {
           consentStatus: 'active',
           assessmentFrequency: 'weekly',
           preferredCallTimes: ['10:00', '16:00'],
-          timezone: 'America/Chicago'
+          timezone: 'America/Chicago',
+          site: 'North Clinic'
         },
         currentRisk: {
           score: 82,
@@ -91,6 +153,7 @@ export class PatientService {
           firstName: 'Robert',
           lastName: 'Johnson',
           dateOfBirth: '1972-07-08',
+          sexAtBirth: 'male',
           mrn: 'MRN001236',
           phoneNumber: '555-0127',
           email: 'r.johnson@email.com'
@@ -99,6 +162,7 @@ export class PatientService {
           diagnosisDate: '2024-01-20',
           ejectionFraction: 45,
           nyhaClass: 2,
+          comorbidities: [],
           medications: ['Losartan 50mg', 'Metoprolol 50mg'],
           allergies: ['Sulfa drugs'],
           emergencyContact: {
@@ -112,7 +176,8 @@ export class PatientService {
           consentStatus: 'active',
           assessmentFrequency: 'bi-weekly',
           preferredCallTimes: ['08:00', '18:00'],
-          timezone: 'America/Los_Angeles'
+          timezone: 'America/Los_Angeles',
+          site: 'Main Campus'
         },
         currentRisk: {
           score: 45,
@@ -127,6 +192,7 @@ export class PatientService {
           firstName: 'Emily',
           lastName: 'Davis',
           dateOfBirth: '1980-12-03',
+          sexAtBirth: 'female',
           mrn: 'MRN001237',
           phoneNumber: '555-0129',
           email: 'e.davis@email.com'
@@ -135,6 +201,7 @@ export class PatientService {
           diagnosisDate: '2024-06-12',
           ejectionFraction: 55,
           nyhaClass: 1,
+          comorbidities: [],
           medications: ['Lisinopril 5mg'],
           allergies: [],
           emergencyContact: {
@@ -148,42 +215,59 @@ export class PatientService {
           consentStatus: 'active',
           assessmentFrequency: 'weekly',
           preferredCallTimes: ['12:00'],
-          timezone: 'America/Denver'
+          timezone: 'America/Denver',
+          site: 'North Clinic'
         },
         currentRisk: {
           score: 22,
           level: 'low',
           lastUpdated: '2025-09-07T14:20:00Z',
           trend: 'stable'
+        },
+        baseline: {
+          status: 'building',
+          assessmentCount: 2,
+          requiredAssessments: 5,
+          statistics: {
+            jitter: { mean: 0.6, standardDeviation: 0.08 },
+            shimmer: { mean: 2.9, standardDeviation: 0.3 },
+            hnr: { mean: 21.2, standardDeviation: 0.9 },
+            f0: { mean: 212.4, standardDeviation: 4.1 },
+            spectralSlope: { mean: -7.4, standardDeviation: 0.5 },
+            voiceIntensity: { mean: 64.8, standardDeviation: 1.6 }
+          },
+          startedAt: '2024-07-01T00:00:00Z',
+          lastUpdated: '2024-07-15T12:04:00Z'
         }
       }
     ];
 
     mockPatients.forEach(patient => {
-      this.patients.set(patient.id, patient);
+      this.savePatient(patient);
     });
   }
 
   async getAllPatients(): Promise<Patient[]> {
-    return Array.from(this.patients.values());
+    return this.repository.list();
   }
 
   async getPatientById(patientId: string): Promise<Patient | null> {
-    return this.patients.get(patientId) || null;
+    return this.repository.get(patientId);
   }
 
   async getPatientsByRiskLevel(riskLevel: RiskLevel): Promise<Patient[]> {
-    return Array.from(this.patients.values()).filter(
+    return this.repository.list().filter(
       patient => patient.currentRisk.level === riskLevel
     );
   }
 
   async getHighRiskPatients(): Promise<Patient[]> {
-    return Array.from(this.patients.values()).filter(
+    return this.repository.list().filter(
       patient => patient.currentRisk.level === 'critical' || patient.currentRisk.level === 'high'
     );
   }
 
+  // Throws PatientPatchError when the request would not make a valid patient, the same check edits get
   async createPatient(request: CreatePatientRequest): Promise<Patient> {
     const patientId = `patient-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -201,35 +285,53 @@ export class PatientService {
         level: 'low',
         lastUpdated: new Date().toISOString(),
         trend: 'stable'
-      }
+      },
+      baseline: this.baselineService.createBaseline()
     };
 
-    this.patients.set(patientId, newPatient);
+    const errors = validatePatient(newPatient);
+    if (errors.length > 0) throw new PatientPatchError('Invalid patient', errors);
+
+    this.savePatient(newPatient);
     return newPatient;
   }
 
+  // Updates merge into the nested record (merge patch semantics), so partial sections keep their other fields
   async updatePatient(request: UpdatePatientRequest): Promise<Patient | null> {
-    const existingPatient = this.patients.get(request.patientId);
+    const result = await this.patchPatient(request.patientId, {
+      format: 'merge-patch',
+      document: request.updates as Record<string, unknown>
+    });
+    return result ? result.patient : null;
+  }
+
+  // Throws PatientPatchError for a patch that fails, edits a protected field or leaves an invalid patient,
+  // and PatientVersionConflictError when expectedVersion is given and no longer current
+  async patchPatient(
+    patientId: string,
+    patch: PatientPatch,
+    expectedVersion?: number
+  ): Promise<{ patient: Patient; diff: JsonPatchOperation[] } | null> {
+    const existingPatient = this.repository.get(patientId);
     if (!existingPatient) {
       return null;
     }
+    this.checkVersion(existingPatient, expectedVersion);
 
-    const updatedPatient: Patient = {
-      ...existingPatient,
-      ...request.updates
-    };
-
-    this.patients.set(request.patientId, updatedPatient);
-    return updatedPatient;
+    const result = applyPatientPatch(existingPatient, patch);
+    if (result.diff.length > 0) {
+      this.savePatient(result.patient);
+    }
+    return result;
   }
 
   async updatePatientRisk(
     patientId: string, 
     riskScore: number, 
     riskLevel: RiskLevel,
-    trend: 'improving' | 'stable' | 'deteriorating'
+    trend: RiskTrend
   ): Promise<Patient | null> {
-    const patient = this.patients.get(patientId);
+    const patient = this.repository.get(patientId);
     if (!patient) {
       return null;
     }
@@ -241,14 +343,101 @@ export class PatientService {
       trend
     };
 
-    this.patients.set(patientId, patient);
+    this.savePatient(patient);
+    return patient;
+  }
+
+  // Stores a processed assessment and derives the patient's risk, trend and baseline from it
+  async recordAssessment(assessment: VoiceAssessment): Promise<Patient | null> {
+    const patient = this.repository.get(assessment.patientId);
+    if (!patient) {
+      return null;
+    }
+
+    this.assessmentRepository.save(assessment);
+    this.updateCurrentRisk(patient, assessment);
+
+    // Personal baseline: built from the first good-quality assessments, then rolled forward
+    patient.baseline = this.baselineService.update(patient.baseline, assessment);
+
+    this.savePatient(patient);
+    return patient;
+  }
+
+  // Replaces a stored assessment with a later revision of its score, as when the call's
+  // transcript arrives. The baseline already counted its biomarkers and is left alone;
+  // the current risk follows only while this is the patient's latest scored assessment.
+  async reviseAssessment(assessment: VoiceAssessment): Promise<Patient | null> {
+    const patient = this.repository.get(assessment.patientId);
+    if (!patient) {
+      return null;
+    }
+
+    this.assessmentRepository.save(assessment);
+    const latest = this.assessmentRepository.find({ patientId: patient.id }).filter(item => item.riskLevel).pop();
+    if (latest?.id === assessment.id) {
+      this.updateCurrentRisk(patient, assessment);
+      this.savePatient(patient);
+    }
+    return patient;
+  }
+
+  // Oldest first, as the trend analysis and scoring expect
+  async getAssessmentHistory(patientId: string): Promise<VoiceAssessment[]> {
+    return this.assessmentRepository.find({ patientId });
+  }
+
+  // Newest first, one page at a time, for the patient's call history
+  async getAssessmentPage(
+    patientId: string,
+    filter: Omit<AssessmentFilter, 'patientId'> = {},
+    limit = 20,
+    offset = 0
+  ): Promise<AssessmentPage> {
+    return this.assessmentRepository.findPage({ ...filter, patientId }, limit, offset);
+  }
+
+  // Newest first across every patient, for the dashboard
+  async getRecentAssessments(limit = 10): Promise<VoiceAssessment[]> {
+    return this.assessmentRepository.findPage({}, limit, 0).assessments;
+  }
+
+  // HF hospitalizations and ED visits, used to label assessments and measure alert performance
+  async recordOutcome(outcome: ClinicalOutcome): Promise<ClinicalOutcome | null> {
+    if (!this.repository.get(outcome.patientId)) {
+      return null;
+    }
+    this.outcomeRepository.add(outcome);
+    return outcome;
+  }
+
+  async getOutcomes(patientId?: string): Promise<ClinicalOutcome[]> {
+    return this.outcomeRepository.list(patientId);
+  }
+
+  // Every patient's assessments, optionally limited to timestamps within [from, to]
+  async getAllAssessments(range: { from?: string; to?: string } = {}): Promise<VoiceAssessment[]> {
+    return this.assessmentRepository.find(range);
+  }
+
+  // Throws PatientVersionConflictError when expectedVersion is given and no longer current
+  async resetBaseline(patientId: string, expectedVersion?: number): Promise<Patient | null> {
+    const patient = this.repository.get(patientId);
+    if (!patient) {
+      return null;
+    }
+    this.checkVersion(patient, expectedVersion);
+
+    // Start over, e.g. after a medication change or recovery from an exacerbation
+    patient.baseline = this.baselineService.createBaseline();
+    this.savePatient(patient);
     return patient;
   }
 
   async searchPatients(query: string): Promise<Patient[]> {
     const lowercaseQuery = query.toLowerCase();
     
-    return Array.from(this.patients.values()).filter(patient => {
+    return this.repository.list().filter(patient => {
       return (
         patient.demographics.firstName.toLowerCase().includes(lowercaseQuery) ||
         patient.demographics.lastName.toLowerCase().includes(lowercaseQuery) ||
@@ -268,7 +457,7 @@ export class PatientService {
     const now = new Date();
     const sixHoursAgo = new Date(now.getTime() - 6 * 60 * 60 * 1000);
 
-    return Array.from(this.patients.values()).filter(patient => {
+    return this.repository.list().filter(patient => {
       const lastUpdated = new Date(patient.currentRisk.lastUpdated);
       
       return (
@@ -289,7 +478,10 @@ export class PatientService {
       critical: allPatients.filter(p => p.currentRisk.level === 'critical').length
     };
 
-    const avgRiskScore = allPatients.reduce((sum, p) => sum + p.currentRisk.score, 0) / allPatients.length;
+    // A fresh database has no patients, and no average to report
+    const avgRiskScore = allPatients.length === 0
+      ? 0
+      : allPatients.reduce((sum, p) => sum + p.currentRisk.score, 0) / allPatients.length;
 
     return {
       totalPatients: allPatients.length,
@@ -305,30 +497,31 @@ export class PatientService {
     patientId: string, 
     status: 'active' | 'withdrawn' | 'expired'
   ): Promise<Patient | null> {
-    const patient = this.patients.get(patientId);
+    const patient = this.repository.get(patientId);
     if (!patient) {
       return null;
     }
 
     patient.monitoring.consentStatus = status;
-    this.patients.set(patientId, patient);
+    this.savePatient(patient);
     return patient;
   }
 
   async getActivePatients(): Promise<Patient[]> {
-    return Array.from(this.patients.values()).filter(
+    return this.repository.list().filter(
       patient => patient.monitoring.consentStatus === 'active'
     );
   }
 
-  async deactivatePatient(patientId: string, reason: string): Promise<boolean> {
-    const patient = this.patients.get(patientId);
+  async deactivatePatient(patientId: string, reason: string, expectedVersion?: number): Promise<boolean> {
+    const patient = this.repository.get(patientId);
     if (!patient) {
       return false;
     }
+    this.checkVersion(patient, expectedVersion);
 
     patient.monitoring.consentStatus = 'withdrawn';
-    this.patients.set(patientId, patient);
+    this.savePatient(patient);
     
     // In production, would log reason and maintain audit trail
     console.log(`Patient ${patientId} deactivated. Reason: ${reason}`);
@@ -349,7 +542,38 @@ export class PatientService {
       newEnrollments: 4, // Mock data
       withdrawals: 1,    // Mock data
       activePatients: activePatients.length,
-      totalPatients: this.patients.size
+      totalPatients: this.repository.list().length
+    };
+  }
+
+  private updateCurrentRisk(patient: Patient, assessment: VoiceAssessment): void {
+    // Unscored assessments (failed or unusable recordings) leave the current risk unchanged
+    if (!assessment.riskLevel) return;
+
+    // The trend follows answers to the same prompt; the other prompts of a call are different measurements
+    const history = this.assessmentRepository.find({ patientId: patient.id })
+      .filter(item => item.task === assessment.task);
+    const { trend, evidence } = this.trendAnalyzer.analyze(history);
+    patient.currentRisk = {
+      score: assessment.riskScore,
+      level: assessment.riskLevel,
+      lastUpdated: assessment.timestamp,
+      trend,
+      trendEvidence: evidence,
+      interval: assessment.riskInterval
     };
   }
+
+  // Every stored change bumps the version, which the API exposes as the patient's ETag. Reads and
+  // writes are synchronous, so the version check and the save cannot interleave with another request.
+  private savePatient(patient: Patient) {
+    patient.version = (patient.version ?? 0) + 1;
+    this.repository.save(patient);
+  }
+
+  private checkVersion(patient: Patient, expectedVersion?: number) {
+    if (expectedVersion !== undefined && (patient.version ?? 0) !== expectedVersion) {
+      throw new PatientVersionConflictError(patient);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+// HeartVoice Monitor - Biomarker Reference Range Service
+// Sex- and age-adjusted norms shared by the risk engine and the clinical UI
+
+import { BaselineFeature, Patient, RangeClassification, SexAtBirth } from '@/types/clinical';
+
+export interface ValueBounds {
+  min?: number;
+  max?: number;
+}
+
+export interface ReferenceRange {
+  feature: BaselineFeature;
+  sex?: SexAtBirth; // omitted: applies to any sex
+  minAge?: number; // years, inclusive
+  maxAge?: number; // years, exclusive
+  normal: ValueBounds;
+  borderline: ValueBounds; // must contain the normal bounds; values outside are abnormal
+}
+
+export interface ReferenceRangeTable {
+  version: string;
+  description: string;
+  ranges: ReferenceRange[];
+}
+
+export interface ReferenceProfile {
+  sexAtBirth?: SexAtBirth;
+  age?: number; // years
+}
+
+export interface RangeFlag {
+  feature: BaselineFeature;
+  value: number;
+  classification: RangeClassification;
+  range: ReferenceRange;
+}
+
+// Telephone-band (300-3400 Hz) connected speech. F0 follows Baken & Orlikoff; jitter,
+// shimmer, HNR, intensity and slope keep the cutoffs the risk engine has always used,
+// relaxed for the aging voice from 65
+export const DEFAULT_REFERENCE_RANGES: ReferenceRangeTable = {
+  version: '2025.1',
+  description: 'Adult telephone speech, sex- and age-adjusted',
+  ranges: [
+    { feature: 'f0', sex: 'male', maxAge: 65, normal: { min: 85, max: 180 }, borderline: { min: 75, max: 200 } },
+    { feature: 'f0', sex: 'male', minAge: 65, normal: { min: 90, max: 190 }, borderline: { min: 80, max: 210 } },
+    { feature: 'f0', sex: 'female', maxAge: 65, normal: { min: 165, max: 255 }, borderline: { min: 145, max: 275 } },
+    { feature: 'f0', sex: 'female', minAge: 65, normal: { min: 145, max: 240 }, borderline: { min: 130, max: 260 } },
+    { feature: 'f0', normal: { min: 85, max: 255 }, borderline: { min: 75, max: 275 } },
+
+    { feature: 'jitter', maxAge: 65, normal: { max: 1.5 }, borderline: { max: 2.0 } },
+    { feature: 'jitter', minAge: 65, normal: { max: 1.8 }, borderline: { max: 2.4 } },
+    { feature: 'jitter', normal: { max: 1.5 }, borderline: { max: 2.0 } },
+
+    { feature: 'shimmer', maxAge: 65, normal: { max: 4.5 }, borderline: { max: 6.0 } },
+    { feature: 'shimmer', minAge: 65, normal: { max: 5.0 }, borderline: { max: 6.5 } },
+    { feature: 'shimmer', normal: { max: 4.5 }, borderline: { max: 6.0 } },
+
+    { feature: 'hnr', sex: 'female', normal: { min: 16 }, borderline: { min: 11 } },
+    { feature: 'hnr', normal: { min: 15 }, borderline: { min: 10 } },
+
+    { feature: 'voiceIntensity', normal: { min: 55 }, borderline: { min: 50 } },
+
+    { feature: 'spectralSlope', normal: { min: -10 }, borderline: { min: -10 } }
+  ]
+};
+
+export class ReferenceRangeService {
+  private table: ReferenceRangeTable;
+
+  constructor(table: ReferenceRangeTable = DEFAULT_REFERENCE_RANGES) {
+    const errors = validateReferenceRangeTable(table);
+    if (errors.length > 0) {
+      throw new Error(`Invalid reference range table ${table.version}: ${errors.join('; ')}`);
+    }
+    this.table = table;
+  }
+
+  get version(): string {
+    return this.table.version;
+  }
+
+  findRange(feature: BaselineFeature, profile: ReferenceProfile = {}): ReferenceRange | undefined {
+    // First matching row wins, so specific rows are listed before their fallbacks
+    return this.table.ranges.find(range =>
+      range.feature === feature &&
+      (!range.sex || range.sex === profile.sexAtBirth) &&
+      (range.minAge === undefined || (profile.age !== undefined && profile.age >= range.minAge)) &&
+      (range.maxAge === undefined || (profile.age !== undefined && profile.age < range.maxAge))
+    );
+  }
+
+  classify(feature: BaselineFeature, value: number, profile: ReferenceProfile = {}): RangeFlag | undefined {
+    const range = this.findRange(feature, profile);
+    if (!range) return undefined;
+
+    let classification: RangeClassification = 'abnormal';
+    if (withinBounds(value, range.normal)) classification = 'normal';
+    else if (withinBounds(value, range.borderline)) classification = 'borderline';
+
+    return { feature, value, classification, range };
+  }
+}
+
+export function validateReferenceRangeTable(table: ReferenceRangeTable): string[] {
+  const errors: string[] = [];
+  if (!table.version) errors.push('version is required');
+
+  table.ranges.forEach((range, index) => {
+    const label = `range ${index} (${range.feature})`;
+    const { normal, borderline } = range;
+
+    if (normal.min === undefined && normal.max === undefined) {
+      errors.push(`${label}: normal bounds are empty`);
+    }
+    if (normal.min !== undefined && normal.max !== undefined && normal.min > normal.max) {
+      errors.push(`${label}: normal min exceeds max`);
+    }
+    if (
+      (borderline.min !== undefined && (normal.min === undefined || borderline.min > normal.min)) ||
+      (borderline.max !== undefined && (normal.max === undefined || borderline.max < normal.max))
+    ) {
+      errors.push(`${label}: borderline bounds must contain the normal bounds`);
+    }
+    if (range.minAge !== undefined && range.maxAge !== undefined && range.minAge >= range.maxAge) {
+      errors.push(`${label}: minAge must be below maxAge`);
+    }
+  });
+
+  return errors;
+}
+
+export function referenceProfileFor(patient: Patient, at: Date = new Date()): ReferenceProfile {
+  const birth = new Date(patient.demographics.dateOfBirth);
+  let age = at.getFullYear() - birth.getFullYear();
+  if (at.getMonth() < birth.getMonth() || (at.getMonth() === birth.getMonth() && at.getDate() < birth.getDate())) {
+    age--;
+  }
+
+  return {
+    sexAtBirth: patient.demographics.sexAtBirth,
+    age: Number.isFinite(age) ? age : undefined
+  };
+}
+
+// "85-180", ">= 55" or "<= 1.5", for explanations and the clinical UI
+export function describeBounds(bounds: ValueBounds): string {
+  if (bounds.min !== undefined && bounds.max !== undefined) return `${bounds.min}-${bounds.max}`;
+  if (bounds.min !== undefined) return `>= ${bounds.min}`;
+  if (bounds.max !== undefined) return `<= ${bounds.max}`;
+  return 'any';
+}
+
+function withinBounds(value: number, bounds: ValueBounds): boolean {
+  return (bounds.min === undefined || value >= bounds.min) && (bounds.max === undefined || value <= bounds.max);
+}
@@ -0,0 +1,413 @@
+// HeartVoice Monitor - Statistical Risk Model Service
+// Logistic model of 14-day heart failure events, trained offline from labeled assessments and calibrated
+
+import { readFileSync } from 'fs';
+import { ClinicalOutcome, VoiceAssessment } from '@/types/clinical';
+
+export const MODEL_FEATURES = [
+  'jitter', 'shimmer', 'hnr', 'f0', 'spectralSlope', 'voiceIntensity',
+  'jitterZ', 'shimmerZ', 'hnrZ', 'voiceIntensityZ',
+  'inhalationPauseCount', 'meanBreathGroupDuration', 'phonationTimeRatio', 'speechRate',
+  'breathlessness', 'fatigue'
+] as const;
+
+export type ModelFeature = typeof MODEL_FEATURES[number];
+
+export type ModelFeatureValues = Record<ModelFeature, number | undefined>; // undefined when not measured
+
+export type CalibrationMap =
+  | { method: 'platt'; slope: number; intercept: number } // calibrated = sigmoid(slope x logit + intercept)
+  | { method: 'isotonic'; thresholds: number[]; values: number[] }; // step function of the raw probability
+
+export interface CalibrationBin {
+  binStart: number;
+  binEnd: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface ModelMetrics {
+  examples: number;
+  events: number;
+  auroc: number | null; // null when the split has only one class
+  brier: number;
+  calibrationTable: CalibrationBin[];
+}
+
+export interface RiskModel {
+  version: string;
+  outcome: string; // what the probability is of
+  horizonDays: number;
+  features: { name: ModelFeature; mean: number; standardDeviation: number }[]; // missing values are imputed with the mean
+  intercept: number;
+  coefficients: number[]; // per standardized feature, in `features` order
+  calibration: CalibrationMap;
+  metrics: ModelMetrics; // on the held-out test patients
+}
+
+export interface TrainingOptions {
+  calibration: CalibrationMap['method'];
+  l2: number; // ridge penalty on the standardized coefficients
+  horizonDays: number; // an outcome within this many days after an assessment labels it positive
+  maxIterations: number;
+  splitSalt: string; // changes which patients land in which split
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  calibration: 'platt',
+  l2: 1,
+  horizonDays: 14,
+  maxIterations: 100,
+  splitSalt: ''
+};
+
+export interface LabeledExample {
+  assessmentId: string;
+  patientId: string;
+  features: ModelFeatureValues;
+  outcome: 0 | 1;
+}
+
+export interface TrainingReport {
+  split: { train: number; calibration: number; test: number }; // examples per split
+  metrics: ModelMetrics;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function extractModelFeatures(assessment: VoiceAssessment): ModelFeatureValues {
+  const biomarkers = assessment.biomarkers;
+  const breathing = assessment.breathingMetrics;
+  const indicators = assessment.clinicalAnalysis?.riskIndicators;
+  const z = (feature: string) => assessment.baselineDeviations?.find(deviation => deviation.feature === feature)?.zScore;
+
+  return {
+    jitter: biomarkers?.jitter,
+    shimmer: biomarkers?.shimmer,
+    hnr: biomarkers?.hnr,
+    f0: biomarkers?.f0,
+    spectralSlope: biomarkers?.spectralSlope,
+    voiceIntensity: biomarkers?.voiceIntensity,
+    jitterZ: z('jitter'),
+    shimmerZ: z('shimmer'),
+    hnrZ: z('hnr'),
+    voiceIntensityZ: z('voiceIntensity'),
+    inhalationPauseCount: breathing?.inhalationPauseCount,
+    meanBreathGroupDuration: breathing?.meanBreathGroupDuration,
+    phonationTimeRatio: breathing?.phonationTimeRatio,
+    speechRate: breathing?.speechRate,
+    breathlessness: indicators?.breathlessness,
+    fatigue: indicators?.fatigue
+  };
+}
+
+// Whether the patient had an HF hospitalization or ED visit within the horizon after the assessment
+export function hadOutcomeWithin(assessment: VoiceAssessment, outcomes: ClinicalOutcome[], horizonDays: number): boolean {
+  const start = new Date(assessment.timestamp).getTime();
+  return outcomes.some(outcome => {
+    const time = new Date(outcome.date).getTime();
+    return outcome.patientId === assessment.patientId && time > start && time <= start + horizonDays * DAY_MS;
+  });
+}
+
+// Scored assessments labeled 1 when an outcome followed within the horizon
+export function labelAssessments(
+  assessments: VoiceAssessment[],
+  outcomes: ClinicalOutcome[],
+  horizonDays: number = DEFAULT_TRAINING_OPTIONS.horizonDays
+): LabeledExample[] {
+  return assessments
+    .filter(assessment => assessment.biomarkers && assessment.callStatus === 'completed' && assessment.qualityMetrics.usable !== false)
+    .map(assessment => ({
+      assessmentId: assessment.id,
+      patientId: assessment.patientId,
+      features: extractModelFeatures(assessment),
+      outcome: hadOutcomeWithin(assessment, outcomes, horizonDays) ? 1 : 0
+    }));
+}
+
+export class RiskModelTrainer {
+  private options: TrainingOptions;
+
+  constructor(options: Partial<TrainingOptions> = {}) {
+    this.options = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+  }
+
+  // Patients are split 60/20/20 into training, calibration and test sets by a hash of
+  // their id, so a fixed dataset always produces the same model
+  train(examples: LabeledExample[], version: string): { model: RiskModel; report: TrainingReport } {
+    const split = { train: [] as LabeledExample[], calibration: [] as LabeledExample[], test: [] as LabeledExample[] };
+    for (const example of examples) {
+      const bucket = fnv1a(`${this.options.splitSalt}${example.patientId}`) % 100;
+      (bucket < 60 ? split.train : bucket < 80 ? split.calibration : split.test).push(example);
+    }
+    for (const [name, set] of Object.entries(split)) {
+      if (!set.some(example => example.outcome === 1) || !set.some(example => example.outcome === 0)) {
+        throw new Error(`The ${name} split needs both events and non-events; more labeled patients are required`);
+      }
+    }
+
+    const features = MODEL_FEATURES.map(name => {
+      const values = split.train.map(example => example.features[name]).filter((value): value is number => value !== undefined);
+      const mean = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+      const variance = values.length > 0 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length : 0;
+      return { name, mean: round(mean), standardDeviation: round(Math.sqrt(variance) || 1) };
+    });
+    const design = (set: LabeledExample[]) => set.map(example => [1, ...standardize(features, example.features)]);
+
+    const beta = fitLogistic(
+      design(split.train),
+      split.train.map(example => example.outcome),
+      this.options.l2,
+      this.options.maxIterations
+    );
+    const uncalibrated: RiskModel = {
+      version,
+      outcome: `HF hospitalization or ED visit within ${this.options.horizonDays} days`,
+      horizonDays: this.options.horizonDays,
+      features,
+      intercept: round(beta[0]),
+      coefficients: beta.slice(1).map(round),
+      calibration: { method: 'platt', slope: 1, intercept: 0 },
+      metrics: { examples: 0, events: 0, auroc: null, brier: 0, calibrationTable: [] }
+    };
+
+    const calibrationLogits = split.calibration.map(example => linearPredictor(uncalibrated, example.features));
+    const calibrationOutcomes = split.calibration.map(example => example.outcome);
+    const calibration = this.options.calibration === 'isotonic'
+      ? fitIsotonic(calibrationLogits.map(sigmoid), calibrationOutcomes)
+      : fitPlatt(calibrationLogits, calibrationOutcomes, this.options.maxIterations);
+
+    const model: RiskModel = { ...uncalibrated, calibration };
+    model.metrics = evaluateRiskModel(model, split.test);
+
+    return {
+      model,
+      report: {
+        split: { train: split.train.length, calibration: split.calibration.length, test: split.test.length },
+        metrics: model.metrics
+      }
+    };
+  }
+}
+
+// Calibrated probability of the model outcome
+export function predictRiskProbability(model: RiskModel, values: ModelFeatureValues): number {
+  const logit = linearPredictor(model, values);
+  const calibration = model.calibration;
+
+  if (calibration.method === 'platt') {
+    return sigmoid(calibration.slope * logit + calibration.intercept);
+  }
+  const raw = sigmoid(logit);
+  const index = calibration.thresholds.findIndex(threshold => raw <= threshold);
+  return calibration.values[index === -1 ? calibration.values.length - 1 : index];
+}
+
+export function evaluateRiskModel(model: RiskModel, examples: LabeledExample[]): ModelMetrics {
+  const predictions = examples.map(example => predictRiskProbability(model, example.features));
+  const outcomes = examples.map(example => example.outcome);
+  return calculateModelMetrics(predictions, outcomes);
+}
+
+export function calculateModelMetrics(predictions: number[], outcomes: (0 | 1)[]): ModelMetrics {
+  const n = predictions.length;
+  const brier = n > 0 ? predictions.reduce((sum, p, i) => sum + (p - outcomes[i]) ** 2, 0) / n : 0;
+
+  const calibrationTable: CalibrationBin[] = [];
+  for (let bin = 0; bin < 10; bin++) {
+    const indices = predictions
+      .map((p, i) => ({ p, i }))
+      .filter(({ p }) => Math.min(Math.floor(p * 10), 9) === bin)
+      .map(({ i }) => i);
+    if (indices.length === 0) continue;
+    calibrationTable.push({
+      binStart: bin / 10,
+      binEnd: (bin + 1) / 10,
+      count: indices.length,
+      meanPredicted: round(indices.reduce((sum, i) => sum + predictions[i], 0) / indices.length),
+      observedRate: round(indices.reduce((sum, i) => sum + outcomes[i], 0) / indices.length)
+    });
+  }
+
+  return {
+    examples: n,
+    events: outcomes.filter(outcome => outcome === 1).length,
+    auroc: auroc(predictions, outcomes),
+    brier: round(brier),
+    calibrationTable
+  };
+}
+
+export function formatMetricsReport(model: RiskModel, report: TrainingReport): string {
+  const { metrics, split } = report;
+  const lines = [
+    `Risk model ${model.version} - ${model.outcome}`,
+    `Examples: ${split.train} train / ${split.calibration} calibration / ${split.test} test (${model.calibration.method} calibration)`,
+    `Test events: ${metrics.events} of ${metrics.examples}`,
+    `AUROC: ${metrics.auroc === null ? 'n/a' : metrics.auroc.toFixed(3)}`,
+    `Brier score: ${metrics.brier.toFixed(4)}`,
+    '',
+    'Calibration     n   predicted  observed'
+  ];
+  for (const bin of metrics.calibrationTable) {
+    lines.push(
+      `${bin.binStart.toFixed(1)}-${bin.binEnd.toFixed(1)}  ${String(bin.count).padStart(6)}  ${bin.meanPredicted.toFixed(3).padStart(9)}  ${bin.observedRate.toFixed(3).padStart(8)}`
+    );
+  }
+  return lines.join('\n');
+}
+
+export function loadRiskModel(path: string): RiskModel {
+  const model = JSON.parse(readFileSync(path, 'utf8')) as RiskModel;
+  if (!model.version || !Array.isArray(model.features) || model.coefficients?.length !== model.features.length) {
+    throw new Error(`Risk model ${path} is malformed`);
+  }
+  return model;
+}
+
+// The model configured with RISK_MODEL_PATH; a missing or malformed file leaves the rule-based score on its own
+export function loadConfiguredRiskModel(path: string | undefined = process.env.RISK_MODEL_PATH): RiskModel | undefined {
+  if (!path) return undefined;
+  try {
+    return loadRiskModel(path);
+  } catch (error) {
+    console.error(`Risk model ${path} could not be loaded:`, error);
+    return undefined;
+  }
+}
+
+function linearPredictor(model: Pick<RiskModel, 'features' | 'intercept' | 'coefficients'>, values: ModelFeatureValues): number {
+  return standardize(model.features, values).reduce((sum, x, i) => sum + x * model.coefficients[i], model.intercept);
+}
+
+function standardize(features: RiskModel['features'], values: ModelFeatureValues): number[] {
+  return features.map(({ name, mean, standardDeviation }) => {
+    const value = values[name];
+    return value === undefined || !Number.isFinite(value) ? 0 : (value - mean) / standardDeviation;
+  });
+}
+
+// Newton-Raphson (IRLS) for L2-penalized logistic regression; the intercept (column 0) is not penalized.
+// Targets may be soft labels in [0, 1].
+function fitLogistic(x: number[][], targets: number[], l2: number, maxIterations: number): number[] {
+  const p = x[0].length;
+  let beta = new Array(p).fill(0);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const gradient = beta.map((b, j) => (j === 0 ? 0 : -l2 * b));
+    const hessian = Array.from({ length: p }, (_, j) => Array.from({ length: p }, (_, k) => (j === k && j > 0 ? l2 : 0)));
+
+    x.forEach((row, i) => {
+      const probability = sigmoid(row.reduce((sum, value, j) => sum + value * beta[j], 0));
+      const weight = Math.max(probability * (1 - probability), 1e-10);
+      for (let j = 0; j < p; j++) {
+        gradient[j] += (targets[i] - probability) * row[j];
+        for (let k = 0; k < p; k++) hessian[j][k] += weight * row[j] * row[k];
+      }
+    });
+
+    const step = solve(hessian, gradient);
+    beta = beta.map((b, j) => b + step[j]);
+    if (Math.max(...step.map(Math.abs)) < 1e-9) break;
+  }
+
+  return beta;
+}
+
+// Platt scaling with Platt's smoothed targets, so a small calibration set cannot give 0 or 1
+function fitPlatt(logits: number[], outcomes: (0 | 1)[], maxIterations: number): CalibrationMap {
+  const positives = outcomes.filter(outcome => outcome === 1).length;
+  const negatives = outcomes.length - positives;
+  const targets = outcomes.map(outcome => (outcome === 1 ? (positives + 1) / (positives + 2) : 1 / (negatives + 2)));
+  const [intercept, slope] = fitLogistic(logits.map(logit => [1, logit]), targets, 0, maxIterations);
+  return { method: 'platt', slope: round(slope), intercept: round(intercept) };
+}
+
+// Pool-adjacent-violators on the raw probabilities
+function fitIsotonic(probabilities: number[], outcomes: (0 | 1)[]): CalibrationMap {
+  const order = probabilities.map((p, i) => i).sort((a, b) => probabilities[a] - probabilities[b] || a - b);
+  const blocks: { sum: number; count: number; max: number }[] = [];
+
+  for (const i of order) {
+    blocks.push({ sum: outcomes[i], count: 1, max: probabilities[i] });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.count <= last.sum / last.count) break;
+      blocks.splice(blocks.length - 2, 2, { sum: previous.sum + last.sum, count: previous.count + last.count, max: last.max });
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    thresholds: blocks.map(block => round(block.max)),
+    values: blocks.map(block => round(block.sum / block.count))
+  };
+}
+
+// Mann-Whitney estimate with average ranks for ties
+function auroc(predictions: number[], outcomes: (0 | 1)[]): number | null {
+  const positives = outcomes.filter(outcome => outcome === 1).length;
+  const negatives = outcomes.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const order = predictions.map((p, i) => i).sort((a, b) => predictions[a] - predictions[b]);
+  const ranks = new Array(predictions.length).fill(0);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && predictions[order[end + 1]] === predictions[order[start]]) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k]] = rank;
+    start = end + 1;
+  }
+
+  const positiveRanks = ranks.reduce((sum, rank, i) => sum + (outcomes[i] === 1 ? rank : 0), 0);
+  return round((positiveRanks - (positives * (positives + 1)) / 2) / (positives * negatives));
+}
+
+// Gaussian elimination with partial pivoting
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) pivot = row;
+    }
+    [a[column], a[pivot]] = [a[pivot], a[column]];
+    if (Math.abs(a[column][column]) < 1e-12) a[column][column] = 1e-12;
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = a[row][column] / a[column][column];
+      for (let k = column; k <= n; k++) a[row][k] -= factor * a[column][k];
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
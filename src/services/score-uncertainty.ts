@@ -0,0 +1,48 @@
+// HeartVoice Monitor - Risk Score Uncertainty Service
+// How reliably each voice feature was measured, from segment spread and recording quality
+
+import { AudioQualityMeasurements, BaselineFeature, SegmentBiomarkers, VoiceBiomarkers } from '@/types/clinical';
+import { BASELINE_FEATURES } from './baseline-service';
+import { RiskScoringPolicy } from './scoring-policy';
+
+export type FeatureStandardErrors = Record<BaselineFeature, number>;
+
+export interface MeasurementContext {
+  segments: SegmentBiomarkers[]; // per-segment biomarkers the combined values were built from
+  quality?: AudioQualityMeasurements;
+}
+
+// Standard error of each combined feature value:
+//   spread across segments / sqrt(segments), or a fixed fraction of the value with fewer than two segments,
+//   x referenceSnr / SNR when the recording is noisier than the reference,
+//   x sqrt(referenceVoicedDuration / voiced duration) when there is less voicing than the reference.
+export function estimateFeatureStandardErrors(
+  biomarkers: VoiceBiomarkers,
+  measurement: MeasurementContext | undefined,
+  settings: RiskScoringPolicy['uncertainty']
+): FeatureStandardErrors {
+  const segments = measurement?.segments ?? [];
+  const quality = measurement?.quality;
+
+  let inflation = 1;
+  if (quality) {
+    inflation *= Math.max(1, settings.referenceSnrDb / Math.max(quality.snrDb, 1));
+    inflation *= Math.sqrt(Math.max(1, settings.referenceVoicedDuration / Math.max(quality.voicedDuration, 0.1)));
+  }
+
+  const errors = {} as FeatureStandardErrors;
+  for (const feature of BASELINE_FEATURES) {
+    const values = segments.map(segment => segment.biomarkers[feature]);
+    const sampling = values.length >= 2
+      ? standardDeviation(values) / Math.sqrt(values.length)
+      : Math.abs(biomarkers[feature]) * settings.fallbackRelativeError;
+    errors[feature] = sampling * inflation;
+  }
+
+  return errors;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+}
@@ -0,0 +1,37 @@
+// HeartVoice Monitor - Scoring Model Repository
+// Storage interface for scoring policies, outcome models and their lifecycle status, with an
+// in-memory implementation for tests and development
+
+import { RiskScoringPolicy } from './scoring-policy';
+import { RiskModel } from './risk-model';
+import { ScoringModelKind, ScoringModelStatus } from './model-registry';
+
+// A policy registered through the API carries its definition; a configured policy (built in or
+// loaded from SCORING_POLICY_DIR) is only stored once its status changes, without one
+export type ScoringModelRecord =
+  | { kind: 'policy'; version: string; status: ScoringModelStatus; policy?: RiskScoringPolicy }
+  | { kind: 'model'; version: string; status: ScoringModelStatus; model: RiskModel };
+
+// Synchronous and copy-returning, like PatientRepository
+export interface ScoringModelRepository {
+  get(kind: ScoringModelKind, version: string): ScoringModelRecord | null;
+  list(): ScoringModelRecord[]; // in order of registration
+  save(record: ScoringModelRecord): void; // inserts or replaces by kind and version
+}
+
+export class InMemoryScoringModelRepository implements ScoringModelRepository {
+  private records: Map<string, ScoringModelRecord> = new Map();
+
+  get(kind: ScoringModelKind, version: string): ScoringModelRecord | null {
+    const record = this.records.get(`${kind}:${version}`);
+    return record ? structuredClone(record) : null;
+  }
+
+  list(): ScoringModelRecord[] {
+    return Array.from(this.records.values()).map(record => structuredClone(record));
+  }
+
+  save(record: ScoringModelRecord): void {
+    this.records.set(`${record.kind}:${record.version}`, structuredClone(record));
+  }
+}
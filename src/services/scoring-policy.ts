@@ -0,0 +1,453 @@
+// HeartVoice Monitor - Risk Scoring Policy Service
+// Versioned, declarative scoring policies so cutoffs and weights can be tuned without a deploy
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { BaselineFeature, BreathingMetrics, Comorbidity } from '@/types/clinical';
+import { COMORBIDITIES } from './comorbidities';
+
+export type BreathingFeature = Exclude<keyof BreathingMetrics, 'task'>;
+
+export type ScoredFeature = BaselineFeature | BreathingFeature;
+
+export interface VoiceFeaturePolicy {
+  label: string; // used in baseline deviation factors, e.g. "Voice jitter 2.4 SD above personal baseline"
+  direction: 1 | -1 | 0; // adverse direction of change from baseline; 0 is not scored against the baseline
+  points: { borderline: number; abnormal: number }; // reference range classification, or moderate / marked baseline deviation
+  factors: { borderline: string; abnormal: string }; // factor text for out-of-range values
+}
+
+export interface PolicyBand {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  points: number;
+  factor: string;
+}
+
+export interface BreathingRule {
+  feature: BreathingFeature;
+  bands: PolicyBand[]; // first matching band scores; none matching scores 0
+  requires?: ({ feature: BreathingFeature } & Omit<PolicyBand, 'points' | 'factor'>)[]; // all must hold
+}
+
+export interface ComorbidityModifier {
+  label: string;
+  featureWeights: Partial<Record<ScoredFeature, number>>; // multiplies the points of findings the condition explains
+  priorPoints: number; // added to the acoustic score as prior risk
+  reason: string; // explanation text for the prior points
+}
+
+export interface RiskScoringPolicy {
+  version: string;
+  description: string;
+  voice: Record<BaselineFeature, VoiceFeaturePolicy>;
+  baselineDeviation: { moderateZ: number; markedZ: number }; // adverse z-scores that score borderline / abnormal points
+  breathing: BreathingRule[];
+  composite: {
+    transcriptMaxWeight: number; // share of the composite given to a fully confident transcript analysis
+    indicatorWeights: { breathlessness: number; fatigue: number; confusion: number; anxiety: number }; // sum to 1
+    factorThreshold: number; // transcript indicator level (0-100) listed as a risk factor
+  };
+  levels: { medium: number; high: number; critical: number }; // lowest score of each level
+  clinicalContext: {
+    comorbidities: Record<Comorbidity, ComorbidityModifier>; // weights of several conditions multiply
+    advancedHeartFailure: {
+      minNyhaClass: number; // NYHA class at or above which, with a low EF, heart failure counts as advanced
+      maxEjectionFraction: number; // %; an unknown EF is not treated as low
+      findingWeight: number; // multiplies the points of every voice and breathing finding
+      priorPoints: number;
+    };
+  };
+  uncertainty: {
+    confidenceLevel: number; // coverage of the score band: 0.8, 0.9, 0.95 or 0.99
+    fallbackRelativeError: number; // feature standard error as a fraction of its value when there are too few segments
+    referenceSnrDb: number; // below this SNR feature errors are inflated in proportion
+    referenceVoicedDuration: number; // seconds; below this feature errors grow with 1 / sqrt(duration)
+  };
+  alerts: {
+    significantIncrease: number; // score rise since the previous assessment that alerts on its own
+    suppressWhenUncertain: boolean; // decide on the lower bound of the score band instead of the score
+    hysteresis: number; // points below a level's threshold the score must fall before the level is left
+  };
+}
+
+// Two-sided normal quantiles for the supported confidence levels
+export const CONFIDENCE_Z: Record<string, number> = { '0.8': 1.282, '0.9': 1.645, '0.95': 1.96, '0.99': 2.576 };
+
+export const BREATHING_FEATURES: BreathingFeature[] = [
+  'responseDuration', 'syllableCount', 'speechRate', 'articulationRate', 'wordRate',
+  'inhalationPauseCount', 'meanInhalationPauseDuration', 'maxInhalationPauseDuration',
+  'breathGroupCount', 'meanBreathGroupDuration', 'meanSyllablesPerBreathGroup', 'phonationTimeRatio'
+];
+
+type TranscriptIndicator = keyof RiskScoringPolicy['composite']['indicatorWeights'];
+const TRANSCRIPT_INDICATORS: TranscriptIndicator[] = ['breathlessness', 'fatigue', 'confusion', 'anxiety'];
+
+// The cutoffs the engine shipped with, expressed as a policy
+export const DEFAULT_SCORING_POLICY: RiskScoringPolicy = {
+  version: '1.0.0',
+  description: 'Initial clinical thresholds',
+  voice: {
+    jitter: {
+      label: 'Voice jitter',
+      direction: 1,
+      points: { borderline: 15, abnormal: 25 },
+      factors: { borderline: 'Moderate voice jitter elevation', abnormal: 'Elevated voice jitter indicating vocal cord stress' }
+    },
+    shimmer: {
+      label: 'Voice shimmer',
+      direction: 1,
+      points: { borderline: 15, abnormal: 25 },
+      factors: { borderline: 'Moderate shimmer elevation', abnormal: 'High voice shimmer suggesting respiratory compromise' }
+    },
+    hnr: {
+      label: 'Harmonics-to-noise ratio',
+      direction: -1,
+      points: { borderline: 20, abnormal: 30 },
+      factors: { borderline: 'Reduced voice clarity', abnormal: 'Low harmonics-to-noise ratio indicating voice quality degradation' }
+    },
+    voiceIntensity: {
+      label: 'Voice intensity',
+      direction: -1,
+      points: { borderline: 10, abnormal: 20 },
+      factors: { borderline: 'Slightly reduced voice intensity', abnormal: 'Weak voice intensity suggesting fatigue' }
+    },
+    spectralSlope: {
+      label: 'Spectral slope',
+      direction: -1,
+      points: { borderline: 15, abnormal: 15 },
+      factors: { borderline: 'Altered spectral characteristics', abnormal: 'Altered spectral characteristics' }
+    },
+    f0: {
+      label: 'Fundamental frequency',
+      direction: 0,
+      points: { borderline: 0, abnormal: 10 },
+      factors: { borderline: '', abnormal: 'Fundamental frequency outside the expected range for sex and age' }
+    }
+  },
+  baselineDeviation: { moderateZ: 2, markedZ: 3 },
+  breathing: [
+    {
+      feature: 'inhalationPauseCount',
+      bands: [
+        { gte: 4, points: 20, factor: 'Frequent breaths needed while counting to ten' },
+        { gte: 2, points: 10, factor: 'Extra breaths needed while counting to ten' }
+      ]
+    },
+    {
+      feature: 'meanBreathGroupDuration',
+      bands: [{ lt: 2.0, points: 15, factor: 'Short breath groups suggesting dyspnea' }],
+      requires: [{ feature: 'breathGroupCount', gt: 1 }]
+    },
+    {
+      feature: 'phonationTimeRatio',
+      bands: [{ lt: 0.5, points: 10, factor: 'Low phonation time ratio' }]
+    },
+    {
+      feature: 'speechRate',
+      bands: [{ gt: 0, lt: 2.0, points: 10, factor: 'Slowed speech rate' }]
+    }
+  ],
+  composite: {
+    transcriptMaxWeight: 0.4,
+    indicatorWeights: { breathlessness: 0.4, fatigue: 0.25, confusion: 0.2, anxiety: 0.15 },
+    factorThreshold: 60
+  },
+  levels: { medium: 35, high: 60, critical: 80 },
+  clinicalContext: {
+    comorbidities: {
+      copd: {
+        label: 'COPD',
+        featureWeights: { shimmer: 0.5, hnr: 0.75, inhalationPauseCount: 0.5, meanBreathGroupDuration: 0.5, phonationTimeRatio: 0.75 },
+        priorPoints: 3,
+        reason: 'COPD raises the risk of heart failure decompensation'
+      },
+      asthma: {
+        label: 'Asthma',
+        featureWeights: { shimmer: 0.75, inhalationPauseCount: 0.75, meanBreathGroupDuration: 0.75 },
+        priorPoints: 0,
+        reason: ''
+      },
+      ckd: {
+        label: 'CKD',
+        featureWeights: {},
+        priorPoints: 5,
+        reason: 'Chronic kidney disease raises the risk of fluid overload'
+      },
+      'vocal-cord-pathology': {
+        label: 'vocal cord pathology',
+        featureWeights: { jitter: 0.5, shimmer: 0.5, hnr: 0.5 },
+        priorPoints: 0,
+        reason: ''
+      },
+      'prior-stroke': {
+        label: 'prior stroke',
+        featureWeights: { speechRate: 0.5, f0: 0.5, voiceIntensity: 0.75 },
+        priorPoints: 0,
+        reason: ''
+      }
+    },
+    advancedHeartFailure: { minNyhaClass: 3, maxEjectionFraction: 40, findingWeight: 1.25, priorPoints: 5 }
+  },
+  uncertainty: {
+    confidenceLevel: 0.95,
+    fallbackRelativeError: 0.05,
+    referenceSnrDb: 30,
+    referenceVoicedDuration: 10
+  },
+  alerts: { significantIncrease: 20, suppressWhenUncertain: true, hysteresis: 5 }
+};
+
+export class ScoringPolicyError extends Error {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(`${message}: ${errors.join('; ')}`);
+    this.name = 'ScoringPolicyError';
+    this.errors = errors;
+  }
+}
+
+export function validateScoringPolicy(policy: RiskScoringPolicy): string[] {
+  const errors: string[] = [];
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  const isObject = <T>(value: T): value is NonNullable<T> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(policy)) return ['policy must be an object'];
+  if (typeof policy.version !== 'string' || !policy.version.trim()) errors.push('version is required');
+
+  const voiceFeatures: BaselineFeature[] = ['jitter', 'shimmer', 'hnr', 'f0', 'spectralSlope', 'voiceIntensity'];
+  for (const feature of voiceFeatures) {
+    const rule = policy.voice?.[feature];
+    if (!rule) {
+      errors.push(`voice.${feature} is missing`);
+      continue;
+    }
+    if (![1, -1, 0].includes(rule.direction)) errors.push(`voice.${feature}.direction must be 1, -1 or 0`);
+    if (!isNumber(rule.points?.borderline) || !isNumber(rule.points?.abnormal) || rule.points.borderline < 0) {
+      errors.push(`voice.${feature}.points must be non-negative numbers`);
+    } else if (rule.points.abnormal < rule.points.borderline) {
+      errors.push(`voice.${feature}: abnormal points must not be below borderline points`);
+    }
+    if (rule.points?.borderline > 0 && !rule.factors?.borderline) errors.push(`voice.${feature}.factors.borderline is required`);
+    if (rule.points?.abnormal > 0 && !rule.factors?.abnormal) errors.push(`voice.${feature}.factors.abnormal is required`);
+  }
+
+  const { moderateZ, markedZ } = policy.baselineDeviation ?? ({} as RiskScoringPolicy['baselineDeviation']);
+  if (!isNumber(moderateZ) || !isNumber(markedZ) || moderateZ <= 0 || markedZ <= moderateZ) {
+    errors.push('baselineDeviation requires 0 < moderateZ < markedZ');
+  }
+
+  if (!Array.isArray(policy.breathing)) errors.push('breathing must be a list of rules');
+  (Array.isArray(policy.breathing) ? policy.breathing : []).forEach((rule, index) => {
+    const label = `breathing[${index}]`;
+    // Policies arrive as JSON: a rule, band or condition may be anything, so check its shape before its fields
+    if (!isObject(rule)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (!BREATHING_FEATURES.includes(rule.feature)) errors.push(`${label}.feature ${rule.feature} is not a breathing metric`);
+    if (!Array.isArray(rule.bands) || rule.bands.length === 0) errors.push(`${label} needs at least one band`);
+    (Array.isArray(rule.bands) ? rule.bands : []).forEach((band, bandIndex) => {
+      if (!isObject(band)) {
+        errors.push(`${label}.bands[${bandIndex}] must be an object`);
+        return;
+      }
+      if (![band.gt, band.gte, band.lt, band.lte].some(isNumber)) errors.push(`${label}.bands[${bandIndex}] has no bounds`);
+      if (!isNumber(band.points) || band.points < 0) errors.push(`${label}.bands[${bandIndex}].points must be non-negative`);
+      if (band.points > 0 && !band.factor) errors.push(`${label}.bands[${bandIndex}].factor is required`);
+    });
+    if (rule.requires !== undefined && !Array.isArray(rule.requires)) errors.push(`${label}.requires must be a list of conditions`);
+    (Array.isArray(rule.requires) ? rule.requires : []).forEach((condition, conditionIndex) => {
+      if (!isObject(condition)) {
+        errors.push(`${label}.requires[${conditionIndex}] must be an object`);
+      } else if (!BREATHING_FEATURES.includes(condition.feature)) {
+        errors.push(`${label}.requires feature ${condition.feature} is not a breathing metric`);
+      }
+    });
+  });
+
+  const composite = policy.composite;
+  if (!composite || !isNumber(composite.transcriptMaxWeight) || composite.transcriptMaxWeight < 0 || composite.transcriptMaxWeight > 1) {
+    errors.push('composite.transcriptMaxWeight must be between 0 and 1');
+  }
+  // Exactly the four indicators: a misspelt one would leave its weight undefined and every composite score NaN
+  const indicatorWeights = isObject(composite?.indicatorWeights) ? composite.indicatorWeights : undefined;
+  const weights = TRANSCRIPT_INDICATORS.map(indicator => indicatorWeights?.[indicator]);
+  if (!indicatorWeights || Object.keys(indicatorWeights).length !== TRANSCRIPT_INDICATORS.length ||
+      !weights.every(weight => isNumber(weight) && weight >= 0) ||
+      Math.abs((weights as number[]).reduce((sum, weight) => sum + weight, 0) - 1) > 0.001) {
+    errors.push(`composite.indicatorWeights must give ${TRANSCRIPT_INDICATORS.join(', ')} non-negative weights summing to 1`);
+  }
+  if (!isNumber(composite?.factorThreshold) || composite.factorThreshold < 0 || composite.factorThreshold > 100) {
+    errors.push('composite.factorThreshold must be between 0 and 100');
+  }
+
+  const levels = policy.levels;
+  if (!levels || !isNumber(levels.medium) || !isNumber(levels.high) || !isNumber(levels.critical) ||
+      !(levels.medium > 0 && levels.medium < levels.high && levels.high < levels.critical && levels.critical <= 100)) {
+    errors.push('levels require 0 < medium < high < critical <= 100');
+  }
+  for (const comorbidity of COMORBIDITIES) {
+    const modifier = policy.clinicalContext?.comorbidities?.[comorbidity];
+    if (!modifier) {
+      errors.push(`clinicalContext.comorbidities.${comorbidity} is missing`);
+      continue;
+    }
+    for (const [feature, weight] of Object.entries(modifier.featureWeights ?? {})) {
+      if (!voiceFeatures.includes(feature as BaselineFeature) && !BREATHING_FEATURES.includes(feature as BreathingFeature)) {
+        errors.push(`clinicalContext.comorbidities.${comorbidity}: ${feature} is not a scored feature`);
+      } else if (!isNumber(weight) || weight < 0) {
+        errors.push(`clinicalContext.comorbidities.${comorbidity}.featureWeights.${feature} must not be negative`);
+      }
+    }
+    if (!isNumber(modifier.priorPoints) || modifier.priorPoints < 0) {
+      errors.push(`clinicalContext.comorbidities.${comorbidity}.priorPoints must not be negative`);
+    } else if (modifier.priorPoints > 0 && !modifier.reason) {
+      errors.push(`clinicalContext.comorbidities.${comorbidity}.reason is required`);
+    }
+  }
+  const advanced = policy.clinicalContext?.advancedHeartFailure;
+  if (!advanced || !isNumber(advanced.minNyhaClass) || advanced.minNyhaClass < 1 || advanced.minNyhaClass > 4 ||
+      !isNumber(advanced.maxEjectionFraction) || advanced.maxEjectionFraction <= 0 || advanced.maxEjectionFraction > 100) {
+    errors.push('clinicalContext.advancedHeartFailure requires minNyhaClass 1-4 and maxEjectionFraction 1-100');
+  }
+  if (!isNumber(advanced?.findingWeight) || advanced.findingWeight <= 0 || !isNumber(advanced?.priorPoints) || advanced.priorPoints < 0) {
+    errors.push('clinicalContext.advancedHeartFailure requires a positive findingWeight and non-negative priorPoints');
+  }
+
+  const uncertainty = policy.uncertainty;
+  if (!uncertainty || !(String(uncertainty.confidenceLevel) in CONFIDENCE_Z)) {
+    errors.push(`uncertainty.confidenceLevel must be one of ${Object.keys(CONFIDENCE_Z).join(', ')}`);
+  }
+  if (!isNumber(uncertainty?.fallbackRelativeError) || uncertainty.fallbackRelativeError < 0 || uncertainty.fallbackRelativeError > 1) {
+    errors.push('uncertainty.fallbackRelativeError must be between 0 and 1');
+  }
+  if (!isNumber(uncertainty?.referenceSnrDb) || uncertainty.referenceSnrDb <= 0 ||
+      !isNumber(uncertainty?.referenceVoicedDuration) || uncertainty.referenceVoicedDuration <= 0) {
+    errors.push('uncertainty.referenceSnrDb and referenceVoicedDuration must be positive');
+  }
+  if (!isNumber(policy.alerts?.significantIncrease) || policy.alerts.significantIncrease <= 0) {
+    errors.push('alerts.significantIncrease must be positive');
+  }
+  if (typeof policy.alerts?.suppressWhenUncertain !== 'boolean') {
+    errors.push('alerts.suppressWhenUncertain must be true or false');
+  }
+  if (!isNumber(policy.alerts?.hysteresis) || policy.alerts.hysteresis < 0) {
+    errors.push('alerts.hysteresis must not be negative');
+  }
+
+  return errors;
+}
+
+export function matchesBand(value: number, band: Omit<PolicyBand, 'points' | 'factor'>): boolean {
+  return (
+    (band.gt === undefined || value > band.gt) &&
+    (band.gte === undefined || value >= band.gte) &&
+    (band.lt === undefined || value < band.lt) &&
+    (band.lte === undefined || value <= band.lte)
+  );
+}
+
+// "> 0 and < 2" style text for explanations
+export function describeBand(band: Omit<PolicyBand, 'points' | 'factor'>): string {
+  const bounds: string[] = [];
+  if (band.gt !== undefined) bounds.push(`> ${band.gt}`);
+  if (band.gte !== undefined) bounds.push(`>= ${band.gte}`);
+  if (band.lt !== undefined) bounds.push(`< ${band.lt}`);
+  if (band.lte !== undefined) bounds.push(`<= ${band.lte}`);
+  return bounds.join(' and ');
+}
+
+export class ScoringPolicyRegistry {
+  private policies: Map<string, RiskScoringPolicy> = new Map();
+  private activeVersion: string;
+
+  // Policies are loaded from *.json files in the directory, if given; the active
+  // version defaults to the built-in policy
+  constructor(options: { directory?: string; activeVersion?: string } = {}) {
+    this.policies.set(DEFAULT_SCORING_POLICY.version, DEFAULT_SCORING_POLICY);
+    this.activeVersion = DEFAULT_SCORING_POLICY.version;
+
+    if (options.directory) this.loadDirectory(options.directory);
+    if (options.activeVersion) {
+      try {
+        this.activate(options.activeVersion);
+      } catch (error) {
+        console.error(`Scoring policy ${options.activeVersion} could not be activated, using ${this.activeVersion}:`, error);
+      }
+    }
+  }
+
+  register(policy: RiskScoringPolicy): RiskScoringPolicy {
+    const errors = validateScoringPolicy(policy);
+    if (errors.length > 0) {
+      throw new ScoringPolicyError(`Invalid scoring policy ${policy?.version ?? ''}`.trim(), errors);
+    }
+    // Versions are immutable once registered: assessments refer to them by version
+    if (this.policies.has(policy.version)) {
+      throw new ScoringPolicyError('Scoring policy already registered', [`version ${policy.version} exists`]);
+    }
+
+    this.policies.set(policy.version, policy);
+    return policy;
+  }
+
+  activate(version: string): RiskScoringPolicy {
+    const policy = this.policies.get(version);
+    if (!policy) {
+      throw new ScoringPolicyError('Unknown scoring policy', [`version ${version} is not registered`]);
+    }
+
+    // Re-validated on activation in case the definition or validator changed since registration
+    const errors = validateScoringPolicy(policy);
+    if (errors.length > 0) {
+      throw new ScoringPolicyError(`Scoring policy ${version} failed validation`, errors);
+    }
+
+    this.activeVersion = version;
+    return policy;
+  }
+
+  getActive(): RiskScoringPolicy {
+    return this.policies.get(this.activeVersion)!;
+  }
+
+  get(version: string): RiskScoringPolicy | null {
+    return this.policies.get(version) || null;
+  }
+
+  list(): { version: string; description: string; active: boolean }[] {
+    return Array.from(this.policies.values()).map(policy => ({
+      version: policy.version,
+      description: policy.description,
+      active: policy.version === this.activeVersion
+    }));
+  }
+
+  private loadDirectory(directory: string) {
+    let files: string[];
+    try {
+      files = readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      console.error(`Scoring policy directory ${directory} could not be read:`, error);
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        this.register(JSON.parse(readFileSync(join(directory, file), 'utf8')));
+      } catch (error) {
+        console.error(`Skipping scoring policy ${file}:`, error);
+      }
+    }
+  }
+}
+
+// The configured policies; the scoring model registry adds those registered through the API
+export const scoringPolicyRegistry = new ScoringPolicyRegistry({
+  directory: process.env.SCORING_POLICY_DIR,
+  activeVersion: process.env.SCORING_POLICY_VERSION
+});
@@ -0,0 +1,52 @@
+// HeartVoice Monitor - Shared Services
+// Service instances shared by the API routes, backed by the embedded database
+
+import { openDatabase } from './database';
+import { ClinicalAlertService } from './alert-service';
+import { PatientService } from './patient-service';
+import { SqlitePatientRepository } from './sqlite-patient-repository';
+import { SqliteAssessmentRepository } from './sqlite-assessment-repository';
+import { SqliteAlertRepository } from './sqlite-alert-repository';
+import { SqliteOutcomeRepository } from './sqlite-outcome-repository';
+import { SqliteScoringModelRepository } from './sqlite-scoring-model-repository';
+import { SqliteSystemAlertRepository } from './sqlite-system-alert-repository';
+import { ScoringModelRegistry } from './model-registry';
+import { scoringPolicyRegistry } from './scoring-policy';
+import { loadConfiguredRiskModel } from './risk-model';
+import { DEFAULT_MONITORING_OPTIONS, ModelMonitor } from './model-monitoring';
+
+const database = openDatabase();
+
+// Development databases start with the mock patients; production starts empty
+export const patientService = new PatientService(
+  new SqlitePatientRepository(database),
+  { seedMockPatients: process.env.NODE_ENV !== 'production' },
+  new SqliteAssessmentRepository(database),
+  new SqliteOutcomeRepository(database)
+);
+
+export const alertService = new ClinicalAlertService({}, new SqliteAlertRepository(database));
+
+// Shared by the voice pipeline and the scoring API routes; RISK_MODEL_PATH names the model that
+// goes into production the first time it is seen
+export const scoringModelRegistry = new ScoringModelRegistry(scoringPolicyRegistry, {
+  activeModel: loadConfiguredRiskModel(),
+  repository: new SqliteScoringModelRepository(database)
+});
+
+// One monitor per score source, sharing the system alerts table; MODEL_MONITORING_BOUNDS overrides
+// the drift bounds, e.g. {"minAuroc":0.7}
+const systemAlertRepository = new SqliteSystemAlertRepository(database);
+export const modelMonitors = {
+  policy: new ModelMonitor({ source: 'policy', bounds: monitoringBoundsFromEnvironment() }, systemAlertRepository),
+  model: new ModelMonitor({ source: 'model', bounds: monitoringBoundsFromEnvironment() }, systemAlertRepository)
+};
+
+function monitoringBoundsFromEnvironment() {
+  try {
+    return { ...DEFAULT_MONITORING_OPTIONS.bounds, ...JSON.parse(process.env.MODEL_MONITORING_BOUNDS || '{}') };
+  } catch (error) {
+    console.error('MODEL_MONITORING_BOUNDS is not valid JSON, using the default bounds:', error);
+    return DEFAULT_MONITORING_OPTIONS.bounds;
+  }
+}
@@ -0,0 +1,454 @@
+// HeartVoice Monitor - Spectral Analysis Service
+// Extended acoustic feature set: LTAS, cepstral peak prominence, formants and MFCCs
+
+import { AcousticFeatureSet } from '@/types/clinical';
+import { PitchFrame } from './acoustic-analysis';
+
+// Bump when any feature definition or analysis parameter changes, so stored
+// feature sets from different versions are never compared directly
+export const ACOUSTIC_FEATURE_SET_VERSION = '1.0.0';
+
+const FRAME_LENGTH = 0.04; // seconds
+const TIME_STEP = 0.01; // seconds
+const SPEECH_RANGE_DB = 30; // frames this far below the loudest frame are not analyzed
+const LTAS_BANDWIDTH = 250; // Hz
+const MFCC_COUNT = 13;
+const MEL_FILTER_COUNT = 20;
+
+// Spectral slope is fitted over the telephone passband so values are comparable
+// between 8 kHz calls and wideband recordings
+const SLOPE_MIN_FREQUENCY = 300; // Hz
+const SLOPE_MAX_FREQUENCY = 3400; // Hz
+
+// Cepstral peak search range matches the pitch tracker's 75-500 Hz
+const CPP_MIN_QUEFRENCY = 1 / 500; // seconds
+const CPP_MAX_QUEFRENCY = 1 / 75; // seconds
+const CPP_TREND_MIN_QUEFRENCY = 0.001; // seconds - regression line starts here (Hillenbrand)
+const CPPS_TIME_FRAMES = 7; // frames averaged for the smoothed variant
+const CPPS_QUEFRENCY_BINS = 3; // quefrency bins averaged for the smoothed variant
+
+export interface SpectralAnalysis {
+  spectralSlope: number; // dB/kHz
+  features: AcousticFeatureSet;
+}
+
+export class SpectralAnalyzer {
+  analyze(samples: Float32Array, sampleRate: number, pitchFrames: PitchFrame[] = []): SpectralAnalysis {
+    const windowLength = Math.round(FRAME_LENGTH * sampleRate);
+    const hopLength = Math.max(1, Math.round(TIME_STEP * sampleRate));
+    const fftSize = nextPowerOfTwo(windowLength);
+    const window = hammingWindow(windowLength);
+    const melFilters = buildMelFilterbank(fftSize, sampleRate);
+    const lpcOrder = Math.min(2 + Math.round(sampleRate / 1000), windowLength - 1);
+
+    // Frame energies first, so the speech threshold is known before the expensive work
+    const starts: number[] = [];
+    const energies: number[] = [];
+    for (let start = 0; start + windowLength <= samples.length; start += hopLength) {
+      let sum = 0;
+      for (let i = start; i < start + windowLength; i++) sum += samples[i] * samples[i];
+      starts.push(start);
+      energies.push(10 * Math.log10(sum / windowLength + 1e-12));
+    }
+
+    const threshold = energies.length > 0 ? Math.max(...energies) - SPEECH_RANGE_DB : 0;
+    const ltasPower = new Float64Array(fftSize / 2 + 1);
+    const cepstra: Float64Array[] = [];
+    const mfccFrames: number[][] = [];
+    const formantFrames: number[][] = [];
+    let speechFrames = 0;
+
+    starts.forEach((start, index) => {
+      if (energies[index] < threshold) return;
+      speechFrames++;
+
+      const re = new Float64Array(fftSize);
+      const im = new Float64Array(fftSize);
+      for (let i = 0; i < windowLength; i++) re[i] = samples[start + i] * window[i];
+      fft(re, im);
+
+      const power = new Float64Array(fftSize / 2 + 1);
+      for (let k = 0; k <= fftSize / 2; k++) {
+        power[k] = re[k] * re[k] + im[k] * im[k];
+        ltasPower[k] += power[k];
+      }
+
+      cepstra.push(powerCepstrum(power, fftSize));
+      mfccFrames.push(mfcc(power, melFilters));
+
+      const time = (start + windowLength / 2) / sampleRate;
+      if (isVoicedAt(pitchFrames, time)) {
+        formantFrames.push(estimateFormants(samples, start, windowLength, lpcOrder, sampleRate));
+      }
+    });
+
+    if (speechFrames === 0) {
+      return { spectralSlope: 0, features: emptyFeatureSet() };
+    }
+
+    for (let k = 0; k < ltasPower.length; k++) ltasPower[k] /= speechFrames;
+    const ltas = bandLevels(ltasPower, fftSize, sampleRate);
+    const quefrencyStep = 1 / sampleRate;
+
+    return {
+      spectralSlope: fitSpectralSlope(ltas),
+      features: {
+        version: ACOUSTIC_FEATURE_SET_VERSION,
+        cpp: mean(cepstra.map(cepstrum => cepstralPeakProminence(cepstrum, quefrencyStep))),
+        cpps: mean(smoothCepstra(cepstra).map(cepstrum => cepstralPeakProminence(cepstrum, quefrencyStep))),
+        formants: {
+          f1: median(formantFrames.map(frame => frame[0])),
+          f2: median(formantFrames.map(frame => frame[1])),
+          f3: median(formantFrames.map(frame => frame[2]))
+        },
+        mfccMeans: columnMeans(mfccFrames),
+        mfccVariances: columnVariances(mfccFrames),
+        ltas: { bandwidth: LTAS_BANDWIDTH, levels: ltas.map(band => band.level) },
+        frameCount: speechFrames
+      }
+    };
+  }
+}
+
+export function combineAcousticFeatures(entries: { features?: AcousticFeatureSet; weight: number }[]): AcousticFeatureSet | undefined {
+  // Weighted means; MFCC variances are pooled (within-segment plus between-segment spread)
+  const valid = entries.filter(entry => entry.features && entry.features.frameCount > 0 && entry.weight > 0);
+  if (valid.length === 0) return undefined;
+
+  const total = valid.reduce((sum, entry) => sum + entry.weight, 0);
+  const weightedMean = (value: (features: AcousticFeatureSet) => number) =>
+    valid.reduce((sum, entry) => sum + value(entry.features!) * entry.weight, 0) / total;
+  const weightedFormant = (key: 'f1' | 'f2' | 'f3') => {
+    const known = valid.filter(entry => entry.features!.formants[key] > 0);
+    const knownTotal = known.reduce((sum, entry) => sum + entry.weight, 0);
+    return knownTotal > 0
+      ? known.reduce((sum, entry) => sum + entry.features!.formants[key] * entry.weight, 0) / knownTotal
+      : 0;
+  };
+
+  const coefficients = valid[0].features!.mfccMeans.length;
+  const mfccMeans = Array.from({ length: coefficients }, (_, i) => weightedMean(features => features.mfccMeans[i]));
+  const mfccVariances = Array.from({ length: coefficients }, (_, i) =>
+    weightedMean(features => features.mfccVariances[i] + (features.mfccMeans[i] - mfccMeans[i]) ** 2)
+  );
+
+  // LTAS levels are averaged in the power domain
+  const bands = valid[0].features!.ltas.levels.length;
+  const levels = Array.from({ length: bands }, (_, i) =>
+    10 * Math.log10(weightedMean(features => 10 ** (features.ltas.levels[i] / 10)))
+  );
+
+  return {
+    version: ACOUSTIC_FEATURE_SET_VERSION,
+    cpp: weightedMean(features => features.cpp),
+    cpps: weightedMean(features => features.cpps),
+    formants: { f1: weightedFormant('f1'), f2: weightedFormant('f2'), f3: weightedFormant('f3') },
+    mfccMeans,
+    mfccVariances,
+    ltas: { bandwidth: valid[0].features!.ltas.bandwidth, levels },
+    frameCount: valid.reduce((sum, entry) => sum + entry.features!.frameCount, 0)
+  };
+}
+
+export function fitSpectralSlope(bands: { frequency: number; level: number }[]): number {
+  // Least-squares slope of LTAS level against frequency, in dB per kHz
+  const points = bands.filter(band => band.frequency >= SLOPE_MIN_FREQUENCY && band.frequency <= SLOPE_MAX_FREQUENCY);
+  if (points.length < 2) return 0;
+
+  const meanX = mean(points.map(point => point.frequency / 1000));
+  const meanY = mean(points.map(point => point.level));
+  let numerator = 0;
+  let denominator = 0;
+  for (const point of points) {
+    const x = point.frequency / 1000 - meanX;
+    numerator += x * (point.level - meanY);
+    denominator += x * x;
+  }
+
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function emptyFeatureSet(): AcousticFeatureSet {
+  return {
+    version: ACOUSTIC_FEATURE_SET_VERSION,
+    cpp: 0,
+    cpps: 0,
+    formants: { f1: 0, f2: 0, f3: 0 },
+    mfccMeans: new Array(MFCC_COUNT).fill(0),
+    mfccVariances: new Array(MFCC_COUNT).fill(0),
+    ltas: { bandwidth: LTAS_BANDWIDTH, levels: [] },
+    frameCount: 0
+  };
+}
+
+function bandLevels(power: Float64Array, fftSize: number, sampleRate: number): { frequency: number; level: number }[] {
+  const binWidth = sampleRate / fftSize;
+  const bandCount = Math.floor(sampleRate / 2 / LTAS_BANDWIDTH);
+  const bands: { frequency: number; level: number }[] = [];
+
+  for (let band = 0; band < bandCount; band++) {
+    const low = band * LTAS_BANDWIDTH;
+    const high = low + LTAS_BANDWIDTH;
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.ceil(low / binWidth); k * binWidth < high && k < power.length; k++) {
+      sum += power[k];
+      count++;
+    }
+    bands.push({ frequency: low + LTAS_BANDWIDTH / 2, level: 10 * Math.log10((count > 0 ? sum / count : 0) + 1e-12) });
+  }
+
+  return bands;
+}
+
+function powerCepstrum(power: Float64Array, fftSize: number): Float64Array {
+  // Cepstrum of the dB spectrum, returned as cepstral power in dB (first half only)
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  for (let k = 0; k <= fftSize / 2; k++) {
+    re[k] = 10 * Math.log10(power[k] + 1e-12);
+    if (k > 0 && k < fftSize / 2) re[fftSize - k] = re[k];
+  }
+  fft(re, im);
+
+  const cepstrum = new Float64Array(fftSize / 2);
+  for (let n = 0; n < cepstrum.length; n++) {
+    const magnitude = Math.sqrt(re[n] * re[n] + im[n] * im[n]) / fftSize;
+    cepstrum[n] = 20 * Math.log10(magnitude + 1e-12);
+  }
+  return cepstrum;
+}
+
+function cepstralPeakProminence(cepstrum: Float64Array, quefrencyStep: number): number {
+  // Height of the rahmonic peak above the regression line through the cepstrum
+  const trendStart = Math.ceil(CPP_TREND_MIN_QUEFRENCY / quefrencyStep);
+  const peakStart = Math.ceil(CPP_MIN_QUEFRENCY / quefrencyStep);
+  const peakEnd = Math.min(cepstrum.length - 1, Math.floor(CPP_MAX_QUEFRENCY / quefrencyStep));
+  if (peakEnd <= peakStart || cepstrum.length - trendStart < 2) return 0;
+
+  let peakIndex = peakStart;
+  for (let n = peakStart; n <= peakEnd; n++) {
+    if (cepstrum[n] > cepstrum[peakIndex]) peakIndex = n;
+  }
+
+  let meanX = 0;
+  let meanY = 0;
+  const count = cepstrum.length - trendStart;
+  for (let n = trendStart; n < cepstrum.length; n++) {
+    meanX += n;
+    meanY += cepstrum[n];
+  }
+  meanX /= count;
+  meanY /= count;
+
+  let numerator = 0;
+  let denominator = 0;
+  for (let n = trendStart; n < cepstrum.length; n++) {
+    numerator += (n - meanX) * (cepstrum[n] - meanY);
+    denominator += (n - meanX) ** 2;
+  }
+  const slope = denominator > 0 ? numerator / denominator : 0;
+  const trend = meanY + slope * (peakIndex - meanX);
+
+  return Math.max(0, cepstrum[peakIndex] - trend);
+}
+
+function smoothCepstra(cepstra: Float64Array[]): Float64Array[] {
+  // CPPS: average cepstral power over neighbouring frames, then over neighbouring quefrencies
+  const halfTime = Math.floor(CPPS_TIME_FRAMES / 2);
+  const halfQuefrency = Math.floor(CPPS_QUEFRENCY_BINS / 2);
+
+  return cepstra.map((_, index) => {
+    const from = Math.max(0, index - halfTime);
+    const to = Math.min(cepstra.length - 1, index + halfTime);
+    const length = cepstra[index].length;
+    const timeSmoothed = new Float64Array(length);
+
+    for (let n = 0; n < length; n++) {
+      let sum = 0;
+      for (let frame = from; frame <= to; frame++) sum += 10 ** (cepstra[frame][n] / 10);
+      timeSmoothed[n] = sum / (to - from + 1);
+    }
+
+    const smoothed = new Float64Array(length);
+    for (let n = 0; n < length; n++) {
+      let sum = 0;
+      let count = 0;
+      for (let m = Math.max(0, n - halfQuefrency); m <= Math.min(length - 1, n + halfQuefrency); m++) {
+        sum += timeSmoothed[m];
+        count++;
+      }
+      smoothed[n] = 10 * Math.log10(sum / count + 1e-12);
+    }
+    return smoothed;
+  });
+}
+
+function estimateFormants(
+  samples: Float32Array,
+  start: number,
+  windowLength: number,
+  order: number,
+  sampleRate: number
+): number[] {
+  // LPC envelope peaks (autocorrelation method, Levinson-Durbin recursion)
+  const frame = new Float64Array(windowLength);
+  const window = hammingWindow(windowLength);
+  for (let i = 0; i < windowLength; i++) {
+    const previous = start + i > 0 ? samples[start + i - 1] : 0;
+    frame[i] = (samples[start + i] - 0.97 * previous) * window[i];
+  }
+
+  const autocorrelation = new Float64Array(order + 1);
+  for (let lag = 0; lag <= order; lag++) {
+    for (let i = 0; i + lag < windowLength; i++) autocorrelation[lag] += frame[i] * frame[i + lag];
+  }
+  if (autocorrelation[0] <= 0) return [NaN, NaN, NaN];
+
+  const coefficients = levinsonDurbin(autocorrelation, order);
+  const points = 256;
+  const nyquist = sampleRate / 2;
+  const envelope = new Float64Array(points);
+  for (let p = 0; p < points; p++) {
+    const omega = (Math.PI * p) / points;
+    let re = 1;
+    let im = 0;
+    for (let k = 1; k <= order; k++) {
+      re += coefficients[k] * Math.cos(omega * k);
+      im -= coefficients[k] * Math.sin(omega * k);
+    }
+    envelope[p] = 1 / (re * re + im * im);
+  }
+
+  const formants: number[] = [];
+  for (let p = 1; p < points - 1 && formants.length < 3; p++) {
+    const frequency = (p / points) * nyquist;
+    if (frequency > 90 && envelope[p] > envelope[p - 1] && envelope[p] >= envelope[p + 1]) {
+      formants.push(frequency);
+    }
+  }
+  while (formants.length < 3) formants.push(NaN);
+  return formants;
+}
+
+function levinsonDurbin(autocorrelation: Float64Array, order: number): Float64Array {
+  const coefficients = new Float64Array(order + 1);
+  coefficients[0] = 1;
+  let error = autocorrelation[0];
+
+  for (let i = 1; i <= order; i++) {
+    let acc = autocorrelation[i];
+    for (let j = 1; j < i; j++) acc += coefficients[j] * autocorrelation[i - j];
+    const reflection = -acc / error;
+
+    const previous = coefficients.slice();
+    for (let j = 1; j < i; j++) coefficients[j] = previous[j] + reflection * previous[i - j];
+    coefficients[i] = reflection;
+    error *= 1 - reflection * reflection;
+    if (error <= 0) break;
+  }
+
+  return coefficients;
+}
+
+function buildMelFilterbank(fftSize: number, sampleRate: number): Float64Array[] {
+  const toMel = (frequency: number) => 2595 * Math.log10(1 + frequency / 700);
+  const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+  const maxMel = toMel(sampleRate / 2);
+  const edges = Array.from({ length: MEL_FILTER_COUNT + 2 }, (_, i) =>
+    (fromMel((maxMel * i) / (MEL_FILTER_COUNT + 1)) * fftSize) / sampleRate
+  );
+
+  return Array.from({ length: MEL_FILTER_COUNT }, (_, m) => {
+    const filter = new Float64Array(fftSize / 2 + 1);
+    for (let k = 0; k < filter.length; k++) {
+      if (k > edges[m] && k <= edges[m + 1]) filter[k] = (k - edges[m]) / (edges[m + 1] - edges[m]);
+      else if (k > edges[m + 1] && k < edges[m + 2]) filter[k] = (edges[m + 2] - k) / (edges[m + 2] - edges[m + 1]);
+    }
+    return filter;
+  });
+}
+
+function mfcc(power: Float64Array, filters: Float64Array[]): number[] {
+  const logEnergies = filters.map(filter => {
+    let energy = 0;
+    for (let k = 0; k < power.length; k++) energy += power[k] * filter[k];
+    return Math.log(energy + 1e-12);
+  });
+
+  // DCT-II of the log mel energies
+  return Array.from({ length: MFCC_COUNT }, (_, i) =>
+    logEnergies.reduce((sum, energy, m) => sum + energy * Math.cos((Math.PI * i * (m + 0.5)) / logEnergies.length), 0)
+  );
+}
+
+function fft(re: Float64Array, im: Float64Array): void {
+  // In-place iterative radix-2 Cooley-Tukey; length must be a power of two
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddRe = re[oddIndex] * cos - im[oddIndex] * sin;
+        const oddIm = re[oddIndex] * sin + im[oddIndex] * cos;
+        re[oddIndex] = re[evenIndex] - oddRe;
+        im[oddIndex] = im[evenIndex] - oddIm;
+        re[evenIndex] += oddRe;
+        im[evenIndex] += oddIm;
+      }
+    }
+  }
+}
+
+function hammingWindow(length: number): Float64Array {
+  const window = new Float64Array(length);
+  for (let i = 0; i < length; i++) window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (length - 1));
+  return window;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) size <<= 1;
+  return size;
+}
+
+function isVoicedAt(frames: PitchFrame[], time: number): boolean {
+  if (frames.length === 0) return false;
+  const step = frames.length > 1 ? frames[1].time - frames[0].time : TIME_STEP;
+  const index = Math.round((time - frames[0].time) / step);
+  return index >= 0 && index < frames.length && frames[index].voiced;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  const known = values.filter(value => Number.isFinite(value)).sort((a, b) => a - b);
+  if (known.length === 0) return 0;
+  const middle = Math.floor(known.length / 2);
+  return known.length % 2 === 0 ? (known[middle - 1] + known[middle]) / 2 : known[middle];
+}
+
+function columnMeans(rows: number[][]): number[] {
+  return Array.from({ length: MFCC_COUNT }, (_, i) => mean(rows.map(row => row[i])));
+}
+
+function columnVariances(rows: number[][]): number[] {
+  const means = columnMeans(rows);
+  return Array.from({ length: MFCC_COUNT }, (_, i) => mean(rows.map(row => (row[i] - means[i]) ** 2)));
+}
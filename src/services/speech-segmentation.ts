@@ -0,0 +1,184 @@
+// HeartVoice Monitor - Speech Segmentation Service
+// Voice activity detection and per-prompt tagging of patient speech in assessment calls
+
+import { AssessmentTask } from '@/types/clinical';
+import { DecodedAudio } from './audio-decoder';
+
+export interface VadOptions {
+  frameLength: number; // seconds
+  timeStep: number; // seconds
+  thresholdDb: number; // speech must exceed the estimated noise floor by this much
+  absoluteFloorDb: number; // dBFS below which a frame is never speech
+  minSpeechDuration: number; // seconds - shorter bursts are discarded as clicks
+  minSilenceDuration: number; // seconds - shorter gaps are bridged
+  padding: number; // seconds added either side of each segment
+}
+
+export interface SpeechSegment {
+  start: number; // seconds
+  end: number; // seconds
+  task?: AssessmentTask; // prompt the segment answers, when known
+}
+
+export interface CallSegmentation {
+  patientChannel: number | null; // null for single-channel recordings
+  agentTurns: SpeechSegment[];
+  patientSegments: SpeechSegment[];
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  frameLength: 0.02,
+  timeStep: 0.01,
+  thresholdDb: 10,
+  absoluteFloorDb: -55,
+  minSpeechDuration: 0.15,
+  minSilenceDuration: 0.3,
+  padding: 0.05
+};
+
+// Order of the questions in the assessment call script (see /api/voice-calls and /api/voice-twiml)
+export const ASSESSMENT_TASK_ORDER: AssessmentTask[] = ['energy', 'breathing', 'counting'];
+
+// Agent speech separated by less than this is one turn; the script pauses 1 s between
+// the greeting and the first question, which therefore form a single turn
+const AGENT_TURN_GAP = 1.5;
+
+export class VoiceActivityDetector {
+  private options: VadOptions;
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  detect(samples: Float32Array, sampleRate: number): SpeechSegment[] {
+    const { frameLength, timeStep, thresholdDb, absoluteFloorDb, minSpeechDuration, minSilenceDuration, padding } = this.options;
+    const windowLength = Math.max(1, Math.round(frameLength * sampleRate));
+    const hopLength = Math.max(1, Math.round(timeStep * sampleRate));
+    const energies: number[] = [];
+
+    for (let start = 0; start + windowLength <= samples.length; start += hopLength) {
+      let sum = 0;
+      for (let i = start; i < start + windowLength; i++) sum += samples[i] * samples[i];
+      energies.push(10 * Math.log10(sum / windowLength + 1e-12));
+    }
+
+    if (energies.length === 0) return [];
+
+    // The quietest 10% of frames approximates the line noise floor
+    const sorted = [...energies].sort((a, b) => a - b);
+    const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+    const threshold = Math.max(noiseFloor + thresholdDb, absoluteFloorDb);
+
+    const raw: SpeechSegment[] = [];
+    let runStart = -1;
+    energies.forEach((energy, index) => {
+      if (energy >= threshold && runStart < 0) runStart = index;
+      if (energy < threshold && runStart >= 0) {
+        raw.push(this.frameSpan(runStart, index, hopLength, windowLength, sampleRate));
+        runStart = -1;
+      }
+    });
+    if (runStart >= 0) {
+      raw.push(this.frameSpan(runStart, energies.length, hopLength, windowLength, sampleRate));
+    }
+
+    const duration = samples.length / sampleRate;
+    return mergeSegments(raw, minSilenceDuration)
+      .filter(segment => segment.end - segment.start >= minSpeechDuration)
+      .map(segment => ({
+        start: Math.max(0, segment.start - padding),
+        end: Math.min(duration, segment.end + padding)
+      }));
+  }
+
+  private frameSpan(firstFrame: number, endFrame: number, hopLength: number, windowLength: number, sampleRate: number): SpeechSegment {
+    return {
+      start: (firstFrame * hopLength) / sampleRate,
+      end: ((endFrame - 1) * hopLength + windowLength) / sampleRate
+    };
+  }
+}
+
+export class CallSegmenter {
+  private vad: VoiceActivityDetector;
+  private taskOrder: AssessmentTask[];
+
+  constructor(vad: VoiceActivityDetector = new VoiceActivityDetector(), taskOrder: AssessmentTask[] = ASSESSMENT_TASK_ORDER) {
+    this.vad = vad;
+    this.taskOrder = taskOrder;
+  }
+
+  // A single <Record> response: everything is patient speech for one known prompt
+  segmentResponse(audio: DecodedAudio, task?: AssessmentTask): SpeechSegment[] {
+    return this.vad.detect(audio.samples, audio.sampleRate).map(segment => ({ ...segment, task }));
+  }
+
+  // A whole-call recording. Requires Twilio dual-channel recording so the agent's
+  // prompts and the patient's answers are on separate channels.
+  segmentCall(audio: DecodedAudio): CallSegmentation {
+    if (audio.channelData.length < 2) {
+      return {
+        patientChannel: null,
+        agentTurns: [],
+        patientSegments: this.segmentResponse(audio)
+      };
+    }
+
+    const channelSegments = audio.channelData
+      .slice(0, 2)
+      .map(channel => this.vad.detect(channel, audio.sampleRate));
+
+    // The agent always speaks first (greeting), so the channel with the later first
+    // utterance carries the patient
+    const onset = (segments: SpeechSegment[]) => (segments.length > 0 ? segments[0].start : Infinity);
+    const patientChannel = onset(channelSegments[0]) <= onset(channelSegments[1]) ? 1 : 0;
+    const agentTurns = mergeSegments(channelSegments[1 - patientChannel], AGENT_TURN_GAP);
+
+    const patientSegments: SpeechSegment[] = [];
+    for (const segment of channelSegments[patientChannel]) {
+      const task = this.taskForSegment(segment, agentTurns);
+      if (task) patientSegments.push({ ...segment, task });
+    }
+
+    return { patientChannel, agentTurns, patientSegments };
+  }
+
+  private taskForSegment(segment: SpeechSegment, agentTurns: SpeechSegment[]): AssessmentTask | undefined {
+    // Turn k (0-based) asks question k; speech before the first question ends is
+    // greeting crosstalk and speech after the last question's window is the sign-off
+    let turnIndex = -1;
+    for (let i = 0; i < agentTurns.length; i++) {
+      if (agentTurns[i].end <= segment.start + (segment.end - segment.start) / 2) turnIndex = i;
+    }
+
+    return turnIndex >= 0 ? this.taskOrder[turnIndex] : undefined;
+  }
+}
+
+export function sliceAudio(audio: DecodedAudio, segment: SpeechSegment, channel?: number): DecodedAudio {
+  const source = channel !== undefined ? audio.channelData[channel] : audio.samples;
+  const start = Math.max(0, Math.floor(segment.start * audio.sampleRate));
+  const end = Math.min(source.length, Math.ceil(segment.end * audio.sampleRate));
+  const samples = source.subarray(start, end);
+
+  return {
+    samples,
+    sampleRate: audio.sampleRate,
+    channelData: [samples],
+    duration: samples.length / audio.sampleRate,
+    sourceFormat: audio.sourceFormat
+  };
+}
+
+function mergeSegments(segments: SpeechSegment[], maxGap: number): SpeechSegment[] {
+  const merged: SpeechSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && segment.start - last.end < maxGap) {
+      last.end = Math.max(last.end, segment.end);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
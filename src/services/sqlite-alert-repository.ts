@@ -0,0 +1,41 @@
+// HeartVoice Monitor - SQLite Alert Repository
+// Durable clinical alerts: the alert is kept as JSON, with the fields used for lookups in their own columns
+
+import Database from 'better-sqlite3';
+import { ClinicalAlert } from '@/types/clinical';
+import { AlertRepository } from './alert-repository';
+
+export class SqliteAlertRepository implements AlertRepository {
+  private db: Database.Database;
+
+  // Expects a database migrated by openDatabase
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  get(alertId: string): ClinicalAlert | null {
+    const row = this.db.prepare('SELECT data FROM alerts WHERE id = ?').get(alertId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  list(): ClinicalAlert[] {
+    const rows = this.db.prepare('SELECT data FROM alerts ORDER BY rowid').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  save(alert: ClinicalAlert): void {
+    this.db.prepare(`
+      INSERT INTO alerts (id, patient_id, status, created_at, data)
+      VALUES (@id, @patientId, @status, @createdAt, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        data = excluded.data
+    `).run({
+      id: alert.id,
+      patientId: alert.patientId,
+      status: alert.status,
+      createdAt: alert.createdAt,
+      data: JSON.stringify(alert)
+    });
+  }
+}
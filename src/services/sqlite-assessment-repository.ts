@@ -0,0 +1,81 @@
+// HeartVoice Monitor - SQLite Assessment Repository
+// Durable assessment history: the assessment is kept as JSON, with the fields used for filtering in their own columns
+
+import Database from 'better-sqlite3';
+import { VoiceAssessment } from '@/types/clinical';
+import { AssessmentFilter, AssessmentPage, AssessmentRepository } from './assessment-repository';
+
+export class SqliteAssessmentRepository implements AssessmentRepository {
+  private db: Database.Database;
+
+  // Expects a database migrated by openDatabase
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  save(assessment: VoiceAssessment): void {
+    this.db.prepare(`
+      INSERT INTO assessments (id, patient_id, timestamp, call_status, risk_level, data)
+      VALUES (@id, @patientId, @timestamp, @callStatus, @riskLevel, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        patient_id = excluded.patient_id,
+        timestamp = excluded.timestamp,
+        call_status = excluded.call_status,
+        risk_level = excluded.risk_level,
+        data = excluded.data
+    `).run({
+      id: assessment.id,
+      patientId: assessment.patientId,
+      timestamp: new Date(assessment.timestamp).toISOString(),
+      callStatus: assessment.callStatus,
+      riskLevel: assessment.riskLevel ?? null,
+      data: JSON.stringify(assessment)
+    });
+  }
+
+  find(filter: AssessmentFilter = {}): VoiceAssessment[] {
+    const { where, parameters } = this.whereClause(filter);
+    const rows = this.db.prepare(`SELECT data FROM assessments ${where} ORDER BY timestamp, rowid`)
+      .all(parameters) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  findPage(filter: AssessmentFilter, limit: number, offset: number): AssessmentPage {
+    const { where, parameters } = this.whereClause(filter);
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM assessments ${where}`)
+      .get(parameters) as { total: number };
+    const rows = this.db.prepare(`SELECT data FROM assessments ${where} ORDER BY timestamp DESC, rowid DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...parameters, limit, offset }) as { data: string }[];
+
+    return { assessments: rows.map(row => JSON.parse(row.data)), total, limit, offset };
+  }
+
+  // Timestamps are stored normalized by toISOString, so string comparison orders them
+  private whereClause(filter: AssessmentFilter): { where: string; parameters: Record<string, string> } {
+    const conditions: string[] = [];
+    const parameters: Record<string, string> = {};
+
+    if (filter.patientId) {
+      conditions.push('patient_id = @patientId');
+      parameters.patientId = filter.patientId;
+    }
+    if (filter.from) {
+      conditions.push('timestamp >= @from');
+      parameters.from = new Date(filter.from).toISOString();
+    }
+    if (filter.to) {
+      conditions.push('timestamp <= @to');
+      parameters.to = new Date(filter.to).toISOString();
+    }
+    if (filter.callStatus) {
+      conditions.push('call_status = @callStatus');
+      parameters.callStatus = filter.callStatus;
+    }
+    if (filter.riskLevel) {
+      conditions.push('risk_level = @riskLevel');
+      parameters.riskLevel = filter.riskLevel;
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', parameters };
+  }
+}
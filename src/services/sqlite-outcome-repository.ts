@@ -0,0 +1,27 @@
+// HeartVoice Monitor - SQLite Outcome Repository
+// Durable clinical outcomes: the outcome is kept as JSON, with the fields used for lookups in their own columns
+
+import Database from 'better-sqlite3';
+import { ClinicalOutcome } from '@/types/clinical';
+import { OutcomeRepository } from './outcome-repository';
+
+export class SqliteOutcomeRepository implements OutcomeRepository {
+  private db: Database.Database;
+
+  // Expects a database migrated by openDatabase
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  add(outcome: ClinicalOutcome): void {
+    this.db.prepare('INSERT INTO outcomes (patient_id, date, data) VALUES (?, ?, ?)')
+      .run(outcome.patientId, outcome.date, JSON.stringify(outcome));
+  }
+
+  list(patientId?: string): ClinicalOutcome[] {
+    const rows = (patientId
+      ? this.db.prepare('SELECT data FROM outcomes WHERE patient_id = ? ORDER BY id').all(patientId)
+      : this.db.prepare('SELECT data FROM outcomes ORDER BY id').all()) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+}
@@ -0,0 +1,43 @@
+// HeartVoice Monitor - SQLite Patient Repository
+// Durable patient storage: the record is kept as JSON, with the fields used for lookups in their own columns
+
+import Database from 'better-sqlite3';
+import { Patient } from '@/types/clinical';
+import { PatientRepository } from './patient-repository';
+
+export class SqlitePatientRepository implements PatientRepository {
+  private db: Database.Database;
+
+  // Expects a database migrated by openDatabase
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  get(patientId: string): Patient | null {
+    const row = this.db.prepare('SELECT data FROM patients WHERE id = ?').get(patientId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  list(): Patient[] {
+    const rows = this.db.prepare('SELECT data FROM patients ORDER BY rowid').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  save(patient: Patient): void {
+    this.db.prepare(`
+      INSERT INTO patients (id, mrn, risk_level, data, updated_at)
+      VALUES (@id, @mrn, @riskLevel, @data, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        mrn = excluded.mrn,
+        risk_level = excluded.risk_level,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: patient.id,
+      mrn: patient.demographics.mrn,
+      riskLevel: patient.currentRisk.level,
+      data: JSON.stringify(patient),
+      updatedAt: new Date().toISOString()
+    });
+  }
+}
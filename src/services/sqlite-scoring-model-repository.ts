@@ -0,0 +1,41 @@
+// HeartVoice Monitor - SQLite Scoring Model Repository
+// Durable scoring policies, outcome models and lifecycle status, so activations and shadow runs survive restarts
+
+import Database from 'better-sqlite3';
+import { ScoringModelKind } from './model-registry';
+import { ScoringModelRecord, ScoringModelRepository } from './scoring-model-repository';
+
+export class SqliteScoringModelRepository implements ScoringModelRepository {
+  private db: Database.Database;
+
+  // Expects a database migrated by openDatabase
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  get(kind: ScoringModelKind, version: string): ScoringModelRecord | null {
+    const row = this.db.prepare('SELECT data FROM scoring_models WHERE kind = ? AND version = ?')
+      .get(kind, version) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  list(): ScoringModelRecord[] {
+    const rows = this.db.prepare('SELECT data FROM scoring_models ORDER BY rowid').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  save(record: ScoringModelRecord): void {
+    this.db.prepare(`
+      INSERT INTO scoring_models (kind, version, status, data)
+      VALUES (@kind, @version, @status, @data)
+      ON CONFLICT (kind, version) DO UPDATE SET
+        status = excluded.status,
+        data = excluded.data
+    `).run({
+      kind: record.kind,
+      version: record.version,
+      status: record.status,
+      data: JSON.stringify(record)
+    });
+  }
+}
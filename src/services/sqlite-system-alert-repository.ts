@@ -0,0 +1,35 @@
+// HeartVoice Monitor - SQLite System Alert Repository
+// Durable model monitoring alerts, kept as JSON with their status in its own column
+
+import Database from 'better-sqlite3';
+import { SystemAlert } from '@/types/clinical';
+import { SystemAlertRepository } from './system-alert-repository';
+
+export class SqliteSystemAlertRepository implements SystemAlertRepository {
+  private db: Database.Database;
+
+  // Expects a database migrated by openDatabase
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  list(): SystemAlert[] {
+    const rows = this.db.prepare('SELECT data FROM system_alerts ORDER BY rowid').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  save(alert: SystemAlert): void {
+    this.db.prepare(`
+      INSERT INTO system_alerts (id, status, created_at, data)
+      VALUES (@id, @status, @createdAt, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        data = excluded.data
+    `).run({
+      id: alert.id,
+      status: alert.status,
+      createdAt: alert.createdAt,
+      data: JSON.stringify(alert)
+    });
+  }
+}
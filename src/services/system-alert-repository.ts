@@ -0,0 +1,22 @@
+// HeartVoice Monitor - System Alert Repository
+// Storage interface for model monitoring alerts, with an in-memory implementation for tests and development
+
+import { SystemAlert } from '@/types/clinical';
+
+// Synchronous and copy-returning, like AlertRepository
+export interface SystemAlertRepository {
+  list(): SystemAlert[]; // in order of creation
+  save(alert: SystemAlert): void; // inserts or replaces
+}
+
+export class InMemorySystemAlertRepository implements SystemAlertRepository {
+  private alerts: Map<string, SystemAlert> = new Map();
+
+  list(): SystemAlert[] {
+    return Array.from(this.alerts.values()).map(alert => structuredClone(alert));
+  }
+
+  save(alert: SystemAlert): void {
+    this.alerts.set(alert.id, structuredClone(alert));
+  }
+}
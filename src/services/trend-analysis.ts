@@ -0,0 +1,111 @@
+// HeartVoice Monitor - Risk Trend Analysis Service
+// Derives improving / stable / deteriorating from each patient's assessment history
+
+import { RiskTrend, TrendEvidence, VoiceAssessment } from '@/types/clinical';
+
+export interface TrendOptions {
+  windowDays: number; // only assessments this recent are considered
+  maxAssessments: number; // most recent assessments used within the window
+  minAssessments: number; // fewer than this and the trend is reported as stable
+  minSlopePerWeek: number; // risk points per week; smaller changes are not clinically meaningful
+}
+
+export const DEFAULT_TREND_OPTIONS: TrendOptions = {
+  windowDays: 30,
+  maxAssessments: 10,
+  minAssessments: 3,
+  minSlopePerWeek: 3
+};
+
+// Two-sided 95% Student t critical values for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TrendAnalyzer {
+  private options: TrendOptions;
+
+  constructor(options: Partial<TrendOptions> = {}) {
+    this.options = { ...DEFAULT_TREND_OPTIONS, ...options };
+  }
+
+  analyze(history: VoiceAssessment[], at: Date = new Date()): { trend: RiskTrend; evidence: TrendEvidence } {
+    // Only scored assessments carry a meaningful risk score
+    const windowStart = at.getTime() - this.options.windowDays * DAY_MS;
+    const window = history
+      .filter(assessment => assessment.callStatus === 'completed' && assessment.qualityMetrics.usable !== false)
+      .filter(assessment => {
+        const time = new Date(assessment.timestamp).getTime();
+        return time >= windowStart && time <= at.getTime();
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .slice(-this.options.maxAssessments);
+
+    const evidence: TrendEvidence = {
+      method: 'linear-slope',
+      windowStart: window.length > 0 ? window[0].timestamp : new Date(windowStart).toISOString(),
+      windowEnd: window.length > 0 ? window[window.length - 1].timestamp : at.toISOString(),
+      assessmentIds: window.map(assessment => assessment.id),
+      slopePerWeek: 0,
+      confidenceInterval: [0, 0],
+      confidenceLevel: 0.95,
+      computedAt: at.toISOString()
+    };
+
+    if (window.length < this.options.minAssessments) {
+      return { trend: 'stable', evidence };
+    }
+
+    // Ordinary least squares of risk score on time (weeks) with a 95% confidence interval
+    const origin = new Date(window[0].timestamp).getTime();
+    const x = window.map(assessment => (new Date(assessment.timestamp).getTime() - origin) / (7 * DAY_MS));
+    const y = window.map(assessment => assessment.riskScore);
+    const n = window.length;
+    const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+    const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+
+    let sxx = 0;
+    let sxy = 0;
+    for (let i = 0; i < n; i++) {
+      sxx += (x[i] - meanX) ** 2;
+      sxy += (x[i] - meanX) * (y[i] - meanY);
+    }
+    // All assessments at the same moment carry no slope information
+    if (sxx === 0) return { trend: 'stable', evidence };
+
+    const slope = sxy / sxx;
+    const intercept = meanY - slope * meanX;
+    let residualSumOfSquares = 0;
+    for (let i = 0; i < n; i++) {
+      residualSumOfSquares += (y[i] - (intercept + slope * x[i])) ** 2;
+    }
+
+    const degreesOfFreedom = n - 2;
+    const standardError = Math.sqrt(residualSumOfSquares / degreesOfFreedom / sxx);
+    const margin = tCritical(degreesOfFreedom) * standardError;
+    const lower = slope - margin;
+    const upper = slope + margin;
+
+    evidence.slopePerWeek = round(slope);
+    evidence.confidenceInterval = [round(lower), round(upper)];
+
+    // The whole interval has to agree on the direction, and the change has to matter clinically
+    let trend: RiskTrend = 'stable';
+    if (lower > 0 && slope >= this.options.minSlopePerWeek) trend = 'deteriorating';
+    else if (upper < 0 && slope <= -this.options.minSlopePerWeek) trend = 'improving';
+
+    return { trend, evidence };
+  }
+}
+
+function tCritical(degreesOfFreedom: number): number {
+  return degreesOfFreedom <= T_CRITICAL_95.length ? T_CRITICAL_95[degreesOfFreedom - 1] : 1.96;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,7 +1,55 @@
 // HeartVoice Monitor - Voice Processing and Biomarker Analysis Service
 // Based on design specifications for ElevenLabs integration and voice analysis
 
-import { VoiceBiomarkers, VoiceAssessment, RiskLevel } from '@/types/clinical';
+import {
+  VoiceBiomarkers,
+  VoiceAssessment,
+  RiskLevel,
+  AssessmentTask,
+  BreathingMetrics,
+  BaselineDeviation,
+  Patient,
+  PatientBaseline,
+  RiskComponent,
+  RiskContribution,
+  RiskInterval,
+  AlertLevel,
+  BaselineFeature,
+  ModelPrediction,
+  SafeVoiceAnalysisRequest,
+  ShadowScore,
+  SegmentBiomarkers,
+  TaskBiomarkers
+} from '@/types/clinical';
+import {
+  PitchTracker,
+  PitchAnalysis,
+  calculateJitterMeasures,
+  calculateShimmerMeasures,
+  calculateHarmonicsToNoise
+} from './acoustic-analysis';
+import { AudioDecoder, DecodedAudio } from './audio-decoder';
+import { Mpg123Decoder } from './mp3-decoder';
+import { ASSESSMENT_TASK_ORDER, CallSegmenter, SpeechSegment, sliceAudio } from './speech-segmentation';
+import { BreathingAnalyzer } from './breathing-analysis';
+import { SpectralAnalyzer, combineAcousticFeatures } from './spectral-analysis';
+import { AudioQualityAssessor } from './audio-quality';
+import { BASELINE_FEATURES, calculateBaselineDeviations } from './baseline-service';
+import { RangeFlag, ReferenceProfile, ReferenceRangeService, describeBounds } from './reference-ranges';
+import { HeartVoiceOpenAIService, PHIProtectionService } from './openai-service';
+import { MeasurementContext, estimateFeatureStandardErrors } from './score-uncertainty';
+import { RiskModel, extractModelFeatures, predictRiskProbability } from './risk-model';
+import { ScoringModelRegistry, shadowHistory } from './model-registry';
+import {
+  CONFIDENCE_Z,
+  DEFAULT_SCORING_POLICY,
+  RiskScoringPolicy,
+  ScoredFeature,
+  ScoringPolicyError,
+  describeBand,
+  matchesBand,
+  validateScoringPolicy
+} from './scoring-policy';
 
 interface ElevenLabsConfig {
   apiKey: string;
@@ -17,132 +65,544 @@ interface TwilioConfig {
 
 export class VoiceBiomarkerProcessor {
   // Voice biomarker extraction algorithms
-  // In production, this would interface with actual audio processing libraries
+  // Operates on decoded mono PCM; see AudioDecoder for supported recording formats
+  private pitchTracker: PitchTracker;
+  private spectralAnalyzer: SpectralAnalyzer;
+
+  constructor() {
+    this.pitchTracker = new PitchTracker();
+    this.spectralAnalyzer = new SpectralAnalyzer();
+  }
+
+  extractBiomarkers(audio: DecodedAudio): VoiceBiomarkers {
+    const pitch = this.pitchTracker.analyze(audio.samples, audio.sampleRate);
+    const jitterMeasures = calculateJitterMeasures(pitch.periods);
+    const shimmerMeasures = calculateShimmerMeasures(pitch.amplitudes);
+    const spectral = this.spectralAnalyzer.analyze(audio.samples, audio.sampleRate, pitch.frames);
 
-  extractBiomarkers(audioBuffer: ArrayBuffer): VoiceBiomarkers {
-    // Placeholder implementation - in production would use actual audio analysis
-    // Using mock values based on design specifications
     return {
-      jitter: this.calculateJitter(audioBuffer),
-      shimmer: this.calculateShimmer(audioBuffer),
-      hnr: this.calculateHNR(audioBuffer),
-      f0: this.calculateF0(audioBuffer),
-      spectralSlope: this.calculateSpectralSlope(audioBuffer),
-      voiceIntensity: this.calculateVoiceIntensity(audioBuffer)
+      jitter: this.round(jitterMeasures.local),
+      shimmer: this.round(shimmerMeasures.local),
+      hnr: this.calculateHNR(pitch),
+      f0: this.calculateF0(pitch),
+      spectralSlope: this.calculateSpectralSlope(spectral.spectralSlope),
+      voiceIntensity: this.calculateVoiceIntensity(audio),
+      perturbation: {
+        jitterLocal: this.round(jitterMeasures.local),
+        jitterRap: this.round(jitterMeasures.rap),
+        jitterPpq5: this.round(jitterMeasures.ppq5),
+        periodCount: jitterMeasures.periodCount,
+        shimmerLocal: this.round(shimmerMeasures.local),
+        shimmerApq3: this.round(shimmerMeasures.apq3),
+        shimmerApq5: this.round(shimmerMeasures.apq5),
+        shimmerApq11: this.round(shimmerMeasures.apq11)
+      },
+      extendedFeatures: spectral.features
     };
   }
 
-  private calculateJitter(audioBuffer: ArrayBuffer): number {
-    // Jitter: Cycle-to-cycle variation in fundamental frequency (%)
-    // Normal range: 0.2-1.0%, elevated in heart failure: 1.5-3.0%
-    const mockValue = 0.5 + Math.random() * 2.0; // 0.5-2.5%
-    return Math.round(mockValue * 100) / 100;
+  extractSegmentedBiomarkers(
+    audio: DecodedAudio,
+    segments: SpeechSegment[],
+    channel?: number
+  ): { biomarkers: VoiceBiomarkers; taskBiomarkers: TaskBiomarkers[] } {
+    // Each segment is analyzed on its own so pitch marks never span a gap or a speaker change
+    const analyzed = segments.map(segment => {
+      const result: SegmentBiomarkers = {
+        start: segment.start,
+        end: segment.end,
+        biomarkers: this.extractBiomarkers(sliceAudio(audio, segment, channel))
+      };
+      return { task: segment.task, result };
+    });
+
+    const taskBiomarkers: TaskBiomarkers[] = [];
+    for (const task of Array.from(new Set(analyzed.map(entry => entry.task)))) {
+      if (!task) continue;
+      const taskSegments = analyzed.filter(entry => entry.task === task).map(entry => entry.result);
+      taskBiomarkers.push({
+        task,
+        speechDuration: taskSegments.reduce((sum, segment) => sum + segment.end - segment.start, 0),
+        biomarkers: this.combineBiomarkers(taskSegments),
+        segments: taskSegments
+      });
+    }
+
+    return {
+      biomarkers: this.combineBiomarkers(analyzed.map(entry => entry.result)),
+      taskBiomarkers
+    };
   }
 
-  private calculateShimmer(audioBuffer: ArrayBuffer): number {
-    // Shimmer: Cycle-to-cycle variation in amplitude (%)
-    // Normal range: 2-4%, elevated in heart failure: 5-8%
-    const mockValue = 2.0 + Math.random() * 4.0; // 2.0-6.0%
-    return Math.round(mockValue * 100) / 100;
+  private combineBiomarkers(segments: SegmentBiomarkers[]): VoiceBiomarkers {
+    // Cycle-based measures are weighted by glottal cycles, level-based ones by duration
+    const cycles = (segment: SegmentBiomarkers) => segment.biomarkers.perturbation?.periodCount ?? 0;
+    const duration = (segment: SegmentBiomarkers) => segment.end - segment.start;
+    const weighted = (value: (b: VoiceBiomarkers) => number, weight: (s: SegmentBiomarkers) => number) => {
+      const total = segments.reduce((sum, segment) => sum + weight(segment), 0);
+      if (total === 0) return 0;
+      return this.round(segments.reduce((sum, segment) => sum + value(segment.biomarkers) * weight(segment), 0) / total);
+    };
+
+    return {
+      jitter: weighted(b => b.jitter, cycles),
+      shimmer: weighted(b => b.shimmer, cycles),
+      hnr: weighted(b => b.hnr, cycles),
+      f0: weighted(b => b.f0, cycles),
+      spectralSlope: weighted(b => b.spectralSlope, duration),
+      voiceIntensity: weighted(b => b.voiceIntensity, duration),
+      perturbation: {
+        jitterLocal: weighted(b => b.perturbation?.jitterLocal ?? 0, cycles),
+        jitterRap: weighted(b => b.perturbation?.jitterRap ?? 0, cycles),
+        jitterPpq5: weighted(b => b.perturbation?.jitterPpq5 ?? 0, cycles),
+        periodCount: segments.reduce((sum, segment) => sum + cycles(segment), 0),
+        shimmerLocal: weighted(b => b.perturbation?.shimmerLocal ?? 0, cycles),
+        shimmerApq3: weighted(b => b.perturbation?.shimmerApq3 ?? 0, cycles),
+        shimmerApq5: weighted(b => b.perturbation?.shimmerApq5 ?? 0, cycles),
+        shimmerApq11: weighted(b => b.perturbation?.shimmerApq11 ?? 0, cycles)
+      },
+      extendedFeatures: combineAcousticFeatures(
+        segments.map(segment => ({ features: segment.biomarkers.extendedFeatures, weight: duration(segment) }))
+      )
+    };
   }
 
-  private calculateHNR(audioBuffer: ArrayBuffer): number {
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private calculateHNR(pitch: PitchAnalysis): number {
     // Harmonics-to-Noise Ratio (dB)
     // Normal range: 15-25 dB, reduced in heart failure: 8-15 dB
-    const mockValue = 12 + Math.random() * 10; // 12-22 dB
-    return Math.round(mockValue * 100) / 100;
+    return this.round(calculateHarmonicsToNoise(pitch.frames));
   }
 
-  private calculateF0(audioBuffer: ArrayBuffer): number {
+  private calculateF0(pitch: PitchAnalysis): number {
     // Fundamental frequency (Hz) - varies by gender and age
     // Male: 85-180 Hz, Female: 165-265 Hz
-    const mockValue = 120 + Math.random() * 60; // 120-180 Hz
-    return Math.round(mockValue * 100) / 100;
+    const voiced = pitch.frames.filter(frame => frame.voiced);
+    if (voiced.length === 0) return 0;
+
+    const meanF0 = voiced.reduce((sum, frame) => sum + frame.f0, 0) / voiced.length;
+    return this.round(meanF0);
   }
 
-  private calculateSpectralSlope(audioBuffer: ArrayBuffer): number {
-    // Spectral slope indicating vocal tract changes
+  private calculateSpectralSlope(ltasSlope: number): number {
+    // Spectral slope indicating vocal tract changes, fitted to the long-term average spectrum
     // Units: dB/kHz, typically -12 to -6 dB/kHz
-    const mockValue = -12 + Math.random() * 6; // -12 to -6
-    return Math.round(mockValue * 100) / 100;
+    return this.round(ltasSlope);
   }
 
-  private calculateVoiceIntensity(audioBuffer: ArrayBuffer): number {
-    // Average voice intensity (dB SPL)
-    // Typical range: 50-75 dB SPL
-    const mockValue = 55 + Math.random() * 15; // 55-70 dB
-    return Math.round(mockValue * 100) / 100;
+  private calculateVoiceIntensity(audio: DecodedAudio): number {
+    // Average voice intensity (dB), Praat convention: samples taken as pascals re 20 µPa.
+    // Telephone speech at -20 to -30 dBFS lands in the typical 50-75 dB range
+    const { samples } = audio;
+    if (samples.length === 0) return 0;
+
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const meanSquare = sum / samples.length;
+    return this.round(Math.max(0, 10 * Math.log10(meanSquare / 4e-10 + 1e-12)));
   }
 }
 
+type TranscriptIndicators = NonNullable<VoiceAssessment['clinicalAnalysis']>['riskIndicators'];
+
+const ALERT_LEVEL_RANK: Record<AlertLevel, number> = { high: 1, critical: 2 };
+
+const TRANSCRIPT_INDICATORS: (keyof TranscriptIndicators)[] = ['breathlessness', 'fatigue', 'confusion', 'anxiety'];
+
+const TRANSCRIPT_INDICATOR_REASONS: Record<keyof TranscriptIndicators, string> = {
+  breathlessness: 'Breathlessness described or evident in responses',
+  fatigue: 'Fatigue reported in responses',
+  confusion: 'Confused or incoherent responses',
+  anxiety: 'Anxiety evident in responses'
+};
+
+export interface RiskContext {
+  baseline?: PatientBaseline;
+  profile?: ReferenceProfile; // sex and age for population reference ranges
+  measurement?: MeasurementContext; // segments and recording quality behind the biomarkers
+  clinical?: ClinicalContext; // comorbidities and heart failure severity
+}
+
+export type ClinicalContext = Pick<Patient['clinicalInfo'], 'nyhaClass' | 'ejectionFraction' | 'comorbidities'>;
+
 export class RiskAssessmentEngine {
   // Clinical risk scoring based on voice biomarkers
-  // Based on heart failure monitoring research and clinical guidelines
-
-  calculateRiskScore(biomarkers: VoiceBiomarkers): { score: number; level: RiskLevel; factors: string[] } {
-    let riskScore = 0;
-    const factors: string[] = [];
-
-    // Jitter analysis (weight: 20%)
-    if (biomarkers.jitter > 2.0) {
-      riskScore += 25;
-      factors.push('Elevated voice jitter indicating vocal cord stress');
-    } else if (biomarkers.jitter > 1.5) {
-      riskScore += 15;
-      factors.push('Moderate voice jitter elevation');
+  // Cutoffs, weights and level boundaries come from a versioned scoring policy
+  private referenceRanges: ReferenceRangeService;
+  private policy: RiskScoringPolicy;
+  private model?: RiskModel; // optional trained outcome model, reported alongside the policy score
+
+  constructor(
+    referenceRanges: ReferenceRangeService = new ReferenceRangeService(),
+    policy: RiskScoringPolicy = DEFAULT_SCORING_POLICY,
+    model?: RiskModel
+  ) {
+    const errors = validateScoringPolicy(policy);
+    if (errors.length > 0) {
+      throw new ScoringPolicyError(`Invalid scoring policy ${policy.version}`, errors);
     }
+    this.referenceRanges = referenceRanges;
+    this.policy = policy;
+    this.model = model;
+  }
+
+  get referenceRangeVersion(): string {
+    return this.referenceRanges.version;
+  }
 
-    // Shimmer analysis (weight: 20%)
-    if (biomarkers.shimmer > 6.0) {
-      riskScore += 25;
-      factors.push('High voice shimmer suggesting respiratory compromise');
-    } else if (biomarkers.shimmer > 4.5) {
-      riskScore += 15;
-      factors.push('Moderate shimmer elevation');
+  get policyVersion(): string {
+    return this.policy.version;
+  }
+
+  calculateRiskScore(
+    biomarkers: VoiceBiomarkers,
+    breathing?: BreathingMetrics,
+    context: RiskContext = {}
+  ): {
+    score: number;
+    level: RiskLevel;
+    factors: string[];
+    contributions: RiskContribution[];
+    interval: RiskInterval;
+    deviations?: BaselineDeviation[];
+    rangeFlags: RangeFlag[];
+  } {
+    // Out-of-range values are always flagged; once the patient has an established
+    // baseline, voice features are scored as change from their own usual voice instead
+    const rangeFlags = BASELINE_FEATURES
+      .map(feature => this.referenceRanges.classify(feature, biomarkers[feature], context.profile))
+      .filter((flag): flag is RangeFlag => flag !== undefined);
+    const deviations = context.baseline?.status === 'established'
+      ? calculateBaselineDeviations(context.baseline, biomarkers)
+      : undefined;
+    const voice = this.adjustForClinicalContext(
+      deviations ? this.scoreAgainstBaseline(deviations) : this.scoreAgainstPopulation(rangeFlags),
+      context.clinical
+    );
+
+    // Breathing analysis from the counting task - breathlessness mid-sentence is
+    // the decompensation sign nurses listen for most
+    const breathingContributions: RiskContribution[] = [];
+    if (breathing) {
+      for (const rule of this.policy.breathing) {
+        if (rule.requires && !rule.requires.every(condition => matchesBand(breathing[condition.feature], condition))) continue;
+
+        const band = rule.bands.find(candidate => matchesBand(breathing[rule.feature], candidate));
+        if (!band || band.points === 0) continue;
+
+        breathingContributions.push(this.contribution(rule.feature, breathing[rule.feature], describeBand(band), band.points, band.factor));
+      }
     }
 
-    // HNR analysis (weight: 25%) - most important for heart failure
-    if (biomarkers.hnr < 10.0) {
-      riskScore += 30;
-      factors.push('Low harmonics-to-noise ratio indicating voice quality degradation');
-    } else if (biomarkers.hnr < 15.0) {
-      riskScore += 20;
-      factors.push('Reduced voice clarity');
+    const breathingFindings = this.adjustForClinicalContext(breathingContributions, context.clinical);
+    const prior = this.priorRisk(context.clinical);
+
+    // Ensure score is within 0-100 range
+    const contributions = [...voice, ...breathingFindings, ...prior];
+    const riskScore = this.clampScore(contributions.reduce((sum, entry) => sum + entry.points, 0));
+    const factors = contributions.map(entry => entry.reason);
+    const fixedPoints = [...breathingFindings, ...prior].reduce((sum, entry) => sum + entry.points, 0);
+    const interval = this.scoreInterval(biomarkers, context, fixedPoints);
+
+    return { score: riskScore, level: this.levelForScore(riskScore), factors, contributions, interval, deviations, rangeFlags };
+  }
+
+  // Uncertainty band of the acoustic score: each voice feature may be off by z standard
+  // errors, and the band spans the lowest and highest points reachable within that margin.
+  // Breathing metrics are counted events and prior risk is known, so both keep their points.
+  private scoreInterval(biomarkers: VoiceBiomarkers, context: RiskContext, fixedPoints: number): RiskInterval {
+    const { confidenceLevel } = this.policy.uncertainty;
+    const z = CONFIDENCE_Z[String(confidenceLevel)];
+    const errors = estimateFeatureStandardErrors(biomarkers, context.measurement, this.policy.uncertainty);
+    const byBaseline = context.baseline?.status === 'established';
+    let lower = fixedPoints;
+    let upper = fixedPoints;
+
+    for (const feature of BASELINE_FEATURES) {
+      const value = biomarkers[feature];
+      const margin = z * errors[feature];
+      const candidates = [value - margin, value, value + margin];
+
+      // Population points are lowest inside the normal range, which may lie within the margin
+      const range = byBaseline ? undefined : this.referenceRanges.findRange(feature, context.profile);
+      for (const bound of [range?.normal.min, range?.normal.max]) {
+        if (bound !== undefined && bound > value - margin && bound < value + margin) candidates.push(bound);
+      }
+
+      const points = candidates.map(candidate => this.featurePoints(feature, candidate, biomarkers, context));
+      lower += Math.min(...points);
+      upper += Math.max(...points);
     }
 
-    // Voice intensity analysis (weight: 15%)
-    if (biomarkers.voiceIntensity < 50.0) {
-      riskScore += 20;
-      factors.push('Weak voice intensity suggesting fatigue');
-    } else if (biomarkers.voiceIntensity < 55.0) {
-      riskScore += 10;
-      factors.push('Slightly reduced voice intensity');
+    return { lower: this.clampScore(lower), upper: this.clampScore(upper), confidenceLevel };
+  }
+
+  private featurePoints(feature: BaselineFeature, value: number, biomarkers: VoiceBiomarkers, context: RiskContext): number {
+    const findings = context.baseline?.status === 'established'
+      ? this.scoreAgainstBaseline(
+          calculateBaselineDeviations(context.baseline, { ...biomarkers, [feature]: value })
+            .filter(deviation => deviation.feature === feature)
+        )
+      : this.scoreAgainstPopulation(
+          [this.referenceRanges.classify(feature, value, context.profile)]
+            .filter((flag): flag is RangeFlag => flag !== undefined)
+        );
+    return this.adjustForClinicalContext(findings, context.clinical).reduce((sum, entry) => sum + entry.points, 0);
+  }
+
+  // Comorbidities discount the findings they already explain (shimmer in COPD, jitter with
+  // vocal cord pathology); in advanced heart failure every finding weighs more
+  private adjustForClinicalContext(findings: RiskContribution[], clinical?: ClinicalContext): RiskContribution[] {
+    if (!clinical) return findings;
+    const { comorbidities, advancedHeartFailure } = this.policy.clinicalContext;
+    const advanced = this.isAdvancedHeartFailure(clinical);
+
+    return findings.map(entry => {
+      let weight = 1;
+      const adjustments: string[] = [];
+      for (const comorbidity of clinical.comorbidities ?? []) {
+        const featureWeight = comorbidities[comorbidity]?.featureWeights[entry.feature as ScoredFeature];
+        if (featureWeight === undefined || featureWeight === 1) continue;
+        weight *= featureWeight;
+        adjustments.push(`x${featureWeight} ${comorbidities[comorbidity].label}`);
+      }
+      if (advanced && advancedHeartFailure.findingWeight !== 1) {
+        weight *= advancedHeartFailure.findingWeight;
+        adjustments.push(`x${advancedHeartFailure.findingWeight} advanced heart failure`);
+      }
+      if (adjustments.length === 0) return entry;
+
+      const points = Math.round(entry.points * weight * 10) / 10;
+      return { ...entry, points, weightedPoints: points, adjustments };
+    });
+  }
+
+  // Risk the patient carries regardless of how the call sounded
+  private priorRisk(clinical?: ClinicalContext): RiskContribution[] {
+    if (!clinical) return [];
+    const { comorbidities, advancedHeartFailure } = this.policy.clinicalContext;
+    const prior: RiskContribution[] = [];
+
+    for (const comorbidity of clinical.comorbidities ?? []) {
+      const modifier = comorbidities[comorbidity];
+      if (!modifier || modifier.priorPoints === 0) continue;
+      prior.push(this.contribution(comorbidity, 1, 'documented comorbidity', modifier.priorPoints, modifier.reason));
+    }
+    if (this.isAdvancedHeartFailure(clinical) && advancedHeartFailure.priorPoints > 0) {
+      prior.push(this.contribution(
+        'nyhaClass',
+        clinical.nyhaClass,
+        `NYHA >= ${advancedHeartFailure.minNyhaClass} with EF ${clinical.ejectionFraction}% (<= ${advancedHeartFailure.maxEjectionFraction}%)`,
+        advancedHeartFailure.priorPoints,
+        'Advanced heart failure with reduced ejection fraction'
+      ));
     }
 
-    // Spectral slope analysis (weight: 20%)
-    if (biomarkers.spectralSlope < -10.0) {
-      riskScore += 15;
-      factors.push('Altered spectral characteristics');
+    return prior;
+  }
+
+  private isAdvancedHeartFailure(clinical: ClinicalContext): boolean {
+    const { minNyhaClass, maxEjectionFraction } = this.policy.clinicalContext.advancedHeartFailure;
+    return clinical.nyhaClass >= minNyhaClass &&
+      clinical.ejectionFraction !== undefined &&
+      clinical.ejectionFraction <= maxEjectionFraction;
+  }
+
+  private clampScore(score: number): number {
+    return Math.min(100, Math.max(0, Math.round(score)));
+  }
+
+  // Composite risk: acoustic score fused with the transcript indicators from the LLM analysis.
+  //   transcript score = weighted sum of the indicators (policy indicatorWeights)
+  //   transcript weight = policy transcriptMaxWeight x analysis confidence (0-1)
+  //   acoustic weight = 1 - transcript weight; composite = sum of weight x score, rounded
+  // Without a transcript analysis the acoustic score is the composite.
+  // The explanation lists every contribution with its points scaled by the component weight.
+  // The uncertainty band carries the acoustic band through; the transcript's weight already
+  // reflects the confidence of its analysis.
+  combineRiskScores(
+    acoustic: { score: number; factors: string[]; contributions?: RiskContribution[]; interval?: RiskInterval },
+    clinicalAnalysis?: VoiceAssessment['clinicalAnalysis']
+  ): { score: number; level: RiskLevel; components: RiskComponent[]; explanation: RiskContribution[]; interval?: RiskInterval } {
+    const components: RiskComponent[] = [];
+    const explanation: RiskContribution[] = [];
+
+    if (clinicalAnalysis) {
+      const indicators = clinicalAnalysis.riskIndicators;
+      const { indicatorWeights, transcriptMaxWeight } = this.policy.composite;
+      const transcriptScore =
+        indicators.breathlessness * indicatorWeights.breathlessness +
+        indicators.fatigue * indicatorWeights.fatigue +
+        indicators.confusion * indicatorWeights.confusion +
+        indicators.anxiety * indicatorWeights.anxiety;
+      const transcriptWeight = transcriptMaxWeight * Math.min(1, Math.max(0, clinicalAnalysis.confidence / 100));
+
+      components.push(this.riskComponent('acoustic', acoustic.score, 1 - transcriptWeight, acoustic.factors));
+      components.push(this.riskComponent('transcript', transcriptScore, transcriptWeight, this.transcriptFactors(indicators)));
+      explanation.push(...this.weighted(acoustic.contributions ?? [], 1 - transcriptWeight));
+
+      for (const indicator of TRANSCRIPT_INDICATORS) {
+        const points = indicators[indicator] * indicatorWeights[indicator];
+        if (points <= 0) continue;
+
+        explanation.push({
+          component: 'transcript',
+          feature: indicator,
+          value: indicators[indicator],
+          band: `weight ${indicatorWeights[indicator]}`,
+          points: Math.round(points * 10) / 10,
+          weightedPoints: Math.round(points * transcriptWeight * 10) / 10,
+          reason: TRANSCRIPT_INDICATOR_REASONS[indicator]
+        });
+      }
+    } else {
+      components.push(this.riskComponent('acoustic', acoustic.score, 1, acoustic.factors));
+      explanation.push(...this.weighted(acoustic.contributions ?? [], 1));
     }
 
-    // Ensure score is within 0-100 range
-    riskScore = Math.min(100, Math.max(0, riskScore));
+    const composite = (acousticScore: number) => this.clampScore(
+      components.reduce((sum, component) => sum + (component.component === 'acoustic' ? acousticScore : component.score) * component.weight, 0)
+    );
+    const score = composite(acoustic.score);
+    const interval = acoustic.interval && {
+      lower: Math.min(score, composite(acoustic.interval.lower)),
+      upper: Math.max(score, composite(acoustic.interval.upper)),
+      confidenceLevel: acoustic.interval.confidenceLevel
+    };
+
+    return { score, level: this.levelForScore(score), components, explanation, interval };
+  }
 
-    // Determine risk level
-    let level: RiskLevel;
-    if (riskScore >= 80) level = 'critical';
-    else if (riskScore >= 60) level = 'high';
-    else if (riskScore >= 35) level = 'medium';
-    else level = 'low';
+  private contribution(feature: string, value: number, band: string, points: number, reason: string): RiskContribution {
+    return { component: 'acoustic', feature, value, band, points, weightedPoints: points, reason };
+  }
 
-    return { score: riskScore, level, factors };
+  private weighted(contributions: RiskContribution[], weight: number): RiskContribution[] {
+    return contributions.map(entry => ({ ...entry, weightedPoints: Math.round(entry.points * weight * 10) / 10 }));
   }
 
-  shouldGenerateAlert(currentRisk: number, previousRisk?: number): boolean {
-    // Generate alert if risk crosses thresholds or increases significantly
-    if (currentRisk >= 80) return true; // Critical risk always alerts
-    if (currentRisk >= 60 && (!previousRisk || previousRisk < 60)) return true; // New high risk
-    if (previousRisk && currentRisk - previousRisk >= 20) return true; // Significant increase
+  private riskComponent(component: RiskComponent['component'], score: number, weight: number, factors: string[]): RiskComponent {
+    return {
+      component,
+      score: Math.round(score * 10) / 10,
+      weight: Math.round(weight * 1000) / 1000,
+      contribution: Math.round(score * weight * 10) / 10,
+      factors
+    };
+  }
+
+  private transcriptFactors(indicators: TranscriptIndicators): string[] {
+    return TRANSCRIPT_INDICATORS
+      .filter(indicator => indicators[indicator] >= this.policy.composite.factorThreshold)
+      .map(indicator => TRANSCRIPT_INDICATOR_REASONS[indicator]);
+  }
+
+  private levelForScore(score: number): RiskLevel {
+    const { levels } = this.policy;
+    if (score >= levels.critical) return 'critical';
+    if (score >= levels.high) return 'high';
+    if (score >= levels.medium) return 'medium';
+    return 'low';
+  }
+
+  private scoreAgainstPopulation(rangeFlags: RangeFlag[]): RiskContribution[] {
+    const contributions: RiskContribution[] = [];
+
+    for (const flag of rangeFlags) {
+      if (flag.classification === 'normal') continue;
+
+      const rule = this.policy.voice[flag.feature];
+      const points = rule.points[flag.classification];
+      if (points === 0) continue;
+
+      const band = `${flag.classification} (normal ${describeBounds(flag.range.normal)}, borderline ${describeBounds(flag.range.borderline)})`;
+      contributions.push(this.contribution(flag.feature, flag.value, band, points, rule.factors[flag.classification]));
+    }
+
+    return contributions;
+  }
+
+  private scoreAgainstBaseline(deviations: BaselineDeviation[]): RiskContribution[] {
+    // A moderate adverse deviation scores borderline points and a marked one abnormal points.
+    // Features without an adverse direction (F0) are not scored against the baseline.
+    const { moderateZ, markedZ } = this.policy.baselineDeviation;
+    const contributions: RiskContribution[] = [];
+
+    for (const deviation of deviations) {
+      const rule = this.policy.voice[deviation.feature];
+      if (rule.direction === 0) continue;
+
+      const adverse = deviation.zScore * rule.direction;
+      if (adverse < moderateZ) continue;
+
+      const marked = adverse >= markedZ;
+      contributions.push(this.contribution(
+        deviation.feature,
+        deviation.value,
+        `${marked ? 'marked' : 'moderate'} change (baseline ${deviation.mean.toFixed(2)} ± ${deviation.standardDeviation.toFixed(2)}, z ${deviation.zScore.toFixed(1)})`,
+        marked ? rule.points.abnormal : rule.points.borderline,
+        `${rule.label} ${Math.abs(deviation.zScore).toFixed(1)} SD ${deviation.zScore > 0 ? 'above' : 'below'} personal baseline`
+      ));
+    }
+
+    return contributions;
+  }
+
+  // Alert decision against the patient's prior assessments. Alert levels have hysteresis:
+  // a level is entered at its threshold and held until the score falls more than the
+  // policy's hysteresis below it, so a score hovering at a boundary does not flap. An alert
+  // fires when the level escalates or the score rises significantly since the last scored call.
+  evaluateAlert(
+    current: { score: number; interval?: RiskInterval },
+    history: VoiceAssessment[] = []
+  ): { generate: boolean; level?: AlertLevel; reasons: string[] } {
+    const { levels, alerts } = this.policy;
+    const risk = current.interval && alerts.suppressWhenUncertain ? current.interval.lower : current.score;
+    const previous = history
+      .filter(assessment => assessment.riskLevel !== undefined)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .pop();
+
+    const held = (level: AlertLevel) =>
+      risk >= levels[level] || (previous?.alertLevel !== undefined &&
+        ALERT_LEVEL_RANK[previous.alertLevel] >= ALERT_LEVEL_RANK[level] &&
+        risk >= levels[level] - alerts.hysteresis);
+    const level: AlertLevel | undefined = held('critical') ? 'critical' : held('high') ? 'high' : undefined;
+
+    const reasons: string[] = [];
+    const previousRank = previous?.alertLevel ? ALERT_LEVEL_RANK[previous.alertLevel] : 0;
+    if (level && ALERT_LEVEL_RANK[level] > previousRank) {
+      reasons.push(`Risk reached ${level} level (${current.score})`);
+    }
+    if (previous && risk - previous.riskScore >= alerts.significantIncrease) {
+      reasons.push(`Risk rose ${Math.round(current.score - previous.riskScore)} points since the previous assessment`);
+    }
+
+    return { generate: reasons.length > 0, level, reasons };
+  }
+
+  // Calibrated event probability from the trained model, when one is loaded
+  predictOutcome(assessment: VoiceAssessment): ModelPrediction | undefined {
+    if (!this.model) return undefined;
+    return {
+      modelVersion: this.model.version,
+      probability: predictRiskProbability(this.model, extractModelFeatures(assessment)),
+      horizonDays: this.model.horizonDays
+    };
+  }
+
+  // Stateless check of a single score, optionally against one previous score
+  shouldGenerateAlert(currentRisk: number, previousRisk?: number, interval?: RiskInterval): boolean {
+    // Generate alert if risk crosses thresholds or increases significantly. An uncertain
+    // score is judged on the lower bound of its band unless the policy allows otherwise.
+    const { levels, alerts } = this.policy;
+    const risk = interval && alerts.suppressWhenUncertain ? interval.lower : currentRisk;
+    if (risk >= levels.critical) return true; // Critical risk always alerts
+    if (risk >= levels.high && (!previousRisk || previousRisk < levels.high)) return true; // New high risk
+    if (previousRisk && risk - previousRisk >= alerts.significantIncrease) return true; // Significant increase
     
     return false;
   }
@@ -151,10 +611,18 @@ export class RiskAssessmentEngine {
 export class VoiceCallService {
   private elevenLabsConfig: ElevenLabsConfig;
   private twilioConfig: TwilioConfig;
+  private audioDecoder: AudioDecoder;
+  private segmenter: CallSegmenter;
+  private breathingAnalyzer: BreathingAnalyzer;
   private biomarkerProcessor: VoiceBiomarkerProcessor;
-  private riskEngine: RiskAssessmentEngine;
+  private qualityAssessor: AudioQualityAssessor;
+  private referenceRanges: ReferenceRangeService;
+  private modelRegistry: ScoringModelRegistry;
+  private phiProtection: PHIProtectionService;
+  private openAIService: HeartVoiceOpenAIService;
 
-  constructor() {
+  // The API routes pass the shared, database-backed registry; the default serves tests and scripts
+  constructor(modelRegistry: ScoringModelRegistry = new ScoringModelRegistry()) {
     // Configuration would come from environment variables in production
     this.elevenLabsConfig = {
       apiKey: process.env.ELEVENLABS_API_KEY || '',
@@ -168,8 +636,15 @@ export class VoiceCallService {
       fromNumber: process.env.TWILIO_FROM_NUMBER || ''
     };
 
+    this.audioDecoder = new AudioDecoder({ mp3Decoder: new Mpg123Decoder() });
+    this.segmenter = new CallSegmenter();
+    this.breathingAnalyzer = new BreathingAnalyzer();
     this.biomarkerProcessor = new VoiceBiomarkerProcessor();
-    this.riskEngine = new RiskAssessmentEngine();
+    this.qualityAssessor = new AudioQualityAssessor();
+    this.referenceRanges = new ReferenceRangeService();
+    this.modelRegistry = modelRegistry;
+    this.phiProtection = new PHIProtectionService();
+    this.openAIService = new HeartVoiceOpenAIService();
   }
 
   async initiatePatientCall(patientId: string, phoneNumber: string): Promise<string> {
@@ -191,39 +666,126 @@ export class VoiceCallService {
     }
   }
 
+  // A call answered one prompt per recording yields one assessment per prompt
+  assessmentIdFor(sessionId: string, task?: AssessmentTask): string {
+    return task ? `assessment_${sessionId}_${task}` : `assessment_${sessionId}`;
+  }
+
   async processVoiceAssessment(
     sessionId: string,
     patientId: string,
     audioData: ArrayBuffer,
     transcript: string,
-    callDuration: number
+    callDuration: number,
+    options: {
+      contentType?: string;
+      task?: AssessmentTask;
+      baseline?: PatientBaseline;
+      profile?: ReferenceProfile;
+      clinical?: ClinicalContext;
+      history?: VoiceAssessment[]; // the patient's stored prior assessments, for the alert decision
+    } = {}
   ): Promise<VoiceAssessment> {
-    
+    const assessmentId = this.assessmentIdFor(sessionId, options.task);
+    // Compare like with like: an answer is judged against earlier answers to the same prompt,
+    // not against the other answers given in the same call
+    const history = (options.history ?? []).filter(item => item.task === options.task);
+
     try {
-      // Extract voice biomarkers from audio
-      const biomarkers = this.biomarkerProcessor.extractBiomarkers(audioData);
+      // Decode the recording; corrupt or truncated audio throws AudioDecodingError
+      const audio = await this.audioDecoder.decode(audioData, { contentType: options.contentType });
+
+      // Keep only patient speech: a single-prompt recording is trimmed of silence,
+      // a whole-call recording is split into per-question answers
+      const segmentation = options.task
+        ? { patientChannel: null, patientSegments: this.segmenter.segmentResponse(audio, options.task) }
+        : this.segmenter.segmentCall(audio);
+
+      if (segmentation.patientSegments.length === 0) {
+        throw new Error('No patient speech detected in recording');
+      }
+
+      // Extract voice biomarkers per task and per segment
+      const { biomarkers, taskBiomarkers } = this.biomarkerProcessor.extractSegmentedBiomarkers(
+        audio,
+        segmentation.patientSegments,
+        segmentation.patientChannel ?? undefined
+      );
+
+      // Breathing metrics from the counting task
+      const breathingMetrics = this.analyzeCountingTask(
+        audio,
+        segmentation.patientSegments,
+        segmentation.patientChannel ?? undefined
+      );
+
+      // Measure recording quality; a whole-call recording is expected to answer every prompt
+      const expectedTasks = options.task ? [options.task] : segmentation.patientChannel !== null ? ASSESSMENT_TASK_ORDER : [];
+      const qualityMetrics = this.qualityAssessor.assess(audio, segmentation, biomarkers, taskBiomarkers, expectedTasks);
+
+      // Unusable recordings are flagged for a repeat call instead of being scored
+      if (!qualityMetrics.usable) {
+        console.warn(`Assessment ${sessionId} flagged as unusable: ${qualityMetrics.issues?.join('; ')}`);
+      }
 
-      // Calculate quality metrics
-      const qualityMetrics = this.assessAudioQuality(audioData);
+      // Transcript analysis runs alongside the acoustic pipeline when the call was transcribed
+      const conversationFlow = taskBiomarkers.length > 0 ? taskBiomarkers.map(entry => entry.task) : ['response'];
+      const clinicalAnalysis = await this.analyzeTranscript(sessionId, transcript, conversationFlow);
 
-      // Calculate risk score
-      const riskAssessment = this.riskEngine.calculateRiskScore(biomarkers);
+      // Calculate risk score: acoustic score first, then fused with the transcript indicators.
+      // The engine is built per assessment so a newly activated policy applies to the next call.
+      const riskEngine = new RiskAssessmentEngine(
+        this.referenceRanges,
+        this.modelRegistry.getActivePolicy(),
+        this.modelRegistry.getActiveModel()
+      );
+      const riskContext: RiskContext = {
+        baseline: options.baseline,
+        profile: options.profile,
+        clinical: options.clinical,
+        measurement: { segments: taskBiomarkers.flatMap(entry => entry.segments), quality: qualityMetrics.measurements }
+      };
+      const riskAssessment = qualityMetrics.usable
+        ? riskEngine.calculateRiskScore(biomarkers, breathingMetrics, riskContext)
+        : null;
+      const composite = riskAssessment
+        ? riskEngine.combineRiskScores(riskAssessment, clinicalAnalysis)
+        : null;
 
-      // Generate alert if needed
-      const alertGenerated = this.riskEngine.shouldGenerateAlert(riskAssessment.score);
+      // Generate alert if needed, judged against the patient's previous assessments
+      const alertDecision = composite ? riskEngine.evaluateAlert(composite, history) : null;
 
       const assessment: VoiceAssessment = {
-        id: `assessment_${sessionId}`,
+        id: assessmentId,
         patientId,
         sessionId,
+        task: options.task,
         timestamp: new Date().toISOString(),
         callDuration,
-        callStatus: 'completed',
+        callStatus: qualityMetrics.usable ? 'completed' : 'partial',
         biomarkers,
+        taskBiomarkers,
+        breathingMetrics,
+        baselineDeviations: riskAssessment?.deviations,
+        referenceRangeVersion: riskAssessment ? riskEngine.referenceRangeVersion : undefined,
+        scoringPolicyVersion: riskAssessment ? riskEngine.policyVersion : undefined,
+        scoringContext: riskAssessment
+          ? { baseline: options.baseline, profile: options.profile, clinical: options.clinical }
+          : undefined,
         qualityMetrics,
-        riskScore: riskAssessment.score,
-        alertGenerated
+        clinicalAnalysis,
+        riskScore: composite ? composite.score : 0,
+        riskLevel: composite?.level,
+        riskComponents: composite?.components,
+        riskExplanation: composite?.explanation,
+        riskInterval: composite?.interval,
+        alertLevel: alertDecision?.level,
+        alertGenerated: alertDecision?.generate ?? false
       };
+      if (riskAssessment) {
+        assessment.modelPrediction = riskEngine.predictOutcome(assessment);
+        assessment.shadowScores = this.scoreShadows(assessment, riskContext, history);
+      }
 
       return assessment;
     } catch (error) {
@@ -231,16 +793,19 @@ export class VoiceCallService {
       
       // Return minimal assessment with error status
       return {
-        id: `assessment_${sessionId}`,
+        id: assessmentId,
         patientId,
         sessionId,
+        task: options.task,
         timestamp: new Date().toISOString(),
         callDuration,
         callStatus: 'failed',
         qualityMetrics: {
           audioQuality: 0,
           backgroundNoise: 100,
-          completeness: 0
+          completeness: 0,
+          usable: false,
+          issues: [error instanceof Error ? error.message : String(error)]
         },
         riskScore: 0,
         alertGenerated: false
@@ -248,18 +813,178 @@ export class VoiceCallService {
     }
   }
 
-  private assessAudioQuality(audioData: ArrayBuffer): {
-    audioQuality: number;
-    backgroundNoise: number;
-    completeness: number;
-  } {
-    // Audio quality assessment algorithms
-    // In production, would analyze actual audio characteristics
-    
+  // Candidate policies and models in shadow score the same inputs as production. Their results
+  // are only recorded for comparison; a failing candidate is logged and left out.
+  scoreShadows(assessment: VoiceAssessment, context: RiskContext, history: VoiceAssessment[] = []): ShadowScore[] {
+    if (!assessment.biomarkers) return [];
+    const scores: ShadowScore[] = [];
+
+    for (const policy of this.modelRegistry.getShadowPolicies()) {
+      try {
+        const engine = new RiskAssessmentEngine(this.referenceRanges, policy);
+        const acoustic = engine.calculateRiskScore(assessment.biomarkers, assessment.breathingMetrics, context);
+        const composite = engine.combineRiskScores(acoustic, assessment.clinicalAnalysis);
+        const alert = engine.evaluateAlert(composite, shadowHistory(history, 'policy', policy.version));
+        scores.push({
+          kind: 'policy',
+          version: policy.version,
+          riskScore: composite.score,
+          riskLevel: composite.level,
+          alertLevel: alert.level,
+          alertGenerated: alert.generate
+        });
+      } catch (error) {
+        console.error(`Shadow policy ${policy.version} failed for ${assessment.id}:`, error);
+      }
+    }
+
+    for (const model of this.modelRegistry.getShadowModels()) {
+      try {
+        const probability = predictRiskProbability(model, extractModelFeatures(assessment));
+        scores.push({ kind: 'model', version: model.version, riskScore: Math.round(probability * 1000) / 10 });
+      } catch (error) {
+        console.error(`Shadow model ${model.version} failed for ${assessment.id}:`, error);
+      }
+    }
+
+    return scores;
+  }
+
+  // Twilio transcribes an answer after the call ends, so its assessment is first scored on the
+  // acoustics alone. Fuses the transcript in with the policy that scored the acoustics and
+  // re-decides the alert; null when the assessment was not scored, already has a transcript
+  // analysis, or the transcript cannot be analyzed.
+  async applyTranscript(
+    assessment: VoiceAssessment,
+    transcript: string,
+    history: VoiceAssessment[] = []
+  ): Promise<VoiceAssessment | null> {
+    const acoustic = assessment.riskComponents?.find(component => component.component === 'acoustic');
+    if (!acoustic || assessment.clinicalAnalysis) return null;
+
+    const conversationFlow = assessment.taskBiomarkers?.length
+      ? assessment.taskBiomarkers.map(entry => entry.task)
+      : ['response'];
+    const clinicalAnalysis = await this.analyzeTranscript(assessment.sessionId, transcript, conversationFlow);
+    if (!clinicalAnalysis) return null;
+
+    const policy = (assessment.scoringPolicyVersion && this.modelRegistry.getPolicy(assessment.scoringPolicyVersion)) ||
+      this.modelRegistry.getActivePolicy();
+    const riskEngine = new RiskAssessmentEngine(this.referenceRanges, policy, this.modelRegistry.getActiveModel());
+    // Without a transcript the stored composite is the acoustic score, explanation and band
+    const composite = riskEngine.combineRiskScores(
+      {
+        score: acoustic.score,
+        factors: acoustic.factors,
+        contributions: (assessment.riskExplanation ?? []).filter(entry => entry.component === 'acoustic'),
+        interval: assessment.riskInterval
+      },
+      clinicalAnalysis
+    );
+    const priorHistory = history.filter(item => item.task === assessment.task && item.id !== assessment.id);
+    const alertDecision = riskEngine.evaluateAlert(composite, priorHistory);
+
+    const revised: VoiceAssessment = {
+      ...assessment,
+      clinicalAnalysis,
+      riskScore: composite.score,
+      riskLevel: composite.level,
+      riskComponents: composite.components,
+      riskExplanation: composite.explanation,
+      riskInterval: composite.interval,
+      alertLevel: alertDecision.level,
+      alertGenerated: alertDecision.generate
+    };
+    revised.modelPrediction = riskEngine.predictOutcome(revised);
+    revised.shadowScores = this.fuseShadowTranscript(revised, priorHistory);
+    return revised;
+  }
+
+  // Shadow policies stored their acoustic-only composite, which fuses the same way as production's;
+  // shadow models read the transcript indicators among their features and are re-run
+  private fuseShadowTranscript(assessment: VoiceAssessment, history: VoiceAssessment[]): ShadowScore[] | undefined {
+    return assessment.shadowScores?.map(shadow => {
+      try {
+        if (shadow.kind === 'policy') {
+          const policy = this.modelRegistry.getPolicy(shadow.version);
+          if (!policy) return shadow;
+          const engine = new RiskAssessmentEngine(this.referenceRanges, policy);
+          const composite = engine.combineRiskScores({ score: shadow.riskScore, factors: [] }, assessment.clinicalAnalysis);
+          const alert = engine.evaluateAlert(composite, shadowHistory(history, 'policy', policy.version));
+          return {
+            ...shadow,
+            riskScore: composite.score,
+            riskLevel: composite.level,
+            alertLevel: alert.level,
+            alertGenerated: alert.generate
+          };
+        }
+
+        const model = this.modelRegistry.getModel(shadow.version);
+        if (!model) return shadow;
+        const probability = predictRiskProbability(model, extractModelFeatures(assessment));
+        return { ...shadow, riskScore: Math.round(probability * 1000) / 10 };
+      } catch (error) {
+        console.error(`Shadow ${shadow.kind} ${shadow.version} failed for ${assessment.id}:`, error);
+        return shadow;
+      }
+    });
+  }
+
+  private async analyzeTranscript(
+    sessionId: string,
+    transcript: string,
+    conversationFlow: string[]
+  ): Promise<VoiceAssessment['clinicalAnalysis']> {
+    if (!transcript.trim()) return undefined;
+
+    try {
+      // Only the deidentified transcript leaves our systems
+      const request: SafeVoiceAnalysisRequest = {
+        sessionId,
+        deidentifiedTranscript: await this.phiProtection.deidentifyTranscript(transcript),
+        conversationFlow,
+        clinicalContext: 'heart_failure_monitoring',
+        timestamp: new Date().toISOString()
+      };
+      return await this.openAIService.analyzeClinicalVoice(request);
+    } catch (error) {
+      // The acoustic score stands on its own if the transcript cannot be analyzed
+      console.error(`Transcript analysis failed for session ${sessionId}:`, error);
+      return undefined;
+    }
+  }
+
+  private analyzeCountingTask(
+    audio: DecodedAudio,
+    segments: SpeechSegment[],
+    channel?: number
+  ): BreathingMetrics | undefined {
+    const counting = segments.filter(segment => segment.task === 'counting');
+    if (counting.length === 0) return undefined;
+
+    // Analyze the whole answer, pauses included - the pauses are what we measure
+    const span = { start: counting[0].start, end: counting[counting.length - 1].end };
+    return this.breathingAnalyzer.analyze(sliceAudio(audio, span, channel)) ?? undefined;
+  }
+
+  async fetchRecording(recordingUrl: string): Promise<{ audioData: ArrayBuffer; contentType: string }> {
+    // Twilio serves the original-quality WAV when the recording URL has no extension;
+    // .mp3 links are for playback only
+    const url = recordingUrl.replace(/\.(mp3|json)$/, '');
+    const credentials = Buffer.from(`${this.twilioConfig.accountSid}:${this.twilioConfig.authToken}`).toString('base64');
+
+    const response = await fetch(url, {
+      headers: { Authorization: `Basic ${credentials}` }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Recording download failed: ${response.status} ${response.statusText}`);
+    }
+
     return {
-      audioQuality: 75 + Math.random() * 20, // 75-95%
-      backgroundNoise: Math.random() * 30, // 0-30%
-      completeness: 80 + Math.random() * 20 // 80-100%
+      audioData: await response.arrayBuffer(),
+      contentType: response.headers.get('content-type') || 'audio/wav'
     };
   }
 
@@ -3,12 +3,19 @@
 
 export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
 
+export type RiskTrend = 'improving' | 'stable' | 'deteriorating';
+
+export type AlertLevel = 'high' | 'critical'; // risk levels that raise clinical alerts
+
+export type Comorbidity = 'copd' | 'asthma' | 'ckd' | 'vocal-cord-pathology' | 'prior-stroke';
+
 export interface Patient {
   id: string;
   demographics: {
     firstName: string;
     lastName: string;
     dateOfBirth: string;
+    sexAtBirth: SexAtBirth;
     mrn: string; // Medical Record Number
     phoneNumber: string;
     email?: string;
@@ -17,6 +24,7 @@ export interface Patient {
     diagnosisDate: string;
     ejectionFraction?: number;
     nyhaClass: 1 | 2 | 3 | 4; // NYHA Heart Failure Classification
+    comorbidities: Comorbidity[]; // conditions that change how voice findings are interpreted
     medications: string[];
     allergies: string[];
     emergencyContact: {
@@ -31,13 +39,58 @@ export interface Patient {
     assessmentFrequency: 'daily' | 'weekly' | 'bi-weekly';
     preferredCallTimes: string[];
     timezone: string;
+    site?: string; // clinic the patient is enrolled through, for per-site monitoring
   };
   currentRisk: {
     score: number; // 0-100
     level: RiskLevel;
     lastUpdated: string;
-    trend: 'improving' | 'stable' | 'deteriorating';
+    trend: RiskTrend;
+    trendEvidence?: TrendEvidence; // absent when the trend was set by hand
+    interval?: RiskInterval; // uncertainty band of the latest scored assessment
   };
+  baseline?: PatientBaseline;
+  version?: number; // incremented on every save; the record's ETag
+}
+
+export interface TrendEvidence {
+  method: 'linear-slope';
+  windowStart: string;
+  windowEnd: string;
+  assessmentIds: string[]; // assessments the trend was fitted to
+  slopePerWeek: number; // risk score points per week
+  confidenceInterval: [number, number]; // of the slope, points per week
+  confidenceLevel: number; // e.g. 0.95
+  computedAt: string;
+}
+
+export type SexAtBirth = 'female' | 'male' | 'unknown';
+
+export type RangeClassification = 'normal' | 'borderline' | 'abnormal';
+
+export type BaselineFeature = 'jitter' | 'shimmer' | 'hnr' | 'f0' | 'spectralSlope' | 'voiceIntensity';
+
+export interface FeatureStatistics {
+  mean: number;
+  standardDeviation: number;
+}
+
+export interface PatientBaseline {
+  status: 'building' | 'established';
+  assessmentCount: number; // good-quality assessments folded into the baseline
+  requiredAssessments: number; // assessments needed before the baseline is used for scoring
+  statistics: Partial<Record<BaselineFeature, FeatureStatistics>>;
+  startedAt: string; // enrollment or last reset
+  establishedAt?: string;
+  lastUpdated: string;
+}
+
+export interface BaselineDeviation {
+  feature: BaselineFeature;
+  value: number;
+  mean: number;
+  standardDeviation: number;
+  zScore: number; // signed distance from the personal mean in standard deviations
 }
 
 export interface VoiceBiomarkers {
@@ -47,20 +100,110 @@ export interface VoiceBiomarkers {
   f0: number; // Fundamental frequency (Hz)
   spectralSlope: number; // Spectral characteristics
   voiceIntensity: number; // Average voice intensity (dB)
+  perturbation?: VoicePerturbationMeasures;
+  extendedFeatures?: AcousticFeatureSet;
+}
+
+export interface AcousticFeatureSet {
+  version: string; // Feature definition version; sets with different versions are not comparable
+  cpp: number; // Cepstral peak prominence (dB)
+  cpps: number; // Smoothed cepstral peak prominence (dB)
+  formants: {
+    f1: number; // Hz, median over voiced frames (0 if not found)
+    f2: number;
+    f3: number;
+  };
+  mfccMeans: number[]; // Mel-frequency cepstral coefficients 0-12
+  mfccVariances: number[];
+  ltas: {
+    bandwidth: number; // Hz per band, first band starts at 0 Hz
+    levels: number[]; // Long-term average spectrum (dB)
+  };
+  frameCount: number; // Speech frames analyzed
+}
+
+export interface VoicePerturbationMeasures {
+  jitterLocal: number; // Mean absolute difference of consecutive periods (%)
+  jitterRap: number; // Relative average perturbation, 3-period (%)
+  jitterPpq5: number; // Five-point period perturbation quotient (%)
+  periodCount: number; // Glottal cycles the measures were computed from
+  shimmerLocal: number; // Mean absolute difference of consecutive cycle peak amplitudes (%)
+  shimmerApq3: number; // Three-point amplitude perturbation quotient (%)
+  shimmerApq5: number; // Five-point amplitude perturbation quotient (%)
+  shimmerApq11: number; // Eleven-point amplitude perturbation quotient (%)
+}
+
+// Prompts in the assessment call script, in the order they are asked
+export type AssessmentTask = 'energy' | 'breathing' | 'counting';
+
+export interface SegmentBiomarkers {
+  start: number; // seconds from start of recording
+  end: number; // seconds from start of recording
+  biomarkers: VoiceBiomarkers;
+}
+
+export interface TaskBiomarkers {
+  task: AssessmentTask;
+  speechDuration: number; // seconds of patient speech analyzed
+  biomarkers: VoiceBiomarkers; // combined across the task's segments
+  segments: SegmentBiomarkers[];
+}
+
+export interface BreathingMetrics {
+  task: AssessmentTask; // prompt the metrics were measured on (counting)
+  responseDuration: number; // seconds from first to last word
+  syllableCount: number;
+  speechRate: number; // syllables per second, pauses included
+  articulationRate: number; // syllables per second of phonation
+  wordRate: number; // words per minute
+  inhalationPauseCount: number; // silent gaps long enough to be a breath
+  meanInhalationPauseDuration: number; // seconds
+  maxInhalationPauseDuration: number; // seconds
+  breathGroupCount: number; // stretches of speech between breaths
+  meanBreathGroupDuration: number; // seconds
+  meanSyllablesPerBreathGroup: number;
+  phonationTimeRatio: number; // fraction of the response spent speaking (0-1)
+}
+
+export interface AudioQualityMeasurements {
+  snrDb: number; // patient speech against the line noise floor
+  clippingRatio: number; // fraction of samples at full scale
+  dropoutCount: number; // codec gaps inside patient speech
+  dropoutDuration: number; // seconds
+  voicedDuration: number; // seconds of voiced patient speech
+  taskCompleteness: Partial<Record<AssessmentTask, number>>; // voiced vs expected duration per prompt (0-1)
+  crosstalkRatio: number; // fraction of patient speech overlapping the agent (0-1)
+}
+
+// Patient details as they stood when an assessment was scored, so replaying it scores the same inputs
+export interface ScoringContext {
+  baseline?: PatientBaseline;
+  profile?: { sexAtBirth?: SexAtBirth; age?: number }; // as referenceProfileFor derived it
+  clinical?: Pick<Patient['clinicalInfo'], 'nyhaClass' | 'ejectionFraction' | 'comorbidities'>;
 }
 
 export interface VoiceAssessment {
   id: string;
   patientId: string;
   sessionId: string;
+  task?: AssessmentTask; // prompt a single-answer recording responds to; absent when the whole call was analyzed
   timestamp: string;
   callDuration: number; // seconds
   callStatus: 'completed' | 'partial' | 'failed' | 'no-answer';
-  biomarkers?: VoiceBiomarkers;
+  biomarkers?: VoiceBiomarkers; // combined across all patient speech
+  taskBiomarkers?: TaskBiomarkers[];
+  breathingMetrics?: BreathingMetrics;
+  baselineDeviations?: BaselineDeviation[]; // present when scored against an established baseline
+  referenceRangeVersion?: string; // reference range table the assessment was interpreted with
+  scoringPolicyVersion?: string; // risk scoring policy the assessment was scored with
+  scoringContext?: ScoringContext; // patient details the assessment was scored with
   qualityMetrics: {
     audioQuality: number; // 0-100
     backgroundNoise: number; // 0-100
     completeness: number; // 0-100
+    measurements?: AudioQualityMeasurements;
+    usable?: boolean; // false when the recording failed quality checks and was not scored
+    issues?: string[]; // reasons the recording needs review or a repeat call
   };
   clinicalAnalysis?: {
     riskIndicators: {
@@ -78,14 +221,69 @@ export interface VoiceAssessment {
     recommendedActions: string[];
     confidence: number; // 0-100
   };
-  riskScore: number; // 0-100
+  riskScore: number; // 0-100, composite of riskComponents
+  riskLevel?: RiskLevel; // absent when the assessment was not scored
+  riskComponents?: RiskComponent[]; // what the composite score is made of
+  riskExplanation?: RiskContribution[]; // every feature that added points to the risk score
+  riskInterval?: RiskInterval; // uncertainty band from measurement reliability
+  modelPrediction?: ModelPrediction; // statistical model estimate, reported alongside the rule-based score
+  shadowScores?: ShadowScore[]; // candidate policies and models run alongside production; they never alert
+  alertLevel?: AlertLevel; // alert level held after this assessment, with hysteresis
   alertGenerated: boolean;
+  alertId?: string; // clinical alert created for or merged with this assessment
+}
+
+export interface RiskComponent {
+  component: 'acoustic' | 'transcript'; // voice biomarkers, or the words of the LLM transcript analysis
+  score: number; // component score 0-100
+  weight: number; // share of the composite (weights sum to 1)
+  contribution: number; // score x weight, in composite points
+  factors: string[];
+}
+
+export interface RiskContribution {
+  component: RiskComponent['component'];
+  feature: string; // voice biomarker, breathing metric or transcript indicator
+  value: number; // observed value
+  band: string; // reference band or cutoff the value fell in
+  points: number; // points added to the component score
+  weightedPoints: number; // points x component weight, in composite points
+  reason: string; // plain-language explanation for clinicians
+  adjustments?: string[]; // clinical-context weights applied to the points, e.g. "x0.5 COPD"
+}
+
+export interface RiskInterval {
+  lower: number; // 0-100
+  upper: number; // 0-100
+  confidenceLevel: number; // e.g. 0.95
+}
+
+export interface ModelPrediction {
+  modelVersion: string;
+  probability: number; // calibrated probability of the model outcome, 0-1
+  horizonDays: number;
+}
+
+export interface ShadowScore {
+  kind: 'policy' | 'model';
+  version: string;
+  riskScore: number; // 0-100; a model's probability in percent
+  riskLevel?: RiskLevel; // policies only
+  alertLevel?: AlertLevel;
+  alertGenerated?: boolean; // whether the candidate would have alerted
+}
+
+// Clinical event used to label assessments for model training
+export interface ClinicalOutcome {
+  patientId: string;
+  type: 'hf-hospitalization' | 'ed-visit';
+  date: string;
 }
 
 export interface ClinicalAlert {
   id: string;
   patientId: string;
-  assessmentId: string;
+  assessmentId: string; // assessment that opened the alert
   type: 'critical' | 'high' | 'medium' | 'low';
   priority: 'immediate' | 'urgent' | 'routine';
   message: string;
@@ -96,6 +294,33 @@ export interface ClinicalAlert {
   status: 'active' | 'acknowledged' | 'resolved';
   escalationLevel: number; // 0-3
   requiredActions: string[];
+  relatedAssessmentIds?: string[]; // later findings merged into this alert while it was open
+  lastOccurrenceAt?: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  statusHistory?: AlertStatusChange[]; // oldest first
+}
+
+// One step in an alert's lifecycle: who moved it, when, and what they did about it
+export interface AlertStatusChange {
+  from: ClinicalAlert['status'];
+  to: ClinicalAlert['status'];
+  by: string; // clinician, or 'system' when a worse finding reactivates the alert
+  at: string;
+  action?: string; // e.g. "Called patient, increased diuretic dose"
+  notes?: string;
+}
+
+// Operational alert about the system itself, such as model performance drifting out of bounds
+export interface SystemAlert {
+  id: string;
+  source: 'model-monitoring';
+  scoreSource: 'policy' | 'model'; // which score was out of bounds: the rule-based score or the outcome model
+  condition: string; // what is out of bounds, e.g. "North Clinic:auroc"; one open alert per score source and condition
+  message: string;
+  createdAt: string;
+  status: 'active' | 'resolved';
+  resolvedAt?: string; // when the condition was next found back within bounds
 }
 
 export interface PatientDashboard {
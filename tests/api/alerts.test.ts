@@ -0,0 +1,109 @@
+/**
+ * Clinical Alerts API Tests
+ * Listing and reading stored alerts, and moving them through acknowledge, resolve and reopen
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET as list } from '../../heartvoice-monitor/src/app/api/alerts/route';
+import { GET as detail } from '../../heartvoice-monitor/src/app/api/alerts/[id]/route';
+import { POST as acknowledge } from '../../heartvoice-monitor/src/app/api/alerts/[id]/acknowledge/route';
+import { POST as resolve } from '../../heartvoice-monitor/src/app/api/alerts/[id]/resolve/route';
+import { POST as reopen } from '../../heartvoice-monitor/src/app/api/alerts/[id]/reopen/route';
+import { alertService } from '../../heartvoice-monitor/src/services/shared-services';
+import { ClinicalAlert } from '../../heartvoice-monitor/src/types/clinical';
+import { makeAssessment } from '../utils/fixtures';
+
+const BASE_URL = 'http://localhost:3002/api/alerts';
+
+// Each patient gets its own alert, since a new finding merges into an open one
+async function raiseAlert(patientId: string): Promise<ClinicalAlert> {
+  const alert = await alertService.recordFinding(makeAssessment({
+    id: `assessment-${patientId}`,
+    patientId,
+    timestamp: new Date().toISOString(),
+    riskScore: 70,
+    riskLevel: 'high',
+    alertGenerated: true
+  }));
+  return alert!;
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function action(id: string, path: string, body: unknown) {
+  return new NextRequest(`${BASE_URL}/${id}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+}
+
+describe('Alerts API', () => {
+  test('should list stored alerts filtered by status and patient', async () => {
+    const first = await raiseAlert('alerts-list-1');
+    const second = await raiseAlert('alerts-list-2');
+    await acknowledge(action(second.id, 'acknowledge', { by: 'Dr. Smith' }), params(second.id));
+
+    const active = await (await list(new NextRequest(`${BASE_URL}?status=active&patientId=alerts-list-1`))).json();
+    const acknowledged = await (await list(new NextRequest(`${BASE_URL}?status=acknowledged&patientId=alerts-list-1`))).json();
+
+    expect(active.alerts.map((alert: ClinicalAlert) => alert.id)).toEqual([first.id]);
+    expect(acknowledged.alerts).toEqual([]);
+    expect((await list(new NextRequest(`${BASE_URL}?status=open`))).status).toBe(400);
+  });
+
+  test('should return one alert by id, or 404', async () => {
+    const raised = await raiseAlert('alerts-detail');
+
+    const response = await detail(new NextRequest(`${BASE_URL}/${raised.id}`), params(raised.id));
+    expect(response.status).toBe(200);
+    expect((await response.json()).alert).toEqual(raised);
+    expect((await detail(new NextRequest(`${BASE_URL}/missing`), params('missing'))).status).toBe(404);
+  });
+
+  test('should acknowledge, resolve and reopen an alert, recording who acted', async () => {
+    const raised = await raiseAlert('alerts-lifecycle');
+
+    const acknowledged = await acknowledge(action(raised.id, 'acknowledge', { by: 'Dr. Smith', notes: 'Calling patient' }), params(raised.id));
+    expect((await acknowledged.json()).alert).toEqual(expect.objectContaining({ status: 'acknowledged', acknowledgedBy: 'Dr. Smith' }));
+
+    const resolved = await resolve(action(raised.id, 'resolve', { by: 'Dr. Smith', action: 'Diuretic dose increased' }), params(raised.id));
+    expect((await resolved.json()).alert).toEqual(expect.objectContaining({ status: 'resolved', resolvedBy: 'Dr. Smith' }));
+
+    const reopened = await reopen(action(raised.id, 'reopen', { by: 'Nurse Lee', notes: 'Symptoms returned' }), params(raised.id));
+    const { alert } = await reopened.json();
+    expect(alert.status).toBe('active');
+    expect(alert.acknowledgedBy).toBeUndefined();
+    expect(alert.statusHistory.map((change: { to: string; by: string }) => [change.to, change.by])).toEqual([
+      ['acknowledged', 'Dr. Smith'],
+      ['resolved', 'Dr. Smith'],
+      ['active', 'Nurse Lee']
+    ]);
+
+    const stored = await (await detail(new NextRequest(`${BASE_URL}/${raised.id}`), params(raised.id))).json();
+    expect(stored.alert).toEqual(alert);
+  });
+
+  test('should refuse transitions the lifecycle does not allow with 409', async () => {
+    const raised = await raiseAlert('alerts-transitions');
+
+    const response = await resolve(action(raised.id, 'resolve', { by: 'Dr. Smith', action: 'Reviewed' }), params(raised.id));
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toMatch(/is active and cannot become resolved/);
+    expect((await reopen(action(raised.id, 'reopen', { by: 'Dr. Smith' }), params(raised.id))).status).toBe(409);
+    expect((await alertService.getAlertById(raised.id))!.status).toBe('active');
+  });
+
+  test('should reject missing actors, malformed bodies and unknown alerts', async () => {
+    const raised = await raiseAlert('alerts-validation');
+
+    expect((await acknowledge(action(raised.id, 'acknowledge', {}), params(raised.id))).status).toBe(400);
+    expect((await acknowledge(action(raised.id, 'acknowledge', '{"by":'), params(raised.id))).status).toBe(400);
+    expect((await resolve(action(raised.id, 'resolve', { by: 'Dr. Smith' }), params(raised.id))).status).toBe(400);
+    expect((await reopen(action(raised.id, 'reopen', 'not json'), params(raised.id))).status).toBe(400);
+    expect((await acknowledge(action('missing', 'acknowledge', { by: 'Dr. Smith' }), params('missing'))).status).toBe(404);
+  });
+});
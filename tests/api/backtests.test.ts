@@ -0,0 +1,82 @@
+/**
+ * Backtesting API Tests
+ * Replaying stored assessments through a registered policy or model with /api/backtests
+ */
+
+import { describe, test, expect, beforeAll } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET } from '../../heartvoice-monitor/src/app/api/backtests/route';
+import { patientService, scoringModelRegistry } from '../../heartvoice-monitor/src/services/shared-services';
+import { DEFAULT_SCORING_POLICY } from '../../heartvoice-monitor/src/services/scoring-policy';
+import { BacktestRow } from '../../heartvoice-monitor/src/services/backtest-service';
+import { makeAssessment } from '../utils/fixtures';
+
+const PATIENT_ID = 'patient-003';
+
+function backtest(query: string) {
+  return GET(new NextRequest(`http://localhost:3002/api/backtests${query}`));
+}
+
+function biomarkers(hnr: number) {
+  return { jitter: 1.0, shimmer: 6.5, hnr, f0: 120, spectralSlope: -8, voiceIntensity: 65 };
+}
+
+beforeAll(async () => {
+  await patientService.recordAssessment(makeAssessment({
+    id: 'bt-1', patientId: PATIENT_ID, timestamp: '2025-01-10T09:00:00.000Z', biomarkers: biomarkers(10), riskScore: 30, riskLevel: 'low'
+  }));
+  await patientService.recordAssessment(makeAssessment({
+    id: 'bt-2', patientId: PATIENT_ID, timestamp: '2025-02-10T09:00:00.000Z', biomarkers: biomarkers(18), riskScore: 30, riskLevel: 'low'
+  }));
+  // Mean HNR of 18, lower HNR raising the risk
+  scoringModelRegistry.registerModel({
+    version: 'bt-model',
+    outcome: 'HF hospitalization or ED visit within 14 days',
+    horizonDays: 14,
+    features: [{ name: 'hnr', mean: 18, standardDeviation: 4 }],
+    intercept: -2,
+    coefficients: [-1],
+    calibration: { method: 'platt', slope: 1, intercept: 0 },
+    metrics: { examples: 0, events: 0, auroc: null, brier: 0, calibrationTable: [] }
+  });
+});
+
+describe('Backtests API', () => {
+  test('should replay stored assessments through a registered policy', async () => {
+    const response = await backtest(`?kind=policy&version=${DEFAULT_SCORING_POLICY.version}`);
+    const { backtest: result } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.candidate).toEqual({ kind: 'policy', version: DEFAULT_SCORING_POLICY.version });
+    expect(result.rows.map((row: BacktestRow) => row.assessmentId)).toEqual(['bt-1', 'bt-2']);
+  });
+
+  test('should replay through a model at the given threshold, limited to the period', async () => {
+    const all = await (await backtest('?kind=model&version=bt-model&threshold=0.3')).json();
+    const february = await (await backtest('?kind=model&version=bt-model&threshold=0.3&from=2025-02-01')).json();
+
+    expect(all.backtest.rows.map((row: BacktestRow) => [row.assessmentId, row.candidateAlert])).toEqual([['bt-1', true], ['bt-2', false]]);
+    expect(all.backtest.alertCountChange).toBe(1);
+    expect(february.backtest.rows.map((row: BacktestRow) => row.assessmentId)).toEqual(['bt-2']);
+  });
+
+  test('should export the rows as CSV', async () => {
+    const response = await backtest(`?kind=policy&version=${DEFAULT_SCORING_POLICY.version}&format=csv`);
+    const lines = (await response.text()).trim().split('\n');
+
+    expect(response.headers.get('Content-Type')).toBe('text/csv');
+    expect(response.headers.get('Content-Disposition')).toBe(`attachment; filename="backtest-policy-${DEFAULT_SCORING_POLICY.version}.csv"`);
+    expect(lines[0]).toMatch(/^assessmentId,patientId,timestamp,productionScore/);
+    expect(lines).toHaveLength(3);
+  });
+
+  test('should reject incomplete requests and unknown versions', async () => {
+    expect((await backtest('?kind=policy')).status).toBe(400);
+    expect((await backtest('?kind=forecast&version=1')).status).toBe(400);
+    expect((await backtest(`?version=${DEFAULT_SCORING_POLICY.version}&from=soon`)).status).toBe(400);
+    expect((await backtest('?kind=model&version=bt-model')).status).toBe(400);
+    expect((await backtest('?kind=model&version=bt-model&threshold=1.5')).status).toBe(400);
+    expect((await backtest('?kind=policy&version=9.9.9')).status).toBe(404);
+    expect((await backtest('?kind=model&version=missing&threshold=0.3')).status).toBe(404);
+  });
+});
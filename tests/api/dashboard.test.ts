@@ -0,0 +1,44 @@
+/**
+ * Dashboard API Tests
+ * The dashboard figures come from the stored patients, assessments and alerts
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET } from '../../heartvoice-monitor/src/app/api/dashboard/route';
+import { alertService } from '../../heartvoice-monitor/src/services/shared-services';
+import { makeAssessment, DAY_MS } from '../utils/fixtures';
+
+const BASE_URL = 'http://localhost:3002/api/dashboard';
+
+async function raiseAlert(patientId: string, timestamp: string) {
+  return alertService.recordFinding(makeAssessment({
+    id: `assessment-${patientId}`,
+    patientId,
+    timestamp,
+    riskScore: 70,
+    riskLevel: 'high',
+    alertGenerated: true
+  }));
+}
+
+describe('Dashboard API', () => {
+  test('should count the alerts raised today, including ones already resolved', async () => {
+    const empty = await (await GET(new NextRequest(BASE_URL))).json();
+    expect(empty.dashboard.todaysMetrics.alertsGenerated).toBe(0);
+
+    await raiseAlert('patient-001', new Date().toISOString());
+    const resolved = await raiseAlert('patient-002', new Date().toISOString());
+    await alertService.acknowledge(resolved!.id, { by: 'nurse-1', action: 'reviewed' });
+    await alertService.resolve(resolved!.id, { by: 'nurse-1', action: 'called patient' });
+    await raiseAlert('patient-003', new Date(Date.now() - 2 * DAY_MS).toISOString());
+
+    const response = await GET(new NextRequest(BASE_URL));
+    expect(response.status).toBe(200);
+    const { dashboard } = await response.json();
+
+    expect(dashboard.todaysMetrics.alertsGenerated).toBe(2);
+    expect(dashboard.criticalAlerts.map((alert: { patientId: string }) => alert.patientId).sort())
+      .toEqual(['patient-001', 'patient-003']);
+  });
+});
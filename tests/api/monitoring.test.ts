@@ -0,0 +1,58 @@
+/**
+ * Model Monitoring API Tests
+ * The rolling performance report and the drift alerts raised by the scheduled checks
+ */
+
+import { describe, test, expect, beforeAll } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET } from '../../heartvoice-monitor/src/app/api/monitoring/route';
+import { modelMonitors, patientService } from '../../heartvoice-monitor/src/services/shared-services';
+import { makeAssessment } from '../utils/fixtures';
+
+function monitoring(query = '') {
+  return GET(new NextRequest(`http://localhost:3002/api/monitoring${query}`));
+}
+
+// Forty alerting calls in March 2025, none followed by an event: an alert PPV of 0
+beforeAll(async () => {
+  for (let i = 0; i < 40; i++) {
+    await patientService.recordAssessment(makeAssessment({
+      id: `monitored-${i}`,
+      patientId: i % 2 === 0 ? 'patient-001' : 'patient-004',
+      timestamp: `2025-03-${String((i % 28) + 1).padStart(2, '0')}T09:00:00.000Z`,
+      riskScore: 80,
+      riskLevel: 'critical',
+      alertGenerated: true
+    }));
+  }
+});
+
+describe('Monitoring API', () => {
+  test('should report the risk score without calibration metrics', async () => {
+    const response = await monitoring();
+    const { report } = await response.json();
+    const march = report.byMonth.find((summary: { month: string }) => summary.month === '2025-03');
+
+    expect(response.status).toBe(200);
+    expect(report.source).toBe('policy');
+    expect(march).toEqual(expect.objectContaining({ examples: 40, events: 0, alertPpv: 0, brier: null, calibrationInTheLarge: null }));
+  });
+
+  test('should list the system alerts raised by the scheduled check, not raise them itself', async () => {
+    expect((await (await monitoring()).json()).systemAlerts).toEqual([]);
+
+    modelMonitors.policy.check(
+      await patientService.getAllAssessments(),
+      await patientService.getOutcomes(),
+      await patientService.getAllPatients()
+    );
+
+    const { systemAlerts } = await (await monitoring('?source=policy')).json();
+    expect(systemAlerts).toContainEqual(expect.objectContaining({ scoreSource: 'policy', condition: 'overall:alertPpv', status: 'active' }));
+    expect((await (await monitoring('?source=model')).json()).systemAlerts).toEqual([]);
+  });
+
+  test('should reject an unknown source with 400', async () => {
+    expect((await monitoring('?source=forecast')).status).toBe(400);
+  });
+});
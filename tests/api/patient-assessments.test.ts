@@ -0,0 +1,58 @@
+/**
+ * Patient Assessment History API Tests
+ * Filtering and paging a patient's stored assessments through /api/patients/[id]/assessments
+ */
+
+import { describe, test, expect, beforeAll } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET } from '../../heartvoice-monitor/src/app/api/patients/[id]/assessments/route';
+import { patientService } from '../../heartvoice-monitor/src/services/shared-services';
+import { VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import { makeAssessment } from '../utils/fixtures';
+
+const PATIENT_ID = 'patient-002';
+
+function history(query = '', id = PATIENT_ID) {
+  return GET(
+    new NextRequest(`http://localhost:3002/api/patients/${id}/assessments${query}`),
+    { params: Promise.resolve({ id }) }
+  );
+}
+
+function ids(page: { assessments: VoiceAssessment[] }) {
+  return page.assessments.map(assessment => assessment.id);
+}
+
+beforeAll(async () => {
+  await patientService.recordAssessment(makeAssessment({ id: 'h1', patientId: PATIENT_ID, timestamp: '2025-01-01T09:00:00.000Z', riskScore: 30, riskLevel: 'low' }));
+  await patientService.recordAssessment(makeAssessment({ id: 'h2', patientId: PATIENT_ID, timestamp: '2025-02-01T09:00:00.000Z', callStatus: 'failed' }));
+  await patientService.recordAssessment(makeAssessment({ id: 'h3', patientId: PATIENT_ID, timestamp: '2025-03-01T09:00:00.000Z', riskScore: 70, riskLevel: 'high' }));
+});
+
+describe('Patient Assessment History API', () => {
+  test('should page the history newest first with the total', async () => {
+    const first = await (await history('?limit=2')).json();
+    const second = await (await history('?limit=2&offset=2')).json();
+
+    expect(first).toEqual(expect.objectContaining({ total: 3, limit: 2, offset: 0 }));
+    expect(ids(first)).toEqual(['h3', 'h2']);
+    expect(ids(second)).toEqual(['h1']);
+  });
+
+  test('should filter by time range, call status and risk level', async () => {
+    expect(ids(await (await history('?from=2025-01-15&to=2025-03-15')).json())).toEqual(['h3', 'h2']);
+    expect(ids(await (await history('?callStatus=failed')).json())).toEqual(['h2']);
+    expect(ids(await (await history('?riskLevel=high')).json())).toEqual(['h3']);
+  });
+
+  test('should reject invalid filters and paging with 400', async () => {
+    const queries = ['?from=yesterday', '?callStatus=busy', '?riskLevel=severe', '?limit=0', '?limit=101', '?offset=-1', '?limit=2.5'];
+    const statuses = await Promise.all(queries.map(async query => (await history(query)).status));
+
+    expect(statuses).toEqual(queries.map(() => 400));
+  });
+
+  test('should answer 404 for an unknown patient', async () => {
+    expect((await history('', 'missing')).status).toBe(404);
+  });
+});
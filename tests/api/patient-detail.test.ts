@@ -0,0 +1,155 @@
+/**
+ * Patient Detail API Tests
+ * Reading, updating and deactivating one patient through /api/patients/[id], and resetting their baseline
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET, PATCH, PUT } from '../../heartvoice-monitor/src/app/api/patients/[id]/route';
+import { DELETE as resetBaseline } from '../../heartvoice-monitor/src/app/api/patients/[id]/baseline/route';
+
+const BASE_URL = 'http://localhost:3002/api/patients';
+
+async function firstPatient() {
+  const { GET: list } = await import('../../heartvoice-monitor/src/app/api/patients/route');
+  const { patients } = await (await list(new NextRequest(BASE_URL))).json();
+  return patients[0];
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function request(id: string, method: string, body: string, headers: Record<string, string> = {}) {
+  return new NextRequest(`${BASE_URL}/${id}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'If-Match': '*', ...headers },
+    body
+  });
+}
+
+function patch(id: string, body: unknown, headers: Record<string, string>) {
+  return PATCH(
+    new NextRequest(`${BASE_URL}/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    }),
+    params(id)
+  );
+}
+
+describe('Patient Detail API', () => {
+  test('should reject malformed JSON bodies with 400', async () => {
+    const patient = await firstPatient();
+
+    const put = await PUT(request(patient.id, 'PUT', '{"clinicalInfo":'), params(patient.id));
+    const merge = await PATCH(request(patient.id, 'PATCH', 'not json'), params(patient.id));
+    const jsonPatch = await PATCH(
+      request(patient.id, 'PATCH', '[{"op":', { 'Content-Type': 'application/json-patch+json' }),
+      params(patient.id)
+    );
+
+    expect([put.status, merge.status, jsonPatch.status]).toEqual([400, 400, 400]);
+    const unchanged = await (await GET(new NextRequest(`${BASE_URL}/${patient.id}`), params(patient.id))).json();
+    expect(unchanged.patient).toEqual(patient);
+  });
+});
+
+describe('Patient Patch API', () => {
+  test('should merge a patch into the stored patient and answer the applied change', async () => {
+    const patient = await firstPatient();
+    const nyhaClass = patient.clinicalInfo.nyhaClass === 4 ? 3 : patient.clinicalInfo.nyhaClass + 1;
+
+    const response = await patch(patient.id, { clinicalInfo: { nyhaClass } }, { 'If-Match': '*' });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.diff).toEqual([{ op: 'replace', path: '/clinicalInfo/nyhaClass', value: nyhaClass }]);
+    expect(data.patient.clinicalInfo.medications).toEqual(patient.clinicalInfo.medications);
+  });
+
+  test('should apply JSON Patch operations and reject a patch leaving the patient invalid with 422', async () => {
+    const patient = await firstPatient();
+    const jsonPatch = (operations: unknown) =>
+      patch(patient.id, operations, { 'If-Match': '*', 'Content-Type': 'application/json-patch+json' });
+
+    const added = await jsonPatch([{ op: 'add', path: '/clinicalInfo/allergies/-', value: 'Latex' }]);
+    expect(added.status).toBe(200);
+    expect((await added.json()).patient.clinicalInfo.allergies).toEqual([...patient.clinicalInfo.allergies, 'Latex']);
+
+    const invalid = await jsonPatch([{ op: 'replace', path: '/clinicalInfo/nyhaClass', value: 7 }]);
+    expect(invalid.status).toBe(422);
+    expect((await invalid.json()).errors).toContain('clinicalInfo.nyhaClass must be 1, 2, 3 or 4');
+    expect((await jsonPatch({ op: 'remove', path: '/clinicalInfo/allergies/0' })).status).toBe(400);
+  });
+
+  test('should refuse edits to the baseline and current risk, which only assessments set', async () => {
+    const patient = await firstPatient();
+
+    const baseline = await patch(patient.id, { baseline: { status: 'established', requiredAssessments: 0 } }, { 'If-Match': '*' });
+    const risk = await patch(patient.id, { currentRisk: { score: 5, level: 'low' } }, { 'If-Match': '*' });
+
+    expect([baseline.status, risk.status]).toEqual([422, 422]);
+    expect((await baseline.json()).errors).toEqual(['baseline cannot be changed']);
+    expect((await risk.json()).errors).toEqual(['currentRisk cannot be changed']);
+    const unchanged = await (await GET(new NextRequest(`${BASE_URL}/${patient.id}`), params(patient.id))).json();
+    expect(unchanged.patient).toEqual(patient);
+  });
+});
+
+describe('Patient Update Preconditions', () => {
+  async function currentEtag(id: string) {
+    return (await GET(new NextRequest(`${BASE_URL}/${id}`), params(id))).headers.get('ETag')!;
+  }
+
+  test('should require If-Match to name a single ETag', async () => {
+    const patient = await firstPatient();
+
+    expect((await patch(patient.id, { clinicalInfo: { nyhaClass: 3 } }, {})).status).toBe(428);
+    expect((await patch(patient.id, { clinicalInfo: { nyhaClass: 3 } }, { 'If-Match': 'W/"1"' })).status).toBe(400);
+  });
+
+  test('should accept a patch made against the current ETag and answer the next ETag', async () => {
+    const patient = await firstPatient();
+
+    const response = await patch(patient.id, { demographics: { email: 'current@example.com' } }, { 'If-Match': await currentEtag(patient.id) });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe(`"${patient.version + 1}"`);
+  });
+
+  test('should refuse a patch made against a stale ETag with 412 and the current patient', async () => {
+    const patient = await firstPatient();
+    const etag = await currentEtag(patient.id);
+    await patch(patient.id, { demographics: { email: 'first@example.com' } }, { 'If-Match': etag });
+
+    const response = await patch(patient.id, { demographics: { email: 'second@example.com' } }, { 'If-Match': etag });
+    const data = await response.json();
+
+    expect(response.status).toBe(412);
+    expect(data.patient.demographics.email).toBe('first@example.com');
+    expect(response.headers.get('ETag')).toBe(await currentEtag(patient.id));
+  });
+});
+
+describe('Patient Baseline API', () => {
+  function reset(id: string, headers: Record<string, string> = {}) {
+    return resetBaseline(new NextRequest(`${BASE_URL}/${id}/baseline`, { method: 'DELETE', headers }), params(id));
+  }
+
+  test('should reset the baseline only with the current ETag', async () => {
+    const patient = await firstPatient();
+    const etag = `"${patient.version}"`;
+
+    expect((await reset(patient.id)).status).toBe(428);
+    expect((await reset(patient.id, { 'If-Match': `"${patient.version - 1}"` })).status).toBe(412);
+
+    const response = await reset(patient.id, { 'If-Match': etag });
+    const data = await response.json();
+    expect(response.status).toBe(200);
+    expect(data.baseline.status).toBe('building');
+    expect(response.headers.get('ETag')).toBe(`"${patient.version + 1}"`);
+    expect((await reset(patient.id, { 'If-Match': etag })).status).toBe(412);
+  });
+});
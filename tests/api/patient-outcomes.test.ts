@@ -0,0 +1,48 @@
+/**
+ * Patient Outcome API Tests
+ * Recording and listing HF hospitalizations and ED visits through /api/patients/[id]/outcomes
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../../heartvoice-monitor/src/app/api/patients/[id]/outcomes/route';
+
+const PATIENT_ID = 'patient-002';
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function record(body: string, id = PATIENT_ID) {
+  return POST(
+    new NextRequest(`http://localhost:3002/api/patients/${id}/outcomes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body
+    }),
+    params(id)
+  );
+}
+
+describe('Patient Outcome API', () => {
+  test('should record an outcome and list it for the patient', async () => {
+    const response = await record(JSON.stringify({ type: 'ed-visit', date: '2025-03-01' }));
+
+    expect(response.status).toBe(201);
+    const { outcomes } = await (await GET(new NextRequest('http://localhost:3002'), params(PATIENT_ID))).json();
+    expect(outcomes).toEqual([{ patientId: PATIENT_ID, type: 'ed-visit', date: '2025-03-01' }]);
+  });
+
+  test('should answer malformed, non-object and invalid outcomes with 400', async () => {
+    const statuses = await Promise.all(
+      ['{"type":', 'null', '[]', JSON.stringify({ type: 'clinic-visit', date: '2025-03-01' }), JSON.stringify({ type: 'ed-visit' })]
+        .map(async body => (await record(body)).status)
+    );
+
+    expect(statuses).toEqual([400, 400, 400, 400, 400]);
+  });
+
+  test('should answer 404 for an unknown patient', async () => {
+    expect((await record(JSON.stringify({ type: 'ed-visit', date: '2025-03-01' }), 'missing')).status).toBe(404);
+  });
+});
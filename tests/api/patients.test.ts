@@ -115,14 +115,23 @@ describe('Patients API - Critical Tests', () => {
           lastName: 'Doe',
           phoneNumber: '555-123-4567',
           dateOfBirth: '1980-01-01',
-          gender: 'female'
+          mrn: 'MRN-TEST-001',
+          sexAtBirth: 'female'
         },
-        medicalHistory: {
-          heartFailureType: 'systolic',
+        clinicalInfo: {
+          diagnosisDate: '2020-06-01',
           ejectionFraction: 35,
-          nyhaClass: 'II'
+          nyhaClass: 2,
+          comorbidities: [],
+          medications: ['Furosemide'],
+          allergies: [],
+          emergencyContact: { name: 'John Doe', relationship: 'Spouse', phoneNumber: '555-987-6543' }
         },
-        assignedClinician: 'clinician-123'
+        monitoring: {
+          assessmentFrequency: 'weekly',
+          preferredCallTimes: ['09:00'],
+          timezone: 'America/New_York'
+        }
       };
 
       const request = new NextRequest('http://localhost:3002/api/patients', {
@@ -147,7 +156,8 @@ describe('Patients API - Critical Tests', () => {
         { demographics: {} }, // Missing required demographics
         { demographics: { firstName: 'John' } }, // Missing lastName
         { demographics: { lastName: 'Doe' } }, // Missing firstName
-        { demographics: { firstName: 'John', lastName: 'Doe' } } // Missing phoneNumber
+        { demographics: { firstName: 'John', lastName: 'Doe' } }, // Missing phoneNumber
+        { demographics: { firstName: 'John', lastName: 'Doe', phoneNumber: '555-123-4567' } } // Missing mrn
       ];
 
       for (const invalidPatient of invalidPatients) {
@@ -162,6 +172,35 @@ describe('Patients API - Critical Tests', () => {
       }
     });
 
+    test('should reject an incomplete patient with the fields that are missing', async () => {
+      const request = new NextRequest('http://localhost:3002/api/patients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          demographics: { firstName: 'John', lastName: 'Doe', phoneNumber: '555-123-4567', mrn: 'MRN-TEST-002' }
+        })
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors).toContain('demographics.dateOfBirth must be a date');
+      expect(data.errors).toContain('monitoring.timezone is required');
+    });
+
+    test('should reject a malformed JSON body', async () => {
+      const request = new NextRequest('http://localhost:3002/api/patients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"demographics":'
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+    });
+
     test('should validate phone number format', async () => {
       const phoneNumbers = [
         '555-123-4567', // Valid
@@ -179,7 +218,8 @@ describe('Patients API - Critical Tests', () => {
             firstName: 'Test',
             lastName: 'Patient',
             phoneNumber,
-            dateOfBirth: '1980-01-01'
+            dateOfBirth: '1980-01-01',
+            mrn: 'MRN-TEST-001'
           }
         };
 
@@ -205,7 +245,8 @@ describe('Patients API - Critical Tests', () => {
           firstName: 'Test',
           lastName: 'Patient',
           phoneNumber: '555-123-4567',
-          dateOfBirth: '1980-01-01'
+          dateOfBirth: '1980-01-01',
+          mrn: 'MRN-TEST-001'
         },
         medicalHistory: {
           heartFailureType: 'systolic',
@@ -274,7 +315,8 @@ describe('Patients API - Critical Tests', () => {
             firstName: 'Test',
             lastName: 'Patient',
             phoneNumber: '555-123-4567',
-            dateOfBirth
+            dateOfBirth,
+            mrn: 'MRN-TEST-001'
           }
         };
 
@@ -303,7 +345,8 @@ describe('Patients API - Critical Tests', () => {
           firstName: 'A'.repeat(1000), // Very long name
           lastName: 'B'.repeat(1000),
           phoneNumber: '555-123-4567',
-          dateOfBirth: '1980-01-01'
+          dateOfBirth: '1980-01-01',
+          mrn: 'MRN-TEST-001'
         },
         notes: 'C'.repeat(10000) // Very long notes
       };
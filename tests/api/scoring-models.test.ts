@@ -0,0 +1,152 @@
+/**
+ * Scoring Registry API Tests
+ * Registering and activating scoring policies, and moving policies and outcome models through their lifecycle
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET as listPolicies, POST as registerPolicy } from '../../heartvoice-monitor/src/app/api/scoring-policies/route';
+import { GET as getPolicy } from '../../heartvoice-monitor/src/app/api/scoring-policies/[version]/route';
+import { POST as activatePolicy } from '../../heartvoice-monitor/src/app/api/scoring-policies/[version]/activate/route';
+import { GET as listModels, POST as registerModel } from '../../heartvoice-monitor/src/app/api/scoring-models/route';
+import { GET as getModel, PATCH as setModelStatus } from '../../heartvoice-monitor/src/app/api/scoring-models/[kind]/[version]/route';
+import { GET as compare } from '../../heartvoice-monitor/src/app/api/scoring-models/comparison/route';
+import { DEFAULT_SCORING_POLICY, RiskScoringPolicy } from '../../heartvoice-monitor/src/services/scoring-policy';
+import { RiskModel } from '../../heartvoice-monitor/src/services/risk-model';
+
+const BASE_URL = 'http://localhost:3002/api';
+
+function post(path: string, body: unknown) {
+  return new NextRequest(`${BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+function policy(version: string): RiskScoringPolicy {
+  return { ...DEFAULT_SCORING_POLICY, version, description: `Candidate ${version}` };
+}
+
+function model(version: string): RiskModel {
+  return {
+    version,
+    outcome: 'HF hospitalization or ED visit within 14 days',
+    horizonDays: 14,
+    features: [{ name: 'hnr', mean: 18, standardDeviation: 4 }],
+    intercept: -2,
+    coefficients: [-1],
+    calibration: { method: 'platt', slope: 1, intercept: 0 },
+    metrics: { examples: 0, events: 0, auroc: null, brier: 0, calibrationTable: [] }
+  };
+}
+
+function versionParams(version: string) {
+  return { params: Promise.resolve({ version }) };
+}
+
+function entryParams(kind: string, version: string) {
+  return { params: Promise.resolve({ kind, version }) };
+}
+
+function patchStatus(kind: string, version: string, status: string) {
+  return setModelStatus(
+    new NextRequest(`${BASE_URL}/scoring-models/${kind}/${version}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status })
+    }),
+    entryParams(kind, version)
+  );
+}
+
+describe('Scoring Policies API', () => {
+  test('should register a valid policy as a draft and refuse invalid or repeated versions', async () => {
+    const response = await registerPolicy(post('/scoring-policies', policy('3.0.0-draft')));
+    expect(response.status).toBe(201);
+
+    const repeated = await registerPolicy(post('/scoring-policies', policy('3.0.0-draft')));
+    expect(repeated.status).toBe(400);
+    expect((await repeated.json()).errors).toEqual(['version 3.0.0-draft exists']);
+
+    const invalid = await registerPolicy(post('/scoring-policies', { ...policy('3.0.1'), levels: { medium: 90, high: 60, critical: 80 } }));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).errors.length).toBeGreaterThan(0);
+
+    const { policies, active } = await (await listPolicies()).json();
+    expect(active.version).toBe(DEFAULT_SCORING_POLICY.version);
+    expect(policies).toContainEqual({ version: '3.0.0-draft', description: 'Candidate 3.0.0-draft', active: false });
+    expect(policies.map((item: { version: string }) => item.version)).not.toContain('3.0.1');
+
+    const stored = await getPolicy(new NextRequest(`${BASE_URL}/scoring-policies/3.0.0-draft`), versionParams('3.0.0-draft'));
+    expect((await stored.json()).policy).toEqual(policy('3.0.0-draft'));
+    expect((await getPolicy(new NextRequest(`${BASE_URL}/scoring-policies/9.9.9`), versionParams('9.9.9'))).status).toBe(404);
+  });
+
+  test('should answer malformed, non-object and structurally broken policies with 400', async () => {
+    const malformed = await registerPolicy(new NextRequest(`${BASE_URL}/scoring-policies`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"version":'
+    }));
+    const nullRule = await registerPolicy(post('/scoring-policies', { ...policy('3.0.2'), breathing: [null] }));
+
+    expect(malformed.status).toBe(400);
+    expect((await registerPolicy(post('/scoring-policies', null))).status).toBe(400);
+    expect((await registerPolicy(post('/scoring-policies', [policy('3.0.3')]))).status).toBe(400);
+    expect(nullRule.status).toBe(400);
+    expect((await nullRule.json()).errors).toEqual(['breathing[0] must be an object']);
+  });
+
+  test('should activate a registered policy and retire the one it replaces', async () => {
+    await registerPolicy(post('/scoring-policies', policy('3.1.0')));
+
+    const response = await activatePolicy(post('/scoring-policies/3.1.0/activate', {}), versionParams('3.1.0'));
+    expect(response.status).toBe(200);
+    expect((await response.json()).policy.version).toBe('3.1.0');
+
+    const { active } = await (await listPolicies()).json();
+    expect(active.version).toBe('3.1.0');
+    const { models } = await (await listModels()).json();
+    expect(models).toContainEqual(expect.objectContaining({ kind: 'policy', version: DEFAULT_SCORING_POLICY.version, status: 'retired' }));
+
+    expect((await activatePolicy(post('/scoring-policies/9.9.9/activate', {}), versionParams('9.9.9'))).status).toBe(404);
+    const retired = await activatePolicy(post(`/scoring-policies/${DEFAULT_SCORING_POLICY.version}/activate`, {}), versionParams(DEFAULT_SCORING_POLICY.version));
+    expect(retired.status).toBe(409);
+  });
+});
+
+describe('Scoring Models API', () => {
+  test('should register an outcome model as a draft and refuse malformed or repeated ones', async () => {
+    const response = await registerModel(post('/scoring-models', model('m-1')));
+    expect(response.status).toBe(201);
+    expect((await response.json()).model).toEqual(expect.objectContaining({ kind: 'model', version: 'm-1', status: 'draft' }));
+
+    expect((await registerModel(post('/scoring-models', model('m-1')))).status).toBe(409);
+    expect((await registerModel(post('/scoring-models', { ...model('m-2'), coefficients: [] }))).status).toBe(400);
+
+    const detail = await getModel(new NextRequest(`${BASE_URL}/scoring-models/model/m-1`), entryParams('model', 'm-1'));
+    expect(await detail.json()).toEqual({ kind: 'model', version: 'm-1', status: 'draft', definition: model('m-1') });
+    expect((await getModel(new NextRequest(`${BASE_URL}/scoring-models/model/m-2`), entryParams('model', 'm-2'))).status).toBe(404);
+  });
+
+  test('should move a model through shadow, active and retired, refusing moves the lifecycle does not allow', async () => {
+    await registerModel(post('/scoring-models', model('m-3')));
+
+    expect((await (await patchStatus('model', 'm-3', 'shadow')).json()).model.status).toBe('shadow');
+    expect((await (await patchStatus('model', 'm-3', 'active')).json()).model.status).toBe('active');
+    expect((await (await patchStatus('model', 'm-3', 'retired')).json()).model.status).toBe('retired');
+
+    expect((await patchStatus('model', 'm-3', 'active')).status).toBe(409);
+    expect((await patchStatus('model', 'm-3', 'archived')).status).toBe(400);
+    expect((await patchStatus('forecast', 'm-3', 'shadow')).status).toBe(404);
+    expect((await patchStatus('model', 'missing', 'shadow')).status).toBe(404);
+  });
+
+  test('should compare shadow scores over stored assessments', async () => {
+    const response = await compare(new NextRequest(`${BASE_URL}/scoring-models/comparison?from=2025-01-01`));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).comparisons).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Voice Call Webhook Tests
+ * The question-by-question TwiML script, the Record action that advances it, the recording status
+ * callback and the transcription callback
+ */
+
+import { describe, test, expect, afterEach, jest } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { NextRequest } from 'next/server';
+import { POST as twiml } from '../../heartvoice-monitor/src/app/api/voice-twiml/route';
+import { POST as recordAction } from '../../heartvoice-monitor/src/app/api/voice-analysis/route';
+import { POST as recordingStatus } from '../../heartvoice-monitor/src/app/api/voice-analysis-status/route';
+import { POST as transcription } from '../../heartvoice-monitor/src/app/api/voice-transcription/route';
+import { alertService, patientService } from '../../heartvoice-monitor/src/services/shared-services';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+import { HeartVoiceOpenAIService } from '../../heartvoice-monitor/src/services/openai-service';
+import { makeAssessment } from '../utils/fixtures';
+
+const BASE_URL = 'http://localhost:3002/api';
+
+function twilioRequest(path: string, fields: Record<string, string> = {}) {
+  const body = new FormData();
+  Object.entries(fields).forEach(([name, value]) => body.append(name, value));
+  return new NextRequest(`${BASE_URL}${path}`, { method: 'POST', body });
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Voice TwiML', () => {
+  test('should greet the patient and record the first question with escaped callback URLs', async () => {
+    const response = await twiml(twilioRequest('/voice-twiml?patientId=p%261&patientName=Ann%20%3CB%3E'));
+    const xml = await response.text();
+
+    expect(response.headers.get('Content-Type')).toBe('text/xml');
+    expect(xml).toContain('Hello Ann &lt;B&gt;.');
+    expect(xml).toContain('action="/api/voice-analysis?patientId=p%261&amp;question=energy"');
+    expect(xml).toContain('recordingStatusCallback="/api/voice-analysis-status?patientId=p%261&amp;question=energy"');
+    expect(xml).toContain('transcribeCallback="/api/voice-transcription?patientId=p%261&amp;question=energy"');
+    expect(xml.match(/<Record/g)).toHaveLength(1);
+  });
+
+  test('should ask a later question without the greeting', async () => {
+    const xml = await (await twiml(twilioRequest('/voice-twiml?patientId=p1&question=counting'))).text();
+
+    expect(xml).not.toContain('Hello');
+    expect(xml).toContain('count from 1 to 10');
+    expect(xml).toContain('question=counting');
+  });
+});
+
+describe('Record action', () => {
+  test('should redirect to the next question without waiting for analysis', async () => {
+    const xml = await (await recordAction(twilioRequest('/voice-analysis?patientId=p1&question=energy', {
+      RecordingUrl: 'https://api.twilio.com/recordings/RE1'
+    }))).text();
+
+    expect(xml).toContain('<Redirect method="POST">/api/voice-twiml?patientId=p1&amp;question=breathing</Redirect>');
+  });
+
+  test('should end the call after the last question', async () => {
+    const xml = await (await recordAction(twilioRequest('/voice-analysis?patientId=p1&question=counting'))).text();
+
+    expect(xml).not.toContain('<Redirect');
+    expect(xml).toContain('<Hangup/>');
+  });
+});
+
+describe('Recording status callback', () => {
+  test('should ignore recordings that did not complete', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    const response = await recordingStatus(twilioRequest('/voice-analysis-status?patientId=p1&question=energy', {
+      RecordingStatus: 'failed',
+      RecordingSid: 'RE1'
+    }));
+
+    expect(response.status).toBe(200);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  test('should analyze a completed MP3 recording and store it as the answer to its question', async () => {
+    const [patient] = await patientService.getAllPatients();
+    const mp3 = readFileSync(join(__dirname, '..', 'fixtures', 'audio', 'tone-200hz-mono.mp3'));
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(mp3, { headers: { 'Content-Type': 'audio/mpeg' } }));
+
+    const response = await recordingStatus(twilioRequest(`/voice-analysis-status?patientId=${patient.id}&question=breathing`, {
+      RecordingStatus: 'completed',
+      RecordingUrl: 'https://api.twilio.com/recordings/RE2',
+      RecordingSid: 'RE2',
+      CallSid: 'CA-status-test',
+      RecordingDuration: '1'
+    }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.assessmentId).toBe('assessment_CA-status-test_breathing');
+    const history = await patientService.getAssessmentHistory(patient.id);
+    expect(history.find(item => item.id === data.assessmentId)?.task).toBe('breathing');
+  });
+
+  test('should drop a completed recording that names no known patient without scoring or alerting', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const alertsBefore = (await alertService.getAlerts()).length;
+
+    for (const query of ['?question=breathing', '?patientId=missing&question=breathing']) {
+      const response = await recordingStatus(twilioRequest(`/voice-analysis-status${query}`, {
+        RecordingStatus: 'completed',
+        RecordingUrl: 'https://api.twilio.com/recordings/RE4',
+        RecordingSid: 'RE4',
+        CallSid: 'CA-no-patient',
+        RecordingDuration: '1'
+      }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true });
+    }
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(warn.mock.calls.map(call => call[0])).toEqual([
+      'Dropped recording for call CA-no-patient, question breathing: no patient given',
+      'Dropped recording for call CA-no-patient, question breathing: patient missing not found'
+    ]);
+    expect(await alertService.getAlerts()).toHaveLength(alertsBefore);
+  });
+});
+
+describe('Whole-call recording', () => {
+  test('should store a recording without a question as one assessment for the call', async () => {
+    const [patient] = await patientService.getAllPatients();
+    const mp3 = readFileSync(join(__dirname, '..', 'fixtures', 'audio', 'tone-200hz-left-only.mp3'));
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(mp3, { headers: { 'Content-Type': 'audio/mpeg' } }));
+
+    const response = await recordingStatus(twilioRequest(`/voice-analysis-status?patientId=${patient.id}`, {
+      RecordingStatus: 'completed',
+      RecordingUrl: 'https://api.twilio.com/recordings/RE3',
+      RecordingSid: 'RE3',
+      CallSid: 'CA-whole-call-test',
+      RecordingDuration: '1'
+    }));
+    const data = await response.json();
+
+    expect(data.assessmentId).toBe('assessment_CA-whole-call-test');
+    const stored = (await patientService.getAssessmentHistory(patient.id)).find(item => item.id === data.assessmentId)!;
+    expect(stored.task).toBeUndefined();
+  });
+});
+
+describe('Transcription callback', () => {
+  test('should leave the acoustic score alone when Twilio could not transcribe the answer', async () => {
+    const analyze = jest.spyOn(HeartVoiceOpenAIService.prototype, 'analyzeClinicalVoice');
+    const response = await transcription(twilioRequest('/voice-transcription?patientId=p1&question=energy', {
+      TranscriptionStatus: 'failed',
+      CallSid: 'CA1'
+    }));
+
+    expect(response.status).toBe(200);
+    expect(analyze).not.toHaveBeenCalled();
+  });
+
+  test('should fuse the transcript into the stored answer once', async () => {
+    const [patient] = await patientService.getAllPatients();
+    const engine = new RiskAssessmentEngine();
+    const composite = engine.combineRiskScores({ score: 30, factors: [] });
+    await patientService.recordAssessment(makeAssessment({
+      id: 'assessment_CA-transcript-test_breathing',
+      patientId: patient.id,
+      sessionId: 'CA-transcript-test',
+      task: 'breathing',
+      timestamp: new Date().toISOString(),
+      riskScore: composite.score,
+      riskLevel: composite.level,
+      riskComponents: composite.components,
+      riskExplanation: composite.explanation,
+      scoringPolicyVersion: engine.policyVersion
+    }));
+    const analyze = jest.spyOn(HeartVoiceOpenAIService.prototype, 'analyzeClinicalVoice').mockResolvedValue({
+      riskIndicators: { anxiety: 20, breathlessness: 90, confusion: 10, fatigue: 40 },
+      conversationQuality: { coherence: 90, engagement: 80, completeness: 85 },
+      clinicalSummary: 'Patient reports increased shortness of breath.',
+      recommendedActions: [],
+      confidence: 100
+    });
+    const callback = () => transcription(twilioRequest(`/voice-transcription?patientId=${patient.id}&question=breathing`, {
+      TranscriptionStatus: 'completed',
+      TranscriptionText: 'I get out of breath walking to the kitchen',
+      CallSid: 'CA-transcript-test'
+    }));
+
+    const response = await callback();
+    await callback();
+
+    expect(response.status).toBe(200);
+    expect(analyze).toHaveBeenCalledTimes(1);
+    const stored = (await patientService.getAssessmentHistory(patient.id))
+      .find(item => item.id === 'assessment_CA-transcript-test_breathing')!;
+    expect(stored.riskComponents!.map(component => component.component)).toEqual(['acoustic', 'transcript']);
+    expect(stored.riskScore).toBe(38);
+    expect((await patientService.getPatientById(patient.id))!.currentRisk.score).toBe(38);
+  });
+});
@@ -10,6 +10,10 @@ process.env.TWILIO_AUTH_TOKEN = 'test_auth_token';
 process.env.TWILIO_PHONE_NUMBER = '+18445551234';
 process.env.NEXT_PUBLIC_BASE_URL = 'http://localhost:3002';
 
+// Each test file loads its own copy of the shared services, and with it a fresh in-memory
+// database; nothing is written to data/heartvoice.db
+process.env.DATABASE_PATH = ':memory:';
+
 // Add fetch polyfill for Node.js
 if (typeof fetch === 'undefined') {
   global.fetch = require('node-fetch');
@@ -0,0 +1,162 @@
+/**
+ * Acoustic Analysis Tests
+ * Pitch tracking and perturbation measures on synthetic phonation
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  PitchTracker,
+  calculateJitterMeasures,
+  calculateShimmerMeasures,
+  calculateHarmonicsToNoise
+} from '../../heartvoice-monitor/src/services/acoustic-analysis';
+import { DecodedAudio } from '../../heartvoice-monitor/src/services/audio-decoder';
+import { VoiceBiomarkerProcessor } from '../../heartvoice-monitor/src/services/voice-processing-service';
+
+const SAMPLE_RATE = 8000;
+
+// Glottal-like pulse train: each cycle is a decaying resonance, so peaks are well defined
+function synthesizeVowel(periods: number[], amplitudes?: number[]): Float32Array {
+  const totalSeconds = periods.reduce((sum, period) => sum + period, 0) + 0.05;
+  const samples = new Float32Array(Math.ceil(totalSeconds * SAMPLE_RATE));
+  let onset = 0.025;
+
+  periods.forEach((period, index) => {
+    const amplitude = amplitudes ? amplitudes[index] : 0.8;
+    const start = Math.round(onset * SAMPLE_RATE);
+    const length = Math.round(period * SAMPLE_RATE);
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      const t = i / SAMPLE_RATE;
+      samples[start + i] += amplitude * Math.exp(-t * 600) * Math.sin(2 * Math.PI * 700 * t + Math.PI / 2);
+    }
+    onset += period;
+  });
+
+  return samples;
+}
+
+function toAudio(samples: Float32Array): DecodedAudio {
+  return {
+    samples,
+    sampleRate: SAMPLE_RATE,
+    channelData: [samples],
+    duration: samples.length / SAMPLE_RATE,
+    sourceFormat: 'pcm16'
+  };
+}
+
+describe('Acoustic Analysis', () => {
+  describe('PitchTracker', () => {
+    test('should recover the fundamental frequency of a steady vowel', () => {
+      const samples = synthesizeVowel(new Array(150).fill(1 / 125));
+      const analysis = new PitchTracker().analyze(samples, SAMPLE_RATE);
+      const voiced = analysis.frames.filter(frame => frame.voiced);
+
+      expect(voiced.length).toBeGreaterThan(50);
+      voiced.forEach(frame => expect(frame.f0).toBeCloseTo(125, 0));
+    });
+
+    test('should report no voiced frames for silence', () => {
+      const analysis = new PitchTracker().analyze(new Float32Array(SAMPLE_RATE), SAMPLE_RATE);
+
+      expect(analysis.frames.every(frame => !frame.voiced)).toBe(true);
+      expect(analysis.marks).toHaveLength(0);
+    });
+  });
+
+  describe('calculateJitterMeasures', () => {
+    test('should compute local, RAP and PPQ5 jitter from known periods', () => {
+      const measures = calculateJitterMeasures([[0.010, 0.011, 0.010, 0.011, 0.010]]);
+
+      // Mean period 10.4 ms, every consecutive difference is 1 ms
+      expect(measures.local).toBeCloseTo((0.001 / 0.0104) * 100, 5);
+      expect(measures.rap).toBeGreaterThan(0);
+      expect(measures.ppq5).toBeGreaterThan(0);
+      expect(measures.periodCount).toBe(5);
+    });
+
+    test('should return zeros when there are not enough periods', () => {
+      expect(calculateJitterMeasures([])).toEqual({ local: 0, rap: 0, ppq5: 0, periodCount: 0 });
+    });
+  });
+
+  describe('calculateShimmerMeasures', () => {
+    test('should compute local shimmer from alternating cycle amplitudes', () => {
+      const measures = calculateShimmerMeasures([[0.9, 1.1, 0.9, 1.1, 0.9, 1.1]]);
+
+      expect(measures.local).toBeCloseTo(20, 5);
+      expect(measures.apq3).toBeGreaterThan(0);
+      expect(measures.cycleCount).toBe(6);
+    });
+
+    test('should be zero for constant amplitudes', () => {
+      const measures = calculateShimmerMeasures([new Array(20).fill(0.5)]);
+
+      expect(measures.local).toBe(0);
+      expect(measures.apq11).toBe(0);
+    });
+  });
+
+  describe('calculateHarmonicsToNoise', () => {
+    test('should convert frame correlations to dB over voiced frames only', () => {
+      const hnr = calculateHarmonicsToNoise([
+        { time: 0.01, f0: 120, correlation: 0.9, voiced: true },
+        { time: 0.02, f0: 0, correlation: 0.1, voiced: false }
+      ]);
+
+      expect(hnr).toBeCloseTo(10 * Math.log10(0.9 / 0.1), 5);
+    });
+  });
+
+  describe('VoiceBiomarkerProcessor perturbation', () => {
+    test('should report higher shimmer when cycle amplitudes vary', () => {
+      const periods = new Array(150).fill(1 / 125);
+      const steady = new VoiceBiomarkerProcessor().extractBiomarkers(toAudio(synthesizeVowel(periods)));
+      const varying = new VoiceBiomarkerProcessor().extractBiomarkers(
+        toAudio(synthesizeVowel(periods, periods.map((_, i) => 0.8 * (1 + 0.1 * Math.sin(i * 2.3)))))
+      );
+
+      expect(steady.shimmer).toBeLessThan(1);
+      expect(varying.shimmer).toBeGreaterThan(5);
+    });
+
+    test('should report high HNR for clean phonation and lower HNR with added noise', () => {
+      const clean = synthesizeVowel(new Array(150).fill(1 / 125));
+      let seed = 7;
+      const noisy = clean.map(value => {
+        seed = (seed * 16807) % 2147483647;
+        return value + 0.15 * (seed / 2147483647 - 0.5);
+      });
+      const processor = new VoiceBiomarkerProcessor();
+
+      expect(processor.extractBiomarkers(toAudio(clean)).hnr)
+        .toBeGreaterThan(processor.extractBiomarkers(toAudio(noisy)).hnr);
+    });
+  });
+
+  describe('VoiceBiomarkerProcessor jitter', () => {
+    test('should be near zero for perfectly periodic phonation', () => {
+      const audio = toAudio(synthesizeVowel(new Array(150).fill(1 / 125)));
+      const biomarkers = new VoiceBiomarkerProcessor().extractBiomarkers(audio);
+
+      expect(biomarkers.jitter).toBeLessThan(0.3);
+      expect(biomarkers.f0).toBeCloseTo(125, 0);
+    });
+
+    test('should rise when cycle lengths vary', () => {
+      const periods = Array.from({ length: 150 }, (_, i) => 0.008 * (1 + 0.02 * Math.sin(i * 2.3)));
+      const biomarkers = new VoiceBiomarkerProcessor().extractBiomarkers(toAudio(synthesizeVowel(periods)));
+
+      expect(biomarkers.jitter).toBeGreaterThan(2);
+    });
+
+    test('should give the same value for the same recording', () => {
+      const periods = Array.from({ length: 150 }, (_, i) => 0.008 + 0.0002 * Math.sin(i));
+      const audio = toAudio(synthesizeVowel(periods));
+      const processor = new VoiceBiomarkerProcessor();
+
+      expect(processor.extractBiomarkers(audio).perturbation)
+        .toEqual(processor.extractBiomarkers(audio).perturbation);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Clinical Alerting Tests
+ * Alert decisions against prior assessments, hysteresis, cooldown, merging into open alerts and the alert lifecycle
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import { AlertTransitionError, ClinicalAlertService } from '../../heartvoice-monitor/src/services/alert-service';
+import { InMemoryAlertRepository } from '../../heartvoice-monitor/src/services/alert-repository';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+import { HOUR_MS, makeAssessment, riskLevelFor } from '../utils/fixtures';
+
+const START = new Date('2025-09-01T09:00:00Z').getTime();
+
+function assessment(hour: number, riskScore: number, overrides: Partial<VoiceAssessment> = {}): VoiceAssessment {
+  return makeAssessment({
+    id: `assessment-${hour}`,
+    timestamp: new Date(START + hour * HOUR_MS).toISOString(),
+    riskScore,
+    riskLevel: riskLevelFor(riskScore),
+    ...overrides
+  });
+}
+
+// Scores a sequence of calls the way the pipeline does, each against the stored history
+function score(scores: number[]): VoiceAssessment[] {
+  const engine = new RiskAssessmentEngine();
+  const history: VoiceAssessment[] = [];
+  scores.forEach((riskScore, day) => {
+    const decision = engine.evaluateAlert({ score: riskScore }, history);
+    history.push(assessment(day * 24, riskScore, { alertLevel: decision.level, alertGenerated: decision.generate }));
+  });
+  return history;
+}
+
+describe('RiskAssessmentEngine.evaluateAlert', () => {
+  test('should not alert again while a patient stays critical', () => {
+    const history = score([85, 88, 86]);
+    expect(history.map(entry => entry.alertGenerated)).toEqual([true, false, false]);
+  });
+
+  test('should hold a level within the hysteresis margin instead of flapping', () => {
+    const history = score([82, 77, 81, 74, 82]);
+
+    expect(history.map(entry => entry.alertLevel)).toEqual(['critical', 'critical', 'critical', 'high', 'critical']);
+    expect(history.map(entry => entry.alertGenerated)).toEqual([true, false, false, false, true]);
+  });
+
+  test('should alert on a significant increase since the previous scored assessment', () => {
+    const engine = new RiskAssessmentEngine();
+    const previous = [assessment(0, 20), assessment(12, 0, { riskLevel: undefined, callStatus: 'partial' })];
+    const decision = engine.evaluateAlert({ score: 45 }, previous);
+
+    expect(decision).toEqual({ generate: true, level: undefined, reasons: ['Risk rose 25 points since the previous assessment'] });
+  });
+});
+
+describe('ClinicalAlertService', () => {
+  test('should merge repeat findings into the open alert and escalate it', async () => {
+    const service = new ClinicalAlertService();
+    const opened = await service.recordFinding(assessment(0, 65, { alertLevel: 'high', alertGenerated: true }));
+    const repeat = await service.recordFinding(assessment(24, 66, { alertLevel: 'high' }));
+    const worse = await service.recordFinding(assessment(48, 85, { alertLevel: 'critical', alertGenerated: true }));
+
+    expect(repeat!.id).toBe(opened!.id);
+    expect(worse!.id).toBe(opened!.id);
+    expect(worse!.type).toBe('critical');
+    expect(worse!.priority).toBe('immediate');
+    expect(worse!.relatedAssessmentIds).toEqual(['assessment-24', 'assessment-48']);
+    expect(await service.getOpenAlerts()).toHaveLength(1);
+  });
+
+  test('should hold back a new alert at the same level during the cooldown', async () => {
+    const service = new ClinicalAlertService({ cooldownHours: 12 });
+    const first = await service.recordFinding(assessment(0, 65, { alertLevel: 'high', alertGenerated: true }));
+    await service.acknowledge(first!.id, { by: 'Dr. Sarah Chen' });
+    await service.resolve(first!.id, { by: 'Dr. Sarah Chen', action: 'Called patient' });
+
+    expect(await service.recordFinding(assessment(6, 66, { alertLevel: 'high', alertGenerated: true }))).toBeNull();
+    expect(await service.recordFinding(assessment(8, 84, { alertLevel: 'critical', alertGenerated: true }))).not.toBeNull();
+    expect(service.getPatientAlerts('patient-001')).toHaveLength(2);
+  });
+
+  test('should ignore assessments below alert level', async () => {
+    expect(await new ClinicalAlertService().recordFinding(assessment(0, 30))).toBeNull();
+  });
+});
+
+describe('ClinicalAlertService lifecycle', () => {
+  const opened = () => assessment(0, 85, { alertLevel: 'critical', alertGenerated: true });
+
+  test('should record who acknowledged and resolved an alert, with the action and notes', async () => {
+    const service = new ClinicalAlertService();
+    const alert = await service.recordFinding(opened());
+
+    await service.acknowledge(alert!.id, { by: 'Dr. Sarah Chen' }, '2025-09-01T10:00:00.000Z');
+    const resolved = await service.resolve(
+      alert!.id,
+      { by: 'Nurse Kim', action: 'Called patient, diuretic increased', notes: 'Weight up 2 kg' },
+      '2025-09-01T12:00:00.000Z'
+    );
+
+    expect(resolved).toEqual(expect.objectContaining({
+      status: 'resolved',
+      acknowledgedBy: 'Dr. Sarah Chen',
+      acknowledgedAt: '2025-09-01T10:00:00.000Z',
+      resolvedBy: 'Nurse Kim',
+      resolvedAt: '2025-09-01T12:00:00.000Z'
+    }));
+    expect(resolved!.statusHistory).toEqual([
+      { from: 'active', to: 'acknowledged', by: 'Dr. Sarah Chen', at: '2025-09-01T10:00:00.000Z' },
+      {
+        from: 'acknowledged',
+        to: 'resolved',
+        by: 'Nurse Kim',
+        at: '2025-09-01T12:00:00.000Z',
+        action: 'Called patient, diuretic increased',
+        notes: 'Weight up 2 kg'
+      }
+    ]);
+    expect(await service.getOpenAlerts()).toEqual([]);
+  });
+
+  test('should reject transitions outside active, acknowledged, resolved and reopen', async () => {
+    const service = new ClinicalAlertService();
+    const alert = await service.recordFinding(opened());
+
+    await expect(service.resolve(alert!.id, { by: 'Dr. Sarah Chen', action: 'Called patient' })).rejects.toThrow(AlertTransitionError);
+    await expect(service.reopen(alert!.id, { by: 'Dr. Sarah Chen' })).rejects.toThrow(AlertTransitionError);
+    expect(await service.acknowledge('missing', { by: 'Dr. Sarah Chen' })).toBeNull();
+
+    await service.acknowledge(alert!.id, { by: 'Dr. Sarah Chen' });
+    await service.resolve(alert!.id, { by: 'Dr. Sarah Chen', action: 'Called patient' });
+    const reopened = await service.reopen(alert!.id, { by: 'Dr. Sarah Chen', notes: 'Symptoms returned' });
+
+    expect(reopened!.status).toBe('active');
+    expect(reopened!.acknowledgedBy).toBeUndefined();
+    expect(reopened!.resolvedAt).toBeUndefined();
+    expect(reopened!.statusHistory).toHaveLength(3);
+  });
+
+  test('should reactivate an acknowledged alert on a worse finding and keep state in the repository', async () => {
+    const repository = new InMemoryAlertRepository();
+    const service = new ClinicalAlertService({}, repository);
+    const alert = await service.recordFinding(assessment(0, 65, { alertLevel: 'high', alertGenerated: true }));
+    await service.acknowledge(alert!.id, { by: 'Dr. Sarah Chen' });
+
+    await service.recordFinding(assessment(24, 85, { alertLevel: 'critical', alertGenerated: true }));
+    const stored = await new ClinicalAlertService({}, repository).getAlertById(alert!.id);
+
+    expect(stored!.status).toBe('active');
+    expect(stored!.type).toBe('critical');
+    expect(stored!.statusHistory!.map(change => [change.to, change.by])).toEqual([['acknowledged', 'Dr. Sarah Chen'], ['active', 'system']]);
+    expect(await service.getAlerts({ status: 'acknowledged' })).toEqual([]);
+  });
+});
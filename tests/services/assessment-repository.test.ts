@@ -0,0 +1,109 @@
+/**
+ * Assessment Repository Tests
+ * Filtering and paging of stored assessment history, and PatientService persistence through it
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import { InMemoryAssessmentRepository } from '../../heartvoice-monitor/src/services/assessment-repository';
+import { InMemoryPatientRepository } from '../../heartvoice-monitor/src/services/patient-repository';
+import { PatientService } from '../../heartvoice-monitor/src/services/patient-service';
+import { VoiceCallService } from '../../heartvoice-monitor/src/services/voice-processing-service';
+import { makeAssessment } from '../utils/fixtures';
+
+function assessment(
+  id: string,
+  patientId: string,
+  timestamp: string,
+  overrides: Partial<VoiceAssessment> = {}
+): VoiceAssessment {
+  return makeAssessment({ id, patientId, timestamp, riskScore: 40, riskLevel: 'medium', ...overrides });
+}
+
+function repositoryWith(assessments: VoiceAssessment[]): InMemoryAssessmentRepository {
+  const repository = new InMemoryAssessmentRepository();
+  assessments.forEach(item => repository.save(item));
+  return repository;
+}
+
+describe('InMemoryAssessmentRepository', () => {
+  const stored = [
+    assessment('a3', 'p1', '2025-03-01T09:00:00.000Z', { riskScore: 70, riskLevel: 'high' }),
+    assessment('a1', 'p1', '2025-01-01T09:00:00.000Z'),
+    assessment('a2', 'p1', '2025-02-01T09:00:00.000Z', { callStatus: 'failed', riskLevel: undefined }),
+    assessment('b1', 'p2', '2025-02-15T09:00:00.000Z')
+  ];
+
+  test('should return matching assessments oldest first', () => {
+    const repository = repositoryWith(stored);
+
+    expect(repository.find({ patientId: 'p1' }).map(item => item.id)).toEqual(['a1', 'a2', 'a3']);
+    expect(repository.find({ from: '2025-02-01', to: '2025-02-28' }).map(item => item.id)).toEqual(['a2', 'b1']);
+    expect(repository.find({ patientId: 'p1', callStatus: 'failed' }).map(item => item.id)).toEqual(['a2']);
+    expect(repository.find({ riskLevel: 'high' }).map(item => item.id)).toEqual(['a3']);
+  });
+
+  test('should page newest first with the total across pages', () => {
+    const repository = repositoryWith(stored);
+
+    expect(repository.findPage({ patientId: 'p1' }, 2, 0)).toEqual(expect.objectContaining({ total: 3, limit: 2, offset: 0 }));
+    expect(repository.findPage({ patientId: 'p1' }, 2, 0).assessments.map(item => item.id)).toEqual(['a3', 'a2']);
+    expect(repository.findPage({ patientId: 'p1' }, 2, 2).assessments.map(item => item.id)).toEqual(['a1']);
+  });
+
+  test('should update rather than duplicate an assessment stored again, as when a callback is retried', () => {
+    const repository = repositoryWith(stored);
+    repository.save({ ...stored[0], riskScore: 20, riskLevel: 'low' });
+
+    expect(repository.find({ patientId: 'p1' })).toHaveLength(3);
+    expect(repository.find({ riskLevel: 'low' }).map(item => item.riskScore)).toEqual([20]);
+  });
+});
+
+describe('PatientService assessment history', () => {
+  test('should keep each answer of a call as its own assessment', async () => {
+    const voiceCalls = new VoiceCallService();
+    const service = new PatientService(new InMemoryPatientRepository(), {}, new InMemoryAssessmentRepository());
+    const [patient] = await service.getAllPatients();
+
+    for (const task of ['energy', 'breathing', 'counting'] as const) {
+      // An undecodable recording still yields a failed assessment under the call and prompt
+      await service.recordAssessment(await voiceCalls.processVoiceAssessment('CA123', patient.id, new ArrayBuffer(8), '', 10, { task }));
+    }
+
+    expect((await service.getAssessmentHistory(patient.id)).map(item => [item.id, item.task])).toEqual([
+      ['assessment_CA123_energy', 'energy'],
+      ['assessment_CA123_breathing', 'breathing'],
+      ['assessment_CA123_counting', 'counting']
+    ]);
+  });
+
+  test('should store recorded assessments for other service instances sharing the repository', async () => {
+    const patients = new InMemoryPatientRepository();
+    const assessments = new InMemoryAssessmentRepository();
+    const writer = new PatientService(patients, {}, assessments);
+    const [patient] = await writer.getAllPatients();
+
+    await writer.recordAssessment(assessment('x1', patient.id, '2025-01-01T09:00:00.000Z'));
+    await writer.recordAssessment(assessment('x2', patient.id, '2025-01-02T09:00:00.000Z', { callStatus: 'partial' }));
+    await writer.recordAssessment(assessment('x3', 'unknown-patient', '2025-01-03T09:00:00.000Z'));
+    const reader = new PatientService(patients, {}, assessments);
+
+    expect((await reader.getAssessmentHistory(patient.id)).map(item => item.id)).toEqual(['x1', 'x2']);
+    const page = await reader.getAssessmentPage(patient.id, { callStatus: 'partial' });
+    expect(page.total).toBe(1);
+    expect(page.assessments[0].id).toBe('x2');
+    expect(await reader.getAllAssessments()).toHaveLength(2);
+  });
+
+  test('should list the most recent assessments across patients, newest first', async () => {
+    const service = new PatientService(new InMemoryPatientRepository(), {}, new InMemoryAssessmentRepository());
+    const [first, second] = await service.getAllPatients();
+
+    await service.recordAssessment(assessment('r1', first.id, '2025-01-01T09:00:00.000Z'));
+    await service.recordAssessment(assessment('r2', second.id, '2025-01-03T09:00:00.000Z'));
+    await service.recordAssessment(assessment('r3', first.id, '2025-01-02T09:00:00.000Z'));
+
+    expect((await service.getRecentAssessments(2)).map(item => item.id)).toEqual(['r2', 'r3']);
+  });
+});
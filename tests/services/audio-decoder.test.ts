@@ -0,0 +1,162 @@
+/**
+ * Audio Decoder Tests
+ * Twilio recording formats normalized to mono float PCM
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AudioDecoder, AudioDecodingError } from '../../heartvoice-monitor/src/services/audio-decoder';
+import { Mpg123Decoder } from '../../heartvoice-monitor/src/services/mp3-decoder';
+
+function buildWav(options: {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  data: Uint8Array;
+  declaredDataSize?: number;
+}): ArrayBuffer {
+  const { audioFormat, channels, sampleRate, bitsPerSample, data } = options;
+  const blockAlign = channels * (bitsPerSample / 8);
+  const buffer = new ArrayBuffer(44 + data.length);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) =>
+    tag.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + data.length, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, audioFormat, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeTag(36, 'data');
+  view.setUint32(40, options.declaredDataSize ?? data.length, true);
+  new Uint8Array(buffer, 44).set(data);
+
+  return buffer;
+}
+
+function pcm16Bytes(values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 2);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setInt16(i * 2, value, true));
+  return bytes;
+}
+
+async function expectDecodingError(promise: Promise<unknown>, code: string) {
+  const error = await promise.catch(caught => caught);
+  expect(error).toBeInstanceOf(AudioDecodingError);
+  expect((error as AudioDecodingError).code).toBe(code);
+}
+
+describe('AudioDecoder', () => {
+  const decoder = new AudioDecoder();
+
+  test('should decode 16-bit PCM WAV with its sample rate', async () => {
+    const wav = buildWav({ audioFormat: 1, channels: 1, sampleRate: 8000, bitsPerSample: 16, data: pcm16Bytes([0, 16384, -32768]) });
+    const audio = await decoder.decode(wav);
+
+    expect(audio.sampleRate).toBe(8000);
+    expect(audio.sourceFormat).toBe('wav-pcm');
+    expect(Array.from(audio.samples)).toEqual([0, 0.5, -1]);
+  });
+
+  test('should downmix dual-channel recordings and keep the channels', async () => {
+    const wav = buildWav({ audioFormat: 1, channels: 2, sampleRate: 8000, bitsPerSample: 16, data: pcm16Bytes([16384, 0, -16384, 0]) });
+    const audio = await decoder.decode(wav);
+
+    expect(audio.channelData).toHaveLength(2);
+    expect(Array.from(audio.samples)).toEqual([0.25, -0.25]);
+  });
+
+  test('should decode μ-law WAV and headerless μ-law', async () => {
+    // 0xff is μ-law silence, 0x80 is the largest positive value
+    const bytes = new Uint8Array([0xff, 0x80]);
+    const wav = await decoder.decode(buildWav({ audioFormat: 7, channels: 1, sampleRate: 8000, bitsPerSample: 8, data: bytes }));
+    const raw = await decoder.decode(bytes.slice().buffer, { contentType: 'audio/x-mulaw;rate=8000' });
+
+    expect(wav.sourceFormat).toBe('wav-mulaw');
+    expect(raw.sourceFormat).toBe('mulaw');
+    expect(raw.samples[0]).toBe(0);
+    expect(raw.samples[1]).toBeCloseTo(32124 / 32768, 5);
+    expect(Array.from(wav.samples)).toEqual(Array.from(raw.samples));
+  });
+
+  test('should reject an empty buffer', async () => {
+    await expectDecodingError(decoder.decode(new ArrayBuffer(0)), 'empty');
+  });
+
+  test('should reject a WAV whose data chunk is cut short', async () => {
+    const wav = buildWav({
+      audioFormat: 1, channels: 1, sampleRate: 8000, bitsPerSample: 16,
+      data: pcm16Bytes([1, 2, 3]), declaredDataSize: 600
+    });
+
+    await expectDecodingError(decoder.decode(wav), 'truncated');
+  });
+
+  test('should reject a RIFF file that is not WAVE', async () => {
+    const wav = buildWav({ audioFormat: 1, channels: 1, sampleRate: 8000, bitsPerSample: 16, data: pcm16Bytes([1]) });
+    new DataView(wav).setUint8(8, 'A'.charCodeAt(0));
+
+    await expectDecodingError(decoder.decode(wav), 'corrupt');
+  });
+
+  test('should reject MP3 when no MP3 decoder is configured', async () => {
+    const id3 = new Uint8Array([0x49, 0x44, 0x33, 0x04, 0x00]).buffer;
+
+    await expectDecodingError(decoder.decode(id3), 'unsupported-format');
+  });
+
+  test('should use a configured MP3 decoder', async () => {
+    const mp3Decoder = {
+      decode: async () => ({ channelData: [new Float32Array([0.1, 0.2])], sampleRate: 22050 })
+    };
+    const audio = await new AudioDecoder({ mp3Decoder }).decode(new Uint8Array([0xff, 0xfb, 0x90, 0x00]).buffer);
+
+    expect(audio.sourceFormat).toBe('mp3');
+    expect(audio.sampleRate).toBe(22050);
+  });
+});
+
+describe('Mpg123Decoder', () => {
+  const decoder = new AudioDecoder({ mp3Decoder: new Mpg123Decoder() });
+
+  // Half a second of a 200 Hz tone at 8 kHz, as Twilio's MP3 recordings are sampled
+  function fixture(name: string): ArrayBuffer {
+    const bytes = readFileSync(join(__dirname, '..', 'fixtures', 'audio', name));
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+  }
+
+  function rms(samples: Float32Array): number {
+    return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+  }
+
+  test('should decode a mono MP3 recording to one channel', async () => {
+    const audio = await decoder.decode(fixture('tone-200hz-mono.mp3'));
+
+    expect(audio.sourceFormat).toBe('mp3');
+    expect(audio.sampleRate).toBe(8000);
+    expect(audio.channelData).toHaveLength(1);
+    expect(audio.duration).toBeGreaterThan(0.4);
+    expect(rms(audio.samples)).toBeGreaterThan(0.1);
+  });
+
+  test('should keep both channels of a stereo MP3 recording', async () => {
+    const audio = await decoder.decode(fixture('tone-200hz-left-only.mp3'));
+
+    expect(audio.channelData).toHaveLength(2);
+    expect(rms(audio.channelData[0])).toBeGreaterThan(0.1);
+    expect(rms(audio.channelData[1])).toBeLessThan(0.01);
+  });
+
+  test('should reject bytes that contain no MPEG frame', async () => {
+    await expectDecodingError(decoder.decode(new Uint8Array([0x49, 0x44, 0x33, 0x04, 0x00, 0, 0, 0, 0, 0]).buffer), 'corrupt');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Audio Quality Tests
+ * SNR, clipping, dropouts, completeness and crosstalk on synthetic recordings
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { VoiceBiomarkers } from '../../heartvoice-monitor/src/types/clinical';
+import { DecodedAudio } from '../../heartvoice-monitor/src/services/audio-decoder';
+import { AudioQualityAssessor } from '../../heartvoice-monitor/src/services/audio-quality';
+
+const SAMPLE_RATE = 8000;
+
+// 1 s of line noise, then a 120 Hz vowel of the given amplitude until 4 s, then 1 s of noise
+function synthesizeResponse(amplitude: number, noiseLevel: number): Float32Array {
+  const samples = new Float32Array(5 * SAMPLE_RATE);
+  let seed = 7;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    const noise = noiseLevel * ((seed / 2147483647) * 2 - 1);
+    const time = i / SAMPLE_RATE;
+    const voice = time >= 1 && time < 4 ? amplitude * Math.sin((2 * Math.PI * 120 * i) / SAMPLE_RATE) : 0;
+    samples[i] = Math.max(-1, Math.min(1, voice + noise));
+  }
+  return samples;
+}
+
+function toAudio(samples: Float32Array): DecodedAudio {
+  return { samples, sampleRate: SAMPLE_RATE, channelData: [samples], duration: samples.length / SAMPLE_RATE, sourceFormat: 'wav-pcm' };
+}
+
+// 3 s of voicing at 120 Hz
+const biomarkers: VoiceBiomarkers = {
+  jitter: 0.5,
+  shimmer: 3,
+  hnr: 20,
+  f0: 120,
+  spectralSlope: -10,
+  voiceIntensity: 65,
+  perturbation: {
+    jitterLocal: 0.5, jitterRap: 0.3, jitterPpq5: 0.3, periodCount: 360,
+    shimmerLocal: 3, shimmerApq3: 1.5, shimmerApq5: 1.8, shimmerApq11: 2.5
+  }
+};
+
+const speech = [{ start: 1, end: 4, task: 'counting' as const }];
+
+describe('AudioQualityAssessor', () => {
+  test('should pass a clean recording', () => {
+    const audio = toAudio(synthesizeResponse(0.5, 0.005));
+    const quality = new AudioQualityAssessor().assess(
+      audio,
+      { patientChannel: null, patientSegments: speech },
+      biomarkers,
+      [{ task: 'counting', speechDuration: 3, biomarkers, segments: [] }],
+      ['counting']
+    );
+
+    expect(quality.usable).toBe(true);
+    expect(quality.issues).toEqual([]);
+    expect(quality.measurements!.snrDb).toBeGreaterThan(30);
+    expect(quality.measurements!.voicedDuration).toBeCloseTo(3, 1);
+    expect(quality.completeness).toBe(100);
+    expect(quality.audioQuality).toBeGreaterThan(90);
+  });
+
+  test('should flag a noisy recording as unusable', () => {
+    const audio = toAudio(synthesizeResponse(0.1, 0.2));
+    const quality = new AudioQualityAssessor().assess(audio, { patientChannel: null, patientSegments: speech }, biomarkers, [], []);
+
+    expect(quality.measurements!.snrDb).toBeLessThan(10);
+    expect(quality.usable).toBe(false);
+    expect(quality.backgroundNoise).toBeGreaterThan(60);
+  });
+
+  test('should detect clipping and codec dropouts', () => {
+    const samples = synthesizeResponse(1.5, 0.005);
+    // Two lost 60 ms packets in the middle of the vowel
+    samples.fill(0, 2 * SAMPLE_RATE, 2.06 * SAMPLE_RATE);
+    samples.fill(0, 3 * SAMPLE_RATE, 3.06 * SAMPLE_RATE);
+
+    const quality = new AudioQualityAssessor().assess(toAudio(samples), { patientChannel: null, patientSegments: speech }, biomarkers, [], []);
+
+    expect(quality.measurements!.clippingRatio).toBeGreaterThan(0.1);
+    expect(quality.measurements!.dropoutCount).toBe(2);
+    expect(quality.usable).toBe(false);
+  });
+
+  test('should report completeness per prompt and crosstalk with the agent', () => {
+    const audio = toAudio(synthesizeResponse(0.5, 0.005));
+    const quality = new AudioQualityAssessor().assess(
+      audio,
+      { patientChannel: 0, agentTurns: [{ start: 0, end: 2.5 }], patientSegments: speech },
+      biomarkers,
+      [{ task: 'counting', speechDuration: 3, biomarkers, segments: [] }],
+      ['energy', 'breathing', 'counting']
+    );
+
+    expect(quality.measurements!.taskCompleteness).toEqual({ energy: 0, breathing: 0, counting: 1 });
+    expect(quality.measurements!.crosstalkRatio).toBeCloseTo(0.5, 2);
+    expect(quality.usable).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Backtesting Tests
+ * Replaying stored assessments through a candidate policy or model and comparing with production
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ClinicalOutcome, Patient, VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import { DEFAULT_SCORING_POLICY, RiskScoringPolicy } from '../../heartvoice-monitor/src/services/scoring-policy';
+import { RiskModel } from '../../heartvoice-monitor/src/services/risk-model';
+import { backtestToCsv, runBacktest } from '../../heartvoice-monitor/src/services/backtest-service';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+import { DAY_MS, makeAssessment } from '../utils/fixtures';
+
+const START = new Date('2025-09-01T09:00:00Z').getTime();
+
+// Alerts from a score of 20, judged on the score itself, where production only reaches medium at 35
+const SENSITIVE_POLICY: RiskScoringPolicy = {
+  ...DEFAULT_SCORING_POLICY,
+  version: '2.0.0-candidate',
+  description: 'Lower alert thresholds',
+  levels: { medium: 10, high: 20, critical: 80 },
+  alerts: { ...DEFAULT_SCORING_POLICY.alerts, suppressWhenUncertain: false }
+};
+
+function assessment(patientId: string, day: number, shimmer: number, overrides: Partial<VoiceAssessment> = {}): VoiceAssessment {
+  return makeAssessment({
+    id: `assessment-${patientId}-${day}`,
+    patientId,
+    timestamp: new Date(START + day * DAY_MS).toISOString(),
+    biomarkers: { jitter: 1.0, shimmer, hnr: 18, f0: 120, spectralSlope: -8, voiceIntensity: 65 },
+    riskScore: shimmer > 6 ? 25 : 0,
+    riskLevel: 'low',
+    ...overrides
+  });
+}
+
+const HISTORY: VoiceAssessment[] = [
+  assessment('patient-001', 0, 6.5),
+  assessment('patient-001', 1, 6.5),
+  assessment('patient-002', 0, 3.0),
+  assessment('patient-002', 2, 3.0, { riskLevel: undefined, callStatus: 'partial' }), // unscored
+  assessment('patient-003', 20, 6.5)
+];
+
+const OUTCOMES: ClinicalOutcome[] = [
+  { patientId: 'patient-001', type: 'ed-visit', date: new Date(START + 5 * DAY_MS).toISOString() },
+  { patientId: 'patient-002', type: 'hf-hospitalization', date: new Date(START + 3 * DAY_MS).toISOString() }
+];
+
+describe('runBacktest', () => {
+  test('should report the alert count change and patients whose level changes', () => {
+    const result = runBacktest(HISTORY, { kind: 'policy', policy: SENSITIVE_POLICY });
+
+    expect(result.assessments).toBe(4);
+    expect(result.productionAlerts).toBe(0);
+    // patient-001 alerts once and is then held by hysteresis; patient-003 alerts on its only call
+    expect(result.candidateAlerts).toBe(2);
+    expect(result.alertCountChange).toBe(2);
+    expect(result.levelChanges).toEqual([
+      { patientId: 'patient-001', assessments: 2, productionLevel: 'low', candidateLevel: 'high' },
+      { patientId: 'patient-003', assessments: 1, productionLevel: 'low', candidateLevel: 'high' }
+    ]);
+    expect(result.performance).toBeUndefined();
+  });
+
+  test('should report sensitivity and PPV when outcomes exist', () => {
+    const result = runBacktest(HISTORY, { kind: 'policy', policy: SENSITIVE_POLICY }, { outcomes: OUTCOMES });
+
+    expect(result.performance).toEqual({
+      events: 3,
+      production: { sensitivity: 0, ppv: null },
+      candidate: { sensitivity: 0.333, ppv: 0.5 }
+    });
+  });
+
+  test('should replay history before the date range without reporting it', () => {
+    const result = runBacktest(HISTORY, { kind: 'policy', policy: SENSITIVE_POLICY }, {
+      from: new Date(START + DAY_MS).toISOString(),
+      to: new Date(START + 10 * DAY_MS).toISOString()
+    });
+
+    expect(result.rows.map(row => row.assessmentId)).toEqual(['assessment-patient-001-1']);
+    expect(result.rows[0]).toEqual(expect.objectContaining({ candidateLevel: 'high', candidateAlert: false }));
+  });
+
+  test('should reproduce production when replaying its policy after the patient has changed', () => {
+    const engine = new RiskAssessmentEngine();
+    const scoringContext = { clinical: { nyhaClass: 2 as const, ejectionFraction: 55, comorbidities: [] } };
+    // Scored as production does, each answer judged against the earlier answers to its prompt
+    const scored: VoiceAssessment[] = [];
+    [7.5, 8.0, 5.0, 7.5].forEach((shimmer, day) => {
+      const task = day % 2 === 0 ? 'breathing' : 'counting';
+      const base = assessment('patient-001', day, shimmer, { task, scoringContext });
+      const composite = engine.combineRiskScores(engine.calculateRiskScore(base.biomarkers!, undefined, scoringContext));
+      const decision = engine.evaluateAlert(composite, scored.filter(item => item.task === task));
+      scored.push({
+        ...base,
+        riskScore: composite.score,
+        riskLevel: composite.level,
+        alertLevel: decision.level,
+        alertGenerated: decision.generate
+      });
+    });
+    // Since the calls the patient has advanced heart failure, which would raise every score now
+    const patient = {
+      id: 'patient-001',
+      demographics: { sexAtBirth: 'male', dateOfBirth: '1960-01-01' },
+      clinicalInfo: { nyhaClass: 4, ejectionFraction: 20, comorbidities: [] }
+    } as unknown as Patient;
+
+    const result = runBacktest(scored, { kind: 'policy', policy: DEFAULT_SCORING_POLICY }, { patients: [patient] });
+
+    expect(result.rows.map(row => [row.candidateScore, row.candidateLevel, row.candidateAlert]))
+      .toEqual(result.rows.map(row => [row.productionScore, row.productionLevel, row.productionAlert]));
+    expect(result.alertCountChange).toBe(0);
+    expect(result.levelChanges).toEqual([]);
+  });
+
+  test('should alert on a model probability at or above the threshold', () => {
+    const model: RiskModel = {
+      version: 'm1',
+      outcome: 'HF hospitalization or ED visit within 14 days',
+      horizonDays: 14,
+      features: [{ name: 'shimmer', mean: 4, standardDeviation: 1 }],
+      intercept: -2,
+      coefficients: [1],
+      calibration: { method: 'platt', slope: 1, intercept: 0 },
+      metrics: { examples: 0, events: 0, auroc: null, brier: 0, calibrationTable: [] }
+    };
+    const result = runBacktest(HISTORY, { kind: 'model', model, threshold: 0.5 });
+
+    expect(result.rows.map(row => [row.candidateScore, row.candidateAlert])).toEqual([
+      [62.2, true], [4.7, false], [62.2, true], [62.2, true]
+    ]);
+    expect(result.levelChanges).toEqual([]);
+  });
+});
+
+describe('backtestToCsv', () => {
+  test('should write one line per assessment with a header', () => {
+    const csv = backtestToCsv(runBacktest(HISTORY.slice(0, 1), { kind: 'policy', policy: SENSITIVE_POLICY }, { outcomes: OUTCOMES }));
+
+    expect(csv.split('\n')).toEqual([
+      'assessmentId,patientId,timestamp,productionScore,productionLevel,productionAlert,candidateScore,candidateLevel,candidateAlert,outcome',
+      'assessment-patient-001-0,patient-001,2025-09-01T09:00:00.000Z,25,low,false,25,high,true,true',
+      ''
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Patient Baseline Tests
+ * Building, rolling updates and deviation scoring against a personal baseline
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { VoiceAssessment, VoiceBiomarkers } from '../../heartvoice-monitor/src/types/clinical';
+import { BaselineService, calculateBaselineDeviations } from '../../heartvoice-monitor/src/services/baseline-service';
+import { PatientService } from '../../heartvoice-monitor/src/services/patient-service';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+import { makeAssessment } from '../utils/fixtures';
+
+// A patient with a naturally rough voice: above the population jitter and shimmer cutoffs
+function roughVoice(offset = 0): VoiceBiomarkers {
+  return {
+    jitter: 2.4 + offset * 0.05,
+    shimmer: 6.5 + offset * 0.2,
+    hnr: 12 - offset * 0.3,
+    f0: 118 + offset,
+    spectralSlope: -9 + offset * 0.1,
+    voiceIntensity: 62 + offset * 0.5
+  };
+}
+
+function assessment(biomarkers: VoiceBiomarkers, overrides: Partial<VoiceAssessment> = {}): VoiceAssessment {
+  return makeAssessment({
+    id: `assessment-${Math.random()}`,
+    timestamp: new Date().toISOString(),
+    biomarkers,
+    ...overrides
+  });
+}
+
+function buildBaseline(service: BaselineService) {
+  let baseline = service.createBaseline();
+  for (const offset of [-2, -1, 0, 1, 2]) {
+    baseline = service.update(baseline, assessment(roughVoice(offset)));
+  }
+  return baseline;
+}
+
+describe('BaselineService', () => {
+  test('should establish the baseline after the required good-quality assessments', () => {
+    const service = new BaselineService();
+    let baseline = service.createBaseline();
+
+    for (const offset of [-2, -1, 0, 1]) {
+      baseline = service.update(baseline, assessment(roughVoice(offset)));
+    }
+    expect(baseline.status).toBe('building');
+
+    // Unusable recordings are not counted
+    baseline = service.update(baseline, assessment(roughVoice(5), { callStatus: 'partial', qualityMetrics: { audioQuality: 20, backgroundNoise: 80, completeness: 40, usable: false } }));
+    expect(baseline.assessmentCount).toBe(4);
+
+    baseline = service.update(baseline, assessment(roughVoice(2)));
+    expect(baseline.status).toBe('established');
+    expect(baseline.statistics.jitter!.mean).toBeCloseTo(2.4, 3);
+    expect(baseline.statistics.f0!.mean).toBeCloseTo(118, 3);
+    expect(baseline.statistics.f0!.standardDeviation).toBeCloseTo(1.581, 2);
+  });
+
+  test('should roll the baseline forward only while the patient is stable', () => {
+    const service = new BaselineService();
+    const baseline = buildBaseline(service);
+
+    const stable = service.update(baseline, assessment(roughVoice(1)));
+    expect(stable.assessmentCount).toBe(6);
+    expect(stable.statistics.f0!.mean).toBeCloseTo(118.1, 2);
+
+    const deteriorating = { ...roughVoice(), hnr: 6 };
+    expect(service.update(baseline, assessment(deteriorating))).toBe(baseline);
+  });
+
+  test('should express deviations as z-scores with a minimum standard deviation', () => {
+    const baseline = buildBaseline(new BaselineService());
+    const deviations = calculateBaselineDeviations(baseline, { ...roughVoice(), hnr: 8 });
+    const hnr = deviations.find(deviation => deviation.feature === 'hnr')!;
+
+    expect(hnr.standardDeviation).toBe(1);
+    expect(hnr.zScore).toBeCloseTo(-4, 1);
+  });
+});
+
+describe('RiskAssessmentEngine with a personal baseline', () => {
+  test('should not score a naturally rough voice as high risk once a baseline exists', () => {
+    const engine = new RiskAssessmentEngine();
+    const baseline = buildBaseline(new BaselineService());
+
+    expect(engine.calculateRiskScore(roughVoice()).level).not.toBe('low');
+
+    const personal = engine.calculateRiskScore(roughVoice(), undefined, { baseline });
+    expect(personal.score).toBe(0);
+    expect(personal.deviations).toHaveLength(6);
+  });
+
+  test('should explain risk factors as deviation from the baseline', () => {
+    const engine = new RiskAssessmentEngine();
+    const baseline = buildBaseline(new BaselineService());
+    const result = engine.calculateRiskScore({ ...roughVoice(), hnr: 7 }, undefined, { baseline });
+
+    expect(result.score).toBe(30);
+    expect(result.factors).toEqual(['Harmonics-to-noise ratio 5.0 SD below personal baseline']);
+  });
+});
+
+describe('PatientService baseline', () => {
+  test('should reset a patient baseline', async () => {
+    const service = new PatientService();
+    const patient = await service.resetBaseline('patient-001');
+
+    expect(patient!.baseline!.status).toBe('building');
+    expect(patient!.baseline!.assessmentCount).toBe(0);
+    expect(await service.resetBaseline('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Clinical Context Modifier Tests
+ * Comorbidities and heart failure severity adjusting prior risk and finding weights
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { VoiceBiomarkers } from '../../heartvoice-monitor/src/types/clinical';
+import { DEFAULT_SCORING_POLICY, validateScoringPolicy } from '../../heartvoice-monitor/src/services/scoring-policy';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+
+// Shimmer above the borderline cutoff; everything else within normal limits
+const HOARSE_VOICE: VoiceBiomarkers = { jitter: 1.0, shimmer: 6.5, hnr: 18, f0: 120, spectralSlope: -8, voiceIntensity: 65 };
+const PROFILE = { sexAtBirth: 'male' as const, age: 60 };
+
+describe('RiskAssessmentEngine clinical context', () => {
+  test('should discount shimmer elevation in a known COPD patient and add prior risk', () => {
+    const engine = new RiskAssessmentEngine();
+    const result = engine.calculateRiskScore(HOARSE_VOICE, undefined, {
+      profile: PROFILE,
+      clinical: { nyhaClass: 2, ejectionFraction: 45, comorbidities: ['copd'] }
+    });
+
+    expect(result.contributions).toEqual([
+      expect.objectContaining({ feature: 'shimmer', points: 12.5, adjustments: ['x0.5 COPD'] }),
+      expect.objectContaining({ feature: 'copd', points: 3, reason: 'COPD raises the risk of heart failure decompensation' })
+    ]);
+    expect(engine.calculateRiskScore(HOARSE_VOICE, undefined, { profile: PROFILE }).score).toBe(25);
+  });
+
+  test('should weight findings more heavily in NYHA III-IV with a low ejection fraction', () => {
+    const engine = new RiskAssessmentEngine();
+    const advanced = engine.calculateRiskScore(HOARSE_VOICE, undefined, {
+      profile: PROFILE,
+      clinical: { nyhaClass: 3, ejectionFraction: 30, comorbidities: [] }
+    });
+    const unknownEf = engine.calculateRiskScore(HOARSE_VOICE, undefined, {
+      profile: PROFILE,
+      clinical: { nyhaClass: 4, comorbidities: [] }
+    });
+
+    expect(advanced.contributions.map(entry => [entry.feature, entry.points])).toEqual([['shimmer', 31.3], ['nyhaClass', 5]]);
+    expect(advanced.score).toBe(36);
+    expect(advanced.level).toBe('medium');
+    expect(unknownEf.score).toBe(25);
+  });
+
+  test('should keep prior risk in both bounds of the score band', () => {
+    const result = new RiskAssessmentEngine().calculateRiskScore(
+      { ...HOARSE_VOICE, shimmer: 3.5 },
+      undefined,
+      { profile: PROFILE, clinical: { nyhaClass: 2, comorbidities: ['ckd'] } }
+    );
+
+    expect(result.score).toBe(5);
+    expect(result.interval.lower).toBe(5);
+  });
+});
+
+describe('validateScoringPolicy clinical context', () => {
+  test('should require a modifier for every comorbidity', () => {
+    const comorbidities = { ...DEFAULT_SCORING_POLICY.clinicalContext.comorbidities };
+    delete (comorbidities as Partial<typeof comorbidities>).copd;
+    const errors = validateScoringPolicy({
+      ...DEFAULT_SCORING_POLICY,
+      clinicalContext: { ...DEFAULT_SCORING_POLICY.clinicalContext, comorbidities }
+    });
+
+    expect(errors).toEqual(['clinicalContext.comorbidities.copd is missing']);
+  });
+});
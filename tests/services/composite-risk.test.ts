@@ -0,0 +1,169 @@
+/**
+ * Composite Risk Tests
+ * Fusion of the acoustic risk score with LLM transcript indicators
+ */
+
+import { describe, test, expect, afterEach, jest } from '@jest/globals';
+import { VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import { RiskAssessmentEngine, VoiceCallService } from '../../heartvoice-monitor/src/services/voice-processing-service';
+import { ClinicalAnalysisCache, HeartVoiceOpenAIService } from '../../heartvoice-monitor/src/services/openai-service';
+import { makeAssessment } from '../utils/fixtures';
+
+function transcriptAnalysis(breathlessness: number, confidence: number): NonNullable<VoiceAssessment['clinicalAnalysis']> {
+  return {
+    riskIndicators: { anxiety: 20, breathlessness, confusion: 10, fatigue: 40 },
+    conversationQuality: { coherence: 90, engagement: 80, completeness: 85 },
+    clinicalSummary: 'Patient reports increased shortness of breath.',
+    recommendedActions: ['Schedule clinical review'],
+    confidence
+  };
+}
+
+describe('RiskAssessmentEngine.combineRiskScores', () => {
+  test('should use the acoustic score alone without a transcript analysis', () => {
+    const result = new RiskAssessmentEngine().combineRiskScores({ score: 65, factors: ['Reduced voice clarity'] });
+
+    expect(result.score).toBe(65);
+    expect(result.level).toBe('high');
+    expect(result.components).toEqual([
+      { component: 'acoustic', score: 65, weight: 1, contribution: 65, factors: ['Reduced voice clarity'] }
+    ]);
+  });
+
+  test('should weight the transcript by analysis confidence and record contributions', () => {
+    const result = new RiskAssessmentEngine().combineRiskScores(
+      { score: 30, factors: [] },
+      transcriptAnalysis(90, 100)
+    );
+    const [acoustic, transcript] = result.components;
+
+    // Transcript: 0.4 x 90 + 0.25 x 40 + 0.2 x 10 + 0.15 x 20 = 51
+    expect(transcript.score).toBe(51);
+    expect(transcript.weight).toBe(0.4);
+    expect(transcript.factors).toEqual(['Breathlessness described or evident in responses']);
+    expect(acoustic.weight).toBe(0.6);
+    expect(result.score).toBe(Math.round(acoustic.contribution + transcript.contribution));
+    expect(result.score).toBe(38);
+  });
+
+  test('should give a low-confidence transcript analysis less weight', () => {
+    const engine = new RiskAssessmentEngine();
+    const confident = engine.combineRiskScores({ score: 30, factors: [] }, transcriptAnalysis(90, 100));
+    const unsure = engine.combineRiskScores({ score: 30, factors: [] }, transcriptAnalysis(90, 50));
+
+    expect(unsure.components[1].weight).toBe(0.2);
+    expect(unsure.score).toBeLessThan(confident.score);
+  });
+});
+
+describe('RiskAssessmentEngine explanation', () => {
+  test('should explain each contribution with its value, band and points', () => {
+    const engine = new RiskAssessmentEngine();
+    const acoustic = engine.calculateRiskScore(
+      { jitter: 2.1, shimmer: 3.5, hnr: 12, f0: 120, spectralSlope: -8, voiceIntensity: 65 },
+      undefined,
+      { profile: { sexAtBirth: 'male', age: 60 } }
+    );
+
+    expect(acoustic.score).toBe(45);
+    expect(acoustic.contributions).toEqual([
+      {
+        component: 'acoustic',
+        feature: 'jitter',
+        value: 2.1,
+        band: 'abnormal (normal <= 1.5, borderline <= 2)',
+        points: 25,
+        weightedPoints: 25,
+        reason: 'Elevated voice jitter indicating vocal cord stress'
+      },
+      {
+        component: 'acoustic',
+        feature: 'hnr',
+        value: 12,
+        band: 'borderline (normal >= 15, borderline >= 10)',
+        points: 20,
+        weightedPoints: 20,
+        reason: 'Reduced voice clarity'
+      }
+    ]);
+  });
+
+  test('should weight contributions so they add up to the composite score', () => {
+    const engine = new RiskAssessmentEngine();
+    const acoustic = engine.calculateRiskScore({ jitter: 2.1, shimmer: 3.5, hnr: 12, f0: 120, spectralSlope: -8, voiceIntensity: 65 });
+    const result = engine.combineRiskScores(acoustic, transcriptAnalysis(90, 100));
+    const total = result.explanation.reduce((sum, entry) => sum + entry.weightedPoints, 0);
+
+    expect(result.explanation.map(entry => entry.feature)).toEqual(
+      ['jitter', 'hnr', 'breathlessness', 'fatigue', 'confusion', 'anxiety']
+    );
+    expect(result.explanation[2]).toMatchObject({ component: 'transcript', value: 90, points: 36, weightedPoints: 14.4 });
+    expect(Math.round(total)).toBe(result.score);
+  });
+});
+
+describe('VoiceCallService.applyTranscript', () => {
+  const biomarkers = { jitter: 2.1, shimmer: 3.5, hnr: 12, f0: 120, spectralSlope: -8, voiceIntensity: 65 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // An answer as the recording status callback stores it, before Twilio's transcript arrives
+  function acousticOnlyAssessment(): { assessment: VoiceAssessment; acoustic: ReturnType<RiskAssessmentEngine['calculateRiskScore']> } {
+    const engine = new RiskAssessmentEngine();
+    const acoustic = engine.calculateRiskScore(biomarkers);
+    const composite = engine.combineRiskScores(acoustic);
+    const assessment = makeAssessment({
+      task: 'breathing',
+      biomarkers,
+      riskScore: composite.score,
+      riskLevel: composite.level,
+      riskComponents: composite.components,
+      riskExplanation: composite.explanation,
+      scoringPolicyVersion: engine.policyVersion
+    });
+    return { assessment, acoustic };
+  }
+
+  test('should fuse a transcript that arrives after the call into the acoustic score', async () => {
+    const analysis = transcriptAnalysis(90, 100);
+    jest.spyOn(HeartVoiceOpenAIService.prototype, 'analyzeClinicalVoice').mockResolvedValue(analysis);
+    const { assessment, acoustic } = acousticOnlyAssessment();
+
+    const revised = await new VoiceCallService().applyTranscript(assessment, 'I get out of breath on the stairs');
+    const expected = new RiskAssessmentEngine().combineRiskScores(acoustic, analysis);
+
+    expect(revised!.clinicalAnalysis).toEqual(analysis);
+    expect(revised!.riskScore).toBe(expected.score);
+    expect(revised!.riskComponents).toEqual(expected.components);
+    expect(revised!.riskExplanation).toEqual(expected.explanation);
+    expect(revised!.biomarkers).toEqual(assessment.biomarkers);
+  });
+
+  test('should not fuse a transcript twice or into an unscored assessment', async () => {
+    const analyze = jest.spyOn(HeartVoiceOpenAIService.prototype, 'analyzeClinicalVoice')
+      .mockResolvedValue(transcriptAnalysis(90, 100));
+    const service = new VoiceCallService();
+    const revised = await service.applyTranscript(acousticOnlyAssessment().assessment, 'I get out of breath');
+
+    expect(await service.applyTranscript(revised!, 'I get out of breath')).toBeNull();
+    expect(await service.applyTranscript(makeAssessment({ callStatus: 'failed' }), 'I get out of breath')).toBeNull();
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ClinicalAnalysisCache', () => {
+  test('should not share a cache key between different transcripts of the same length', () => {
+    const cache = new ClinicalAnalysisCache();
+    const request = {
+      sessionId: 'session',
+      conversationFlow: ['breathing'],
+      clinicalContext: 'heart_failure_monitoring' as const,
+      timestamp: new Date().toISOString()
+    };
+
+    expect(cache.generateCacheKey({ ...request, deidentifiedTranscript: 'I feel fine today' }))
+      .not.toBe(cache.generateCacheKey({ ...request, deidentifiedTranscript: 'I cannot breathe!' }));
+  });
+});
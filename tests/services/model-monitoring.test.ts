@@ -0,0 +1,185 @@
+/**
+ * Model Monitoring Tests
+ * Rolling accuracy and calibration by month and site, and drift alerts against configured bounds
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { ClinicalOutcome, Patient, VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import { ModelMonitor, scheduleDriftChecks } from '../../heartvoice-monitor/src/services/model-monitoring';
+import { InMemorySystemAlertRepository } from '../../heartvoice-monitor/src/services/system-alert-repository';
+import { DAY_MS, makeAssessment } from '../utils/fixtures';
+
+
+function patient(id: string, site?: string): Patient {
+  return { id, monitoring: { site } } as Patient;
+}
+
+function assessment(patientId: string, date: string, riskScore: number, alertGenerated = false): VoiceAssessment {
+  return makeAssessment({
+    id: `assessment-${patientId}-${date}`,
+    patientId,
+    timestamp: `${date}T09:00:00.000Z`,
+    riskScore,
+    riskLevel: riskScore >= 60 ? 'high' : 'low',
+    alertGenerated
+  });
+}
+
+function outcomeAfter(item: VoiceAssessment, days = 3): ClinicalOutcome {
+  return { patientId: item.patientId, type: 'hf-hospitalization', date: new Date(new Date(item.timestamp).getTime() + days * DAY_MS).toISOString() };
+}
+
+const PATIENTS = [patient('p1', 'Main Campus'), patient('p2', 'North Clinic'), patient('p3')];
+
+describe('ModelMonitor.evaluate', () => {
+  test('should compute rolling metrics by month and metrics by site for the latest window', () => {
+    const alerting = assessment('p1', '2025-01-10', 80, true);
+    const assessments = [
+      alerting,
+      assessment('p2', '2025-01-20', 10),
+      assessment('p2', '2025-02-10', 70, true),
+      assessment('p3', '2025-03-05', 20)
+    ];
+    const monitor = new ModelMonitor({ windowMonths: 2 });
+
+    const report = monitor.evaluate(assessments, [outcomeAfter(alerting)], PATIENTS, new Date('2025-06-01'));
+
+    expect(report.byMonth.map(summary => [summary.month, summary.examples, summary.events])).toEqual([
+      ['2025-01', 2, 1],
+      ['2025-02', 3, 1],
+      ['2025-03', 2, 0]
+    ]);
+    expect(report.byMonth[1]).toEqual(expect.objectContaining({
+      auroc: 1,
+      brier: null,
+      calibrationInTheLarge: null,
+      alerts: 2,
+      alertPpv: 0.5
+    }));
+    expect(report.bySite.map(summary => [summary.site, summary.examples])).toEqual([['North Clinic', 1], ['Unassigned', 1]]);
+  });
+
+  test('should leave out assessments whose outcome window has not closed', () => {
+    const monitor = new ModelMonitor();
+    const report = monitor.evaluate([assessment('p1', '2025-05-25', 40)], [], PATIENTS, new Date('2025-06-01'));
+
+    expect(report.byMonth).toEqual([]);
+  });
+
+  test('should use the outcome model probability when monitoring the model', () => {
+    const withModel = { ...assessment('p1', '2025-01-10', 80), modelPrediction: { modelVersion: 'm1', probability: 0.3, horizonDays: 14 } };
+    const monitor = new ModelMonitor({ source: 'model' });
+    const report = monitor.evaluate([withModel, assessment('p2', '2025-01-11', 80)], [outcomeAfter(withModel)], PATIENTS, new Date('2025-06-01'));
+
+    expect(report.byMonth[0]).toEqual(expect.objectContaining({ examples: 1, brier: 0.49, calibrationInTheLarge: 0.7 }));
+  });
+
+  test('should judge the model on its own alerts at the threshold, not on the policy alerts', () => {
+    const predicted = (item: VoiceAssessment, probability: number) =>
+      ({ ...item, modelPrediction: { modelVersion: 'm1', probability, horizonDays: 14 } });
+    // The policy alerts on the first two, the model on the last two
+    const policyOnly = predicted(assessment('p1', '2025-01-10', 80, true), 0.05);
+    const bothAlert = predicted(assessment('p2', '2025-01-12', 80, true), 0.6);
+    const modelOnly = predicted(assessment('p3', '2025-01-14', 20), 0.4);
+    const assessments = [policyOnly, bothAlert, modelOnly, predicted(assessment('p4', '2025-01-16', 20), 0.1)];
+    const outcomes = [outcomeAfter(bothAlert), outcomeAfter(modelOnly)];
+
+    const model = new ModelMonitor({ source: 'model', modelAlertThreshold: 0.3 })
+      .evaluate(assessments, outcomes, PATIENTS, new Date('2025-06-01'));
+    const policy = new ModelMonitor({ source: 'policy' })
+      .evaluate(assessments, outcomes, PATIENTS, new Date('2025-06-01'));
+
+    expect(model.byMonth[0]).toEqual(expect.objectContaining({ alerts: 2, alertPpv: 1 }));
+    expect(policy.byMonth[0]).toEqual(expect.objectContaining({ alerts: 2, alertPpv: 0.5 }));
+  });
+});
+
+describe('ModelMonitor.check', () => {
+  // Every assessment scored 80, alerting and followed by no event: badly calibrated at every site
+  const overconfident = Array.from({ length: 40 }, (_, i) => ({
+    ...assessment(i % 2 === 0 ? 'p1' : 'p2', `2025-03-${String((i % 28) + 1).padStart(2, '0')}`, 80, true),
+    modelPrediction: { modelVersion: 'm1', probability: 0.8, horizonDays: 14 }
+  }));
+
+  test('should raise one system alert per breached condition and not repeat it', () => {
+    const monitor = new ModelMonitor({ minExamples: 10 });
+    const report = monitor.check(overconfident, [], PATIENTS, new Date('2025-06-01'));
+    monitor.check(overconfident, [], PATIENTS, new Date('2025-06-02'));
+
+    expect(report.breaches).toEqual(expect.arrayContaining([
+      { scope: 'Main Campus', metric: 'alertPpv', value: 0, bound: 0.1 }
+    ]));
+    const conditions = monitor.getSystemAlerts().map(alert => alert.condition);
+    expect(conditions).toHaveLength(new Set(conditions).size);
+    expect(conditions).toContain('North Clinic:alertPpv');
+    expect(monitor.getSystemAlerts()[0].message).toMatch(/^Risk score: .+ is .+ the bound of/);
+  });
+
+  test('should judge calibration for the outcome model but not for the risk score', () => {
+    const repository = new InMemorySystemAlertRepository();
+    const policyMonitor = new ModelMonitor({ source: 'policy', minExamples: 10 }, repository);
+    const modelMonitor = new ModelMonitor({ source: 'model', minExamples: 10 }, repository);
+
+    const policyReport = policyMonitor.check(overconfident, [], PATIENTS, new Date('2025-06-01'));
+    const modelReport = modelMonitor.check(overconfident, [], PATIENTS, new Date('2025-06-01'));
+
+    expect(policyReport.breaches.map(breach => breach.metric)).toEqual(['alertPpv', 'alertPpv', 'alertPpv']);
+    expect(modelReport.breaches).toEqual(expect.arrayContaining([
+      { scope: 'overall', metric: 'calibrationInTheLarge', value: -0.8, bound: 0.1 },
+      { scope: 'North Clinic', metric: 'brier', value: 0.64, bound: 0.2 }
+    ]));
+    expect(policyMonitor.getSystemAlerts().every(alert => alert.scoreSource === 'policy')).toBe(true);
+    expect(modelMonitor.getSystemAlerts().map(alert => alert.condition)).toContain('overall:calibrationInTheLarge');
+    expect(repository.list()).toHaveLength(policyMonitor.getSystemAlerts().length + modelMonitor.getSystemAlerts().length);
+  });
+
+  test('should keep alerts raised by an earlier monitor over the same repository', () => {
+    const repository = new InMemorySystemAlertRepository();
+    new ModelMonitor({ minExamples: 10 }, repository).check(overconfident, [], PATIENTS, new Date('2025-06-01'));
+    const restarted = new ModelMonitor({ minExamples: 10 }, repository);
+    const raised = restarted.getSystemAlerts();
+
+    restarted.check(overconfident, [], PATIENTS, new Date('2025-06-02'));
+
+    expect(raised.length).toBeGreaterThan(0);
+    expect(restarted.getSystemAlerts()).toEqual(raised);
+  });
+
+  test('should keep alerts open on too few examples and resolve them once back in bounds', () => {
+    const monitor = new ModelMonitor({ minExamples: 10 });
+    monitor.check(overconfident, [], PATIENTS, new Date('2025-06-01'));
+    monitor.check(overconfident.slice(0, 5), [], PATIENTS, new Date('2025-06-02'));
+    expect(monitor.getSystemAlerts().every(alert => alert.status === 'active')).toBe(true);
+
+    // Scores of 0 with no events are perfectly calibrated and never alert
+    const recovered = overconfident.map(item => ({ ...item, riskScore: 0, riskLevel: 'low' as const, alertGenerated: false }));
+    monitor.check(recovered, [], PATIENTS, new Date('2025-06-03'));
+    const alerts = monitor.getSystemAlerts();
+    expect(alerts.length).toBeGreaterThan(0);
+    expect(alerts.every(alert => alert.status === 'resolved' && alert.resolvedAt === '2025-06-03T00:00:00.000Z')).toBe(true);
+  });
+});
+
+describe('scheduleDriftChecks', () => {
+  test('should check every monitor at once and then on each interval until stopped', async () => {
+    jest.useFakeTimers();
+    try {
+      const loadData = jest.fn(async () => ({ assessments: [], outcomes: [], patients: PATIENTS }));
+      const monitor = new ModelMonitor();
+      const check = jest.spyOn(monitor, 'check');
+
+      const stop = scheduleDriftChecks([monitor], loadData, 60_000);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(check).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(120_000);
+      expect(check).toHaveBeenCalledTimes(3);
+
+      stop();
+      await jest.advanceTimersByTimeAsync(120_000);
+      expect(loadData).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Scoring Model Registry Tests
+ * Policy and model lifecycle, shadow-mode scoring and champion/challenger comparison
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ShadowScore, VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import {
+  DEFAULT_SCORING_POLICY,
+  RiskScoringPolicy,
+  ScoringPolicyError,
+  ScoringPolicyRegistry
+} from '../../heartvoice-monitor/src/services/scoring-policy';
+import { RiskModel } from '../../heartvoice-monitor/src/services/risk-model';
+import {
+  ModelRegistryError,
+  ScoringModelRegistry,
+  compareShadowScores
+} from '../../heartvoice-monitor/src/services/model-registry';
+import { InMemoryScoringModelRepository } from '../../heartvoice-monitor/src/services/scoring-model-repository';
+import { makeAssessment } from '../utils/fixtures';
+import { VoiceCallService } from '../../heartvoice-monitor/src/services/voice-processing-service';
+
+// Alerts from a score of 20, judged on the score itself, where production only reaches medium at 35
+const SENSITIVE_POLICY: RiskScoringPolicy = {
+  ...DEFAULT_SCORING_POLICY,
+  version: '2.0.0-candidate',
+  description: 'Lower alert thresholds',
+  levels: { medium: 10, high: 20, critical: 80 },
+  alerts: { ...DEFAULT_SCORING_POLICY.alerts, suppressWhenUncertain: false }
+};
+
+function model(version: string): RiskModel {
+  return {
+    version,
+    outcome: 'HF hospitalization or ED visit within 14 days',
+    horizonDays: 14,
+    features: [{ name: 'hnr', mean: 18, standardDeviation: 4 }],
+    intercept: -2,
+    coefficients: [-1],
+    calibration: { method: 'platt', slope: 1, intercept: 0 },
+    metrics: { examples: 0, events: 0, auroc: null, brier: 0, calibrationTable: [] }
+  };
+}
+
+function registry(): ScoringModelRegistry {
+  const policies = new ScoringPolicyRegistry();
+  policies.register(SENSITIVE_POLICY);
+  return new ScoringModelRegistry(policies);
+}
+
+function assessment(id: string, patientId: string, overrides: Partial<VoiceAssessment> = {}): VoiceAssessment {
+  return makeAssessment({
+    id,
+    patientId,
+    biomarkers: { jitter: 1.0, shimmer: 6.5, hnr: 18, f0: 120, spectralSlope: -8, voiceIntensity: 65 },
+    riskScore: 25,
+    riskLevel: 'low',
+    ...overrides
+  });
+}
+
+describe('ScoringModelRegistry', () => {
+  test('should start new policies as drafts and retire the policy an activation replaces', () => {
+    const models = registry();
+
+    expect(models.getStatus('policy', '2.0.0-candidate')).toBe('draft');
+    models.setStatus('policy', '2.0.0-candidate', 'shadow');
+    expect(models.getShadowPolicies().map(policy => policy.version)).toEqual(['2.0.0-candidate']);
+
+    models.setStatus('policy', '2.0.0-candidate', 'active');
+    expect(models.getActivePolicy().version).toBe('2.0.0-candidate');
+    expect(models.getStatus('policy', DEFAULT_SCORING_POLICY.version)).toBe('retired');
+    expect(models.getShadowPolicies()).toEqual([]);
+  });
+
+  test('should refuse transitions outside the lifecycle', () => {
+    const models = registry();
+
+    expect(() => models.setStatus('policy', DEFAULT_SCORING_POLICY.version, 'retired')).toThrow(ModelRegistryError);
+    models.setStatus('policy', '2.0.0-candidate', 'retired');
+    expect(() => models.setStatus('policy', '2.0.0-candidate', 'active')).toThrow(/from retired to active/);
+    expect(() => models.setStatus('model', 'missing', 'shadow')).toThrow(/Unknown model missing/);
+  });
+
+  test('should keep a single active model and reject duplicate versions', () => {
+    const models = new ScoringModelRegistry(new ScoringPolicyRegistry(), { activeModel: model('m1') });
+    models.registerModel(model('m2'));
+    models.setStatus('model', 'm2', 'active');
+
+    expect(models.getActiveModel()?.version).toBe('m2');
+    expect(models.getStatus('model', 'm1')).toBe('retired');
+    expect(() => models.registerModel(model('m2'))).toThrow(/already registered/);
+  });
+});
+
+describe('ScoringModelRegistry persistence', () => {
+  test('should restore registered policies, models and statuses from its repository', () => {
+    const repository = new InMemoryScoringModelRepository();
+    const first = new ScoringModelRegistry(new ScoringPolicyRegistry(), { activeModel: model('m1'), repository });
+    first.registerPolicy(SENSITIVE_POLICY);
+    first.setStatus('policy', '2.0.0-candidate', 'active');
+    first.registerModel(model('m2'));
+    first.setStatus('model', 'm2', 'shadow');
+
+    // As after a restart: the configured model is already known and keeps its stored status
+    const restarted = new ScoringModelRegistry(new ScoringPolicyRegistry(), { activeModel: model('m1'), repository });
+
+    expect(restarted.getActivePolicy().version).toBe('2.0.0-candidate');
+    expect(restarted.getStatus('policy', DEFAULT_SCORING_POLICY.version)).toBe('retired');
+    expect(restarted.getActiveModel()?.version).toBe('m1');
+    expect(restarted.getShadowModels().map(entry => entry.version)).toEqual(['m2']);
+    expect(restarted.listPolicies()).toEqual([
+      { version: DEFAULT_SCORING_POLICY.version, description: DEFAULT_SCORING_POLICY.description, active: false },
+      { version: '2.0.0-candidate', description: 'Lower alert thresholds', active: true }
+    ]);
+  });
+
+  test('should reject invalid and duplicate policy versions', () => {
+    const models = new ScoringModelRegistry(new ScoringPolicyRegistry());
+    models.registerPolicy(SENSITIVE_POLICY);
+
+    expect(() => models.registerPolicy(SENSITIVE_POLICY)).toThrow(ScoringPolicyError);
+    expect(() => models.registerPolicy({ ...SENSITIVE_POLICY, version: '3.0.0', levels: { medium: 50, high: 40, critical: 80 } }))
+      .toThrow(/Invalid scoring policy 3.0.0/);
+    expect(models.getStatus('policy', '3.0.0')).toBeNull();
+  });
+});
+
+describe('VoiceCallService.scoreShadows', () => {
+  test('should score shadow policies and models without changing production', () => {
+    const models = registry();
+    models.setStatus('policy', '2.0.0-candidate', 'shadow');
+    models.registerModel(model('m1'));
+    models.setStatus('model', 'm1', 'shadow');
+    const service = new VoiceCallService(models);
+
+    const shadows = service.scoreShadows(assessment('a1', 'patient-001'), { profile: { sexAtBirth: 'male', age: 60 } });
+
+    expect(shadows).toEqual([
+      { kind: 'policy', version: '2.0.0-candidate', riskScore: 25, riskLevel: 'high', alertLevel: 'high', alertGenerated: true },
+      { kind: 'model', version: 'm1', riskScore: 11.9 }
+    ]);
+  });
+
+  test('should judge a shadow policy against its own earlier decisions', () => {
+    const models = registry();
+    models.setStatus('policy', '2.0.0-candidate', 'shadow');
+    const service = new VoiceCallService(models);
+    const previous = assessment('a0', 'patient-001', {
+      timestamp: '2025-08-31T09:00:00Z',
+      shadowScores: [{ kind: 'policy', version: '2.0.0-candidate', riskScore: 25, riskLevel: 'high', alertLevel: 'high', alertGenerated: true }]
+    });
+
+    const [shadow] = service.scoreShadows(assessment('a1', 'patient-001'), { profile: { sexAtBirth: 'male', age: 60 } }, [previous]);
+
+    expect(shadow).toEqual(expect.objectContaining({ alertLevel: 'high', alertGenerated: false }));
+  });
+});
+
+describe('compareShadowScores', () => {
+  test('should report disagreement rates and patients who would have alerted differently', () => {
+    const challenger = (riskScore: number, alertGenerated: boolean): ShadowScore => ({
+      kind: 'policy',
+      version: '2.0.0-candidate',
+      riskScore,
+      riskLevel: riskScore >= 20 ? 'high' : 'medium',
+      alertGenerated
+    });
+    const assessments = [
+      assessment('a1', 'patient-001', { shadowScores: [challenger(25, true)] }),
+      assessment('a2', 'patient-002', { riskScore: 10, shadowScores: [challenger(10, false)] }),
+      assessment('a3', 'patient-002', { riskScore: 65, riskLevel: 'high', alertGenerated: true, shadowScores: [challenger(65, true)] }),
+      assessment('a4', 'patient-003', { modelPrediction: { modelVersion: 'm0', probability: 0.2, horizonDays: 14 }, shadowScores: [{ kind: 'model', version: 'm1', riskScore: 30 }] }),
+      assessment('a5', 'patient-003', { shadowScores: [{ kind: 'model', version: 'm1', riskScore: 50 }] })
+    ];
+
+    expect(compareShadowScores(assessments)).toEqual([
+      {
+        kind: 'policy',
+        version: '2.0.0-candidate',
+        assessments: 3,
+        meanScoreDifference: 0,
+        levelDisagreementRate: 0.667,
+        alertDisagreementRate: 0.333,
+        patientsAlertingDifferently: [{ patientId: 'patient-001', productionAlerts: 0, challengerAlerts: 1 }]
+      },
+      {
+        kind: 'model',
+        version: 'm1',
+        assessments: 1,
+        meanScoreDifference: 10,
+        levelDisagreementRate: null,
+        alertDisagreementRate: null,
+        patientsAlertingDifferently: []
+      }
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Patient Patch Tests
+ * JSON Patch and merge patch updates, protected fields, validation of the result, the computed diff
+ * and version checks for concurrent edits
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Patient } from '../../heartvoice-monitor/src/types/clinical';
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  diffDocuments,
+  PatientPatchError
+} from '../../heartvoice-monitor/src/services/patient-patch';
+import { PatientService, PatientVersionConflictError } from '../../heartvoice-monitor/src/services/patient-service';
+import { makeAssessment } from '../utils/fixtures';
+
+async function firstPatient() {
+  const service = new PatientService();
+  const [patient] = await service.getAllPatients();
+  return { service, patient };
+}
+
+describe('applyMergePatch', () => {
+  test('should merge nested objects, replace arrays and remove null fields', () => {
+    const target = { a: { b: 1, c: [1, 2], d: 'keep' }, e: 'remove' };
+
+    expect(applyMergePatch(target, { a: { b: 2, c: [3] }, e: null })).toEqual({ a: { b: 2, c: [3], d: 'keep' } });
+    expect(target.a.b).toBe(1);
+  });
+
+  test('should reject prototype keys without polluting Object.prototype', () => {
+    const patch = JSON.parse('{"__proto__": {"polluted": true}, "a": {"constructor": {"prototype": {"polluted": true}}}}');
+
+    expect(() => applyMergePatch({ a: {} }, patch)).toThrow(PatientPatchError);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('applyJsonPatch', () => {
+  test('should apply add, remove, replace, move, copy and test operations', () => {
+    const document = { list: ['a', 'b'], nested: { 'x/y': 1 }, other: 'value' };
+
+    expect(applyJsonPatch(document, [
+      { op: 'test', path: '/other', value: 'value' },
+      { op: 'add', path: '/list/-', value: 'c' },
+      { op: 'remove', path: '/list/0' },
+      { op: 'replace', path: '/nested/x~1y', value: 2 },
+      { op: 'copy', from: '/other', path: '/copied' },
+      { op: 'move', from: '/other', path: '/moved' }
+    ])).toEqual({ list: ['b', 'c'], nested: { 'x/y': 2 }, copied: 'value', moved: 'value' });
+  });
+
+  test('should apply nothing when any operation fails', () => {
+    const document = { count: 1 };
+
+    expect(() => applyJsonPatch(document, [
+      { op: 'replace', path: '/count', value: 2 },
+      { op: 'test', path: '/count', value: 1 }
+    ])).toThrow(/operation 1: \/count does not match/);
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/missing' }])).toThrow(PatientPatchError);
+    expect(document.count).toBe(1);
+  });
+
+  test('should reject pointers through prototype keys without polluting Object.prototype', () => {
+    const document = { nested: {} };
+
+    for (const path of ['/__proto__/polluted', '/nested/constructor/prototype/polluted', '/constructor']) {
+      expect(() => applyJsonPatch(document, [{ op: 'add', path, value: true }])).toThrow(PatientPatchError);
+    }
+    expect(() => applyJsonPatch(document, [{ op: 'copy', from: '/__proto__', path: '/copied' }])).toThrow(PatientPatchError);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('diffDocuments', () => {
+  test('should describe changes as JSON Patch operations that reproduce the result', () => {
+    const before = { a: { b: 1, c: 'x' }, list: [1], gone: true };
+    const after = { a: { b: 2, c: 'x' }, list: [1, 2], added: 'y' };
+    const diff = diffDocuments(before, after);
+
+    expect(diff).toEqual([
+      { op: 'replace', path: '/a/b', value: 2 },
+      { op: 'replace', path: '/list', value: [1, 2] },
+      { op: 'remove', path: '/gone' },
+      { op: 'add', path: '/added', value: 'y' }
+    ]);
+    expect(applyJsonPatch(before, diff)).toEqual(after);
+  });
+});
+
+describe('PatientService.patchPatient', () => {
+  test('should keep the rest of a section when one nested field is updated', async () => {
+    const { service, patient } = await firstPatient();
+    const updated = await service.updatePatient({
+      patientId: patient.id,
+      updates: { clinicalInfo: { nyhaClass: 3 } } as Partial<Patient>
+    });
+
+    expect(updated!.clinicalInfo).toEqual({ ...patient.clinicalInfo, nyhaClass: 3 });
+    expect((await service.getPatientById(patient.id))!.clinicalInfo.medications).toEqual(patient.clinicalInfo.medications);
+  });
+
+  test('should return the diff of a JSON Patch and store the result', async () => {
+    const { service, patient } = await firstPatient();
+    const result = await service.patchPatient(patient.id, {
+      format: 'json-patch',
+      operations: [{ op: 'add', path: '/clinicalInfo/medications/-', value: 'Spironolactone 25mg' }]
+    });
+
+    expect(result!.diff).toEqual([
+      { op: 'replace', path: '/clinicalInfo/medications', value: [...patient.clinicalInfo.medications, 'Spironolactone 25mg'] }
+    ]);
+    expect((await service.getPatientById(patient.id))!.clinicalInfo.medications).toContain('Spironolactone 25mg');
+  });
+
+  test('should reject edits to protected fields and patches that leave an invalid patient', async () => {
+    const { service, patient } = await firstPatient();
+
+    await expect(service.patchPatient(patient.id, { format: 'merge-patch', document: { id: 'patient-999' } }))
+      .rejects.toThrow(/id cannot be changed/);
+    await expect(service.patchPatient(patient.id, {
+      format: 'json-patch',
+      operations: [{ op: 'replace', path: '/monitoring/enrollmentDate', value: '2020-01-01' }]
+    })).rejects.toThrow(/monitoring.enrollmentDate cannot be changed/);
+    await expect(service.patchPatient(patient.id, { format: 'merge-patch', document: { baseline: { status: 'established', requiredAssessments: 0 } } }))
+      .rejects.toThrow(/baseline cannot be changed/);
+    await expect(service.patchPatient(patient.id, {
+      format: 'json-patch',
+      operations: [{ op: 'replace', path: '/currentRisk/level', value: 'low' }]
+    })).rejects.toThrow(/currentRisk cannot be changed/);
+
+    const invalid = service.patchPatient(patient.id, {
+      format: 'merge-patch',
+      document: { clinicalInfo: { nyhaClass: 5, emergencyContact: null } }
+    });
+    await expect(invalid).rejects.toThrow(PatientPatchError);
+    await expect(invalid).rejects.toMatchObject({
+      errors: ['clinicalInfo.nyhaClass must be 1, 2, 3 or 4', 'clinicalInfo.emergencyContact requires name, relationship and phoneNumber']
+    });
+    expect(await service.getPatientById(patient.id)).toEqual(patient);
+  });
+
+  test('should validate new patients the same way and store none that fail', async () => {
+    const { service, patient } = await firstPatient();
+    const count = (await service.getAllPatients()).length;
+    const request = { demographics: patient.demographics, clinicalInfo: patient.clinicalInfo, monitoring: patient.monitoring };
+
+    const created = await service.createPatient(request);
+    await expect(service.createPatient({ ...request, demographics: { ...request.demographics, mrn: '' } }))
+      .rejects.toMatchObject({ errors: ['demographics.mrn is required'] });
+
+    expect(created.version).toBe(1);
+    expect(await service.getAllPatients()).toHaveLength(count + 1);
+  });
+
+  test('should accept every development patient as valid', async () => {
+    const service = new PatientService();
+    for (const patient of await service.getAllPatients()) {
+      expect((await service.patchPatient(patient.id, { format: 'merge-patch', document: {} }))!.diff).toEqual([]);
+    }
+  });
+});
+
+describe('PatientService versions', () => {
+  test('should bump the version on every stored change but not on an empty patch', async () => {
+    const { service, patient } = await firstPatient();
+    expect(patient.version).toBe(1);
+
+    const updated = await service.patchPatient(patient.id, { format: 'merge-patch', document: { monitoring: { timezone: 'America/Chicago' } } }, 1);
+    const unchanged = await service.patchPatient(patient.id, { format: 'merge-patch', document: {} }, 2);
+
+    expect(updated!.patient.version).toBe(2);
+    expect(unchanged!.patient.version).toBe(2);
+    expect(updated!.diff).toEqual([{ op: 'replace', path: '/monitoring/timezone', value: 'America/Chicago' }]);
+  });
+
+  test('should reject a write based on an older version with the current copy', async () => {
+    const { service, patient } = await firstPatient();
+    await service.patchPatient(patient.id, { format: 'merge-patch', document: { clinicalInfo: { nyhaClass: 3 } } }, 1);
+
+    const stale = service.patchPatient(patient.id, { format: 'merge-patch', document: { clinicalInfo: { nyhaClass: 4 } } }, 1);
+    await expect(stale).rejects.toThrow(PatientVersionConflictError);
+    await expect(stale).rejects.toMatchObject({ current: { version: 2, clinicalInfo: { nyhaClass: 3 } } });
+    await expect(service.deactivatePatient(patient.id, 'Moved away', 1)).rejects.toThrow(PatientVersionConflictError);
+    expect((await service.getPatientById(patient.id))!.clinicalInfo.nyhaClass).toBe(3);
+  });
+
+  test('should store each recorded assessment with a single version bump', async () => {
+    const { service, patient } = await firstPatient();
+
+    const updated = await service.recordAssessment(makeAssessment({
+      patientId: patient.id,
+      biomarkers: { jitter: 1.0, shimmer: 4.0, hnr: 18, f0: 120, spectralSlope: -8, voiceIntensity: 65 },
+      riskScore: 40,
+      riskLevel: 'medium'
+    }));
+
+    expect(updated!.version).toBe(2);
+    expect(updated!.baseline!.assessmentCount).toBe(patient.baseline!.assessmentCount + 1);
+    expect(await service.getPatientById(patient.id)).toEqual(updated);
+  });
+
+  test('should revise a stored assessment without counting it in the baseline again', async () => {
+    const { service, patient } = await firstPatient();
+    const assessment = makeAssessment({
+      patientId: patient.id,
+      timestamp: new Date().toISOString(),
+      biomarkers: { jitter: 1.0, shimmer: 4.0, hnr: 18, f0: 120, spectralSlope: -8, voiceIntensity: 65 },
+      riskScore: 40,
+      riskLevel: 'medium'
+    });
+    const recorded = await service.recordAssessment(assessment);
+
+    const revised = await service.reviseAssessment({ ...assessment, riskScore: 62, riskLevel: 'high' });
+
+    expect(revised!.baseline!.assessmentCount).toBe(recorded!.baseline!.assessmentCount);
+    expect(revised!.currentRisk).toMatchObject({ score: 62, level: 'high' });
+    expect((await service.getAssessmentHistory(patient.id)).filter(item => item.id === assessment.id))
+      .toEqual([expect.objectContaining({ riskScore: 62 })]);
+  });
+
+  test('should reset the baseline only from the current version', async () => {
+    const { service, patient } = await firstPatient();
+    await service.patchPatient(patient.id, { format: 'merge-patch', document: { clinicalInfo: { nyhaClass: 3 } } }, 1);
+
+    await expect(service.resetBaseline(patient.id, 1)).rejects.toThrow(PatientVersionConflictError);
+    expect((await service.resetBaseline(patient.id, 2))!.version).toBe(3);
+  });
+
+  test('should not let a patch set the version', async () => {
+    const { service, patient } = await firstPatient();
+
+    await expect(service.patchPatient(patient.id, { format: 'merge-patch', document: { version: 10 } }))
+      .rejects.toThrow(/version cannot be changed/);
+  });
+});
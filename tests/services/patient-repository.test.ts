@@ -0,0 +1,75 @@
+/**
+ * Patient Repository Tests
+ * In-memory repository semantics and PatientService persistence through a repository
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Patient } from '../../heartvoice-monitor/src/types/clinical';
+import { InMemoryPatientRepository } from '../../heartvoice-monitor/src/services/patient-repository';
+import { PatientService } from '../../heartvoice-monitor/src/services/patient-service';
+
+function patient(id: string, firstName = 'Test'): Patient {
+  return { id, demographics: { firstName } } as Patient;
+}
+
+describe('InMemoryPatientRepository', () => {
+  test('should store and return copies so changes only persist on save', () => {
+    const repository = new InMemoryPatientRepository();
+    const original = patient('p1');
+    repository.save(original);
+    original.demographics.firstName = 'Changed';
+
+    const loaded = repository.get('p1')!;
+    loaded.demographics.firstName = 'Also changed';
+
+    expect(repository.get('p1')!.demographics.firstName).toBe('Test');
+    expect(repository.get('missing')).toBeNull();
+  });
+
+  test('should list in creation order and replace on save', () => {
+    const repository = new InMemoryPatientRepository();
+    repository.save(patient('p1'));
+    repository.save(patient('p2'));
+    repository.save(patient('p1', 'Updated'));
+
+    expect(repository.list().map(item => [item.id, item.demographics.firstName])).toEqual([
+      ['p1', 'Updated'],
+      ['p2', 'Test']
+    ]);
+  });
+});
+
+describe('PatientService with a repository', () => {
+  test('should seed mock patients only into an empty repository', async () => {
+    const repository = new InMemoryPatientRepository();
+    const first = new PatientService(repository);
+    const seeded = (await first.getAllPatients()).length;
+
+    const second = new PatientService(repository);
+
+    expect(seeded).toBeGreaterThan(0);
+    expect(await second.getAllPatients()).toHaveLength(seeded);
+    expect(await new PatientService(new InMemoryPatientRepository(), { seedMockPatients: false }).getAllPatients()).toEqual([]);
+  });
+
+  test('should persist updates for other service instances sharing the repository', async () => {
+    const repository = new InMemoryPatientRepository();
+    const writer = new PatientService(repository);
+    const [existing] = await writer.getAllPatients();
+
+    await writer.updateConsentStatus(existing.id, 'withdrawn');
+    const reader = new PatientService(repository);
+
+    expect((await reader.getPatientById(existing.id))!.monitoring.consentStatus).toBe('withdrawn');
+  });
+
+  test('should report zeroed dashboard metrics for an empty repository', async () => {
+    const service = new PatientService(new InMemoryPatientRepository(), { seedMockPatients: false });
+
+    const metrics = await service.getDashboardMetrics();
+
+    expect(metrics.totalPatients).toBe(0);
+    expect(metrics.avgRiskScore).toBe(0);
+    expect(metrics.riskDistribution).toEqual({ low: 0, medium: 0, high: 0, critical: 0 });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Reference Range Tests
+ * Sex- and age-adjusted biomarker norms and their use in risk scoring
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Patient, VoiceBiomarkers } from '../../heartvoice-monitor/src/types/clinical';
+import {
+  DEFAULT_REFERENCE_RANGES,
+  ReferenceRangeService,
+  ReferenceRangeTable,
+  referenceProfileFor,
+  validateReferenceRangeTable
+} from '../../heartvoice-monitor/src/services/reference-ranges';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+
+const healthyVoice: VoiceBiomarkers = {
+  jitter: 0.8,
+  shimmer: 3.2,
+  hnr: 18,
+  f0: 120,
+  spectralSlope: -8,
+  voiceIntensity: 62
+};
+
+describe('ReferenceRangeService', () => {
+  test('should classify F0 against the norms for sex at birth', () => {
+    const ranges = new ReferenceRangeService();
+
+    expect(ranges.classify('f0', 120, { sexAtBirth: 'male', age: 50 })!.classification).toBe('normal');
+    expect(ranges.classify('f0', 120, { sexAtBirth: 'female', age: 50 })!.classification).toBe('abnormal');
+    expect(ranges.classify('f0', 155, { sexAtBirth: 'female', age: 50 })!.classification).toBe('borderline');
+    expect(ranges.classify('f0', 155, { sexAtBirth: 'female', age: 70 })!.classification).toBe('normal');
+  });
+
+  test('should fall back to population-wide ranges when sex or age is unknown', () => {
+    const ranges = new ReferenceRangeService();
+
+    expect(ranges.findRange('f0', { sexAtBirth: 'unknown' })!.sex).toBeUndefined();
+    expect(ranges.classify('jitter', 1.7)!.classification).toBe('borderline');
+    expect(ranges.classify('jitter', 1.7, { age: 72 })!.classification).toBe('normal');
+  });
+
+  test('should reject an invalid table', () => {
+    const table: ReferenceRangeTable = {
+      version: 'test',
+      description: 'broken',
+      ranges: [{ feature: 'jitter', normal: { max: 2 }, borderline: { max: 1.5 } }]
+    };
+
+    expect(validateReferenceRangeTable(DEFAULT_REFERENCE_RANGES)).toEqual([]);
+    expect(() => new ReferenceRangeService(table)).toThrow('borderline bounds must contain the normal bounds');
+  });
+
+  test('should derive age on the assessment date from date of birth', () => {
+    const patient = { demographics: { dateOfBirth: '1958-11-22', sexAtBirth: 'female' } } as Patient;
+
+    expect(referenceProfileFor(patient, new Date('2023-11-21'))).toEqual({ sexAtBirth: 'female', age: 64 });
+    expect(referenceProfileFor(patient, new Date('2023-11-22'))).toEqual({ sexAtBirth: 'female', age: 65 });
+  });
+});
+
+describe('RiskAssessmentEngine with reference ranges', () => {
+  test('should flag out-of-range F0 for the patient profile', () => {
+    const engine = new RiskAssessmentEngine();
+    const male = engine.calculateRiskScore(healthyVoice, undefined, { profile: { sexAtBirth: 'male', age: 60 } });
+    const female = engine.calculateRiskScore(healthyVoice, undefined, { profile: { sexAtBirth: 'female', age: 60 } });
+
+    expect(male.score).toBe(0);
+    expect(female.score).toBe(10);
+    expect(female.factors).toContain('Fundamental frequency outside the expected range for sex and age');
+    expect(female.rangeFlags.find(flag => flag.feature === 'f0')!.classification).toBe('abnormal');
+  });
+
+  test('should use a configured reference range table', () => {
+    const strict: ReferenceRangeTable = {
+      version: 'strict',
+      description: 'Tighter jitter norm',
+      ranges: [{ feature: 'jitter', normal: { max: 0.5 }, borderline: { max: 0.7 } }]
+    };
+    const engine = new RiskAssessmentEngine(new ReferenceRangeService(strict));
+    const result = engine.calculateRiskScore(healthyVoice);
+
+    expect(engine.referenceRangeVersion).toBe('strict');
+    expect(result.score).toBe(25);
+    expect(result.factors).toEqual(['Elevated voice jitter indicating vocal cord stress']);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Risk Model Tests
+ * Outcome labeling, deterministic logistic training, calibration and evaluation metrics
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ClinicalOutcome, VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import {
+  RiskModelTrainer,
+  calculateModelMetrics,
+  labelAssessments,
+  predictRiskProbability
+} from '../../heartvoice-monitor/src/services/risk-model';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+import { DAY_MS, makeAssessment } from '../utils/fixtures';
+
+
+function assessment(patientId: string, day: number, hnr: number, shimmer: number): VoiceAssessment {
+  return makeAssessment({
+    id: `assessment-${patientId}-${day}`,
+    patientId,
+    timestamp: new Date(Date.UTC(2025, 0, 1) + day * DAY_MS).toISOString(),
+    callDuration: 60,
+    biomarkers: { jitter: 1, shimmer, hnr, f0: 120, spectralSlope: -8, voiceIntensity: 65 }
+  });
+}
+
+// Patients with a low harmonics-to-noise ratio go on to have events; a fixed generator keeps it reproducible
+function syntheticDataset(): { assessments: VoiceAssessment[]; outcomes: ClinicalOutcome[] } {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  const assessments: VoiceAssessment[] = [];
+  const outcomes: ClinicalOutcome[] = [];
+  for (let p = 0; p < 120; p++) {
+    const patientId = `patient-${p}`;
+    for (let week = 0; week < 4; week++) {
+      const day = week * 20;
+      const hnr = 8 + random() * 16;
+      const shimmer = 2 + random() * 6;
+      assessments.push(assessment(patientId, day, hnr, shimmer));
+      if (random() < 1 / (1 + Math.exp(0.6 * (hnr - 14)))) {
+        outcomes.push({ patientId, type: 'hf-hospitalization', date: new Date(Date.UTC(2025, 0, 1) + (day + 5) * DAY_MS).toISOString() });
+      }
+    }
+  }
+  return { assessments, outcomes };
+}
+
+describe('labelAssessments', () => {
+  test('should label an assessment positive only for an event within the horizon', () => {
+    const assessments = [assessment('p1', 0, 20, 3), assessment('p1', 30, 20, 3), assessment('p2', 0, 20, 3)];
+    const outcomes: ClinicalOutcome[] = [{ patientId: 'p1', type: 'ed-visit', date: new Date(Date.UTC(2025, 0, 11)).toISOString() }];
+
+    expect(labelAssessments(assessments, outcomes).map(example => example.outcome)).toEqual([1, 0, 0]);
+    expect(labelAssessments(assessments, outcomes, 7).map(example => example.outcome)).toEqual([0, 0, 0]);
+  });
+
+  test('should leave out assessments that were not scored', () => {
+    const unusable = { ...assessment('p1', 0, 20, 3), qualityMetrics: { audioQuality: 20, backgroundNoise: 80, completeness: 40, usable: false } };
+
+    expect(labelAssessments([unusable], [])).toEqual([]);
+  });
+});
+
+describe('calculateModelMetrics', () => {
+  test('should compute AUROC with ties, Brier score and calibration bins', () => {
+    const metrics = calculateModelMetrics([0.1, 0.4, 0.4, 0.8], [0, 0, 1, 1]);
+
+    expect(metrics.auroc).toBe(0.875);
+    expect(metrics.brier).toBeCloseTo((0.01 + 0.16 + 0.36 + 0.04) / 4, 6);
+    expect(metrics.calibrationTable).toEqual([
+      { binStart: 0.1, binEnd: 0.2, count: 1, meanPredicted: 0.1, observedRate: 0 },
+      { binStart: 0.4, binEnd: 0.5, count: 2, meanPredicted: 0.4, observedRate: 0.5 },
+      { binStart: 0.8, binEnd: 0.9, count: 1, meanPredicted: 0.8, observedRate: 1 }
+    ]);
+  });
+
+  test('should report no AUROC when only one class is present', () => {
+    expect(calculateModelMetrics([0.2, 0.3], [0, 0]).auroc).toBeNull();
+  });
+});
+
+describe('RiskModelTrainer', () => {
+  const dataset = syntheticDataset();
+  const examples = labelAssessments(dataset.assessments, dataset.outcomes);
+
+  test('should produce an identical model for the same dataset', () => {
+    const first = new RiskModelTrainer().train(examples, 'test');
+    const second = new RiskModelTrainer().train(examples, 'test');
+
+    expect(JSON.stringify(second.model)).toBe(JSON.stringify(first.model));
+    expect(first.report.split.train + first.report.split.calibration + first.report.split.test).toBe(examples.length);
+  });
+
+  test('should learn that a low harmonics-to-noise ratio predicts events', () => {
+    const { model, report } = new RiskModelTrainer().train(examples, 'test');
+    const hnrIndex = model.features.findIndex(feature => feature.name === 'hnr');
+
+    expect(model.coefficients[hnrIndex]).toBeLessThan(0);
+    expect(report.metrics.auroc).toBeGreaterThan(0.75);
+    expect(report.metrics.brier).toBeLessThan(0.2);
+  });
+
+  test('should fit a monotone isotonic calibration map', () => {
+    const { model } = new RiskModelTrainer({ calibration: 'isotonic' }).train(examples, 'test');
+    if (model.calibration.method !== 'isotonic') throw new Error('expected isotonic calibration');
+    const { values } = model.calibration;
+
+    expect(values.every((value, i) => i === 0 || value >= values[i - 1])).toBe(true);
+    const low = predictRiskProbability(model, labelAssessments([assessment('x', 0, 9, 4)], [])[0].features);
+    const high = predictRiskProbability(model, labelAssessments([assessment('x', 0, 23, 4)], [])[0].features);
+    expect(low).toBeGreaterThanOrEqual(high);
+  });
+
+  test('should refuse to train when a split has no events', () => {
+    const negatives = examples.map(example => ({ ...example, outcome: 0 as const }));
+
+    expect(() => new RiskModelTrainer().train(negatives, 'test')).toThrow(/needs both events and non-events/);
+  });
+});
+
+describe('RiskAssessmentEngine model predictions', () => {
+  test('should report the loaded model probability for an assessment', () => {
+    const dataset = syntheticDataset();
+    const { model } = new RiskModelTrainer().train(labelAssessments(dataset.assessments, dataset.outcomes), 'test-model');
+    const engine = new RiskAssessmentEngine(undefined, undefined, model);
+    const prediction = engine.predictOutcome(assessment('x', 0, 9, 4));
+
+    expect(prediction).toEqual({ modelVersion: 'test-model', probability: expect.any(Number), horizonDays: 14 });
+    expect(prediction!.probability).toBeGreaterThan(engine.predictOutcome(assessment('x', 0, 23, 4))!.probability);
+    expect(new RiskAssessmentEngine().predictOutcome(assessment('x', 0, 9, 4))).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Risk Score Uncertainty Tests
+ * Feature standard errors from measurement reliability and the score band they produce
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AudioQualityMeasurements, SegmentBiomarkers, VoiceBiomarkers } from '../../heartvoice-monitor/src/types/clinical';
+import { DEFAULT_SCORING_POLICY } from '../../heartvoice-monitor/src/services/scoring-policy';
+import { estimateFeatureStandardErrors } from '../../heartvoice-monitor/src/services/score-uncertainty';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+
+const VOICE: VoiceBiomarkers = { jitter: 1.45, shimmer: 3.5, hnr: 18, f0: 120, spectralSlope: -8, voiceIntensity: 65 };
+const PROFILE = { sexAtBirth: 'male' as const, age: 60 };
+
+function quality(snrDb: number, voicedDuration: number): AudioQualityMeasurements {
+  return { snrDb, clippingRatio: 0, dropoutCount: 0, dropoutDuration: 0, voicedDuration, taskCompleteness: {}, crosstalkRatio: 0 };
+}
+
+// Ten consistent segments from a clean three-minute call
+function steadySegments(): SegmentBiomarkers[] {
+  return Array.from({ length: 10 }, (_, index) => ({
+    start: index * 10,
+    end: index * 10 + 8,
+    biomarkers: {
+      ...VOICE,
+      jitter: VOICE.jitter + (index % 2 === 0 ? 0.01 : -0.01),
+      f0: VOICE.f0 + (index % 2 === 0 ? 1 : -1)
+    }
+  }));
+}
+
+describe('estimateFeatureStandardErrors', () => {
+  test('should use the spread across segments', () => {
+    const errors = estimateFeatureStandardErrors(VOICE, { segments: steadySegments(), quality: quality(35, 60) }, DEFAULT_SCORING_POLICY.uncertainty);
+
+    expect(errors.f0).toBeCloseTo(1.054 / Math.sqrt(10), 3);
+    expect(errors.hnr).toBe(0);
+  });
+
+  test('should fall back to a fraction of the value and inflate it for noise and short voicing', () => {
+    const settings = DEFAULT_SCORING_POLICY.uncertainty;
+
+    expect(estimateFeatureStandardErrors(VOICE, undefined, settings).f0).toBeCloseTo(6, 5);
+    // SNR 15 dB against 30 dB doubles the error, 2.5 s against 10 s of voicing doubles it again
+    expect(estimateFeatureStandardErrors(VOICE, { segments: [], quality: quality(15, 2.5) }, settings).f0).toBeCloseTo(24, 5);
+  });
+});
+
+describe('RiskAssessmentEngine score band', () => {
+  test('should give a clean recording a narrow band and a short noisy one a wide band', () => {
+    const engine = new RiskAssessmentEngine();
+    const clean = engine.calculateRiskScore(VOICE, undefined, {
+      profile: PROFILE,
+      measurement: { segments: steadySegments(), quality: quality(35, 60) }
+    });
+    const noisy = engine.calculateRiskScore(VOICE, undefined, {
+      profile: PROFILE,
+      measurement: { segments: [], quality: quality(12, 3) }
+    });
+
+    expect(clean.score).toBe(0);
+    expect(clean.interval).toEqual({ lower: 0, upper: 0, confidenceLevel: 0.95 });
+    expect(noisy.score).toBe(0);
+    expect(noisy.interval.lower).toBe(0);
+    expect(noisy.interval.upper).toBeGreaterThanOrEqual(35);
+  });
+
+  test('should carry the acoustic band into the composite score', () => {
+    const engine = new RiskAssessmentEngine();
+    const result = engine.combineRiskScores({ score: 50, factors: [], interval: { lower: 30, upper: 70, confidenceLevel: 0.95 } });
+
+    expect(result.interval).toEqual({ lower: 30, upper: 70, confidenceLevel: 0.95 });
+  });
+
+  test('should hold back alerts whose band reaches below the threshold unless the policy allows them', () => {
+    const band = { lower: 55, upper: 95, confidenceLevel: 0.95 };
+    const permissive = new RiskAssessmentEngine(undefined, {
+      ...DEFAULT_SCORING_POLICY,
+      version: '1.1.0',
+      alerts: { ...DEFAULT_SCORING_POLICY.alerts, suppressWhenUncertain: false }
+    });
+
+    expect(new RiskAssessmentEngine().shouldGenerateAlert(85, undefined, band)).toBe(false);
+    expect(new RiskAssessmentEngine().shouldGenerateAlert(85, undefined, { ...band, lower: 81 })).toBe(true);
+    expect(permissive.shouldGenerateAlert(85, undefined, band)).toBe(true);
+  });
+});
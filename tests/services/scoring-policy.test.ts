@@ -0,0 +1,138 @@
+/**
+ * Risk Scoring Policy Tests
+ * Validation, versioned registry and policy-driven scoring in the risk engine
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { BreathingMetrics, VoiceBiomarkers } from '../../heartvoice-monitor/src/types/clinical';
+import {
+  DEFAULT_SCORING_POLICY,
+  RiskScoringPolicy,
+  ScoringPolicyError,
+  ScoringPolicyRegistry,
+  validateScoringPolicy
+} from '../../heartvoice-monitor/src/services/scoring-policy';
+import { RiskAssessmentEngine } from '../../heartvoice-monitor/src/services/voice-processing-service';
+
+const HEALTHY_VOICE: VoiceBiomarkers = { jitter: 1.0, shimmer: 3.5, hnr: 18, f0: 120, spectralSlope: -8, voiceIntensity: 65 };
+
+function breathing(overrides: Partial<BreathingMetrics> = {}): BreathingMetrics {
+  return {
+    task: 'counting',
+    responseDuration: 6,
+    syllableCount: 14,
+    speechRate: 2.5,
+    articulationRate: 3.5,
+    wordRate: 100,
+    inhalationPauseCount: 0,
+    meanInhalationPauseDuration: 0,
+    maxInhalationPauseDuration: 0,
+    breathGroupCount: 1,
+    meanBreathGroupDuration: 5,
+    meanSyllablesPerBreathGroup: 14,
+    phonationTimeRatio: 0.8,
+    ...overrides
+  };
+}
+
+function policy(overrides: Partial<RiskScoringPolicy>): RiskScoringPolicy {
+  return { ...DEFAULT_SCORING_POLICY, version: '2.0.0', description: 'Test policy', ...overrides };
+}
+
+describe('validateScoringPolicy', () => {
+  test('should accept the default policy', () => {
+    expect(validateScoringPolicy(DEFAULT_SCORING_POLICY)).toEqual([]);
+  });
+
+  test('should report every invalid setting', () => {
+    const errors = validateScoringPolicy(policy({
+      levels: { medium: 70, high: 60, critical: 80 },
+      composite: { ...DEFAULT_SCORING_POLICY.composite, indicatorWeights: { breathlessness: 0.5, fatigue: 0.5, confusion: 0.5, anxiety: 0 } },
+      breathing: [{ feature: 'heartRate' as never, bands: [] }]
+    }));
+
+    expect(errors).toEqual([
+      'breathing[0].feature heartRate is not a breathing metric',
+      'breathing[0] needs at least one band',
+      'composite.indicatorWeights must give breathlessness, fatigue, confusion, anxiety non-negative weights summing to 1',
+      'levels require 0 < medium < high < critical <= 100'
+    ]);
+    expect(() => new RiskAssessmentEngine(undefined, policy({ levels: { medium: 70, high: 60, critical: 80 } })))
+      .toThrow(ScoringPolicyError);
+  });
+
+  test('should refuse indicator weights under other names even when they sum to 1', () => {
+    const misnamed = { shortness: 0.4, tiredness: 0.25, confusion: 0.2, anxiety: 0.15 };
+    const errors = validateScoringPolicy(policy({
+      composite: { ...DEFAULT_SCORING_POLICY.composite, indicatorWeights: misnamed as never }
+    }));
+
+    expect(errors).toEqual(['composite.indicatorWeights must give breathlessness, fatigue, confusion, anxiety non-negative weights summing to 1']);
+  });
+
+  test('should report rules, bands and conditions that are not objects instead of throwing', () => {
+    const errors = validateScoringPolicy(policy({
+      breathing: [null, { ...DEFAULT_SCORING_POLICY.breathing[0], bands: [null], requires: [null] }] as never
+    }));
+
+    expect(errors).toEqual([
+      'breathing[0] must be an object',
+      'breathing[1].bands[0] must be an object',
+      'breathing[1].requires[0] must be an object'
+    ]);
+  });
+});
+
+describe('ScoringPolicyRegistry', () => {
+  test('should register versions immutably and activate them', () => {
+    const registry = new ScoringPolicyRegistry();
+    expect(registry.getActive().version).toBe('1.0.0');
+
+    registry.register(policy({}));
+    expect(() => registry.register(policy({ description: 'Changed' }))).toThrow('already registered');
+    expect(() => registry.activate('9.9.9')).toThrow(ScoringPolicyError);
+
+    registry.activate('2.0.0');
+    expect(registry.getActive().description).toBe('Test policy');
+    expect(registry.list()).toEqual([
+      { version: '1.0.0', description: 'Initial clinical thresholds', active: false },
+      { version: '2.0.0', description: 'Test policy', active: true }
+    ]);
+  });
+
+  test('should keep the default active when the requested version is unknown', () => {
+    const registry = new ScoringPolicyRegistry({ activeVersion: 'missing' });
+    expect(registry.getActive()).toBe(DEFAULT_SCORING_POLICY);
+  });
+});
+
+describe('RiskAssessmentEngine with a scoring policy', () => {
+  test('should score breathing with the default bands', () => {
+    const result = new RiskAssessmentEngine().calculateRiskScore(
+      HEALTHY_VOICE,
+      breathing({ inhalationPauseCount: 3, breathGroupCount: 4, meanBreathGroupDuration: 1.5 })
+    );
+
+    expect(result.score).toBe(25);
+    expect(result.factors).toEqual([
+      'Extra breaths needed while counting to ten',
+      'Short breath groups suggesting dyspnea'
+    ]);
+  });
+
+  test('should apply the level boundaries and bands of a custom policy', () => {
+    const custom = policy({
+      breathing: [{ feature: 'inhalationPauseCount', bands: [{ gte: 3, points: 40, factor: 'Three or more breaths' }] }],
+      levels: { medium: 20, high: 40, critical: 90 }
+    });
+    const engine = new RiskAssessmentEngine(undefined, custom);
+    const result = engine.calculateRiskScore(HEALTHY_VOICE, breathing({ inhalationPauseCount: 3 }));
+
+    expect(engine.policyVersion).toBe('2.0.0');
+    expect(result.score).toBe(40);
+    expect(result.level).toBe('high');
+    expect(result.factors).toEqual(['Three or more breaths']);
+    expect(engine.shouldGenerateAlert(85)).toBe(true);
+    expect(engine.shouldGenerateAlert(85, 70)).toBe(false);
+  });
+});
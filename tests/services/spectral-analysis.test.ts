@@ -0,0 +1,81 @@
+/**
+ * Spectral Analysis Tests
+ * Extended acoustic feature set on a synthetic vowel
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  ACOUSTIC_FEATURE_SET_VERSION,
+  SpectralAnalyzer,
+  fitSpectralSlope
+} from '../../heartvoice-monitor/src/services/spectral-analysis';
+import { PitchTracker } from '../../heartvoice-monitor/src/services/acoustic-analysis';
+
+const SAMPLE_RATE = 8000;
+
+// Impulse train at 120 Hz through three resonators (an /a/-like vowel)
+function synthesizeVowel(formants: number[], seconds = 1): Float32Array {
+  let signal = new Float64Array(Math.round(seconds * SAMPLE_RATE));
+  const period = Math.round(SAMPLE_RATE / 120);
+  for (let i = 0; i < signal.length; i += period) signal[i] = 1;
+
+  for (const frequency of formants) {
+    const radius = Math.exp((-Math.PI * 80) / SAMPLE_RATE);
+    const theta = (2 * Math.PI * frequency) / SAMPLE_RATE;
+    const a1 = 2 * radius * Math.cos(theta);
+    const a2 = -radius * radius;
+    const filtered = new Float64Array(signal.length);
+    for (let i = 0; i < signal.length; i++) {
+      filtered[i] = signal[i] + a1 * (filtered[i - 1] ?? 0) + a2 * (filtered[i - 2] ?? 0);
+    }
+    signal = filtered;
+  }
+
+  const peak = Math.max(...Array.from(signal, Math.abs));
+  return Float32Array.from(signal, value => (0.8 * value) / peak);
+}
+
+function whiteNoise(seconds = 1): Float32Array {
+  let seed = 3;
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  });
+}
+
+describe('SpectralAnalyzer', () => {
+  const analyzer = new SpectralAnalyzer();
+
+  test('should locate the first formants of a synthetic vowel', () => {
+    const samples = synthesizeVowel([700, 1200, 2600]);
+    const pitchFrames = new PitchTracker().trackPitch(samples, SAMPLE_RATE);
+    const { features } = analyzer.analyze(samples, SAMPLE_RATE, pitchFrames);
+
+    expect(features.version).toBe(ACOUSTIC_FEATURE_SET_VERSION);
+    expect(Math.abs(features.formants.f1 - 700)).toBeLessThan(100);
+    expect(Math.abs(features.formants.f2 - 1200)).toBeLessThan(150);
+    expect(Math.abs(features.formants.f3 - 2600)).toBeLessThan(200);
+  });
+
+  test('should give a higher cepstral peak prominence for voice than for noise', () => {
+    const voice = analyzer.analyze(synthesizeVowel([700, 1200, 2600]), SAMPLE_RATE).features;
+    const noise = analyzer.analyze(whiteNoise(), SAMPLE_RATE).features;
+
+    expect(voice.cpp).toBeGreaterThan(noise.cpp + 5);
+    expect(voice.cpps).toBeGreaterThan(noise.cpps);
+  });
+
+  test('should return 13 MFCC means and variances and a full LTAS', () => {
+    const { features } = analyzer.analyze(synthesizeVowel([700, 1200, 2600]), SAMPLE_RATE);
+
+    expect(features.mfccMeans).toHaveLength(13);
+    expect(features.mfccVariances).toHaveLength(13);
+    expect(features.ltas.levels).toHaveLength(16);
+  });
+
+  test('should fit a falling slope to a falling spectrum', () => {
+    const bands = [500, 1000, 1500, 2000, 2500, 3000].map(frequency => ({ frequency, level: -10 * (frequency / 1000) }));
+
+    expect(fitSpectralSlope(bands)).toBeCloseTo(-10, 5);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Speech Segmentation Tests
+ * Voice activity detection and per-prompt tagging of call audio
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { DecodedAudio } from '../../heartvoice-monitor/src/services/audio-decoder';
+import { CallSegmenter, VoiceActivityDetector } from '../../heartvoice-monitor/src/services/speech-segmentation';
+
+const SAMPLE_RATE = 8000;
+
+// Speech stand-in: a tone burst over a quiet noise bed, placed at the given [start, end] spans
+function synthesizeChannel(duration: number, spans: [number, number][]): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  let seed = 11;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    samples[i] = 0.001 * (seed / 2147483647 - 0.5);
+  }
+  for (const [start, end] of spans) {
+    for (let i = Math.round(start * SAMPLE_RATE); i < Math.round(end * SAMPLE_RATE); i++) {
+      samples[i] += 0.5 * Math.sin((2 * Math.PI * 180 * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+function toAudio(channelData: Float32Array[]): DecodedAudio {
+  return {
+    samples: channelData[0],
+    sampleRate: SAMPLE_RATE,
+    channelData,
+    duration: channelData[0].length / SAMPLE_RATE,
+    sourceFormat: 'wav-pcm'
+  };
+}
+
+describe('VoiceActivityDetector', () => {
+  test('should find speech spans and skip silence', () => {
+    const segments = new VoiceActivityDetector().detect(synthesizeChannel(5, [[1, 2], [3, 3.5]]), SAMPLE_RATE);
+
+    expect(segments).toHaveLength(2);
+    // Segments are padded by 50 ms either side
+    expect(Math.abs(segments[0].start - 1)).toBeLessThan(0.1);
+    expect(Math.abs(segments[0].end - 2)).toBeLessThan(0.1);
+    expect(Math.abs(segments[1].start - 3)).toBeLessThan(0.1);
+  });
+
+  test('should bridge short pauses and drop clicks', () => {
+    const segments = new VoiceActivityDetector().detect(
+      synthesizeChannel(4, [[0.5, 1], [1.1, 1.5], [3, 3.05]]),
+      SAMPLE_RATE
+    );
+
+    expect(segments).toHaveLength(1);
+    expect(Math.abs(segments[0].end - 1.5)).toBeLessThan(0.1);
+  });
+});
+
+describe('CallSegmenter', () => {
+  test('should tag patient answers with the question asked before them', () => {
+    // Agent: greeting + first question (1 s pause), second question, third question, sign-off
+    const agent = synthesizeChannel(30, [[0, 3], [4, 6], [9, 11], [17, 19], [25, 27]]);
+    // Patient: "hello" over the greeting, then one answer per question
+    const patient = synthesizeChannel(30, [[1, 1.5], [6.5, 8], [11.5, 16], [19.5, 24]]);
+
+    const result = new CallSegmenter().segmentCall(toAudio([agent, patient]));
+
+    expect(result.patientChannel).toBe(1);
+    expect(result.patientSegments.map(segment => segment.task)).toEqual(['energy', 'breathing', 'counting']);
+  });
+
+  test('should trim a single-prompt recording and tag it with that prompt', () => {
+    const audio = toAudio([synthesizeChannel(6, [[1, 4]])]);
+    const segments = new CallSegmenter().segmentResponse(audio, 'counting');
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].task).toBe('counting');
+  });
+});
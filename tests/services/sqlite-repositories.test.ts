@@ -0,0 +1,199 @@
+/**
+ * SQLite Repository Tests
+ * Schema migrations and the SQLite repositories against an in-memory database
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import Database from 'better-sqlite3';
+import { ClinicalAlert, Patient } from '../../heartvoice-monitor/src/types/clinical';
+import { migrate, MIGRATIONS, openDatabase } from '../../heartvoice-monitor/src/services/database';
+import { SqlitePatientRepository } from '../../heartvoice-monitor/src/services/sqlite-patient-repository';
+import { SqliteAssessmentRepository } from '../../heartvoice-monitor/src/services/sqlite-assessment-repository';
+import { SqliteAlertRepository } from '../../heartvoice-monitor/src/services/sqlite-alert-repository';
+import { SqliteOutcomeRepository } from '../../heartvoice-monitor/src/services/sqlite-outcome-repository';
+import { SqliteScoringModelRepository } from '../../heartvoice-monitor/src/services/sqlite-scoring-model-repository';
+import { SqliteSystemAlertRepository } from '../../heartvoice-monitor/src/services/sqlite-system-alert-repository';
+import { DEFAULT_SCORING_POLICY } from '../../heartvoice-monitor/src/services/scoring-policy';
+import { makeAssessment } from '../utils/fixtures';
+
+function patient(id: string, firstName = 'Test'): Patient {
+  return {
+    id,
+    demographics: { firstName, mrn: `MRN-${id}` },
+    currentRisk: { level: 'low' }
+  } as Patient;
+}
+
+function alert(id: string, patientId: string, overrides: Partial<ClinicalAlert> = {}): ClinicalAlert {
+  return {
+    id,
+    patientId,
+    assessmentId: `assessment-${id}`,
+    type: 'high',
+    priority: 'urgent',
+    message: 'Risk score above threshold',
+    detailedDescription: 'Risk score above threshold',
+    createdAt: '2025-09-01T09:00:00.000Z',
+    status: 'active',
+    escalationLevel: 0,
+    requiredActions: [],
+    ...overrides
+  };
+}
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = openDatabase(':memory:');
+});
+
+describe('migrate', () => {
+  test('should apply every migration once and nothing on a second run', () => {
+    const versions = (db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as { version: number }[])
+      .map(row => row.version);
+
+    expect(versions).toEqual(MIGRATIONS.map(migration => migration.version));
+    expect(migrate(db)).toEqual([]);
+  });
+});
+
+describe('SqlitePatientRepository', () => {
+  test('should insert, replace on save and list in creation order', () => {
+    const repository = new SqlitePatientRepository(db);
+    repository.save(patient('p1'));
+    repository.save(patient('p2'));
+    repository.save(patient('p1', 'Updated'));
+
+    expect(repository.list().map(item => [item.id, item.demographics.firstName])).toEqual([
+      ['p1', 'Updated'],
+      ['p2', 'Test']
+    ]);
+    expect(repository.get('p2')!.demographics.mrn).toBe('MRN-p2');
+    expect(repository.get('missing')).toBeNull();
+  });
+});
+
+describe('SqliteAssessmentRepository', () => {
+  const stored = [
+    makeAssessment({ id: 'a3', patientId: 'p1', timestamp: '2025-03-01T09:00:00.000Z', riskScore: 70, riskLevel: 'high' }),
+    makeAssessment({ id: 'a1', patientId: 'p1', timestamp: '2025-01-01T09:00:00.000Z', riskLevel: 'medium' }),
+    makeAssessment({ id: 'a2', patientId: 'p1', timestamp: '2025-02-01T09:00:00.000Z', callStatus: 'failed' }),
+    makeAssessment({ id: 'b1', patientId: 'p2', timestamp: '2025-02-15T04:00:00-05:00', riskLevel: 'medium' })
+  ];
+
+  function repositoryWith(): SqliteAssessmentRepository {
+    const patients = new SqlitePatientRepository(db);
+    patients.save(patient('p1'));
+    patients.save(patient('p2'));
+    const repository = new SqliteAssessmentRepository(db);
+    stored.forEach(item => repository.save(item));
+    return repository;
+  }
+
+  test('should filter by patient, time range, call status and risk level, oldest first', () => {
+    const repository = repositoryWith();
+
+    expect(repository.find({ patientId: 'p1' }).map(item => item.id)).toEqual(['a1', 'a2', 'a3']);
+    expect(repository.find({ from: '2025-02-01', to: '2025-02-28' }).map(item => item.id)).toEqual(['a2', 'b1']);
+    expect(repository.find({ patientId: 'p1', callStatus: 'failed' }).map(item => item.id)).toEqual(['a2']);
+    expect(repository.find({ riskLevel: 'medium' }).map(item => item.id)).toEqual(['a1', 'b1']);
+  });
+
+  test('should page newest first with the total across pages', () => {
+    const repository = repositoryWith();
+    const first = repository.findPage({ patientId: 'p1' }, 2, 0);
+
+    expect(first).toEqual(expect.objectContaining({ total: 3, limit: 2, offset: 0 }));
+    expect(first.assessments.map(item => item.id)).toEqual(['a3', 'a2']);
+    expect(repository.findPage({ patientId: 'p1' }, 2, 2).assessments.map(item => item.id)).toEqual(['a1']);
+  });
+
+  test('should update the indexed columns when an assessment is saved again', () => {
+    const repository = repositoryWith();
+    repository.save({ ...stored[0], riskScore: 20, riskLevel: 'low' });
+
+    expect(repository.find({ patientId: 'p1' })).toHaveLength(3);
+    expect(repository.find({ riskLevel: 'high' })).toEqual([]);
+    expect(repository.find({ riskLevel: 'low' }).map(item => item.riskScore)).toEqual([20]);
+  });
+
+  test('should refuse assessments for patients that are not stored', () => {
+    const repository = new SqliteAssessmentRepository(db);
+
+    expect(() => repository.save(makeAssessment({ patientId: 'unknown' }))).toThrow(/FOREIGN KEY/);
+  });
+});
+
+describe('SqliteAlertRepository', () => {
+  test('should update status on save and list in creation order', () => {
+    const repository = new SqliteAlertRepository(db);
+    repository.save(alert('alert-1', 'p1'));
+    repository.save(alert('alert-2', 'p2'));
+    repository.save(alert('alert-1', 'p1', { status: 'acknowledged', acknowledgedBy: 'Dr. Smith' }));
+
+    expect(repository.list().map(item => [item.id, item.status])).toEqual([
+      ['alert-1', 'acknowledged'],
+      ['alert-2', 'active']
+    ]);
+    expect(repository.get('alert-1')!.acknowledgedBy).toBe('Dr. Smith');
+    expect(db.prepare('SELECT status FROM alerts WHERE id = ?').get('alert-1')).toEqual({ status: 'acknowledged' });
+    expect(repository.get('missing')).toBeNull();
+  });
+});
+
+describe('SqliteOutcomeRepository', () => {
+  test('should list outcomes in order of recording, for one patient or all', () => {
+    const patients = new SqlitePatientRepository(db);
+    patients.save(patient('p1'));
+    patients.save(patient('p2'));
+    const repository = new SqliteOutcomeRepository(db);
+    repository.add({ patientId: 'p1', type: 'ed-visit', date: '2025-03-01' });
+    repository.add({ patientId: 'p2', type: 'hf-hospitalization', date: '2025-01-15' });
+    repository.add({ patientId: 'p1', type: 'hf-hospitalization', date: '2025-02-01' });
+
+    expect(repository.list('p1').map(outcome => outcome.date)).toEqual(['2025-03-01', '2025-02-01']);
+    expect(repository.list()).toHaveLength(3);
+    expect(() => repository.add({ patientId: 'unknown', type: 'ed-visit', date: '2025-03-01' })).toThrow(/FOREIGN KEY/);
+  });
+});
+
+describe('SqliteScoringModelRepository', () => {
+  test('should keep one record per kind and version, updating its status in place', () => {
+    const repository = new SqliteScoringModelRepository(db);
+    const policy = { ...DEFAULT_SCORING_POLICY, version: '2.0.0' };
+    repository.save({ kind: 'policy', version: '2.0.0', status: 'draft', policy });
+    repository.save({ kind: 'policy', version: DEFAULT_SCORING_POLICY.version, status: 'retired' });
+    repository.save({ kind: 'policy', version: '2.0.0', status: 'active', policy });
+
+    expect(repository.list().map(record => [record.version, record.status])).toEqual([
+      ['2.0.0', 'active'],
+      [DEFAULT_SCORING_POLICY.version, 'retired']
+    ]);
+    expect(repository.get('policy', '2.0.0')).toEqual({ kind: 'policy', version: '2.0.0', status: 'active', policy });
+    expect(repository.get('model', '2.0.0')).toBeNull();
+  });
+});
+
+describe('SqliteSystemAlertRepository', () => {
+  test('should update status on save and list in creation order', () => {
+    const repository = new SqliteSystemAlertRepository(db);
+    const raised = {
+      id: 'system-alert-1',
+      source: 'model-monitoring' as const,
+      scoreSource: 'policy' as const,
+      condition: 'overall:auroc',
+      message: 'Risk score: AUROC overall is 0.6, below the bound of 0.65 (3-month window)',
+      createdAt: '2025-06-01T00:00:00.000Z',
+      status: 'active' as const
+    };
+    repository.save(raised);
+    repository.save({ ...raised, id: 'system-alert-2', condition: 'North Clinic:alertPpv' });
+    repository.save({ ...raised, status: 'resolved', resolvedAt: '2025-06-02T00:00:00.000Z' });
+
+    expect(repository.list().map(item => [item.id, item.status])).toEqual([
+      ['system-alert-1', 'resolved'],
+      ['system-alert-2', 'active']
+    ]);
+    expect(db.prepare('SELECT status FROM system_alerts WHERE id = ?').get('system-alert-1')).toEqual({ status: 'resolved' });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Risk Trend Tests
+ * Slope-with-confidence trend detection over a patient's assessment history
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+import { TrendAnalyzer } from '../../heartvoice-monitor/src/services/trend-analysis';
+import { PatientService } from '../../heartvoice-monitor/src/services/patient-service';
+import { DAY_MS, makeAssessment, riskLevelFor } from '../utils/fixtures';
+
+const NOW = new Date('2025-09-10T12:00:00Z');
+
+function assessment(daysAgo: number, riskScore: number, overrides: Partial<VoiceAssessment> = {}, reference: Date = NOW): VoiceAssessment {
+  return makeAssessment({
+    id: `assessment-${daysAgo}`,
+    patientId: 'patient-003',
+    timestamp: new Date(reference.getTime() - daysAgo * DAY_MS).toISOString(),
+    riskScore,
+    riskLevel: riskLevelFor(riskScore),
+    ...overrides
+  });
+}
+
+describe('TrendAnalyzer', () => {
+  test('should detect a deteriorating trend and record the evidence window', () => {
+    const history = [assessment(12, 30), assessment(9, 36), assessment(6, 41), assessment(3, 49), assessment(0, 55)];
+    const { trend, evidence } = new TrendAnalyzer().analyze(history, NOW);
+
+    expect(trend).toBe('deteriorating');
+    expect(evidence.slopePerWeek).toBeGreaterThan(10);
+    expect(evidence.confidenceInterval[0]).toBeGreaterThan(0);
+    expect(evidence.assessmentIds).toEqual(['assessment-12', 'assessment-9', 'assessment-6', 'assessment-3', 'assessment-0']);
+    expect(evidence.windowStart).toBe(history[0].timestamp);
+  });
+
+  test('should detect an improving trend', () => {
+    const history = [assessment(12, 70), assessment(8, 62), assessment(4, 51), assessment(0, 44)];
+    expect(new TrendAnalyzer().analyze(history, NOW).trend).toBe('improving');
+  });
+
+  test('should call noisy or flat histories stable', () => {
+    const noisy = [assessment(12, 30), assessment(9, 60), assessment(6, 25), assessment(3, 65), assessment(0, 35)];
+    const flat = [assessment(12, 40), assessment(8, 41), assessment(4, 40), assessment(0, 42)];
+
+    expect(new TrendAnalyzer().analyze(noisy, NOW).trend).toBe('stable');
+    expect(new TrendAnalyzer().analyze(flat, NOW).trend).toBe('stable');
+  });
+
+  test('should ignore unscored and out-of-window assessments', () => {
+    const history = [
+      assessment(60, 90),
+      assessment(6, 30),
+      assessment(3, 80, { callStatus: 'partial', qualityMetrics: { audioQuality: 20, backgroundNoise: 80, completeness: 30, usable: false } }),
+      assessment(0, 32)
+    ];
+    const { trend, evidence } = new TrendAnalyzer().analyze(history, NOW);
+
+    expect(trend).toBe('stable');
+    expect(evidence.assessmentIds).toEqual(['assessment-6', 'assessment-0']);
+  });
+});
+
+describe('PatientService.recordAssessment', () => {
+  test('should derive current risk and trend from recorded assessments', async () => {
+    const service = new PatientService();
+    const days = [12, 9, 6, 3, 0];
+    const scores = [30, 38, 45, 52, 61];
+    let patient = null;
+
+    // The trend window is anchored at the time of recording
+    for (let i = 0; i < days.length; i++) {
+      patient = await service.recordAssessment(assessment(days[i], scores[i], {}, new Date()));
+    }
+
+    expect(patient!.currentRisk.score).toBe(61);
+    expect(patient!.currentRisk.level).toBe('high');
+    expect(patient!.currentRisk.trend).toBe('deteriorating');
+    expect(patient!.currentRisk.trendEvidence!.assessmentIds).toHaveLength(5);
+    expect(await service.getPatientsRequiringAttention()).toContainEqual(patient);
+  });
+
+  test('should follow the trend of answers to the same prompt only', async () => {
+    const service = new PatientService();
+    let patient = null;
+
+    // Counting answers deteriorate while each call's energy answer stays low
+    for (const [i, daysAgo] of [12, 9, 6, 3, 0].entries()) {
+      await service.recordAssessment(assessment(daysAgo, 20, { id: `energy-${daysAgo}`, task: 'energy' }, new Date()));
+      patient = await service.recordAssessment(assessment(daysAgo, 30 + i * 8, { id: `counting-${daysAgo}`, task: 'counting' }, new Date()));
+    }
+
+    expect(patient!.currentRisk.trend).toBe('deteriorating');
+    expect(patient!.currentRisk.trendEvidence!.assessmentIds).toEqual(['counting-12', 'counting-9', 'counting-6', 'counting-3', 'counting-0']);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Shared Test Fixtures
+ * Builders for the clinical records the service and API tests share
+ */
+
+import { RiskLevel, VoiceAssessment } from '../../heartvoice-monitor/src/types/clinical';
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+// The engine's default cut-offs, for fixtures whose level should follow their score
+export function riskLevelFor(riskScore: number): RiskLevel {
+  return riskScore >= 80 ? 'critical' : riskScore >= 60 ? 'high' : riskScore >= 35 ? 'medium' : 'low';
+}
+
+// A usable, completed call; tests override only the fields they exercise
+export function makeAssessment(overrides: Partial<VoiceAssessment> = {}): VoiceAssessment {
+  const id = overrides.id ?? 'assessment-1';
+  return {
+    id,
+    patientId: 'patient-001',
+    sessionId: `session-${id}`,
+    timestamp: '2025-09-01T09:00:00.000Z',
+    callDuration: 120,
+    callStatus: 'completed',
+    qualityMetrics: { audioQuality: 90, backgroundNoise: 10, completeness: 100, usable: true },
+    riskScore: 0,
+    alertGenerated: false,
+    ...overrides
+  };
+}